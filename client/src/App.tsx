@@ -7,7 +7,7 @@ import { SidebarProvider, SidebarTrigger } from "@/components/ui/sidebar";
 import { AppSidebar } from "@/components/app-sidebar";
 import { AuthProvider, useAuth } from "@/lib/auth";
 import { SettingsProvider } from "@/lib/settings-context";
-import { Loader2, LogOut, Search, Package, ShoppingCart, Users, Zap } from "lucide-react";
+import { Loader2, LogOut, Search, Package, ShoppingCart, Users, Zap, FileText } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import {
@@ -31,7 +31,18 @@ import DashboardPage from "@/pages/dashboard";
 import InventoryPage from "@/pages/inventory";
 import OrdersPage from "@/pages/orders";
 import OrderDetailPage from "@/pages/order-detail";
+import BackordersPage from "@/pages/backorders";
+import QuotationsPage from "@/pages/quotations";
+import QuotationDetailPage from "@/pages/quotation-detail";
+import CustomersPage from "@/pages/customers";
+import CustomerDetailPage from "@/pages/customer-detail";
+import SuppliersPage from "@/pages/suppliers";
+import PurchaseOrdersPage from "@/pages/purchase-orders";
+import PurchaseOrderDetailPage from "@/pages/purchase-order-detail";
 import BillingPage from "@/pages/billing";
+import ShiftsPage from "@/pages/shifts";
+import ReconciliationPage from "@/pages/reconciliation";
+import ReconciliationDetailPage from "@/pages/reconciliation-detail";
 import UsersPage from "@/pages/users";
 import AccountingPage from "@/pages/accounting";
 import ReportsPage from "@/pages/reports";
@@ -40,6 +51,7 @@ import AboutPage from "@/pages/about";
 import HelpPage from "@/pages/help";
 import SystemLogsPage from "@/pages/system-logs";
 import MaintenancePage from "@/pages/maintenance";
+import TrackOrderPage from "@/pages/track";
 
 function Router() {
   return (
@@ -48,8 +60,19 @@ function Router() {
       <Route path="/inventory" component={InventoryPage} />
       <Route path="/orders" component={OrdersPage} />
       <Route path="/orders/:id" component={OrderDetailPage} />
+      <Route path="/backorders" component={BackordersPage} />
+      <Route path="/purchase-orders" component={PurchaseOrdersPage} />
+      <Route path="/purchase-orders/:id" component={PurchaseOrderDetailPage} />
+      <Route path="/quotations" component={QuotationsPage} />
+      <Route path="/quotations/:id" component={QuotationDetailPage} />
+      <Route path="/customers" component={CustomersPage} />
+      <Route path="/customers/:id" component={CustomerDetailPage} />
       <Route path="/billing" component={BillingPage} />
+      <Route path="/shifts" component={ShiftsPage} />
+      <Route path="/reconciliation" component={ReconciliationPage} />
+      <Route path="/reconciliation/:id" component={ReconciliationDetailPage} />
       <Route path="/users" component={UsersPage} />
+      <Route path="/suppliers" component={SuppliersPage} />
       <Route path="/accounting" component={AccountingPage} />
       <Route path="/reports" component={ReportsPage} />
       <Route path="/settings" component={SettingsPage} />
@@ -63,7 +86,7 @@ function Router() {
 }
 
 interface SearchResult {
-  type: "item" | "order" | "customer";
+  type: "item" | "order" | "customer" | "quotation";
   id: string;
   label: string;
   sublabel: string;
@@ -129,12 +152,14 @@ function GlobalSearch() {
     setQuery("");
     if (result.type === "item") navigate("/inventory");
     else if (result.type === "order") navigate(`/orders/${result.id}`);
-    else if (result.type === "customer") navigate("/orders");
+    else if (result.type === "quotation") navigate(`/quotations/${result.id}`);
+    else if (result.type === "customer") navigate(`/customers/${result.id}`);
   }
 
   const typeIcon = (type: string) => {
     if (type === "item") return <Package className="h-3.5 w-3.5 text-muted-foreground shrink-0" />;
     if (type === "order") return <ShoppingCart className="h-3.5 w-3.5 text-muted-foreground shrink-0" />;
+    if (type === "quotation") return <FileText className="h-3.5 w-3.5 text-muted-foreground shrink-0" />;
     return <Users className="h-3.5 w-3.5 text-muted-foreground shrink-0" />;
   };
 
@@ -364,9 +389,14 @@ function App() {
   return (
     <QueryClientProvider client={queryClient}>
       <TooltipProvider>
-        <AuthProvider>
-          <AppContent />
-        </AuthProvider>
+        <Switch>
+          <Route path="/track/:trackingNumber?" component={TrackOrderPage} />
+          <Route>
+            <AuthProvider>
+              <AppContent />
+            </AuthProvider>
+          </Route>
+        </Switch>
         <Toaster />
       </TooltipProvider>
     </QueryClientProvider>
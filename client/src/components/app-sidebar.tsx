@@ -4,6 +4,8 @@ import {
   LayoutDashboard,
   Package,
   ShoppingCart,
+  PackageX,
+  FileText,
   CreditCard,
   BookOpen,
   BarChart3,
@@ -14,6 +16,11 @@ import {
   HelpCircle,
   Info,
   Hammer,
+  Scale,
+  Contact,
+  Timer,
+  Truck,
+  ClipboardList,
 } from "lucide-react";
 import { Badge } from "@/components/ui/badge";
 import {
@@ -35,14 +42,21 @@ import { useSettings, GRADIENT_OPTIONS } from "@/lib/settings-context";
 const mainNavItems = [
   { title: "Dashboard", url: "/", icon: LayoutDashboard },
   { title: "Inventory", url: "/inventory", icon: Package },
+  { title: "Quotations", url: "/quotations", icon: FileText },
   { title: "Orders", url: "/orders", icon: ShoppingCart },
+  { title: "Customers", url: "/customers", icon: Contact },
+  { title: "Backorders", url: "/backorders", icon: PackageX },
   { title: "Billing", url: "/billing", icon: CreditCard },
+  { title: "Shifts", url: "/shifts", icon: Timer },
   { title: "Accounting", url: "/accounting", icon: BookOpen },
   { title: "Reports", url: "/reports", icon: BarChart3 },
 ];
 
 const adminNavItems = [
   { title: "Users", url: "/users", icon: Users },
+  { title: "Suppliers", url: "/suppliers", icon: Truck },
+  { title: "Purchase Orders", url: "/purchase-orders", icon: ClipboardList },
+  { title: "Reconciliation", url: "/reconciliation", icon: Scale },
   { title: "Settings", url: "/settings", icon: Settings },
   { title: "Maintenance", url: "/maintenance", icon: Wrench },
   { title: "System Logs", url: "/system-logs", icon: ScrollText },
@@ -161,7 +161,7 @@ const ADMIN_STEPS: TutorialStep[] = [
     path: "/billing",
     target: "[data-testid='button-toggle-search']",
     title: "Billing & Payments",
-    narration: "The Billing page shows all payment records. Click the search button to search by date range, order ID, GCash number, or reference number. Click on any payment to see the full order details.",
+    narration: "The Billing page shows all payment records. Click the search button to search by date range, order ID, payment method, account number, or reference number. Click on any payment to see the full order details.",
     mp3File: "tut10.mp3",
     actions: [
       { triggerTime: 0.3, type: "navigate", target: "[data-testid='nav-billing']" },
@@ -374,7 +374,7 @@ const EMPLOYEE_STEPS: TutorialStep[] = [
     path: "/billing",
     target: "[data-testid='button-toggle-search']",
     title: "Billing",
-    narration: "The Billing page shows all payments. Click the search button to search by date, order ID, GCash number, or reference number. Click any record to see the full order.",
+    narration: "The Billing page shows all payments. Click the search button to search by date, order ID, payment method, account number, or reference number. Click any record to see the full order.",
     mp3File: "tut9.mp3",
     actions: [
       { triggerTime: 0.3, type: "navigate", target: "[data-testid='nav-billing']" },
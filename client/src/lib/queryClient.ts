@@ -18,22 +18,51 @@ async function throwIfResNotOk(res: Response) {
   }
 }
 
+function newKey() {
+  if (typeof crypto !== "undefined" && typeof crypto.randomUUID === "function") return crypto.randomUUID();
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}${Math.random().toString(36).slice(2)}`;
+}
+
+// Order and payment forms send an Idempotency-Key so the server replays the
+// first response instead of posting twice. A form keeps one key per submission
+// and sends it again only to retry that submission after a dropped connection
+// or a server error; once the server has answered, the next submit is a new
+// sale and gets a new key. A 409 about the key itself means the first attempt
+// may still go through, so the key is kept for that too.
+export function createSubmissionKey() {
+  let key: string | null = null;
+  return {
+    get: () => (key ??= newKey()),
+    settle: (err?: Error) => {
+      const status = err && /^(\d{3}):/.exec(err.message)?.[1];
+      const keyInFlight = status === "409" && err!.message.includes("Idempotency-Key");
+      const retryable = !!err && (!status || Number(status) >= 500 || keyInFlight);
+      if (!retryable) key = null;
+    },
+  };
+}
+
 export async function apiRequest(
   method: string,
   url: string,
   data?: unknown | undefined,
+  options?: { idempotencyKey?: string },
 ): Promise<Response> {
   const headers: Record<string, string> = {
     ...getAuthHeaders(),
   };
-  if (data) {
+  // FormData goes as multipart; the browser sets the boundary header itself.
+  const isForm = data instanceof FormData;
+  if (data && !isForm) {
     headers["Content-Type"] = "application/json";
   }
+  const body = isForm ? data : data ? JSON.stringify(data) : undefined;
+  if (options?.idempotencyKey) headers["Idempotency-Key"] = options.idempotencyKey;
 
   const res = await fetch(url, {
     method,
     headers,
-    body: data ? JSON.stringify(data) : undefined,
+    body,
     credentials: "include",
   });
 
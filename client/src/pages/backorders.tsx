@@ -0,0 +1,114 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { PackageX, Search } from "lucide-react";
+import type { IBackorder } from "@shared/schema";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Skeleton } from "@/components/ui/skeleton";
+
+export default function BackordersPage() {
+  const [, navigate] = useLocation();
+  const [search, setSearch] = useState("");
+
+  const { data, isLoading } = useQuery<{ success: boolean; data: IBackorder[] }>({
+    queryKey: ["/api/backorders"],
+  });
+  const backorders = data?.data || [];
+
+  const filtered = search
+    ? backorders.filter(
+        (b) =>
+          b.trackingNumber.toLowerCase().includes(search.toLowerCase()) ||
+          b.customerName.toLowerCase().includes(search.toLowerCase()) ||
+          b.itemName.toLowerCase().includes(search.toLowerCase())
+      )
+    : backorders;
+  const totalOutstanding = backorders.reduce((sum, b) => sum + b.outstanding, 0);
+  const formatDate = (d: string) => new Date(d).toLocaleDateString("en-PH", { year: "numeric", month: "short", day: "numeric" });
+
+  if (isLoading) {
+    return (
+      <div className="p-3 sm:p-6 space-y-4 sm:space-y-6 overflow-auto h-full">
+        <h1 className="text-xl sm:text-2xl font-bold">Backorders</h1>
+        <Skeleton className="h-10 w-full" />
+        <Skeleton className="h-64 w-full" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-3 sm:p-6 space-y-4 sm:space-y-6 overflow-auto h-full">
+      <div className="flex items-center justify-between gap-2 sm:gap-4 flex-wrap">
+        <h1 className="text-xl sm:text-2xl font-bold" data-testid="text-backorders-title">Backorders</h1>
+        <Badge variant="secondary" data-testid="text-backorder-units">{totalOutstanding} units outstanding</Badge>
+      </div>
+
+      <div className="relative max-w-sm">
+        <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+        <Input
+          placeholder="Search by order, customer or item..."
+          className="pl-9"
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          data-testid="input-search-backorders"
+        />
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base flex items-center gap-2">
+            <PackageX className="h-4 w-4" /> Waiting for Stock
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="p-0">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Order</TableHead>
+                <TableHead>Customer</TableHead>
+                <TableHead>Item</TableHead>
+                <TableHead className="text-right">Ordered</TableHead>
+                <TableHead className="text-right">Released</TableHead>
+                <TableHead className="text-right">Outstanding</TableHead>
+                <TableHead className="text-right">Available Now</TableHead>
+                <TableHead>Order Date</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {filtered.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={8} className="text-center text-muted-foreground py-8">
+                    No backorders
+                  </TableCell>
+                </TableRow>
+              ) : (
+                filtered.map((b) => (
+                  <TableRow
+                    key={`${b.orderId}-${b.itemId}`}
+                    className="cursor-pointer"
+                    onClick={() => navigate(`/orders/${b.orderId}`)}
+                    data-testid={`row-backorder-${b.orderId}-${b.itemId}`}
+                  >
+                    <TableCell className="font-mono text-sm">{b.trackingNumber}</TableCell>
+                    <TableCell>{b.customerName}</TableCell>
+                    <TableCell className="font-medium">{b.itemName}</TableCell>
+                    <TableCell className="text-right">{b.ordered}</TableCell>
+                    <TableCell className="text-right">{b.released}</TableCell>
+                    <TableCell className="text-right font-medium text-destructive">{b.outstanding}</TableCell>
+                    <TableCell className="text-right">
+                      {b.available > 0 ? <Badge className="bg-green-600 text-white border-transparent">{b.available}</Badge> : <span className="text-muted-foreground">0</span>}
+                    </TableCell>
+                    <TableCell className="text-muted-foreground">{formatDate(b.orderedAt)}</TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -1,5 +1,5 @@
-import { useState, useMemo, useRef, useEffect } from "react";
-import { useQuery } from "@tanstack/react-query";
+import { useState, useMemo, useEffect } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
 import { Link } from "wouter";
 import {
   CreditCard,
@@ -14,8 +14,21 @@ import {
   FileText,
   X,
   ChevronDown,
+  Wallet,
+  Banknote,
+  Ban,
+  CheckCircle2,
+  XCircle,
+  ShieldCheck,
+  Flag,
+  Paperclip,
+  ArrowUpDown,
+  User,
 } from "lucide-react";
-import type { IBillingPayment, DashboardStats } from "@shared/schema";
+import { PAYMENT_METHODS, paymentReference, billingQueryString, type BillingQuery, type IBillingPayment, type IBillingSearchResult, type IOrder, type IPaymentVoidRequest, type DashboardStats, type PaymentMethodType } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useAuth } from "@/lib/auth";
+import { useToast } from "@/hooks/use-toast";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -33,32 +46,102 @@ import {
   DialogContent,
   DialogHeader,
   DialogTitle,
+  DialogDescription,
+  DialogFooter,
 } from "@/components/ui/dialog";
+import { Textarea } from "@/components/ui/textarea";
 import { Skeleton } from "@/components/ui/skeleton";
 
-type SearchTab = "date" | "orderId" | "gcash" | "reference";
+const PAGE_SIZE = 20;
+
+const EMPTY_FILTERS = {
+  dateMode: "single" as "single" | "range",
+  singleDate: "",
+  dateFrom: "",
+  dateTo: "",
+  minAmount: "",
+  maxAmount: "",
+  paymentMethod: "",
+  loggedBy: "",
+  trackingNumber: "",
+  accountNumber: "",
+  reference: "",
+};
+type BillingFilters = typeof EMPTY_FILTERS;
+
+const dayStart = (day: string) => new Date(`${day}T00:00:00`).toISOString();
+const dayEnd = (day: string) => new Date(`${day}T23:59:59.999`).toISOString();
+
+// The search form as a billing query; dates are local days sent as ISO bounds.
+function toBillingQuery(filters: BillingFilters): Partial<BillingQuery> {
+  const [from, to] = filters.dateMode === "single" ? [filters.singleDate, filters.singleDate] : [filters.dateFrom, filters.dateTo];
+  return {
+    from: from ? dayStart(from) : undefined,
+    to: to ? dayEnd(to) : undefined,
+    minAmount: filters.minAmount ? Number(filters.minAmount) : undefined,
+    maxAmount: filters.maxAmount ? Number(filters.maxAmount) : undefined,
+    paymentMethod: (filters.paymentMethod || undefined) as PaymentMethodType | undefined,
+    loggedBy: filters.loggedBy.trim() || undefined,
+    trackingNumber: filters.trackingNumber.trim() || undefined,
+    accountNumber: filters.accountNumber.trim() || undefined,
+    reference: filters.reference.trim() || undefined,
+  };
+}
+
+async function fetchBilling(query: Partial<BillingQuery>): Promise<{ success: boolean; data: IBillingSearchResult }> {
+  const res = await apiRequest("GET", `/api/billing?${billingQueryString(query)}`);
+  return res.json();
+}
+
+// The details recorded for the payment's method.
+function paymentDetailRows(payment: IBillingPayment): Array<[string, string]> {
+  const rows: Array<[string, string]> = [];
+  if (payment.accountNumber) rows.push([`${payment.paymentMethod} Number`, payment.accountNumber]);
+  if (payment.bankName) rows.push(["Bank", payment.bankName]);
+  if (payment.referenceNumber) rows.push(["Reference Number", payment.referenceNumber]);
+  if (payment.chequeNumber) rows.push(["Cheque Number", payment.chequeNumber]);
+  if (payment.chequeDate) rows.push(["Cheque Date", new Date(payment.chequeDate).toLocaleDateString("en-PH")]);
+  if (payment.cardLast4) rows.push(["Card", `**** ${payment.cardLast4}`]);
+  if (payment.approvalCode) rows.push(["Approval Code", payment.approvalCode]);
+  return rows;
+}
 
 export default function BillingPage() {
+  const { isAdmin } = useAuth();
+  const { toast } = useToast();
   const [searchOpen, setSearchOpen] = useState(false);
-  const [activeTab, setActiveTab] = useState<SearchTab>("date");
-  const [dateMode, setDateMode] = useState<"single" | "range">("single");
-  const [singleDate, setSingleDate] = useState("");
-  const [dateFrom, setDateFrom] = useState("");
-  const [dateTo, setDateTo] = useState("");
-  const [orderIdSearch, setOrderIdSearch] = useState("");
-  const [gcashSearch, setGcashSearch] = useState("");
-  const [referenceSearch, setReferenceSearch] = useState("");
+  const [filters, setFilters] = useState<BillingFilters>(EMPTY_FILTERS);
+  const [appliedFilters, setAppliedFilters] = useState<BillingFilters>(EMPTY_FILTERS);
+  const [sortBy, setSortBy] = useState<BillingQuery["sortBy"]>("createdAt");
+  const [sortDir, setSortDir] = useState<BillingQuery["sortDir"]>("desc");
+  const [page, setPage] = useState(1);
   const [selectedPayment, setSelectedPayment] = useState<IBillingPayment | null>(null);
-  const [showSuggestions, setShowSuggestions] = useState<"gcash" | "reference" | null>(null);
+  const [flagPayment, setFlagPayment] = useState<IBillingPayment | null>(null);
+  const [flagNote, setFlagNote] = useState("");
 
-  const gcashRef = useRef<HTMLDivElement>(null);
-  const referenceRef = useRef<HTMLDivElement>(null);
+  // Typing in the filters waits for a pause before searching.
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      setAppliedFilters(filters);
+      setPage(1);
+    }, 300);
+    return () => clearTimeout(timer);
+  }, [filters]);
 
-  const { data: billingData, isLoading } = useQuery<{
-    success: boolean;
-    data: { payments: IBillingPayment[]; total: number };
-  }>({
-    queryKey: ["/api/billing"],
+  const searchQuery = useMemo(() => toBillingQuery(appliedFilters), [appliedFilters]);
+  const hasActiveSearch = Object.values(searchQuery).some((v) => v !== undefined);
+  const billingQuery = { ...searchQuery, sortBy, sortDir, page, pageSize: PAGE_SIZE };
+
+  const { data: billingData, isLoading } = useQuery({
+    queryKey: ["/api/billing", billingQuery],
+    queryFn: () => fetchBilling(billingQuery),
+    placeholderData: (previous) => previous,
+  });
+
+  const today = new Date().toLocaleDateString("en-CA");
+  const { data: todayData } = useQuery({
+    queryKey: ["/api/billing", { from: dayStart(today), pageSize: 1 }],
+    queryFn: () => fetchBilling({ from: dayStart(today), pageSize: 1 }),
   });
 
   const { data: statsData } = useQuery<{
@@ -68,8 +151,65 @@ export default function BillingPage() {
     queryKey: ["/api/dashboard/stats"],
   });
 
+  const { data: selectedOrderData } = useQuery<{
+    success: boolean;
+    data: { order: IOrder; payments: IBillingPayment[] };
+  }>({
+    queryKey: ["/api/orders", selectedPayment?.orderId],
+    enabled: !!selectedPayment,
+  });
+
+  const { data: voidRequestsData } = useQuery<{ success: boolean; data: IPaymentVoidRequest[] }>({
+    queryKey: ["/api/billing/void-requests"],
+    enabled: isAdmin,
+  });
+
+  const reviewVoidMutation = useMutation({
+    mutationFn: async ({ id, action }: { id: string; action: "approve" | "reject" }) => {
+      const res = await apiRequest("PATCH", `/api/billing/void-requests/${id}`, { action });
+      return res.json();
+    },
+    onSuccess: (_result, { action }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/billing/void-requests"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/billing/verifications"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/billing"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/orders"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/dashboard/stats"] });
+      toast({ title: action === "approve" ? "Payment voided" : "Void request rejected" });
+    },
+    onError: (err: Error) => toast({ title: "Failed to process void request", description: err.message, variant: "destructive" }),
+  });
+
+  const { data: verificationsData } = useQuery<{ success: boolean; data: IBillingPayment[] }>({
+    queryKey: ["/api/billing/verifications"],
+    enabled: isAdmin,
+  });
+
+  const verifyMutation = useMutation({
+    mutationFn: async ({ id, action, note }: { id: string; action: "verify" | "flag"; note?: string }) => {
+      const res = await apiRequest("PATCH", `/api/billing/payments/${id}/verification`, { action, note });
+      return res.json();
+    },
+    onSuccess: (_result, { action }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/billing/verifications"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/billing"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/orders"] });
+      setFlagPayment(null);
+      setFlagNote("");
+      setSelectedPayment(null);
+      toast({ title: action === "verify" ? "Payment verified" : "Payment flagged", description: action === "flag" ? "The order cannot be released until this is resolved." : undefined });
+    },
+    onError: (err: Error) => toast({ title: "Failed to update verification", description: err.message, variant: "destructive" }),
+  });
+
   const payments = billingData?.data?.payments || [];
+  const totals = billingData?.data?.totals;
+  const totalPages = Math.max(1, Math.ceil((billingData?.data?.total || 0) / PAGE_SIZE));
+  const pendingVoids = voidRequestsData?.data || [];
+  const verificationQueue = verificationsData?.data || [];
   const stats = statsData?.data;
+  const selectedOrder = selectedOrderData?.data?.order;
+  const selectedSchedule = selectedOrderData?.data?.payments || [];
 
   const formatCurrency = (v: number) =>
     new Intl.NumberFormat("en-PH", {
@@ -86,96 +226,25 @@ export default function BillingPage() {
       minute: "2-digit",
     });
 
-  const hasActiveSearch = useMemo(() => {
-    if (activeTab === "date" && dateMode === "single" && singleDate) return true;
-    if (activeTab === "date" && dateMode === "range" && dateFrom && dateTo) return true;
-    if (activeTab === "orderId" && orderIdSearch.trim()) return true;
-    if (activeTab === "gcash" && gcashSearch.trim()) return true;
-    if (activeTab === "reference" && referenceSearch.trim()) return true;
-    return false;
-  }, [activeTab, dateMode, singleDate, dateFrom, dateTo, orderIdSearch, gcashSearch, referenceSearch]);
-
-  const filteredPayments = useMemo(() => {
-    if (!hasActiveSearch) return payments;
-
-    return payments.filter((p) => {
-      if (activeTab === "date") {
-        const paymentDate = new Date(p.createdAt);
-        if (dateMode === "single" && singleDate) {
-          const target = new Date(singleDate);
-          return (
-            paymentDate.getFullYear() === target.getFullYear() &&
-            paymentDate.getMonth() === target.getMonth() &&
-            paymentDate.getDate() === target.getDate()
-          );
-        }
-        if (dateMode === "range" && dateFrom && dateTo) {
-          const from = new Date(dateFrom);
-          const to = new Date(dateTo);
-          to.setHours(23, 59, 59, 999);
-          return paymentDate >= from && paymentDate <= to;
-        }
-      }
-      if (activeTab === "orderId" && orderIdSearch.trim()) {
-        return p.orderId.toLowerCase().includes(orderIdSearch.trim().toLowerCase());
-      }
-      if (activeTab === "gcash" && gcashSearch.trim()) {
-        return p.gcashNumber.toLowerCase().includes(gcashSearch.trim().toLowerCase());
-      }
-      if (activeTab === "reference" && referenceSearch.trim()) {
-        return p.gcashReferenceNumber.toLowerCase().includes(referenceSearch.trim().toLowerCase());
-      }
-      return true;
-    });
-  }, [payments, hasActiveSearch, activeTab, dateMode, singleDate, dateFrom, dateTo, orderIdSearch, gcashSearch, referenceSearch]);
-
-  const gcashSuggestions = useMemo(() => {
-    if (!gcashSearch.trim()) return [];
-    const unique = Array.from(new Set(payments.map((p) => p.gcashNumber).filter(Boolean)));
-    return unique.filter((n) => n.toLowerCase().includes(gcashSearch.toLowerCase())).slice(0, 5);
-  }, [payments, gcashSearch]);
+  const setFilter = (field: keyof BillingFilters, value: string) => setFilters((prev) => ({ ...prev, [field]: value }));
 
-  const referenceSuggestions = useMemo(() => {
-    if (!referenceSearch.trim()) return [];
-    const unique = Array.from(new Set(payments.map((p) => p.gcashReferenceNumber).filter(Boolean)));
-    return unique.filter((n) => n.toLowerCase().includes(referenceSearch.toLowerCase())).slice(0, 5);
-  }, [payments, referenceSearch]);
+  const clearSearch = () => setFilters((prev) => ({ ...EMPTY_FILTERS, dateMode: prev.dateMode }));
 
-  useEffect(() => {
-    function handleClickOutside(e: MouseEvent) {
-      if (gcashRef.current && !gcashRef.current.contains(e.target as Node)) {
-        if (showSuggestions === "gcash") setShowSuggestions(null);
-      }
-      if (referenceRef.current && !referenceRef.current.contains(e.target as Node)) {
-        if (showSuggestions === "reference") setShowSuggestions(null);
-      }
+  const toggleSort = (field: BillingQuery["sortBy"]) => {
+    if (sortBy === field) setSortDir(sortDir === "desc" ? "asc" : "desc");
+    else {
+      setSortBy(field);
+      setSortDir("desc");
     }
-    document.addEventListener("mousedown", handleClickOutside);
-    return () => document.removeEventListener("mousedown", handleClickOutside);
-  }, [showSuggestions]);
-
-  const clearSearch = () => {
-    setSingleDate("");
-    setDateFrom("");
-    setDateTo("");
-    setOrderIdSearch("");
-    setGcashSearch("");
-    setReferenceSearch("");
+    setPage(1);
   };
 
-  const tabs: { key: SearchTab; label: string; icon: typeof CalendarDays }[] = [
-    { key: "date", label: "Date", icon: CalendarDays },
-    { key: "orderId", label: "Order ID", icon: Hash },
-    { key: "gcash", label: "GCash #", icon: Phone },
-    { key: "reference", label: "Reference #", icon: FileText },
-  ];
-
   if (isLoading) {
     return (
       <div className="p-3 sm:p-6 space-y-4 sm:space-y-6 overflow-auto h-full">
         <h1 className="text-xl sm:text-2xl font-bold">Billing</h1>
-        <div className="grid gap-4 grid-cols-1 sm:grid-cols-3">
-          {Array.from({ length: 3 }).map((_, i) => (
+        <div className="grid gap-4 grid-cols-1 sm:grid-cols-2 lg:grid-cols-4">
+          {Array.from({ length: 4 }).map((_, i) => (
             <Card key={i}>
               <CardContent className="pt-6">
                 <Skeleton className="h-8 w-20" />
@@ -187,11 +256,7 @@ export default function BillingPage() {
     );
   }
 
-  const todayPayments = payments.filter((p) => {
-    const today = new Date().toDateString();
-    return new Date(p.createdAt).toDateString() === today;
-  });
-  const paidToday = todayPayments.reduce((sum, p) => sum + p.amountPaid, 0);
+  const paidToday = todayData?.data?.totals.amountPaid ?? 0;
 
   return (
     <div className="p-3 sm:p-6 space-y-4 sm:space-y-6 overflow-auto h-full">
@@ -213,20 +278,51 @@ export default function BillingPage() {
       {searchOpen && (
         <Card data-testid="card-search-panel">
           <CardContent className="pt-6 space-y-4">
-            <div className="flex items-center gap-1 flex-wrap">
-              {tabs.map((tab) => (
-                <Button
-                  key={tab.key}
-                  variant={activeTab === tab.key ? "default" : "ghost"}
-                  size="sm"
-                  onClick={() => setActiveTab(tab.key)}
-                  data-testid={`button-tab-${tab.key}`}
-                  className="toggle-elevate"
-                >
-                  <tab.icon className="h-4 w-4 mr-1" />
-                  {tab.label}
-                </Button>
-              ))}
+            <div className="flex items-center gap-2 flex-wrap">
+              <CalendarDays className="h-4 w-4 text-muted-foreground" />
+              <Button
+                variant={filters.dateMode === "single" ? "default" : "outline"}
+                size="sm"
+                onClick={() => setFilter("dateMode", "single")}
+                data-testid="button-date-single"
+              >
+                Single Date
+              </Button>
+              <Button
+                variant={filters.dateMode === "range" ? "default" : "outline"}
+                size="sm"
+                onClick={() => setFilter("dateMode", "range")}
+                data-testid="button-date-range"
+              >
+                Date Range
+              </Button>
+              {filters.dateMode === "single" ? (
+                <Input
+                  type="date"
+                  value={filters.singleDate}
+                  onChange={(e) => setFilter("singleDate", e.target.value)}
+                  className="max-w-xs"
+                  data-testid="input-date-single"
+                />
+              ) : (
+                <>
+                  <Input
+                    type="date"
+                    value={filters.dateFrom}
+                    onChange={(e) => setFilter("dateFrom", e.target.value)}
+                    className="max-w-xs"
+                    data-testid="input-date-from"
+                  />
+                  <span className="text-sm text-muted-foreground">to</span>
+                  <Input
+                    type="date"
+                    value={filters.dateTo}
+                    onChange={(e) => setFilter("dateTo", e.target.value)}
+                    className="max-w-xs"
+                    data-testid="input-date-to"
+                  />
+                </>
+              )}
               {hasActiveSearch && (
                 <Button
                   variant="ghost"
@@ -241,144 +337,89 @@ export default function BillingPage() {
               )}
             </div>
 
-            {activeTab === "date" && (
-              <div className="space-y-3">
-                <div className="flex items-center gap-2 flex-wrap">
-                  <Button
-                    variant={dateMode === "single" ? "default" : "outline"}
-                    size="sm"
-                    onClick={() => setDateMode("single")}
-                    data-testid="button-date-single"
-                  >
-                    Single Date
-                  </Button>
-                  <Button
-                    variant={dateMode === "range" ? "default" : "outline"}
-                    size="sm"
-                    onClick={() => setDateMode("range")}
-                    data-testid="button-date-range"
-                  >
-                    Date Range
-                  </Button>
-                </div>
-                {dateMode === "single" ? (
-                  <Input
-                    type="date"
-                    value={singleDate}
-                    onChange={(e) => setSingleDate(e.target.value)}
-                    className="max-w-xs"
-                    data-testid="input-date-single"
-                  />
-                ) : (
-                  <div className="flex items-center gap-2 flex-wrap">
-                    <Input
-                      type="date"
-                      value={dateFrom}
-                      onChange={(e) => setDateFrom(e.target.value)}
-                      className="max-w-xs"
-                      data-testid="input-date-from"
-                    />
-                    <span className="text-sm text-muted-foreground">to</span>
-                    <Input
-                      type="date"
-                      value={dateTo}
-                      onChange={(e) => setDateTo(e.target.value)}
-                      className="max-w-xs"
-                      data-testid="input-date-to"
-                    />
-                  </div>
-                )}
+            <div className="grid gap-3 grid-cols-1 sm:grid-cols-2 lg:grid-cols-3">
+              <div className="relative">
+                <Hash className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                <Input
+                  className="pl-9"
+                  placeholder="Tracking number"
+                  value={filters.trackingNumber}
+                  onChange={(e) => setFilter("trackingNumber", e.target.value)}
+                  data-testid="input-search-tracking"
+                />
               </div>
-            )}
-
-            {activeTab === "orderId" && (
-              <Input
-                placeholder="Search by Order ID..."
-                value={orderIdSearch}
-                onChange={(e) => setOrderIdSearch(e.target.value)}
-                className="max-w-md"
-                data-testid="input-search-orderid"
-              />
-            )}
-
-            {activeTab === "gcash" && (
-              <div className="relative max-w-md" ref={gcashRef}>
+              <div className="relative">
+                <Phone className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
                 <Input
-                  placeholder="Search by GCash number..."
-                  value={gcashSearch}
-                  onChange={(e) => {
-                    setGcashSearch(e.target.value);
-                    setShowSuggestions("gcash");
-                  }}
-                  onFocus={() => gcashSearch && setShowSuggestions("gcash")}
-                  data-testid="input-search-gcash"
+                  className="pl-9"
+                  placeholder="GCash / Maya number"
+                  value={filters.accountNumber}
+                  onChange={(e) => setFilter("accountNumber", e.target.value)}
+                  data-testid="input-search-account"
                 />
-                {showSuggestions === "gcash" && gcashSuggestions.length > 0 && (
-                  <Card className="absolute z-50 top-full left-0 right-0 mt-1">
-                    <CardContent className="p-1">
-                      {gcashSuggestions.map((s) => (
-                        <button
-                          key={s}
-                          className="w-full text-left px-3 py-2 text-sm rounded-md hover-elevate"
-                          onClick={() => {
-                            setGcashSearch(s);
-                            setShowSuggestions(null);
-                          }}
-                          data-testid={`suggestion-gcash-${s}`}
-                        >
-                          {s}
-                        </button>
-                      ))}
-                    </CardContent>
-                  </Card>
-                )}
               </div>
-            )}
-
-            {activeTab === "reference" && (
-              <div className="relative max-w-md" ref={referenceRef}>
+              <div className="relative">
+                <FileText className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
                 <Input
-                  placeholder="Search by Reference number..."
-                  value={referenceSearch}
-                  onChange={(e) => {
-                    setReferenceSearch(e.target.value);
-                    setShowSuggestions("reference");
-                  }}
-                  onFocus={() => referenceSearch && setShowSuggestions("reference")}
+                  className="pl-9"
+                  placeholder="Reference, cheque or approval code starts with"
+                  value={filters.reference}
+                  onChange={(e) => setFilter("reference", e.target.value)}
                   data-testid="input-search-reference"
                 />
-                {showSuggestions === "reference" && referenceSuggestions.length > 0 && (
-                  <Card className="absolute z-50 top-full left-0 right-0 mt-1">
-                    <CardContent className="p-1">
-                      {referenceSuggestions.map((s) => (
-                        <button
-                          key={s}
-                          className="w-full text-left px-3 py-2 text-sm rounded-md hover-elevate"
-                          onClick={() => {
-                            setReferenceSearch(s);
-                            setShowSuggestions(null);
-                          }}
-                          data-testid={`suggestion-ref-${s}`}
-                        >
-                          {s}
-                        </button>
-                      ))}
-                    </CardContent>
-                  </Card>
-                )}
               </div>
-            )}
+              <div className="relative">
+                <User className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                <Input
+                  className="pl-9"
+                  placeholder="Logged by (username)"
+                  value={filters.loggedBy}
+                  onChange={(e) => setFilter("loggedBy", e.target.value)}
+                  data-testid="input-search-logged-by"
+                />
+              </div>
+              <div className="flex items-center gap-2">
+                <Input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  placeholder="Min amount"
+                  value={filters.minAmount}
+                  onChange={(e) => setFilter("minAmount", e.target.value)}
+                  data-testid="input-search-min-amount"
+                />
+                <span className="text-sm text-muted-foreground">to</span>
+                <Input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  placeholder="Max amount"
+                  value={filters.maxAmount}
+                  onChange={(e) => setFilter("maxAmount", e.target.value)}
+                  data-testid="input-search-max-amount"
+                />
+              </div>
+            </div>
 
-            {hasActiveSearch && (
-              <p className="text-sm text-muted-foreground" data-testid="text-search-count">
-                {filteredPayments.length} result{filteredPayments.length !== 1 ? "s" : ""} found
-              </p>
-            )}
+            <div className="flex items-center gap-2 flex-wrap">
+              <Banknote className="h-4 w-4 text-muted-foreground" />
+              {PAYMENT_METHODS.map((method) => (
+                <Button
+                  key={method}
+                  variant={filters.paymentMethod === method ? "default" : "outline"}
+                  size="sm"
+                  onClick={() => setFilter("paymentMethod", filters.paymentMethod === method ? "" : method)}
+                  data-testid={`button-method-${method}`}
+                >
+                  {method}
+                </Button>
+              ))}
+            </div>
           </CardContent>
         </Card>
       )}
 
-      <div className="grid gap-4 grid-cols-1 sm:grid-cols-3">
+      <div className="grid gap-4 grid-cols-1 sm:grid-cols-2 lg:grid-cols-4">
         <Card>
           <CardHeader className="flex flex-row items-center justify-between gap-2 space-y-0 pb-2">
             <CardTitle className="text-sm font-medium">Pending Payments</CardTitle>
@@ -412,6 +453,17 @@ export default function BillingPage() {
             </div>
           </CardContent>
         </Card>
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between gap-2 space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Outstanding Balance</CardTitle>
+            <Wallet className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold" data-testid="stat-outstanding-balance">
+              {formatCurrency(stats?.outstandingReceivables ?? 0)}
+            </div>
+          </CardContent>
+        </Card>
       </div>
 
       {(stats?.pendingPayments ?? 0) > 0 && (
@@ -432,30 +484,162 @@ export default function BillingPage() {
         </Card>
       )}
 
+      {isAdmin && pendingVoids.length > 0 && (
+        <Card className="border-yellow-500/50">
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm flex items-center gap-2 text-yellow-600">
+              <Ban className="h-4 w-4" /> Void Requests ({pendingVoids.length} pending)
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-2">
+              {pendingVoids.map((request) => (
+                <div key={request._id} className="flex items-center gap-3 p-2 bg-muted/50 rounded-md" data-testid={`void-request-${request._id}`}>
+                  <div className="flex-1 min-w-0">
+                    <div className="text-sm font-medium">
+                      <Link href={`/orders/${request.orderId}`} className="underline">{request.trackingNumber || request.orderId}</Link>
+                      {request.payment && ` · ${formatCurrency(request.payment.amountPaid)} via ${request.payment.paymentMethod}`}
+                      {request.payment && paymentReference(request.payment) && ` (${paymentReference(request.payment)})`}
+                    </div>
+                    <div className="text-xs text-muted-foreground">
+                      Requested by {request.requestedBy}: {request.reason}
+                    </div>
+                  </div>
+                  <div className="flex gap-1.5">
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      className="text-green-600"
+                      disabled={reviewVoidMutation.isPending}
+                      onClick={() => reviewVoidMutation.mutate({ id: request._id, action: "approve" })}
+                      title="Approve void"
+                      data-testid={`button-approve-void-${request._id}`}
+                    >
+                      <CheckCircle2 className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      className="text-destructive"
+                      disabled={reviewVoidMutation.isPending}
+                      onClick={() => reviewVoidMutation.mutate({ id: request._id, action: "reject" })}
+                      title="Reject void"
+                      data-testid={`button-reject-void-${request._id}`}
+                    >
+                      <XCircle className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {isAdmin && verificationQueue.length > 0 && (
+        <Card className="border-blue-500/50">
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm flex items-center gap-2 text-blue-600">
+              <ShieldCheck className="h-4 w-4" /> Payment Verification ({verificationQueue.filter((p) => p.verificationStatus === "pending").length} pending
+              {verificationQueue.some((p) => p.verificationStatus === "flagged") && `, ${verificationQueue.filter((p) => p.verificationStatus === "flagged").length} flagged`})
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-2">
+              {verificationQueue.map((payment) => (
+                <div key={payment._id} className="flex items-center gap-3 p-2 bg-muted/50 rounded-md" data-testid={`verification-${payment._id}`}>
+                  <div className="flex-1 min-w-0">
+                    <div className="text-sm font-medium">
+                      <Link href={`/orders/${payment.orderId}`} className="underline">{payment.trackingNumber || payment.orderId}</Link>
+                      {` · ${formatCurrency(payment.amountPaid)} via ${payment.paymentMethod}`}
+                      {paymentReference(payment) && ` (${paymentReference(payment)})`}
+                      {payment.verificationStatus === "flagged" && <Badge variant="destructive" className="ml-2">Flagged</Badge>}
+                    </div>
+                    <div className="text-xs text-muted-foreground">
+                      Logged by {payment.loggedBy} {formatDate(payment.createdAt)}
+                      {payment.verificationStatus === "flagged" && ` · flagged by ${payment.verifiedBy}: ${payment.verificationNote}`}
+                    </div>
+                  </div>
+                  <div className="flex gap-1.5">
+                    {payment.proofFilename && (
+                      <Button size="icon" variant="ghost" asChild title="View proof">
+                        <a href={`/api/uploads/${payment.proofFilename}`} target="_blank" rel="noreferrer" data-testid={`link-proof-${payment._id}`}>
+                          <Paperclip className="h-4 w-4" />
+                        </a>
+                      </Button>
+                    )}
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      className="text-green-600"
+                      disabled={verifyMutation.isPending}
+                      onClick={() => verifyMutation.mutate({ id: payment._id, action: "verify" })}
+                      title={payment.verificationStatus === "flagged" ? "Resolve and mark verified" : "Mark verified"}
+                      data-testid={`button-verify-payment-${payment._id}`}
+                    >
+                      <CheckCircle2 className="h-4 w-4" />
+                    </Button>
+                    {payment.verificationStatus === "pending" && (
+                      <Button
+                        size="icon"
+                        variant="ghost"
+                        className="text-destructive"
+                        disabled={verifyMutation.isPending}
+                        onClick={() => setFlagPayment(payment)}
+                        title="Flag payment"
+                        data-testid={`button-flag-payment-${payment._id}`}
+                      >
+                        <Flag className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
       <Card>
-        <CardHeader>
+        <CardHeader className="flex flex-row items-center justify-between gap-2 space-y-0 flex-wrap">
           <CardTitle className="text-base">
             {hasActiveSearch ? "Search Results" : "Payment History"}
           </CardTitle>
+          {totals && (
+            <p className="text-sm text-muted-foreground" data-testid="text-search-totals">
+              {totals.count} payment{totals.count !== 1 ? "s" : ""} · {formatCurrency(totals.amountPaid)} received
+              {totals.creditedAmount > 0 && `, ${formatCurrency(totals.creditedAmount)} to store credit`}
+              {totals.voidedCount > 0 && ` · ${totals.voidedCount} voided`}
+            </p>
+          )}
         </CardHeader>
         <CardContent className="p-0">
           <Table>
             <TableHeader>
               <TableRow>
-                <TableHead>Date</TableHead>
-                <TableHead>Order ID</TableHead>
+                <TableHead>
+                  <button className="flex items-center gap-1" onClick={() => toggleSort("createdAt")} data-testid="button-sort-date">
+                    Date <ArrowUpDown className={`h-3 w-3 ${sortBy === "createdAt" ? "" : "text-muted-foreground"}`} />
+                  </button>
+                </TableHead>
+                <TableHead>Order</TableHead>
                 <TableHead>Method</TableHead>
-                <TableHead>GCash #</TableHead>
+                <TableHead>Account #</TableHead>
                 <TableHead>Reference</TableHead>
-                <TableHead className="text-right">Amount</TableHead>
+                <TableHead className="text-right">
+                  <button className="inline-flex items-center gap-1" onClick={() => toggleSort("amountPaid")} data-testid="button-sort-amount">
+                    Amount <ArrowUpDown className={`h-3 w-3 ${sortBy === "amountPaid" ? "" : "text-muted-foreground"}`} />
+                  </button>
+                </TableHead>
+                <TableHead className="text-right">Balance</TableHead>
                 <TableHead>Logged By</TableHead>
               </TableRow>
             </TableHeader>
             <TableBody>
-              {filteredPayments.length === 0 ? (
+              {payments.length === 0 ? (
                 <TableRow>
                   <TableCell
-                    colSpan={7}
+                    colSpan={8}
                     className="text-center text-muted-foreground py-8"
                   >
                     {hasActiveSearch
@@ -464,7 +648,7 @@ export default function BillingPage() {
                   </TableCell>
                 </TableRow>
               ) : (
-                filteredPayments.map((payment) => (
+                payments.map((payment) => (
                   <TableRow
                     key={payment._id}
                     className="cursor-pointer hover-elevate"
@@ -475,15 +659,21 @@ export default function BillingPage() {
                       {formatDate(payment.createdAt)}
                     </TableCell>
                     <TableCell className="font-mono text-xs">
-                      {payment.orderId}
+                      {payment.trackingNumber || payment.orderId}
                     </TableCell>
                     <TableCell>{payment.paymentMethod}</TableCell>
-                    <TableCell>{payment.gcashNumber}</TableCell>
+                    <TableCell>{payment.accountNumber || "-"}</TableCell>
                     <TableCell className="font-mono text-xs">
-                      {payment.gcashReferenceNumber}
+                      {paymentReference(payment) || "-"}
                     </TableCell>
                     <TableCell className="text-right font-medium">
-                      {formatCurrency(payment.amountPaid)}
+                      {payment.voided && <Badge variant="destructive" className="mr-2">Voided</Badge>}
+                      <span className={payment.voided ? "line-through text-muted-foreground" : ""}>
+                        {formatCurrency(payment.amountPaid)}
+                      </span>
+                    </TableCell>
+                    <TableCell className="text-right text-muted-foreground">
+                      {payment.balanceAfter !== undefined ? formatCurrency(payment.balanceAfter) : "-"}
                     </TableCell>
                     <TableCell className="text-muted-foreground">
                       {payment.loggedBy}
@@ -496,6 +686,18 @@ export default function BillingPage() {
         </CardContent>
       </Card>
 
+      {totalPages > 1 && (
+        <div className="flex items-center justify-center gap-2">
+          <Button variant="outline" size="sm" disabled={page === 1} onClick={() => setPage(page - 1)} data-testid="button-prev-page">
+            Previous
+          </Button>
+          <span className="text-sm text-muted-foreground">Page {page} of {totalPages}</span>
+          <Button variant="outline" size="sm" disabled={page === totalPages} onClick={() => setPage(page + 1)} data-testid="button-next-page">
+            Next
+          </Button>
+        </div>
+      )}
+
       <Dialog
         open={!!selectedPayment}
         onOpenChange={(open) => !open && setSelectedPayment(null)}
@@ -512,8 +714,10 @@ export default function BillingPage() {
                   <p className="font-medium">{formatDate(selectedPayment.createdAt)}</p>
                 </div>
                 <div>
-                  <p className="text-muted-foreground">Order ID</p>
-                  <p className="font-mono font-medium">{selectedPayment.orderId}</p>
+                  <p className="text-muted-foreground">Order</p>
+                  <p className="font-mono font-medium">
+                    <Link href={`/orders/${selectedPayment.orderId}`} className="underline">{selectedPayment.trackingNumber || selectedPayment.orderId}</Link>
+                  </p>
                 </div>
                 <div>
                   <p className="text-muted-foreground">Payment Method</p>
@@ -525,16 +729,12 @@ export default function BillingPage() {
                     {formatCurrency(selectedPayment.amountPaid)}
                   </p>
                 </div>
-                <div>
-                  <p className="text-muted-foreground">GCash Number</p>
-                  <p className="font-medium">{selectedPayment.gcashNumber || "-"}</p>
-                </div>
-                <div>
-                  <p className="text-muted-foreground">Reference Number</p>
-                  <p className="font-mono font-medium">
-                    {selectedPayment.gcashReferenceNumber || "-"}
-                  </p>
-                </div>
+                {paymentDetailRows(selectedPayment).map(([label, value]) => (
+                  <div key={label}>
+                    <p className="text-muted-foreground">{label}</p>
+                    <p className="font-mono font-medium">{value}</p>
+                  </div>
+                ))}
                 <div>
                   <p className="text-muted-foreground">Payment Date</p>
                   <p className="font-medium">
@@ -548,16 +748,98 @@ export default function BillingPage() {
                   <p className="font-medium">{selectedPayment.loggedBy}</p>
                 </div>
               </div>
+              {selectedPayment.voided && (
+                <div className="rounded-md border border-destructive/50 p-3 text-sm" data-testid="section-payment-voided">
+                  <p className="font-medium text-destructive">
+                    Voided{selectedPayment.voidedAt ? ` ${formatDate(selectedPayment.voidedAt)}` : ""} by {selectedPayment.voidedBy}
+                  </p>
+                  <p className="mt-1">{selectedPayment.voidReason}</p>
+                </div>
+              )}
               {selectedPayment.proofNote && (
                 <div>
                   <p className="text-sm text-muted-foreground">Proof / Note</p>
                   <p className="text-sm mt-1">{selectedPayment.proofNote}</p>
                 </div>
               )}
+              {selectedPayment.proofFilename && (
+                <div className="flex items-center justify-between gap-2 text-sm" data-testid="section-payment-proof">
+                  <a href={`/api/uploads/${selectedPayment.proofFilename}`} target="_blank" rel="noreferrer" className="flex items-center gap-1 underline">
+                    <Paperclip className="h-4 w-4" /> View proof attachment
+                  </a>
+                  {selectedPayment.verificationStatus === "pending" && <Badge variant="outline">Awaiting review</Badge>}
+                  {selectedPayment.verificationStatus === "verified" && <Badge variant="outline" className="text-green-600">Verified by {selectedPayment.verifiedBy}</Badge>}
+                  {selectedPayment.verificationStatus === "flagged" && <Badge variant="destructive">Flagged by {selectedPayment.verifiedBy}</Badge>}
+                </div>
+              )}
+              {selectedPayment.verificationStatus === "flagged" && selectedPayment.verificationNote && (
+                <p className="text-sm text-destructive">{selectedPayment.verificationNote}</p>
+              )}
+              {selectedOrder && (
+                <div className="space-y-2" data-testid="section-payment-schedule">
+                  <div className="flex items-center justify-between gap-2 text-sm">
+                    <p className="font-medium">Payment Schedule — {selectedOrder.trackingNumber}</p>
+                    <Badge variant="outline">{selectedOrder.currentStatus}</Badge>
+                  </div>
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Date</TableHead>
+                        <TableHead className="text-right">Amount</TableHead>
+                        <TableHead className="text-right">Balance After</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {[...selectedSchedule].reverse().map((p) => (
+                        <TableRow key={p._id} className={p._id === selectedPayment._id ? "bg-muted" : ""}>
+                          <TableCell className="text-muted-foreground">{formatDate(p.paymentDate || p.createdAt)}</TableCell>
+                          <TableCell className={`text-right ${p.voided ? "line-through text-muted-foreground" : ""}`}>{formatCurrency(p.amountPaid)}</TableCell>
+                          <TableCell className="text-right">{p.balanceAfter !== undefined ? formatCurrency(p.balanceAfter) : "-"}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                  <p className="text-sm text-right">
+                    Outstanding balance:{" "}
+                    <span className="font-medium" data-testid="text-schedule-balance">
+                      {formatCurrency(selectedOrder.balanceDue ?? 0)}
+                    </span>
+                  </p>
+                </div>
+              )}
             </div>
           )}
         </DialogContent>
       </Dialog>
+
+      <Dialog open={!!flagPayment} onOpenChange={(open) => !open && setFlagPayment(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Flag Payment</DialogTitle>
+            <DialogDescription>
+              {flagPayment && `${formatCurrency(flagPayment.amountPaid)} via ${flagPayment.paymentMethod} on ${flagPayment.trackingNumber || flagPayment.orderId}. `}
+              The order cannot be released until an admin verifies or voids this payment.
+            </DialogDescription>
+          </DialogHeader>
+          <Textarea
+            placeholder="What is wrong with the proof? (e.g. amount or reference does not match the GCash history)"
+            value={flagNote}
+            onChange={(e) => setFlagNote(e.target.value)}
+            data-testid="input-flag-note"
+          />
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setFlagPayment(null)}>Cancel</Button>
+            <Button
+              variant="destructive"
+              disabled={!flagNote.trim() || verifyMutation.isPending}
+              onClick={() => flagPayment && verifyMutation.mutate({ id: flagPayment._id, action: "flag", note: flagNote.trim() })}
+              data-testid="button-confirm-flag"
+            >
+              Flag Payment
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
@@ -0,0 +1,247 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useRoute, useLocation, Link } from "wouter";
+import { ArrowLeft, Wallet, Loader2, Pencil, Handshake } from "lucide-react";
+import type { ICustomer, ICustomerCreditEntry, IOrder } from "@shared/schema";
+import { orderStatusBadgeClass } from "@shared/orderLifecycle";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useAuth } from "@/lib/auth";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog";
+import { Skeleton } from "@/components/ui/skeleton";
+
+const CREDIT_TYPE_LABELS: Record<ICustomerCreditEntry["type"], string> = {
+  overpayment: "Overpayment",
+  applied: "Used on order",
+  void: "Payment voided",
+  cancellation: "Order cancelled",
+};
+
+const formatCurrency = (v: number) => new Intl.NumberFormat("en-PH", { style: "currency", currency: "PHP" }).format(v);
+const formatDate = (d: string) => new Date(d).toLocaleString("en-PH", { year: "numeric", month: "short", day: "numeric", hour: "2-digit", minute: "2-digit" });
+
+export default function CustomerDetailPage() {
+  const { toast } = useToast();
+  const { isAdmin } = useAuth();
+  const [, navigate] = useLocation();
+  const [, params] = useRoute("/customers/:id");
+  const customerId = params?.id;
+  const [termsOpen, setTermsOpen] = useState(false);
+  const [termsForm, setTermsForm] = useState({ paymentTermsDays: "", creditLimit: "" });
+
+  const { data, isLoading } = useQuery<{ success: boolean; data: { customer: ICustomer; credits: ICustomerCreditEntry[]; orders: IOrder[]; exposure: number } }>({
+    queryKey: ["/api/customers", customerId],
+    enabled: !!customerId,
+  });
+  const customer = data?.data?.customer;
+  const credits = data?.data?.credits || [];
+  const orders = data?.data?.orders || [];
+  const exposure = data?.data?.exposure || 0;
+
+  const termsMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("PATCH", `/api/customers/${customerId}/credit-terms`, {
+        paymentTermsDays: Number(termsForm.paymentTermsDays) || 0,
+        creditLimit: Number(termsForm.creditLimit) || 0,
+      });
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/customers"] });
+      setTermsOpen(false);
+      toast({ title: "Credit terms updated" });
+    },
+    onError: (err: Error) => toast({ title: "Failed to update credit terms", description: err.message, variant: "destructive" }),
+  });
+
+  const openTerms = () => {
+    setTermsForm({ paymentTermsDays: String(customer?.paymentTermsDays || 0), creditLimit: String(customer?.creditLimit || 0) });
+    setTermsOpen(true);
+  };
+
+  if (isLoading) {
+    return (
+      <div className="p-3 sm:p-6 space-y-4 sm:space-y-6 overflow-auto h-full">
+        <Skeleton className="h-8 w-48" />
+        <Skeleton className="h-64 w-full" />
+      </div>
+    );
+  }
+
+  if (!customer) {
+    return (
+      <div className="p-3 sm:p-6">
+        <p className="text-muted-foreground">Customer not found</p>
+        <Button variant="ghost" onClick={() => navigate("/customers")} className="mt-4">
+          <ArrowLeft className="mr-1" /> Back to Customers
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-3 sm:p-6 space-y-4 sm:space-y-6 overflow-auto h-full">
+      <div className="flex items-center gap-4 flex-wrap">
+        <Button variant="ghost" onClick={() => navigate("/customers")} data-testid="button-back-customers">
+          <ArrowLeft className="mr-1" /> Back
+        </Button>
+        <div>
+          <h1 className="text-2xl font-bold" data-testid="text-customer-name">{customer.name}</h1>
+          <p className="text-sm text-muted-foreground">{[customer.phone, customer.email, customer.address].filter(Boolean).join(" · ")}</p>
+        </div>
+      </div>
+
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between gap-2 space-y-0">
+          <div>
+            <CardTitle className="text-base flex items-center gap-2">
+              <Handshake className="h-4 w-4" /> Credit Terms
+            </CardTitle>
+            <CardDescription>
+              {customer.paymentTermsDays ? `Orders can be charged to account and paid within ${customer.paymentTermsDays} days of release` : "Pays before release (no credit terms)"}
+            </CardDescription>
+          </div>
+          {isAdmin && (
+            <Button variant="outline" size="sm" onClick={openTerms} data-testid="button-edit-credit-terms">
+              <Pencil className="mr-1" /> Edit
+            </Button>
+          )}
+        </CardHeader>
+        <CardContent className="grid gap-4 sm:grid-cols-3">
+          <div>
+            <p className="text-xs text-muted-foreground">Credit Limit</p>
+            <p className="text-lg font-semibold" data-testid="text-credit-limit">{formatCurrency(customer.creditLimit || 0)}</p>
+          </div>
+          <div>
+            <p className="text-xs text-muted-foreground">Owed on Account</p>
+            <p className="text-lg font-semibold" data-testid="text-credit-exposure">{formatCurrency(exposure)}</p>
+          </div>
+          <div>
+            <p className="text-xs text-muted-foreground">Available</p>
+            <p className={`text-lg font-semibold ${exposure > (customer.creditLimit || 0) ? "text-destructive" : ""}`}>
+              {formatCurrency((customer.creditLimit || 0) - exposure)}
+            </p>
+          </div>
+        </CardContent>
+      </Card>
+
+      <div className="grid gap-4 lg:grid-cols-2">
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base flex items-center gap-2">
+              <Wallet className="h-4 w-4" /> Store Credit
+            </CardTitle>
+            <CardDescription>Overpayments kept for this customer, usable as a payment method on later orders</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="text-3xl font-bold" data-testid="text-credit-balance">{formatCurrency(customer.creditBalance || 0)}</div>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Activity</TableHead>
+                  <TableHead className="text-right">Amount</TableHead>
+                  <TableHead className="text-right">Balance</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {credits.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={4} className="text-center text-muted-foreground py-6">No store credit activity</TableCell>
+                  </TableRow>
+                ) : (
+                  credits.map((c) => (
+                    <TableRow key={c._id} data-testid={`row-credit-${c._id}`}>
+                      <TableCell className="text-muted-foreground">{formatDate(c.createdAt)}</TableCell>
+                      <TableCell>
+                        <p>{CREDIT_TYPE_LABELS[c.type]}</p>
+                        {c.orderId && (
+                          <Link href={`/orders/${c.orderId}`} className="text-xs underline">{c.trackingNumber || "Order"}</Link>
+                        )}
+                        <p className="text-xs text-muted-foreground">by {c.actor}</p>
+                      </TableCell>
+                      <TableCell className={`text-right ${c.amount < 0 ? "text-destructive" : "text-green-600"}`}>
+                        {c.amount > 0 ? "+" : ""}{formatCurrency(c.amount)}
+                      </TableCell>
+                      <TableCell className="text-right">{formatCurrency(c.balanceAfter)}</TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">Orders</CardTitle>
+          </CardHeader>
+          <CardContent className="p-0">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Tracking #</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right">Total</TableHead>
+                  <TableHead className="text-right">Balance</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {orders.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={4} className="text-center text-muted-foreground py-6">No orders linked to this customer</TableCell>
+                  </TableRow>
+                ) : (
+                  orders.map((o) => (
+                    <TableRow key={o._id} className="cursor-pointer hover-elevate" onClick={() => navigate(`/orders/${o._id}`)}>
+                      <TableCell className="font-mono text-xs">{o.trackingNumber}</TableCell>
+                      <TableCell>
+                        <Badge className={orderStatusBadgeClass(o.currentStatus)}>{o.currentStatus}</Badge>
+                        {o.onAccount && o.dueDate && (o.balanceDue ?? 0) > 0 && (
+                          <p className="text-xs text-muted-foreground mt-1">Due {new Date(o.dueDate).toLocaleDateString("en-PH", { year: "numeric", month: "short", day: "numeric" })}</p>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right">{formatCurrency(o.totalAmount)}</TableCell>
+                      <TableCell className="text-right">{formatCurrency(o.balanceDue ?? 0)}</TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Dialog open={termsOpen} onOpenChange={setTermsOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Credit Terms</DialogTitle>
+            <DialogDescription>Set payment terms to 0 for customers who must pay before release.</DialogDescription>
+          </DialogHeader>
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-2">
+              <label className="text-sm font-medium leading-none" htmlFor="terms-days">Payment Terms (days)</label>
+              <Input id="terms-days" type="number" min="0" max="365" value={termsForm.paymentTermsDays} onChange={(e) => setTermsForm((f) => ({ ...f, paymentTermsDays: e.target.value }))} data-testid="input-terms-days" />
+            </div>
+            <div className="space-y-2">
+              <label className="text-sm font-medium leading-none" htmlFor="credit-limit">Credit Limit</label>
+              <Input id="credit-limit" type="number" min="0" step="0.01" value={termsForm.creditLimit} onChange={(e) => setTermsForm((f) => ({ ...f, creditLimit: e.target.value }))} data-testid="input-credit-limit" />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setTermsOpen(false)}>Cancel</Button>
+            <Button onClick={() => termsMutation.mutate()} disabled={termsMutation.isPending} data-testid="button-save-credit-terms">
+              {termsMutation.isPending && <Loader2 className="animate-spin mr-1" />}
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
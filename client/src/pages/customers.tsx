@@ -0,0 +1,133 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { Plus, Search, Loader2, Users } from "lucide-react";
+import type { ICustomer } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
+import { Skeleton } from "@/components/ui/skeleton";
+
+const formatCurrency = (v: number) => new Intl.NumberFormat("en-PH", { style: "currency", currency: "PHP" }).format(v);
+
+export default function CustomersPage() {
+  const { toast } = useToast();
+  const [, navigate] = useLocation();
+  const [search, setSearch] = useState("");
+  const [createOpen, setCreateOpen] = useState(false);
+  const [form, setForm] = useState({ name: "", phone: "", email: "", address: "" });
+
+  const { data, isLoading } = useQuery<{ success: boolean; data: ICustomer[] }>({
+    queryKey: ["/api/customers"],
+  });
+  const customers = (data?.data || []).filter((c) =>
+    !search.trim() || c.name.toLowerCase().includes(search.toLowerCase()) || c.phone.includes(search.trim())
+  );
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/customers", { ...form, name: form.name.trim() });
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/customers"] });
+      setCreateOpen(false);
+      setForm({ name: "", phone: "", email: "", address: "" });
+      toast({ title: "Customer added" });
+    },
+    onError: (err: Error) => toast({ title: "Failed to add customer", description: err.message, variant: "destructive" }),
+  });
+
+  return (
+    <div className="p-3 sm:p-6 space-y-4 sm:space-y-6 overflow-auto h-full">
+      <div className="flex items-center justify-between gap-2 flex-wrap">
+        <h1 className="text-xl sm:text-2xl font-bold" data-testid="text-customers-title">Customers</h1>
+        <Button onClick={() => setCreateOpen(true)} data-testid="button-add-customer">
+          <Plus className="mr-1" /> Add Customer
+        </Button>
+      </div>
+
+      <div className="relative max-w-sm">
+        <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+        <Input className="pl-9" placeholder="Search by name or phone" value={search} onChange={(e) => setSearch(e.target.value)} data-testid="input-search-customers" />
+      </div>
+
+      {isLoading ? (
+        <Skeleton className="h-64 w-full" />
+      ) : (
+        <Card>
+          <CardContent className="p-0">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Phone</TableHead>
+                  <TableHead>Email</TableHead>
+                  <TableHead>Terms</TableHead>
+                  <TableHead className="text-right">Store Credit</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {customers.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={5} className="text-center text-muted-foreground py-8">
+                      <Users className="h-6 w-6 mx-auto mb-2" />
+                      No customers found
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  customers.map((c) => (
+                    <TableRow key={c._id} className="cursor-pointer hover-elevate" onClick={() => navigate(`/customers/${c._id}`)} data-testid={`row-customer-${c._id}`}>
+                      <TableCell className="font-medium">{c.name}</TableCell>
+                      <TableCell className="text-muted-foreground">{c.phone || "-"}</TableCell>
+                      <TableCell className="text-muted-foreground">{c.email || "-"}</TableCell>
+                      <TableCell className="text-muted-foreground">{c.paymentTermsDays ? `${c.paymentTermsDays} days, limit ${formatCurrency(c.creditLimit || 0)}` : "-"}</TableCell>
+                      <TableCell className="text-right">{c.creditBalance ? formatCurrency(c.creditBalance) : "-"}</TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+
+      <Dialog open={createOpen} onOpenChange={setCreateOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Add Customer</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            {([
+              ["name", "Name"],
+              ["phone", "Phone"],
+              ["email", "Email"],
+              ["address", "Address"],
+            ] as const).map(([field, label]) => (
+              <div key={field} className="space-y-2">
+                <label className="text-sm font-medium leading-none" htmlFor={`customer-${field}`}>{label}</label>
+                <Input
+                  id={`customer-${field}`}
+                  value={form[field]}
+                  onChange={(e) => setForm((prev) => ({ ...prev, [field]: e.target.value }))}
+                  data-testid={`input-customer-${field}`}
+                />
+              </div>
+            ))}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setCreateOpen(false)}>Cancel</Button>
+            <Button onClick={() => createMutation.mutate()} disabled={!form.name.trim() || createMutation.isPending} data-testid="button-save-customer">
+              {createMutation.isPending && <Loader2 className="animate-spin mr-1" />}
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -718,8 +718,8 @@ interface DateDetail {
     orderId: string;
     amountPaid: number;
     paymentMethod: string;
-    gcashNumber: string;
-    gcashReferenceNumber: string;
+    accountNumber: string;
+    referenceNumber: string;
     loggedBy: string;
     paymentDate: string;
   }>;
@@ -958,8 +958,8 @@ function DateDetailPanel({ detail, onClose }: { detail: DateDetail; onClose: ()
                 <div key={payment._id} className="flex items-center justify-between p-2.5 bg-gray-50 dark:bg-gray-700/30 rounded-md text-xs" data-testid={`date-payment-${payment._id}`}>
                   <div>
                     <span className="font-semibold text-gray-800 dark:text-white">{payment.paymentMethod}</span>
-                    {payment.gcashReferenceNumber && (
-                      <span className="text-gray-400 ml-1.5">Ref: {payment.gcashReferenceNumber}</span>
+                    {payment.referenceNumber && (
+                      <span className="text-gray-400 ml-1.5">Ref: {payment.referenceNumber}</span>
                     )}
                     <span className="text-gray-400 ml-1.5">by {payment.loggedBy}</span>
                   </div>
@@ -981,8 +981,8 @@ function DateDetailPanel({ detail, onClose }: { detail: DateDetail; onClose: ()
                   <div>
                     <span className="font-semibold text-gray-800 dark:text-white">{log.itemName}</span>
                     <span className="text-gray-400 mx-1.5">|</span>
-                    <span className={`font-medium ${log.type === "restock" ? "text-emerald-500" : log.type === "deduction" ? "text-red-500" : "text-blue-500"}`}>
-                      {log.type === "restock" ? "+" : log.type === "deduction" ? "-" : "~"}{log.quantity}
+                    <span className={`font-medium ${log.type === "restock" || log.type === "return" ? "text-emerald-500" : log.type === "deduction" ? "text-red-500" : "text-blue-500"}`}>
+                      {log.type === "restock" || log.type === "return" ? "+" : log.type === "deduction" ? "-" : "~"}{log.quantity}
                     </span>
                   </div>
                   <span className="text-gray-400">{log.reason || "—"}</span>
@@ -48,7 +48,7 @@ const faqs = [
   },
   {
     question: "How do I log a payment?",
-    answer: "Open the order detail page for an order with 'Pending Payment' status. Fill in the GCash number, reference number, and amount, then submit the payment form.",
+    answer: "Open the order detail page for an order with 'Pending Payment' status. Choose the payment method (Cash, GCash, Maya, Bank Transfer, Cheque or Card), fill in the details it asks for, such as the reference number, bank and cheque number, or card approval code, enter the amount, then submit the payment form.",
   },
   {
     question: "How do I release items for an order?",
@@ -106,6 +106,38 @@ const faqs = [
     question: "How do I view inventory logs?",
     answer: "On the Inventory page, click on any item to see its adjustment history. You can also view all inventory logs from the system by navigating to the Inventory Logs section, which shows restocks, deductions, and adjustments with timestamps and actors.",
   },
+  {
+    question: "How do I undo a mistyped payment?",
+    answer: "Open the order and click 'Void' next to the latest payment in the Payment Schedule, then enter the reason. An admin approves or rejects the request from the Billing page. Once approved, the payment's ledger entries are reversed and the order goes back to awaiting payment. The voided payment stays on record and its reference number cannot be logged again. Payments can only be voided before any items are released.",
+  },
+  {
+    question: "How do I attach a GCash screenshot to a payment?",
+    answer: "When logging the payment on the order, choose the screenshot or PDF under 'Proof Attachment'. The payment then waits in the Payment Verification list on the Billing page, where an admin opens the proof and marks it verified or flags it. While a payment is flagged the order cannot be released; the admin resolves it by marking it verified or approving a void.",
+  },
+  {
+    question: "Where do I record who supplies an item?",
+    answer: "Admins keep supplier records (contact, TIN, payment terms and lead time) under Suppliers. On the Inventory page, the Suppliers button on an item links it to one or more suppliers with their SKU and last cost; the first one listed is the preferred supplier. Supplier names typed on older items were merged into these records automatically, ignoring case, punctuation and suffixes like 'Inc.'.",
+  },
+  {
+    question: "How do I restock from a supplier?",
+    answer: "An admin creates a purchase order under Purchase Orders, picks the supplier and items, prints it and clicks 'Mark as Sent'. When the delivery arrives, an admin opens the PO and clicks 'Receive Goods', enters the delivery receipt number, the quantities that arrived and the cost actually charged. Stock goes up at that cost, and the amount is recorded as owed to the supplier in Accounts Payable. Partial deliveries can be received several times until everything ordered has arrived. Purchase orders show costs, so only admins can open them.",
+  },
+  {
+    question: "Why does an item show no margin?",
+    answer: "Margins on the Inventory page (visible to admins only) compare the selling price with the item's cost price. Enter the cost when adding an item or restocking; receiving a purchase order records the cost automatically. Stock recorded before cost prices existed was valued at the selling price, so an admin should click 'Enter Costs' on the Inventory page and fill in what those items actually cost.",
+  },
+  {
+    question: "How do I sell to a customer on 30-day terms?",
+    answer: "An admin sets the customer's payment terms and credit limit on their page under Customers. When creating the order, tick 'Charge to account'. The order can then be released before it is paid; the balance is billed to Accounts Receivable and falls due at the end of the terms. Orders that would take the customer over their limit are blocked unless an admin overrides with a reason. Open balances by age are under Reports > Receivables.",
+  },
+  {
+    question: "How do cashier shifts work?",
+    answer: "Open a shift from the Shifts page with the starting cash in your drawer. Every payment you log while it is open is recorded against it. At the end of your shift, click 'Close Shift' and enter what you counted for each payment method; any difference from the expected amount is recorded as over or short, and you can print the shift's Z-report. Admins see every shift's variance and can print a Z-report for a whole day.",
+  },
+  {
+    question: "What happens when a customer pays more than the balance?",
+    answer: "The excess is kept as store credit on the customer's record instead of being lost. The balance is shown on the order and on the customer's page under Customers, and can be used on a later order by choosing 'Store Credit' as the payment method. Voiding or cancelling is blocked if that credit has already been spent.",
+  },
   {
     question: "How do I handle refunds?",
     answer: "Currently, refunds are handled by cancelling the order (if not yet completed) and creating an inventory adjustment to restock the items. The admin can update the order status and log a note explaining the refund reason in the order detail page.",
@@ -18,8 +18,11 @@ import {
   ImageIcon,
   Clock,
   CheckCircle2,
+  Truck,
+  X,
+  Calculator,
 } from "lucide-react";
-import { createItemSchema, inventoryLogSchema, type CreateItemInput, type InventoryLogInput, type IItem } from "@shared/schema";
+import { createItemSchema, inventoryLogSchema, type CreateItemInput, type InventoryLogInput, type IItem, type ISupplier, type IInventoryCostReviewItem } from "@shared/schema";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useAuth } from "@/lib/auth";
 import { useToast } from "@/hooks/use-toast";
@@ -28,7 +31,7 @@ import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
-import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Skeleton } from "@/components/ui/skeleton";
@@ -123,6 +126,10 @@ export default function InventoryPage() {
   const [categoryFilter, setCategoryFilter] = useState("all");
   const [addOpen, setAddOpen] = useState(false);
   const [restockItem, setRestockItem] = useState<IItem | null>(null);
+  const [supplierItem, setSupplierItem] = useState<IItem | null>(null);
+  const [costReviewOpen, setCostReviewOpen] = useState(false);
+  const [reviewCosts, setReviewCosts] = useState<Record<string, string>>({});
+  const [supplierRows, setSupplierRows] = useState<Array<{ supplierId: string; supplierSku: string; lastCost: string }>>([]);
   const [viewMode, setViewMode] = useState<"grid" | "list">(() => {
     return (localStorage.getItem("inventory-view") as "grid" | "list") || "list";
   });
@@ -145,7 +152,22 @@ export default function InventoryPage() {
     enabled: isAdmin,
   });
 
+  const { data: suppliersData } = useQuery<{ success: boolean; data: ISupplier[] }>({
+    queryKey: ["/api/suppliers"],
+  });
+
+  const { data: costReviewData } = useQuery<{ success: boolean; data: IInventoryCostReviewItem[] }>({
+    queryKey: ["/api/inventory/cost-review"],
+    enabled: isAdmin,
+  });
+
   const items = itemsData?.data?.items || [];
+  const costReview = costReviewData?.data || [];
+  const estimatedCostItems = costReview.filter((i) => i.estimatedBatches > 0);
+  const suppliers = suppliersData?.data || [];
+  const activeSuppliers = suppliers.filter((s) => s.isActive);
+  const supplierNames = new Map(suppliers.map((s) => [s._id, s.name]));
+  const supplierLabel = (item: IItem) => (item.suppliers || []).map((s) => supplierNames.get(s.supplierId) || "Unknown").join(", ") || "-";
   const categories = categoriesData?.data || [];
   const pendingApprovals = approvalsData?.data || [];
 
@@ -162,10 +184,12 @@ export default function InventoryPage() {
   const lowStock = items.filter((i) => i.currentQuantity > 0 && i.currentQuantity <= i.reorderLevel).length;
   const totalValue = items.reduce((acc, i) => acc + i.unitPrice * i.currentQuantity, 0);
   const formatCurrency = (v: number) => new Intl.NumberFormat("en-PH", { style: "currency", currency: "PHP" }).format(v);
+  const formatMargin = (item: IItem) =>
+    item.costPrice && item.unitPrice > 0 ? `${(((item.unitPrice - item.costPrice) / item.unitPrice) * 100).toFixed(1)}%` : "-";
 
   const addForm = useForm<CreateItemInput>({
     resolver: zodResolver(createItemSchema),
-    defaultValues: { itemName: "", category: "", supplierName: "", unitPrice: 0, currentQuantity: 0, reorderLevel: 5 },
+    defaultValues: { itemName: "", category: "", supplierId: "", unitPrice: 0, costPrice: 0, currentQuantity: 0, reorderLevel: 5 },
   });
 
   const addMutation = useMutation({
@@ -183,6 +207,52 @@ export default function InventoryPage() {
     onError: (err: Error) => toast({ title: "Failed to create item", description: err.message, variant: "destructive" }),
   });
 
+  const itemSuppliersMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("PUT", `/api/items/${supplierItem!._id}/suppliers`, {
+        suppliers: supplierRows.map((r) => ({ supplierId: r.supplierId, supplierSku: r.supplierSku.trim(), lastCost: Number(r.lastCost) || 0 })),
+      });
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/items"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/suppliers"] });
+      setSupplierItem(null);
+      toast({ title: "Item suppliers updated" });
+    },
+    onError: (err: Error) => toast({ title: "Failed to update suppliers", description: err.message, variant: "destructive" }),
+  });
+
+  const openItemSuppliers = (item: IItem) => {
+    setSupplierRows((item.suppliers || []).map((s) => ({ supplierId: s.supplierId, supplierSku: s.supplierSku, lastCost: String(s.lastCost) })));
+    setSupplierItem(item);
+  };
+  const updateSupplierRow = (index: number, patch: Partial<(typeof supplierRows)[number]>) =>
+    setSupplierRows((rows) => rows.map((r, i) => (i === index ? { ...r, ...patch } : r)));
+
+  const costReviewMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/inventory/cost-review", {
+        items: Object.entries(reviewCosts)
+          .filter(([, cost]) => cost.trim() !== "")
+          .map(([itemId, cost]) => ({ itemId, unitCost: parseFloat(cost) || 0 })),
+      });
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/items"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/inventory/cost-review"] });
+      setCostReviewOpen(false);
+      toast({ title: "Costs saved", description: "Stock still on hand will be costed at these amounts when sold." });
+    },
+    onError: (err: Error) => toast({ title: "Failed to save costs", description: err.message, variant: "destructive" }),
+  });
+
+  const openCostReview = () => {
+    setReviewCosts(Object.fromEntries(costReview.map((i) => [i._id, i.costPrice ? String(i.costPrice) : ""])));
+    setCostReviewOpen(true);
+  };
+
   const [adjustType, setAdjustType] = useState<string>("restock");
   const [newPrice, setNewPrice] = useState<number>(0);
 
@@ -364,6 +434,26 @@ export default function InventoryPage() {
         </Card>
       )}
 
+      {isAdmin && costReview.length > 0 && (
+        <Card className="border-yellow-500/50" data-testid="card-cost-review">
+          <CardContent className="pt-6 flex items-center justify-between gap-4 flex-wrap">
+            <div className="flex items-start gap-3">
+              <Calculator className="h-5 w-5 text-yellow-500 mt-0.5" />
+              <div>
+                <p className="text-sm font-medium">{costReview.length} item(s) have no cost recorded</p>
+                <p className="text-xs text-muted-foreground">
+                  {estimatedCostItems.length > 0
+                    ? `Stock of ${estimatedCostItems.length} item(s) was recorded at the selling price, so sales from it show no margin. `
+                    : ""}
+                  Enter what each item cost you.
+                </p>
+              </div>
+            </div>
+            <Button variant="outline" onClick={openCostReview} data-testid="button-open-cost-review">Enter Costs</Button>
+          </CardContent>
+        </Card>
+      )}
+
       <div className="grid gap-4 grid-cols-1 sm:grid-cols-2 lg:grid-cols-4">
         <Card>
           <CardHeader className="flex flex-row items-center justify-between gap-2 space-y-0 pb-2">
@@ -464,11 +554,17 @@ export default function InventoryPage() {
                 <CardContent className="p-3 space-y-1">
                   <div className="font-semibold text-sm truncate" data-testid={`text-item-name-${item._id}`}>{item.itemName}</div>
                   <div className="text-xs text-muted-foreground">{item.category}</div>
-                  <div className="text-xs text-muted-foreground">{item.supplierName || "-"}</div>
+                  <div className="text-xs text-muted-foreground">{supplierLabel(item)}</div>
                   <div className="flex justify-between items-center text-xs mt-1">
                     <span className="font-medium">{formatCurrency(item.unitPrice)}</span>
-                    <span className="text-muted-foreground">Qty: {item.currentQuantity}</span>
+                    <span className="text-muted-foreground">Qty: {item.currentQuantity}{item.reservedQuantity ? ` (${item.reservedQuantity} reserved)` : ""}</span>
                   </div>
+                  {isAdmin && (
+                    <div className="flex justify-between items-center text-xs text-muted-foreground">
+                      <span>Cost {item.costPrice ? formatCurrency(item.costPrice) : "-"}</span>
+                      <span data-testid={`text-margin-grid-${item._id}`}>Margin {formatMargin(item)}</span>
+                    </div>
+                  )}
                   <div className="pt-1">
                     <StockBadge item={item} />
                   </div>
@@ -488,7 +584,11 @@ export default function InventoryPage() {
                   <TableHead>Category</TableHead>
                   <TableHead>Supplier</TableHead>
                   <TableHead className="text-right">Price</TableHead>
-                  <TableHead className="text-right">Qty</TableHead>
+                  {isAdmin && <TableHead className="text-right">Cost</TableHead>}
+                  {isAdmin && <TableHead className="text-right">Margin</TableHead>}
+                  <TableHead className="text-right">On Hand</TableHead>
+                  <TableHead className="text-right">Reserved</TableHead>
+                  <TableHead className="text-right">Available</TableHead>
                   <TableHead>Status</TableHead>
                   <TableHead>Actions</TableHead>
                 </TableRow>
@@ -496,7 +596,7 @@ export default function InventoryPage() {
               <TableBody>
                 {filtered.length === 0 ? (
                   <TableRow>
-                    <TableCell colSpan={8} className="text-center text-muted-foreground py-8">
+                    <TableCell colSpan={isAdmin ? 12 : 10} className="text-center text-muted-foreground py-8">
                       No items found
                     </TableCell>
                   </TableRow>
@@ -534,9 +634,13 @@ export default function InventoryPage() {
                         </TableCell>
                         <TableCell className="font-medium">{item.itemName}</TableCell>
                         <TableCell>{item.category}</TableCell>
-                        <TableCell className="text-muted-foreground">{item.supplierName || "-"}</TableCell>
+                        <TableCell className="text-muted-foreground">{supplierLabel(item)}</TableCell>
                         <TableCell className="text-right">{formatCurrency(item.unitPrice)}</TableCell>
+                        {isAdmin && <TableCell className="text-right text-muted-foreground">{item.costPrice ? formatCurrency(item.costPrice) : "-"}</TableCell>}
+                        {isAdmin && <TableCell className="text-right" data-testid={`text-margin-${item._id}`}>{formatMargin(item)}</TableCell>}
                         <TableCell className="text-right">{item.currentQuantity}</TableCell>
+                        <TableCell className="text-right text-muted-foreground">{item.reservedQuantity || 0}</TableCell>
+                        <TableCell className="text-right font-medium">{Math.max(0, item.currentQuantity - (item.reservedQuantity || 0))}</TableCell>
                         <TableCell><StockBadge item={item} /></TableCell>
                         <TableCell>
                           <Button
@@ -551,6 +655,11 @@ export default function InventoryPage() {
                           >
                             <RefreshCw className="mr-1 h-3 w-3" /> Adjust
                           </Button>
+                          {isAdmin && (
+                            <Button variant="ghost" size="sm" onClick={() => openItemSuppliers(item)} data-testid={`button-item-suppliers-${item._id}`}>
+                              <Truck className="mr-1 h-3 w-3" /> Suppliers
+                            </Button>
+                          )}
                         </TableCell>
                       </TableRow>
                     );
@@ -585,15 +694,23 @@ export default function InventoryPage() {
                     <FormMessage />
                   </FormItem>
                 )} />
-                <FormField control={addForm.control} name="supplierName" render={({ field }) => (
+                <FormField control={addForm.control} name="supplierId" render={({ field }) => (
                   <FormItem>
                     <FormLabel>Supplier</FormLabel>
-                    <FormControl><Input {...field} data-testid="input-item-supplier" /></FormControl>
+                    <Select value={field.value || "none"} onValueChange={(v) => field.onChange(v === "none" ? "" : v)}>
+                      <FormControl><SelectTrigger data-testid="select-item-supplier"><SelectValue /></SelectTrigger></FormControl>
+                      <SelectContent>
+                        <SelectItem value="none">None</SelectItem>
+                        {activeSuppliers.map((s) => (
+                          <SelectItem key={s._id} value={s._id}>{s.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
                     <FormMessage />
                   </FormItem>
                 )} />
               </div>
-              <div className="grid grid-cols-3 gap-4">
+              <div className="grid grid-cols-2 gap-4">
                 <FormField control={addForm.control} name="unitPrice" render={({ field }) => (
                   <FormItem>
                     <FormLabel>Unit Price</FormLabel>
@@ -601,6 +718,13 @@ export default function InventoryPage() {
                     <FormMessage />
                   </FormItem>
                 )} />
+                <FormField control={addForm.control} name="costPrice" render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Cost Price</FormLabel>
+                    <FormControl><Input type="number" step="0.01" {...field} onChange={(e) => field.onChange(parseFloat(e.target.value) || 0)} data-testid="input-item-cost" /></FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )} />
                 <FormField control={addForm.control} name="currentQuantity" render={({ field }) => (
                   <FormItem>
                     <FormLabel>Quantity</FormLabel>
@@ -680,6 +804,25 @@ export default function InventoryPage() {
                       <FormMessage />
                     </FormItem>
                   )} />
+                  {adjustType === "restock" && (
+                    <FormField control={restockForm.control} name="unitCost" render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Unit Cost</FormLabel>
+                        <FormControl>
+                          <Input
+                            type="number"
+                            min={0}
+                            step="0.01"
+                            placeholder={isAdmin && restockItem?.costPrice ? `Current cost ${formatCurrency(restockItem.costPrice)}` : "Leave blank to use the current cost price"}
+                            value={field.value ?? ""}
+                            onChange={(e) => field.onChange(e.target.value === "" ? undefined : parseFloat(e.target.value) || 0)}
+                            data-testid="input-log-unit-cost"
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )} />
+                  )}
                   <FormField control={restockForm.control} name="reason" render={({ field }) => (
                     <FormItem>
                       <FormLabel>Reason</FormLabel>
@@ -697,6 +840,106 @@ export default function InventoryPage() {
           </div>
         </DialogContent>
       </Dialog>
+
+      <Dialog open={costReviewOpen} onOpenChange={setCostReviewOpen}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Enter Item Costs</DialogTitle>
+            <DialogDescription>
+              The cost you enter becomes the item's cost price and replaces the selling price on its older stock batches. Sales already recorded keep their original cost of goods sold.
+            </DialogDescription>
+          </DialogHeader>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Item</TableHead>
+                <TableHead className="text-right">Selling Price</TableHead>
+                <TableHead className="text-right">Uncosted Stock</TableHead>
+                <TableHead className="text-right">Unit Cost</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {costReview.map((item) => (
+                <TableRow key={item._id} data-testid={`row-cost-review-${item._id}`}>
+                  <TableCell>
+                    <p className="font-medium">{item.itemName}</p>
+                    <p className="text-xs text-muted-foreground">{item.category}</p>
+                  </TableCell>
+                  <TableCell className="text-right">{formatCurrency(item.unitPrice)}</TableCell>
+                  <TableCell className="text-right text-muted-foreground">{item.estimatedBatches > 0 ? item.estimatedQuantity : "-"}</TableCell>
+                  <TableCell className="text-right">
+                    <Input
+                      type="number"
+                      min={0}
+                      step="0.01"
+                      value={reviewCosts[item._id] ?? ""}
+                      onChange={(e) => setReviewCosts((prev) => ({ ...prev, [item._id]: e.target.value }))}
+                      className="w-28 ml-auto text-right"
+                      data-testid={`input-review-cost-${item._id}`}
+                    />
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setCostReviewOpen(false)}>Cancel</Button>
+            <Button
+              onClick={() => costReviewMutation.mutate()}
+              disabled={costReviewMutation.isPending || !Object.values(reviewCosts).some((c) => c.trim() !== "")}
+              data-testid="button-save-cost-review"
+            >
+              {costReviewMutation.isPending && <Loader2 className="animate-spin mr-1" />}
+              Save Costs
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!supplierItem} onOpenChange={(open) => { if (!open) setSupplierItem(null); }}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Suppliers - {supplierItem?.itemName}</DialogTitle>
+            <DialogDescription>The first supplier listed is the preferred one.</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-3">
+            {supplierRows.length === 0 && <p className="text-sm text-muted-foreground">No suppliers linked to this item.</p>}
+            {supplierRows.map((row, index) => (
+              <div key={index} className="grid grid-cols-[1fr_8rem_7rem_auto] gap-2 items-center" data-testid={`row-item-supplier-${index}`}>
+                <Select value={row.supplierId} onValueChange={(v) => updateSupplierRow(index, { supplierId: v })}>
+                  <SelectTrigger><SelectValue placeholder="Select supplier" /></SelectTrigger>
+                  <SelectContent>
+                    {suppliers
+                      .filter((s) => s._id === row.supplierId || (s.isActive && !supplierRows.some((r) => r.supplierId === s._id)))
+                      .map((s) => (
+                        <SelectItem key={s._id} value={s._id}>{s.name}{s.isActive ? "" : " (inactive)"}</SelectItem>
+                      ))}
+                  </SelectContent>
+                </Select>
+                <Input placeholder="Supplier SKU" value={row.supplierSku} onChange={(e) => updateSupplierRow(index, { supplierSku: e.target.value })} />
+                <Input type="number" min="0" step="0.01" placeholder="Last cost" value={row.lastCost} onChange={(e) => updateSupplierRow(index, { lastCost: e.target.value })} />
+                <Button variant="ghost" size="icon" onClick={() => setSupplierRows((rows) => rows.filter((_, i) => i !== index))}>
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+            <Button variant="outline" size="sm" onClick={() => setSupplierRows((rows) => [...rows, { supplierId: "", supplierSku: "", lastCost: "0" }])} data-testid="button-add-item-supplier">
+              <Plus className="mr-1 h-3 w-3" /> Add Supplier
+            </Button>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setSupplierItem(null)}>Cancel</Button>
+            <Button
+              onClick={() => itemSuppliersMutation.mutate()}
+              disabled={itemSuppliersMutation.isPending || supplierRows.some((r) => !r.supplierId)}
+              data-testid="button-save-item-suppliers"
+            >
+              {itemSuppliersMutation.isPending && <Loader2 className="animate-spin mr-1" />}
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
@@ -1,6 +1,6 @@
 import { useState, useCallback, useRef } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
-import { useRoute, useLocation } from "wouter";
+import { useRoute, useLocation, Link } from "wouter";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import {
@@ -12,18 +12,36 @@ import {
   CheckCircle,
   MapPin,
   Navigation,
+  XCircle,
+  PackageCheck,
+  Pencil,
+  Trash2,
+  History,
+  Undo2,
+  Printer,
+  Ban,
+  Wallet,
+  Paperclip,
+  ShieldAlert,
 } from "lucide-react";
-import { logPaymentSchema, type LogPaymentInput, type IOrder } from "@shared/schema";
-import { apiRequest, queryClient } from "@/lib/queryClient";
+import { logPaymentSchema, PaymentMethod, PAYMENT_METHODS, REFUND_METHODS, PAYMENT_METHOD_FIELDS, paymentReference, type LogPaymentInput, type PaymentDetailField, type PaymentMethodType, type IOrder, type IOrderItem, type IOrderAddress, type IBillingPayment, type IItem, type IOrderReturn, type IPaymentVoidRequest, type ICustomer, type ICustomerCreditEntry } from "@shared/schema";
+import { computeOrderTotals, type DiscountType, type VatTreatment } from "@shared/pricing";
+import { canPerform, canPerformOn, orderStatusBadgeClass } from "@shared/orderLifecycle";
+import { apiRequest, queryClient, createSubmissionKey } from "@/lib/queryClient";
+import { useAuth } from "@/lib/auth";
+import { useSettings } from "@/lib/settings-context";
 import { useToast } from "@/hooks/use-toast";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
-import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Separator } from "@/components/ui/separator";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog";
 import { GoogleMap, useJsApiLoader, MarkerF } from "@react-google-maps/api";
 
 function OrderAddressMap({ address, apiKey }: { address: { street: string; unitNumber: string; city: string; province: string; zipCode: string }; apiKey: string }) {
@@ -87,25 +105,56 @@ function OrderAddressMap({ address, apiKey }: { address: { street: string; unitN
   );
 }
 
+const PAYMENT_FIELD_LABELS: Record<PaymentDetailField, string> = {
+  accountNumber: "Account Number",
+  referenceNumber: "Reference Number",
+  bankName: "Bank",
+  chequeNumber: "Cheque Number",
+  chequeDate: "Cheque Date",
+  cardLast4: "Card Last 4 Digits",
+  approvalCode: "Approval Code",
+};
+
+function paymentFieldLabel(method: PaymentMethodType, field: PaymentDetailField) {
+  return field === "accountNumber" ? `${method} Number` : PAYMENT_FIELD_LABELS[field];
+}
+
 function StatusBadge({ status }: { status: string }) {
-  const colorMap: Record<string, string> = {
-    "Pending Payment": "bg-yellow-500 text-white border-transparent",
-    "Paid": "bg-blue-500 text-white border-transparent",
-    "Pending Release": "bg-orange-500 text-white border-transparent",
-    "Released": "bg-indigo-500 text-white border-transparent",
-    "In Transit": "bg-purple-500 text-white border-transparent",
-    "Completed": "bg-green-600 text-white border-transparent",
-  };
-  return <Badge className={colorMap[status] || ""}>{status}</Badge>;
+  return <Badge className={orderStatusBadgeClass(status)}>{status}</Badge>;
 }
 
 export default function OrderDetailPage() {
   const { toast } = useToast();
+  const { isAdmin } = useAuth();
   const [, navigate] = useLocation();
   const [match, params] = useRoute("/orders/:id");
   const orderId = params?.id;
+  const [cancelOpen, setCancelOpen] = useState(false);
+  const [cancelReason, setCancelReason] = useState("");
+  const [driverName, setDriverName] = useState("");
+  const [vehicle, setVehicle] = useState("");
+  const [dispatchedAt, setDispatchedAt] = useState("");
+  const [receiverName, setReceiverName] = useState("");
+  const [proofFile, setProofFile] = useState<File | null>(null);
+  const [paymentProof, setPaymentProof] = useState<File | null>(null);
+  const paymentProofInput = useRef<HTMLInputElement>(null);
+  const [amendOpen, setAmendOpen] = useState(false);
+  const [releaseQty, setReleaseQty] = useState<Record<string, number>>({});
+  const [amendItems, setAmendItems] = useState<{ itemId: string; itemName: string; quantity: number; unitPrice: number; discountType?: DiscountType; discountValue?: number }[]>([]);
+  const { settings } = useSettings();
+  const [amendAddress, setAmendAddress] = useState<IOrderAddress>({ street: "", unitNumber: "", city: "", province: "", zipCode: "" });
+  const [amendReason, setAmendReason] = useState("");
+  const [amendItemId, setAmendItemId] = useState("");
+  const [returnOpen, setReturnOpen] = useState(false);
+  const [returnLines, setReturnLines] = useState<Record<string, { quantity: number; condition: "resaleable" | "damaged" | "defective" }>>({});
+  const [returnReason, setReturnReason] = useState("");
+  const [returnResolution, setReturnResolution] = useState<"refund" | "credit_note">("refund");
+  const [refundMethod, setRefundMethod] = useState("Cash");
+  const [refundReference, setRefundReference] = useState("");
+  const [voidPayment, setVoidPayment] = useState<IBillingPayment | null>(null);
+  const [voidReason, setVoidReason] = useState("");
 
-  const { data: orderData, isLoading } = useQuery<{ success: boolean; data: { order: IOrder; payments: any[] } }>({
+  const { data: orderData, isLoading } = useQuery<{ success: boolean; data: { order: IOrder; payments: IBillingPayment[]; returns: IOrderReturn[]; voidRequests: IPaymentVoidRequest[]; customer: ICustomer | null; credits: ICustomerCreditEntry[] } }>({
     queryKey: ["/api/orders", orderId],
     enabled: !!orderId,
   });
@@ -115,48 +164,285 @@ export default function OrderDetailPage() {
   });
   const mapsApiKey = mapsKeyData?.data?.key || "";
 
+  const { data: allItemsData } = useQuery<{ success: boolean; data: IItem[] }>({
+    queryKey: ["/api/items/all"],
+    enabled: amendOpen,
+  });
+  const allItems = allItemsData?.data || [];
+
   const order = orderData?.data?.order;
+  const payments = orderData?.data?.payments || [];
+  const returns = orderData?.data?.returns || [];
+  const voidRequests = orderData?.data?.voidRequests || [];
+  const customer = orderData?.data?.customer;
+  const credits = orderData?.data?.credits || [];
+  const creditBalance = customer?.creditBalance || 0;
+  const activePayments = payments.filter((p) => !p.voided);
+  // Overpayments sit in the customer's wallet, not against this order.
+  const totalPaid = activePayments.reduce((sum, p) => sum + p.amountPaid - (p.creditedAmount || 0), 0);
+  // Payments are voided latest first, so only the newest active one is offered.
+  const voidablePaymentId = order && canPerform(order.currentStatus, "void") ? activePayments[0]?._id : undefined;
+  const pendingVoid = (paymentId: string) => voidRequests.find((r) => r.paymentId === paymentId && r.status === "pending");
+  const flaggedPayment = activePayments.find((p) => p.verificationStatus === "flagged");
+  const amendTotals = order
+    ? computeOrderTotals(
+        amendItems,
+        order.discountValue ? { type: order.discountType, value: order.discountValue } : undefined,
+        (order.vatTreatment || "exclusive") as VatTreatment,
+        !!settings?.vatRegistered
+      )
+    : null;
+  const outstandingQty = (item: IOrderItem) => item.quantity - (item.releasedQuantity || 0);
+  const showReleaseProgress = !!order && (order.currentStatus === "Partially Released" || order.items.some((i) => (i.releasedQuantity || 0) > 0));
+  const balanceDue = order ? order.balanceDue ?? Math.max(0, order.totalAmount - totalPaid) : 0;
 
   const formatCurrency = (v: number) => new Intl.NumberFormat("en-PH", { style: "currency", currency: "PHP" }).format(v);
   const formatDate = (d: string) => new Date(d).toLocaleString("en-PH", { year: "numeric", month: "short", day: "numeric", hour: "2-digit", minute: "2-digit" });
+  const formatChange = (v: any): string => {
+    if (v === null || v === undefined) return "none";
+    if (typeof v === "object") return Object.entries(v).filter(([, val]) => val !== "").map(([k, val]) => `${k}: ${val}`).join(", ");
+    return String(v);
+  };
 
   const paymentForm = useForm<LogPaymentInput>({
     resolver: zodResolver(logPaymentSchema),
     defaultValues: {
       orderId: orderId || "",
       paymentMethod: "GCash",
-      gcashNumber: "",
-      gcashReferenceNumber: "",
+      accountNumber: "",
+      referenceNumber: "",
+      bankName: "",
+      chequeNumber: "",
+      chequeDate: "",
+      cardLast4: "",
+      approvalCode: "",
       amountPaid: 0,
       proofNote: "",
     },
   });
 
+  const paymentMethod = paymentForm.watch("paymentMethod");
+  const amountEntered = paymentForm.watch("amountPaid") || 0;
+
+  const [paymentSubmission] = useState(createSubmissionKey);
   const payMutation = useMutation({
     mutationFn: async (data: LogPaymentInput) => {
-      const res = await apiRequest("POST", "/api/billing/pay", { ...data, orderId });
+      let body: LogPaymentInput | FormData = { ...data, orderId: orderId || "" };
+      if (paymentProof) {
+        const formData = new FormData();
+        formData.append("payload", JSON.stringify(body));
+        formData.append("proof", paymentProof);
+        body = formData;
+      }
+      const res = await apiRequest("POST", "/api/billing/pay", body, { idempotencyKey: paymentSubmission.get() });
       return res.json();
     },
     onSuccess: () => {
+      paymentSubmission.settle();
       queryClient.invalidateQueries({ queryKey: ["/api/orders", orderId] });
       queryClient.invalidateQueries({ queryKey: ["/api/orders"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/customers"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/shifts/current"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/billing/verifications"] });
       paymentForm.reset();
+      setPaymentProof(null);
+      if (paymentProofInput.current) paymentProofInput.current.value = "";
       toast({ title: "Payment logged successfully" });
     },
-    onError: (err: Error) => toast({ title: "Payment failed", description: err.message, variant: "destructive" }),
+    onError: (err: Error) => {
+      paymentSubmission.settle(err);
+      toast({ title: "Payment failed", description: err.message, variant: "destructive" });
+    },
   });
 
   const releaseMutation = useMutation({
+    mutationFn: async (lines: { itemId: string; quantity: number }[]) => {
+      const res = await apiRequest("POST", `/api/orders/${orderId}/release`, { lines });
+      return res.json();
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/orders", orderId] });
+      queryClient.invalidateQueries({ queryKey: ["/api/orders"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/backorders"] });
+      setReleaseQty({});
+      toast({ title: "Items released successfully", description: result?.data?.message });
+    },
+    onError: (err: Error) => toast({ title: "Release failed", description: err.message, variant: "destructive" }),
+  });
+
+  const dispatchMutation = useMutation({
     mutationFn: async () => {
-      const res = await apiRequest("POST", `/api/orders/${orderId}/release`);
+      const res = await apiRequest("POST", `/api/orders/${orderId}/dispatch`, {
+        driverName,
+        vehicle,
+        dispatchedAt: dispatchedAt ? new Date(dispatchedAt).toISOString() : undefined,
+      });
       return res.json();
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/orders", orderId] });
       queryClient.invalidateQueries({ queryKey: ["/api/orders"] });
-      toast({ title: "Items released successfully" });
+      setDriverName("");
+      setVehicle("");
+      setDispatchedAt("");
+      toast({ title: "Order dispatched" });
     },
-    onError: (err: Error) => toast({ title: "Release failed", description: err.message, variant: "destructive" }),
+    onError: (err: Error) => toast({ title: "Dispatch failed", description: err.message, variant: "destructive" }),
+  });
+
+  const deliverMutation = useMutation({
+    mutationFn: async () => {
+      const formData = new FormData();
+      formData.append("receiverName", receiverName);
+      if (proofFile) formData.append("proof", proofFile);
+      const res = await fetch(`/api/orders/${orderId}/deliver`, {
+        method: "POST",
+        headers: { Authorization: `Bearer ${localStorage.getItem("token")}` },
+        body: formData,
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || data.message || "Delivery confirmation failed");
+      return data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/orders", orderId] });
+      queryClient.invalidateQueries({ queryKey: ["/api/orders"] });
+      setReceiverName("");
+      setProofFile(null);
+      toast({ title: "Delivery confirmed" });
+    },
+    onError: (err: Error) => toast({ title: "Delivery confirmation failed", description: err.message, variant: "destructive" }),
+  });
+
+  const amendMutation = useMutation({
+    mutationFn: async () => {
+      const hasAddress = Object.values(amendAddress).some((v) => v && v.trim() !== "");
+      const res = await apiRequest("POST", `/api/orders/${orderId}/amend`, {
+        items: amendItems,
+        address: hasAddress ? amendAddress : null,
+        reason: amendReason.trim(),
+      });
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/orders", orderId] });
+      queryClient.invalidateQueries({ queryKey: ["/api/orders"] });
+      setAmendOpen(false);
+      toast({ title: "Order amended" });
+    },
+    onError: (err: Error) => toast({ title: "Amendment failed", description: err.message, variant: "destructive" }),
+  });
+
+  // Opens the tab synchronously so the browser doesn't treat it as a popup.
+  const openDocument = async (url: string) => {
+    const tab = window.open("", "_blank");
+    try {
+      const res = await apiRequest("GET", url);
+      const blob = await res.blob();
+      if (tab) tab.location.href = URL.createObjectURL(blob);
+      queryClient.invalidateQueries({ queryKey: ["/api/orders", orderId] });
+    } catch (err: any) {
+      tab?.close();
+      toast({ title: "Could not generate document", description: err.message, variant: "destructive" });
+    }
+  };
+
+  const openAmend = () => {
+    if (!order) return;
+    setAmendItems(order.items.map((i) => ({
+      itemId: i.itemId,
+      itemName: i.itemName,
+      quantity: i.quantity,
+      unitPrice: i.unitPrice,
+      discountType: i.discountType,
+      discountValue: i.discountValue || 0,
+    })));
+    setAmendAddress({
+      street: order.address?.street || "",
+      unitNumber: order.address?.unitNumber || "",
+      city: order.address?.city || "",
+      province: order.address?.province || "",
+      zipCode: order.address?.zipCode || "",
+    });
+    setAmendReason("");
+    setAmendItemId("");
+    setAmendOpen(true);
+  };
+
+  const addAmendItem = () => {
+    const item = allItems.find((i) => i._id === amendItemId);
+    if (!item) return;
+    if (!amendItems.some((i) => i.itemId === item._id)) {
+      setAmendItems((prev) => [...prev, { itemId: item._id, itemName: item.itemName, quantity: 1, unitPrice: item.unitPrice }]);
+    }
+    setAmendItemId("");
+  };
+
+  const returnableQty = (item: IOrderItem) => item.quantity - (item.returnedQuantity || 0);
+
+  const openReturn = () => {
+    setReturnLines({});
+    setReturnReason("");
+    setReturnResolution("refund");
+    setRefundMethod("Cash");
+    setRefundReference("");
+    setReturnOpen(true);
+  };
+
+  const returnMutation = useMutation({
+    mutationFn: async () => {
+      const lines = Object.entries(returnLines)
+        .filter(([, l]) => l.quantity > 0)
+        .map(([itemId, l]) => ({ itemId, quantity: l.quantity, condition: l.condition }));
+      const res = await apiRequest("POST", `/api/orders/${orderId}/returns`, {
+        lines,
+        reason: returnReason.trim(),
+        resolution: returnResolution,
+        refundMethod,
+        refundReference,
+      });
+      return res.json();
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/orders", orderId] });
+      queryClient.invalidateQueries({ queryKey: ["/api/items"] });
+      setReturnOpen(false);
+      toast({
+        title: "Return recorded",
+        description: result?.data?.creditNoteNumber ? `Credit note ${result.data.creditNoteNumber} issued` : "Refund recorded",
+      });
+    },
+    onError: (err: Error) => toast({ title: "Return failed", description: err.message, variant: "destructive" }),
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: async (reason: string) => {
+      const res = await apiRequest("POST", `/api/orders/${orderId}/cancel`, { reason });
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/orders", orderId] });
+      queryClient.invalidateQueries({ queryKey: ["/api/orders"] });
+      setCancelOpen(false);
+      setCancelReason("");
+      toast({ title: "Order cancelled" });
+    },
+    onError: (err: Error) => toast({ title: "Cancellation failed", description: err.message, variant: "destructive" }),
+  });
+
+  const voidMutation = useMutation({
+    mutationFn: async ({ paymentId, reason }: { paymentId: string; reason: string }) => {
+      const res = await apiRequest("POST", `/api/billing/payments/${paymentId}/void`, { reason });
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/orders", orderId] });
+      queryClient.invalidateQueries({ queryKey: ["/api/billing/void-requests"] });
+      setVoidPayment(null);
+      setVoidReason("");
+      toast({ title: "Void requested", description: "An admin must approve it before the payment is reversed." });
+    },
+    onError: (err: Error) => toast({ title: "Void request failed", description: err.message, variant: "destructive" }),
   });
 
   if (isLoading) {
@@ -190,8 +476,33 @@ export default function OrderDetailPage() {
           <div className="flex items-center gap-2 mt-1 flex-wrap">
             <StatusBadge status={order.currentStatus} />
             <span className="text-sm text-muted-foreground">{formatDate(order.createdAt)}</span>
+            {order.onAccount && (
+              <Badge variant="outline" data-testid="badge-on-account">
+                On account · {order.dueDate ? `due ${new Date(order.dueDate).toLocaleDateString("en-PH", { year: "numeric", month: "short", day: "numeric" })}` : `${order.paymentTermsDays}-day terms`}
+              </Badge>
+            )}
           </div>
         </div>
+        {(order.currentStatus !== "Cancelled" || order.invoiceNumber) && (
+          <Button variant="outline" className="ml-auto" onClick={() => openDocument(`/api/orders/${order._id}/invoice.pdf`)} data-testid="button-print-invoice">
+            <Printer className="mr-1" /> {order.invoiceNumber ? `Reprint Invoice ${order.invoiceNumber}` : "Print Invoice"}
+          </Button>
+        )}
+        {canPerform(order.currentStatus, "amend") && (
+          <Button variant="outline" onClick={openAmend} data-testid="button-amend-order">
+            <Pencil className="mr-1" /> Amend Order
+          </Button>
+        )}
+        {canPerform(order.currentStatus, "return") && order.items.some((i) => returnableQty(i) > 0) && (
+          <Button variant="outline" onClick={openReturn} data-testid="button-record-return">
+            <Undo2 className="mr-1" /> Record Return
+          </Button>
+        )}
+        {canPerform(order.currentStatus, "cancel") && (order.currentStatus !== "Completed" || isAdmin) && !order.items.some((i) => (i.returnedQuantity || 0) > 0) && (
+          <Button variant="destructive" onClick={() => setCancelOpen(true)} data-testid="button-cancel-order">
+            <XCircle className="mr-1" /> Cancel Order
+          </Button>
+        )}
       </div>
 
       <div className="grid gap-6 grid-cols-1 lg:grid-cols-3">
@@ -218,6 +529,16 @@ export default function OrderDetailPage() {
                   <span className="text-muted-foreground">Total</span>
                   <p className="font-medium text-lg" data-testid="text-order-total">{formatCurrency(order.totalAmount)}</p>
                 </div>
+                {order.quotationId && (
+                  <div>
+                    <span className="text-muted-foreground">From Quotation</span>
+                    <p>
+                      <button type="button" className="font-medium font-mono underline" onClick={() => navigate(`/quotations/${order.quotationId}`)} data-testid="link-order-quotation">
+                        {order.quoteNumber}
+                      </button>
+                    </p>
+                  </div>
+                )}
               </div>
               {order.notes && (
                 <div>
@@ -293,6 +614,8 @@ export default function OrderDetailPage() {
                   <TableRow>
                     <TableHead>Item</TableHead>
                     <TableHead className="text-right">Qty</TableHead>
+                    {showReleaseProgress && <TableHead className="text-right">Released</TableHead>}
+                    {showReleaseProgress && <TableHead className="text-right">Outstanding</TableHead>}
                     <TableHead className="text-right">Price</TableHead>
                     <TableHead className="text-right">Subtotal</TableHead>
                   </TableRow>
@@ -300,14 +623,54 @@ export default function OrderDetailPage() {
                 <TableBody>
                   {order.items.map((item, i) => (
                     <TableRow key={i} data-testid={`row-order-item-${i}`}>
-                      <TableCell className="font-medium">{item.itemName}</TableCell>
+                      <TableCell className="font-medium">
+                        {item.itemName}
+                        {(item.discountAmount || 0) > 0 && (
+                          <span className="block text-xs font-normal text-muted-foreground">
+                            Less {item.discountType === "percent" ? `${item.discountValue}%` : formatCurrency(item.discountValue || 0)} ({formatCurrency(item.discountAmount || 0)})
+                          </span>
+                        )}
+                      </TableCell>
                       <TableCell className="text-right">{item.quantity}</TableCell>
+                      {showReleaseProgress && <TableCell className="text-right">{item.releasedQuantity || 0}</TableCell>}
+                      {showReleaseProgress && (
+                        <TableCell className={`text-right ${outstandingQty(item) > 0 ? "text-destructive font-medium" : ""}`}>
+                          {outstandingQty(item)}
+                        </TableCell>
+                      )}
                       <TableCell className="text-right">{formatCurrency(item.unitPrice)}</TableCell>
                       <TableCell className="text-right">{formatCurrency(item.lineTotal)}</TableCell>
                     </TableRow>
                   ))}
+                  {order.subtotal !== undefined && order.subtotal !== order.totalAmount && (
+                    <TableRow>
+                      <TableCell colSpan={showReleaseProgress ? 5 : 3} className="text-right">Subtotal</TableCell>
+                      <TableCell className="text-right">{formatCurrency(order.subtotal)}</TableCell>
+                    </TableRow>
+                  )}
+                  {(order.discountAmount || 0) > 0 && (
+                    <TableRow>
+                      <TableCell colSpan={showReleaseProgress ? 5 : 3} className="text-right">
+                        Discount{order.discountType === "percent" ? ` (${order.discountValue}%)` : ""}
+                      </TableCell>
+                      <TableCell className="text-right">-{formatCurrency(order.discountAmount || 0)}</TableCell>
+                    </TableRow>
+                  )}
+                  {(order.vatAmount || 0) > 0 && (
+                    <TableRow>
+                      <TableCell colSpan={showReleaseProgress ? 5 : 3} className="text-right">
+                        VAT 12%{order.vatTreatment === "inclusive" ? " (included)" : ""}
+                      </TableCell>
+                      <TableCell className="text-right">{formatCurrency(order.vatAmount || 0)}</TableCell>
+                    </TableRow>
+                  )}
+                  {order.vatTreatment === "exempt" && settings?.vatRegistered && (
+                    <TableRow>
+                      <TableCell colSpan={showReleaseProgress ? 6 : 4} className="text-right text-xs text-muted-foreground">VAT-exempt sale</TableCell>
+                    </TableRow>
+                  )}
                   <TableRow>
-                    <TableCell colSpan={3} className="font-bold text-right">Total</TableCell>
+                    <TableCell colSpan={showReleaseProgress ? 5 : 3} className="font-bold text-right">Total</TableCell>
                     <TableCell className="text-right font-bold">{formatCurrency(order.totalAmount)}</TableCell>
                   </TableRow>
                 </TableBody>
@@ -315,7 +678,112 @@ export default function OrderDetailPage() {
             </CardContent>
           </Card>
 
-          {order.currentStatus === "Pending Payment" && (
+          {payments.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-base">Payment Schedule</CardTitle>
+                <CardDescription>Installments received against this order</CardDescription>
+              </CardHeader>
+              <CardContent className="p-0">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Date</TableHead>
+                      <TableHead>Method</TableHead>
+                      <TableHead>Reference</TableHead>
+                      <TableHead className="text-right">Amount</TableHead>
+                      <TableHead className="text-right">Balance After</TableHead>
+                      <TableHead>Receipt</TableHead>
+                      <TableHead />
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {[...payments].reverse().map((p) => (
+                      <TableRow key={p._id} className={p.voided ? "text-muted-foreground" : undefined} data-testid={`row-payment-schedule-${p._id}`}>
+                        <TableCell className="text-muted-foreground">{formatDate(p.paymentDate || p.createdAt)}</TableCell>
+                        <TableCell>{p.paymentMethod}</TableCell>
+                        <TableCell className="font-mono text-xs">
+                          {paymentReference(p)}
+                          {p.proofFilename && (
+                            <a href={`/api/uploads/${p.proofFilename}`} target="_blank" rel="noreferrer" className="flex items-center gap-1 font-sans underline" data-testid={`link-payment-proof-${p._id}`}>
+                              <Paperclip className="h-3 w-3" /> Proof
+                            </a>
+                          )}
+                          {!p.voided && p.verificationStatus === "pending" && <Badge variant="outline" className="mt-1">Awaiting review</Badge>}
+                          {!p.voided && p.verificationStatus === "verified" && <Badge variant="outline" className="mt-1 text-green-600" title={`Verified by ${p.verifiedBy}`}>Verified</Badge>}
+                          {!p.voided && p.verificationStatus === "flagged" && <Badge variant="destructive" className="mt-1" title={p.verificationNote}>Flagged</Badge>}
+                        </TableCell>
+                        <TableCell className={`text-right ${p.voided ? "line-through" : ""}`}>
+                          {formatCurrency(p.amountPaid)}
+                          {!!p.creditedAmount && <p className="text-xs text-muted-foreground">{formatCurrency(p.creditedAmount)} to store credit</p>}
+                        </TableCell>
+                        <TableCell className="text-right">{p.balanceAfter !== undefined ? formatCurrency(p.balanceAfter) : "-"}</TableCell>
+                        <TableCell>
+                          <Button variant="ghost" size="sm" onClick={() => openDocument(`/api/orders/${order._id}/receipt.pdf?paymentId=${p._id}`)} data-testid={`button-print-receipt-${p._id}`}>
+                            <Printer className="h-3 w-3 mr-1" /> {p.receiptNumber || "Print OR"}
+                          </Button>
+                        </TableCell>
+                        <TableCell>
+                          {p.voided ? (
+                            <Badge variant="destructive" title={`${p.voidReason || ""} (${p.voidedBy || ""})`}>Voided</Badge>
+                          ) : pendingVoid(p._id) ? (
+                            <Badge variant="outline" title={pendingVoid(p._id)?.reason}>Void pending</Badge>
+                          ) : p._id === voidablePaymentId ? (
+                            <Button variant="ghost" size="sm" className="text-destructive" onClick={() => setVoidPayment(p)} data-testid={`button-void-payment-${p._id}`}>
+                              <Ban className="h-3 w-3 mr-1" /> Void
+                            </Button>
+                          ) : null}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                    <TableRow>
+                      <TableCell colSpan={3} className="font-bold text-right">Total Paid</TableCell>
+                      <TableCell className="text-right font-bold">{formatCurrency(totalPaid)}</TableCell>
+                      <TableCell colSpan={3} />
+                    </TableRow>
+                    <TableRow>
+                      <TableCell colSpan={3} className="font-bold text-right">Outstanding Balance</TableCell>
+                      <TableCell className="text-right font-bold" data-testid="text-order-balance-due">{formatCurrency(balanceDue)}</TableCell>
+                      <TableCell colSpan={3} />
+                    </TableRow>
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+          )}
+
+          {customer && (creditBalance > 0 || credits.length > 0) && (
+            <Card data-testid="card-store-credit">
+              <CardHeader>
+                <CardTitle className="text-base flex items-center gap-2">
+                  <Wallet className="h-4 w-4" /> Store Credit
+                </CardTitle>
+                <CardDescription>
+                  <Link href={`/customers/${customer._id}`} className="underline">{customer.name}</Link> has {formatCurrency(creditBalance)} available
+                </CardDescription>
+              </CardHeader>
+              {credits.length > 0 && (
+                <CardContent className="p-0">
+                  <Table>
+                    <TableBody>
+                      {credits.map((c) => (
+                        <TableRow key={c._id}>
+                          <TableCell className="text-muted-foreground">{formatDate(c.createdAt)}</TableCell>
+                          <TableCell>{c.note}</TableCell>
+                          <TableCell className={`text-right ${c.amount < 0 ? "text-destructive" : "text-green-600"}`}>
+                            {c.amount > 0 ? "+" : ""}{formatCurrency(c.amount)}
+                          </TableCell>
+                          <TableCell className="text-right">{formatCurrency(c.balanceAfter)}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </CardContent>
+              )}
+            </Card>
+          )}
+
+          {canPerformOn(order, "pay") && (
             <Card>
               <CardHeader>
                 <CardTitle className="text-base flex items-center gap-2">
@@ -326,26 +794,49 @@ export default function OrderDetailPage() {
               <CardContent>
                 <Form {...paymentForm}>
                   <form onSubmit={paymentForm.handleSubmit((data) => payMutation.mutate(data))} className="space-y-4">
-                    <div className="grid grid-cols-2 gap-4">
-                      <FormField control={paymentForm.control} name="gcashNumber" render={({ field }) => (
-                        <FormItem>
-                          <FormLabel>GCash Number</FormLabel>
-                          <FormControl><Input {...field} data-testid="input-gcash-number" /></FormControl>
-                          <FormMessage />
-                        </FormItem>
-                      )} />
-                      <FormField control={paymentForm.control} name="gcashReferenceNumber" render={({ field }) => (
-                        <FormItem>
-                          <FormLabel>Reference Number</FormLabel>
-                          <FormControl><Input {...field} data-testid="input-gcash-ref" /></FormControl>
-                          <FormMessage />
-                        </FormItem>
-                      )} />
-                    </div>
+                    <FormField control={paymentForm.control} name="paymentMethod" render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Payment Method</FormLabel>
+                        <Select value={field.value} onValueChange={field.onChange}>
+                          <FormControl>
+                            <SelectTrigger data-testid="select-payment-method"><SelectValue /></SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            {PAYMENT_METHODS.map((method) => (
+                              <SelectItem key={method} value={method} disabled={method === PaymentMethod.STORE_CREDIT && creditBalance <= 0}>
+                                {method === PaymentMethod.STORE_CREDIT ? `${method} (${formatCurrency(creditBalance)} available)` : method}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )} />
+                    {PAYMENT_METHOD_FIELDS[paymentMethod].length > 0 && (
+                      <div className="grid grid-cols-2 gap-4">
+                        {PAYMENT_METHOD_FIELDS[paymentMethod].map((name) => (
+                          <FormField key={`${paymentMethod}-${name}`} control={paymentForm.control} name={name} render={({ field }) => (
+                            <FormItem>
+                              <FormLabel>{paymentFieldLabel(paymentMethod, name)}</FormLabel>
+                              <FormControl>
+                                <Input type={name === "chequeDate" ? "date" : "text"} {...field} data-testid={`input-payment-${name}`} />
+                              </FormControl>
+                              <FormMessage />
+                            </FormItem>
+                          )} />
+                        ))}
+                      </div>
+                    )}
                     <FormField control={paymentForm.control} name="amountPaid" render={({ field }) => (
                       <FormItem>
                         <FormLabel>Amount Paid</FormLabel>
                         <FormControl><Input type="number" step="0.01" {...field} onChange={(e) => field.onChange(parseFloat(e.target.value) || 0)} data-testid="input-amount-paid" /></FormControl>
+                        <FormDescription>
+                          Outstanding balance: {formatCurrency(balanceDue)}. Smaller amounts are recorded as an installment.
+                          {paymentMethod === PaymentMethod.STORE_CREDIT
+                            ? ` Up to ${formatCurrency(Math.min(creditBalance, balanceDue))} can be paid from store credit.`
+                            : amountEntered > balanceDue && ` The extra ${formatCurrency(amountEntered - balanceDue)} will be kept as store credit for ${order.customerName}.`}
+                        </FormDescription>
                         <FormMessage />
                       </FormItem>
                     )} />
@@ -356,6 +847,18 @@ export default function OrderDetailPage() {
                         <FormMessage />
                       </FormItem>
                     )} />
+                    <div className="space-y-2">
+                      <label className="text-sm font-medium leading-none" htmlFor="payment-proof">Proof Attachment</label>
+                      <Input
+                        id="payment-proof"
+                        ref={paymentProofInput}
+                        type="file"
+                        accept="image/*,application/pdf"
+                        onChange={(e) => setPaymentProof(e.target.files?.[0] || null)}
+                        data-testid="input-payment-proof"
+                      />
+                      <p className="text-sm text-muted-foreground">Screenshot or PDF of the transfer. An admin checks it before the payment is marked verified.</p>
+                    </div>
                     <Button type="submit" disabled={payMutation.isPending} data-testid="button-submit-payment">
                       {payMutation.isPending && <Loader2 className="animate-spin mr-1" />}
                       Log Payment
@@ -366,25 +869,249 @@ export default function OrderDetailPage() {
             </Card>
           )}
 
-          {order.currentStatus === "Pending Release" && (
+          {canPerformOn(order, "release") && (
             <Card>
               <CardHeader>
                 <CardTitle className="text-base flex items-center gap-2">
-                  <Truck className="h-4 w-4" /> Release Items
+                  <Truck className="h-4 w-4" /> {order.currentStatus === "Partially Released" ? "Release Backorder" : "Release Items"}
                 </CardTitle>
-                <CardDescription>Release items for this order</CardDescription>
+                <CardDescription>
+                  {order.address && (order.address.street || order.address.city || order.address.province)
+                    ? "Release items for this order. It will then wait for dispatch."
+                    : "Release items for this order"}
+                  {" "}Quantities not in stock stay on the order as a backorder.
+                  {order.onAccount && !order.chargedAt && ` The balance is charged to ${order.customerName}'s account, due in ${order.paymentTermsDays} days.`}
+                </CardDescription>
               </CardHeader>
-              <CardContent>
-                <Button onClick={() => releaseMutation.mutate()} disabled={releaseMutation.isPending} data-testid="button-release-items">
+              <CardContent className="space-y-3">
+                {flaggedPayment && (
+                  <div className="flex items-start gap-2 rounded-md border border-destructive/50 p-3 text-sm text-destructive" data-testid="text-release-hold">
+                    <ShieldAlert className="h-4 w-4 mt-0.5 shrink-0" />
+                    <span>
+                      Release is on hold: the {flaggedPayment.paymentMethod} payment of {formatCurrency(flaggedPayment.amountPaid)} was flagged by {flaggedPayment.verifiedBy}
+                      {flaggedPayment.verificationNote ? ` (${flaggedPayment.verificationNote})` : ""}. An admin must verify or void it first.
+                    </span>
+                  </div>
+                )}
+                {order.items.filter((item) => outstandingQty(item) > 0).map((item) => (
+                  <div key={item.itemId} className="flex items-center justify-between gap-3 text-sm">
+                    <span className="truncate">{item.itemName} <span className="text-muted-foreground">({outstandingQty(item)} outstanding)</span></span>
+                    <Input
+                      type="number"
+                      min={0}
+                      max={outstandingQty(item)}
+                      className="w-24"
+                      value={releaseQty[item.itemId] ?? outstandingQty(item)}
+                      onChange={(e) => setReleaseQty((prev) => ({ ...prev, [item.itemId]: Math.min(outstandingQty(item), Math.max(0, parseInt(e.target.value) || 0)) }))}
+                      data-testid={`input-release-qty-${item.itemId}`}
+                    />
+                  </div>
+                ))}
+                <Button
+                  onClick={() => releaseMutation.mutate(
+                    order.items
+                      .filter((item) => outstandingQty(item) > 0)
+                      .map((item) => ({ itemId: item.itemId, quantity: releaseQty[item.itemId] ?? outstandingQty(item) }))
+                  )}
+                  disabled={releaseMutation.isPending || !!flaggedPayment}
+                  data-testid="button-release-items"
+                >
                   {releaseMutation.isPending && <Loader2 className="animate-spin mr-1" />}
                   Release Items
                 </Button>
               </CardContent>
             </Card>
           )}
+
+          {canPerform(order.currentStatus, "dispatch") && order.address && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-base flex items-center gap-2">
+                  <Truck className="h-4 w-4" /> Dispatch Delivery
+                </CardTitle>
+                <CardDescription>Assign a driver and vehicle to move this order to In Transit</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                  <div className="space-y-2">
+                    <label className="text-sm font-medium leading-none" htmlFor="dispatch-driver">Driver</label>
+                    <Input id="dispatch-driver" value={driverName} onChange={(e) => setDriverName(e.target.value)} data-testid="input-dispatch-driver" />
+                  </div>
+                  <div className="space-y-2">
+                    <label className="text-sm font-medium leading-none" htmlFor="dispatch-vehicle">Vehicle</label>
+                    <Input id="dispatch-vehicle" placeholder="Plate number / truck" value={vehicle} onChange={(e) => setVehicle(e.target.value)} data-testid="input-dispatch-vehicle" />
+                  </div>
+                  <div className="space-y-2">
+                    <label className="text-sm font-medium leading-none" htmlFor="dispatch-time">Dispatch Time</label>
+                    <Input id="dispatch-time" type="datetime-local" value={dispatchedAt} onChange={(e) => setDispatchedAt(e.target.value)} data-testid="input-dispatch-time" />
+                  </div>
+                </div>
+                <Button
+                  onClick={() => dispatchMutation.mutate()}
+                  disabled={!driverName.trim() || !vehicle.trim() || dispatchMutation.isPending}
+                  data-testid="button-dispatch-order"
+                >
+                  {dispatchMutation.isPending && <Loader2 className="animate-spin mr-1" />}
+                  Dispatch
+                </Button>
+              </CardContent>
+            </Card>
+          )}
+
+          {canPerform(order.currentStatus, "deliver") && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-base flex items-center gap-2">
+                  <PackageCheck className="h-4 w-4" /> Confirm Delivery
+                </CardTitle>
+                <CardDescription>Record who received the order and attach a proof-of-delivery photo</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <label className="text-sm font-medium leading-none" htmlFor="delivery-receiver">Received By</label>
+                    <Input id="delivery-receiver" value={receiverName} onChange={(e) => setReceiverName(e.target.value)} data-testid="input-delivery-receiver" />
+                  </div>
+                  <div className="space-y-2">
+                    <label className="text-sm font-medium leading-none" htmlFor="delivery-proof">Proof of Delivery</label>
+                    <Input
+                      id="delivery-proof"
+                      type="file"
+                      accept="image/*"
+                      onChange={(e) => setProofFile(e.target.files?.[0] || null)}
+                      data-testid="input-delivery-proof"
+                    />
+                  </div>
+                </div>
+                <Button
+                  onClick={() => deliverMutation.mutate()}
+                  disabled={!receiverName.trim() || !proofFile || deliverMutation.isPending}
+                  data-testid="button-confirm-delivery"
+                >
+                  {deliverMutation.isPending && <Loader2 className="animate-spin mr-1" />}
+                  Mark Delivered
+                </Button>
+              </CardContent>
+            </Card>
+          )}
         </div>
 
         <div className="space-y-6">
+          {order.delivery && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-base flex items-center gap-2">
+                  <Truck className="h-4 w-4" /> Delivery
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-3 text-sm">
+                <div className="grid grid-cols-2 gap-3">
+                  <div>
+                    <span className="text-muted-foreground text-xs">Driver</span>
+                    <p className="font-medium" data-testid="text-delivery-driver">{order.delivery.driverName}</p>
+                  </div>
+                  <div>
+                    <span className="text-muted-foreground text-xs">Vehicle</span>
+                    <p className="font-medium">{order.delivery.vehicle}</p>
+                  </div>
+                  <div>
+                    <span className="text-muted-foreground text-xs">Dispatched</span>
+                    <p className="font-medium">{formatDate(order.delivery.dispatchedAt)}</p>
+                  </div>
+                  {order.delivery.deliveredAt && (
+                    <div>
+                      <span className="text-muted-foreground text-xs">Delivered</span>
+                      <p className="font-medium">{formatDate(order.delivery.deliveredAt)}</p>
+                    </div>
+                  )}
+                  {order.delivery.receiverName && (
+                    <div>
+                      <span className="text-muted-foreground text-xs">Received By</span>
+                      <p className="font-medium" data-testid="text-delivery-receiver">{order.delivery.receiverName}</p>
+                    </div>
+                  )}
+                </div>
+                {order.delivery.proofFilename && (
+                  <a href={`/api/uploads/${order.delivery.proofFilename}`} target="_blank" rel="noreferrer">
+                    <img
+                      src={`/api/uploads/${order.delivery.proofFilename}`}
+                      alt="Proof of delivery"
+                      className="rounded-md border w-full object-cover max-h-48"
+                      data-testid="img-delivery-proof"
+                    />
+                  </a>
+                )}
+              </CardContent>
+            </Card>
+          )}
+
+          {order.amendments && order.amendments.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-base flex items-center gap-2">
+                  <History className="h-4 w-4" /> Amendments
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {order.amendments.map((a, i) => (
+                  <div key={i} className="text-xs space-y-1" data-testid={`amendment-${i}`}>
+                    <p className="font-medium text-sm">{formatDate(a.timestamp)} by {a.actor}</p>
+                    {a.reason && <p className="text-muted-foreground">{a.reason}</p>}
+                    <ul className="space-y-0.5">
+                      {a.changes.map((c, j) => (
+                        <li key={j}>
+                          <span className="font-mono">{c.field}</span>:{" "}
+                          <span className="text-muted-foreground line-through">{formatChange(c.before)}</span>{" "}
+                          → {formatChange(c.after)}
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+          )}
+
+          {returns.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-base flex items-center gap-2">
+                  <Undo2 className="h-4 w-4" /> Returns
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {returns.map((ret) => (
+                  <div key={ret._id} className="text-sm space-y-1" data-testid={`return-${ret._id}`}>
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="font-mono font-medium">{ret.rmaNumber}</span>
+                      <span className="font-medium">{formatCurrency(ret.amount)}</span>
+                    </div>
+                    <p className="text-xs text-muted-foreground">{formatDate(ret.createdAt)} by {ret.processedBy}</p>
+                    <ul className="text-xs space-y-0.5">
+                      {ret.lines.map((l, i) => (
+                        <li key={i}>
+                          {l.itemName} x{l.quantity} <span className="capitalize text-muted-foreground">({l.condition}{l.restocked ? ", restocked" : ""})</span>
+                        </li>
+                      ))}
+                    </ul>
+                    <p className="text-xs">{ret.reason}</p>
+                    {ret.amount > (ret.receivableCredited || 0) && (
+                      <Badge variant="secondary">
+                        {ret.resolution === "refund"
+                          ? `Refund via ${ret.refundMethod}${ret.refundReference ? ` (${ret.refundReference})` : ""}`
+                          : `Credit note ${ret.creditNoteNumber}`}
+                      </Badge>
+                    )}
+                    {(ret.receivableCredited || 0) > 0 && (
+                      <p className="text-xs text-muted-foreground">{formatCurrency(ret.receivableCredited!)} taken off the unpaid balance</p>
+                    )}
+                    <Separator className="mt-3" />
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+          )}
+
           <Card>
             <CardHeader>
               <CardTitle className="text-base">Status Timeline</CardTitle>
@@ -416,6 +1143,292 @@ export default function OrderDetailPage() {
           </Card>
         </div>
       </div>
+
+      <Dialog open={amendOpen} onOpenChange={setAmendOpen}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Amend Order {order.trackingNumber}</DialogTitle>
+            <DialogDescription>Change items, quantities or the delivery address before payment. Every amendment is kept in the order history.</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Item</TableHead>
+                  <TableHead className="w-24 text-right">Qty</TableHead>
+                  <TableHead className="text-right">Subtotal</TableHead>
+                  <TableHead></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {amendItems.map((ai, idx) => (
+                  <TableRow key={ai.itemId}>
+                    <TableCell>{ai.itemName}</TableCell>
+                    <TableCell className="text-right">
+                      <Input
+                        type="number"
+                        min={1}
+                        value={ai.quantity}
+                        onChange={(e) => {
+                          const quantity = Math.max(1, parseInt(e.target.value) || 1);
+                          setAmendItems((prev) => prev.map((p) => p.itemId === ai.itemId ? { ...p, quantity } : p));
+                        }}
+                        data-testid={`input-amend-qty-${ai.itemId}`}
+                      />
+                    </TableCell>
+                    <TableCell className="text-right">{formatCurrency(amendTotals?.lines[idx]?.lineTotal ?? ai.quantity * ai.unitPrice)}</TableCell>
+                    <TableCell>
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon"
+                        disabled={amendItems.length === 1}
+                        onClick={() => setAmendItems((prev) => prev.filter((p) => p.itemId !== ai.itemId))}
+                      >
+                        <Trash2 className="h-3 w-3" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+                <TableRow>
+                  <TableCell colSpan={2} className="font-bold text-right">New Total</TableCell>
+                  <TableCell className="text-right font-bold">
+                    {formatCurrency(amendTotals?.totalAmount ?? 0)}
+                  </TableCell>
+                  <TableCell />
+                </TableRow>
+              </TableBody>
+            </Table>
+            <div className="flex items-end gap-2">
+              <Select value={amendItemId} onValueChange={setAmendItemId}>
+                <SelectTrigger className="w-[240px]" data-testid="select-amend-item">
+                  <SelectValue placeholder="Add another item" />
+                </SelectTrigger>
+                <SelectContent>
+                  {allItems.filter((i) => !amendItems.some((ai) => ai.itemId === i._id)).map((item) => (
+                    <SelectItem key={item._id} value={item._id}>{item.itemName}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button type="button" variant="secondary" onClick={addAmendItem} disabled={!amendItemId}>Add</Button>
+            </div>
+            <div className="space-y-2">
+              <label className="text-sm font-medium leading-none">Delivery Address</label>
+              <div className="grid grid-cols-2 gap-2">
+                {(["street", "unitNumber", "city", "province", "zipCode"] as const).map((field) => (
+                  <Input
+                    key={field}
+                    placeholder={{ street: "Street", unitNumber: "Unit/Building", city: "City", province: "Province", zipCode: "ZIP Code" }[field]}
+                    value={amendAddress[field]}
+                    onChange={(e) => setAmendAddress((prev) => ({ ...prev, [field]: e.target.value }))}
+                    data-testid={`input-amend-address-${field}`}
+                  />
+                ))}
+              </div>
+            </div>
+            <div className="space-y-2">
+              <label className="text-sm font-medium leading-none" htmlFor="amend-reason">Reason</label>
+              <Input id="amend-reason" value={amendReason} onChange={(e) => setAmendReason(e.target.value)} placeholder="e.g. Customer called to change quantity" data-testid="input-amend-reason" />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setAmendOpen(false)}>Close</Button>
+            <Button onClick={() => amendMutation.mutate()} disabled={amendItems.length === 0 || amendMutation.isPending} data-testid="button-save-amendment">
+              {amendMutation.isPending && <Loader2 className="animate-spin mr-1" />}
+              Save Amendment
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={returnOpen} onOpenChange={setReturnOpen}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Record Return for {order.trackingNumber}</DialogTitle>
+            <DialogDescription>Resaleable items go back to inventory at their original FIFO cost. Revenue is reversed and the customer is refunded or given a credit note.</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Item</TableHead>
+                  <TableHead className="w-24 text-right">Return Qty</TableHead>
+                  <TableHead className="w-40">Condition</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {order.items.filter((item) => returnableQty(item) > 0).map((item) => {
+                  const line = returnLines[item.itemId] || { quantity: 0, condition: "resaleable" as const };
+                  return (
+                    <TableRow key={item.itemId}>
+                      <TableCell>
+                        {item.itemName}
+                        <span className="text-xs text-muted-foreground ml-1">(max {returnableQty(item)})</span>
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <Input
+                          type="number"
+                          min={0}
+                          max={returnableQty(item)}
+                          value={line.quantity}
+                          onChange={(e) => {
+                            const quantity = Math.min(returnableQty(item), Math.max(0, parseInt(e.target.value) || 0));
+                            setReturnLines((prev) => ({ ...prev, [item.itemId]: { ...line, quantity } }));
+                          }}
+                          data-testid={`input-return-qty-${item.itemId}`}
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <Select
+                          value={line.condition}
+                          onValueChange={(condition) => setReturnLines((prev) => ({ ...prev, [item.itemId]: { ...line, condition: condition as typeof line.condition } }))}
+                        >
+                          <SelectTrigger data-testid={`select-return-condition-${item.itemId}`}>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="resaleable">Resaleable</SelectItem>
+                            <SelectItem value="damaged">Damaged</SelectItem>
+                            <SelectItem value="defective">Defective</SelectItem>
+                          </SelectContent>
+                        </Select>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+            <div className="space-y-2">
+              <label className="text-sm font-medium leading-none" htmlFor="return-reason">Reason</label>
+              <Textarea
+                id="return-reason"
+                value={returnReason}
+                onChange={(e) => setReturnReason(e.target.value)}
+                placeholder="e.g. Cracked on delivery, excess quantity"
+                data-testid="input-return-reason"
+              />
+            </div>
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+              <div className="space-y-2">
+                <label className="text-sm font-medium leading-none">Resolution</label>
+                <Select value={returnResolution} onValueChange={(v) => setReturnResolution(v as "refund" | "credit_note")}>
+                  <SelectTrigger data-testid="select-return-resolution">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="refund">Refund</SelectItem>
+                    <SelectItem value="credit_note">Credit Note</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              {returnResolution === "refund" && (
+                <>
+                  <div className="space-y-2">
+                    <label className="text-sm font-medium leading-none">Refund Method</label>
+                    <Select value={refundMethod} onValueChange={setRefundMethod}>
+                      <SelectTrigger data-testid="select-refund-method">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {REFUND_METHODS.map((method) => (
+                          <SelectItem key={method} value={method}>{method}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <label className="text-sm font-medium leading-none" htmlFor="refund-reference">Reference</label>
+                    <Input id="refund-reference" value={refundReference} onChange={(e) => setRefundReference(e.target.value)} placeholder="Optional" data-testid="input-refund-reference" />
+                  </div>
+                </>
+              )}
+            </div>
+            <p className="text-sm text-muted-foreground">
+              Amount: {formatCurrency(order.items.reduce((sum, item) => sum + (returnLines[item.itemId]?.quantity || 0) * item.unitPrice, 0))}
+            </p>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setReturnOpen(false)}>Close</Button>
+            <Button
+              onClick={() => returnMutation.mutate()}
+              disabled={!returnReason.trim() || !Object.values(returnLines).some((l) => l.quantity > 0) || returnMutation.isPending}
+              data-testid="button-save-return"
+            >
+              {returnMutation.isPending && <Loader2 className="animate-spin mr-1" />}
+              Record Return
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!voidPayment} onOpenChange={(open) => { if (!open) { setVoidPayment(null); setVoidReason(""); } }}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Request Payment Void</DialogTitle>
+            <DialogDescription>
+              {voidPayment && `${formatCurrency(voidPayment.amountPaid)} via ${voidPayment.paymentMethod}${paymentReference(voidPayment) ? ` (${paymentReference(voidPayment)})` : ""}. `}
+              Once an admin approves, the ledger entries are reversed and the order returns to awaiting payment. The reference number stays reserved and cannot be logged again.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <label className="text-sm font-medium leading-none" htmlFor="void-reason">Reason</label>
+            <Textarea
+              id="void-reason"
+              value={voidReason}
+              onChange={(e) => setVoidReason(e.target.value)}
+              placeholder="e.g. Amount mistyped, payment logged on the wrong order"
+              data-testid="input-void-reason"
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setVoidPayment(null)}>Close</Button>
+            <Button
+              variant="destructive"
+              onClick={() => voidPayment && voidMutation.mutate({ paymentId: voidPayment._id, reason: voidReason.trim() })}
+              disabled={!voidReason.trim() || voidMutation.isPending}
+              data-testid="button-confirm-void"
+            >
+              {voidMutation.isPending && <Loader2 className="animate-spin mr-1" />}
+              Request Void
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={cancelOpen} onOpenChange={(open) => { setCancelOpen(open); if (!open) setCancelReason(""); }}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Cancel Order {order.trackingNumber}</DialogTitle>
+            <DialogDescription>
+              Posted payments and COGS will be reversed in the ledger, and any released stock will be returned to inventory.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <label className="text-sm font-medium leading-none" htmlFor="cancel-reason">Reason</label>
+            <Textarea
+              id="cancel-reason"
+              value={cancelReason}
+              onChange={(e) => setCancelReason(e.target.value)}
+              placeholder="Why is this order being cancelled?"
+              data-testid="input-cancel-reason"
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setCancelOpen(false)} data-testid="button-cancel-dismiss">
+              Keep Order
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={() => cancelMutation.mutate(cancelReason.trim())}
+              disabled={!cancelReason.trim() || cancelMutation.isPending}
+              data-testid="button-confirm-cancel"
+            >
+              {cancelMutation.isPending && <Loader2 className="animate-spin mr-1" />}
+              Cancel Order
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
@@ -12,7 +12,11 @@ import {
   MapPin,
 } from "lucide-react";
 import { createOrderSchema, type CreateOrderInput, type IOrder, type IItem } from "@shared/schema";
-import { apiRequest, queryClient } from "@/lib/queryClient";
+import { computeOrderTotals, type DiscountType, type VatTreatment } from "@shared/pricing";
+import { orderStatusBadgeClass } from "@shared/orderLifecycle";
+import { useSettings } from "@/lib/settings-context";
+import { useAuth } from "@/lib/auth";
+import { apiRequest, queryClient, createSubmissionKey } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { Card, CardContent } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
@@ -25,17 +29,22 @@ import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Checkbox } from "@/components/ui/checkbox";
 import { Skeleton } from "@/components/ui/skeleton";
+import {
+  AlertDialog,
+  AlertDialogContent,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogCancel,
+} from "@/components/ui/alert-dialog";
+
+function availableQuantity(item: IItem): number {
+  return Math.max(0, item.currentQuantity - (item.reservedQuantity || 0));
+}
 
 function StatusBadge({ status }: { status: string }) {
-  const colorMap: Record<string, string> = {
-    "Pending Payment": "bg-yellow-500 text-white border-transparent",
-    "Paid": "bg-blue-500 text-white border-transparent",
-    "Pending Release": "bg-orange-500 text-white border-transparent",
-    "Released": "bg-indigo-500 text-white border-transparent",
-    "In Transit": "bg-purple-500 text-white border-transparent",
-    "Completed": "bg-green-600 text-white border-transparent",
-  };
-  return <Badge className={colorMap[status] || ""}>{status}</Badge>;
+  return <Badge className={orderStatusBadgeClass(status)}>{status}</Badge>;
 }
 
 export default function OrdersPage() {
@@ -43,10 +52,18 @@ export default function OrdersPage() {
   const [, navigate] = useLocation();
   const [search, setSearch] = useState("");
   const [createOpen, setCreateOpen] = useState(false);
-  const [orderItems, setOrderItems] = useState<{ itemId: string; itemName: string; quantity: number; unitPrice: number }[]>([]);
+  const [orderItems, setOrderItems] = useState<{ itemId: string; itemName: string; quantity: number; unitPrice: number; discountType: DiscountType; discountValue: number }[]>([]);
+  const [orderDiscountType, setOrderDiscountType] = useState<DiscountType>("percent");
+  const [orderDiscountValue, setOrderDiscountValue] = useState(0);
+  const [vatTreatment, setVatTreatment] = useState<VatTreatment>("exclusive");
+  const { settings } = useSettings();
   const [selectedItemId, setSelectedItemId] = useState("");
   const [itemQty, setItemQty] = useState(1);
   const [showAddress, setShowAddress] = useState(false);
+  const [shortageOrder, setShortageOrder] = useState<{ data: CreateOrderInput; message: string } | null>(null);
+  const [creditOrder, setCreditOrder] = useState<{ data: CreateOrderInput; message: string } | null>(null);
+  const [overrideReason, setOverrideReason] = useState("");
+  const { isAdmin } = useAuth();
 
   const { data: ordersData, isLoading } = useQuery<{ success: boolean; data: { orders: IOrder[]; total: number; page: number; pageSize: number } }>({
     queryKey: ["/api/orders"],
@@ -61,36 +78,54 @@ export default function OrdersPage() {
 
   const form = useForm<CreateOrderInput>({
     resolver: zodResolver(createOrderSchema),
-    defaultValues: { customerId: "", customerName: "", items: [], sourceChannel: "walk-in", notes: "" },
+    defaultValues: { customerId: "", customerName: "", items: [], sourceChannel: "walk-in", notes: "", onAccount: false },
   });
 
+  const [orderSubmission] = useState(createSubmissionKey);
   const createMutation = useMutation({
     mutationFn: async (data: CreateOrderInput) => {
-      const res = await apiRequest("POST", "/api/orders", data);
+      const res = await apiRequest("POST", "/api/orders", data, { idempotencyKey: orderSubmission.get() });
       return res.json();
     },
     onSuccess: () => {
+      orderSubmission.settle();
       queryClient.invalidateQueries({ queryKey: ["/api/orders"] });
       setCreateOpen(false);
       form.reset();
       setOrderItems([]);
+      resetPricing();
       toast({ title: "Order created successfully" });
     },
-    onError: (err: Error) => toast({ title: "Failed to create order", description: err.message, variant: "destructive" }),
+    onError: (err: Error, data) => {
+      orderSubmission.settle(err);
+      let message = err.message;
+      try { message = JSON.parse(err.message.slice(4)).error || message; } catch {}
+      if (err.message.startsWith("409:") && !data.acknowledgeShortage) {
+        setShortageOrder({ data, message });
+        return;
+      }
+      // Over the customer's credit limit: admins may override with a reason.
+      if (err.message.startsWith("403:") && data.onAccount && isAdmin && !data.creditOverrideReason) {
+        setCreditOrder({ data, message });
+        return;
+      }
+      toast({ title: "Failed to create order", description: err.message, variant: "destructive" });
+    },
   });
 
   const addItemToOrder = () => {
     const item = allItems.find((i) => i._id === selectedItemId);
     if (!item || itemQty < 1) return;
-    if (itemQty > item.currentQuantity) {
-      toast({ title: "Insufficient stock", description: `Only ${item.currentQuantity} available for ${item.itemName}`, variant: "destructive" });
+    const alreadyAdded = orderItems.find((oi) => oi.itemId === item._id)?.quantity || 0;
+    if (alreadyAdded + itemQty > availableQuantity(item)) {
+      toast({ title: "Insufficient stock", description: `Only ${availableQuantity(item)} available for ${item.itemName} (${item.reservedQuantity || 0} reserved by open orders)`, variant: "destructive" });
       return;
     }
     const exists = orderItems.find((oi) => oi.itemId === item._id);
     if (exists) {
       setOrderItems((prev) => prev.map((oi) => oi.itemId === item._id ? { ...oi, quantity: oi.quantity + itemQty } : oi));
     } else {
-      setOrderItems((prev) => [...prev, { itemId: item._id, itemName: item.itemName, quantity: itemQty, unitPrice: item.unitPrice }]);
+      setOrderItems((prev) => [...prev, { itemId: item._id, itemName: item.itemName, quantity: itemQty, unitPrice: item.unitPrice, discountType: "percent", discountValue: 0 }]);
     }
     setSelectedItemId("");
     setItemQty(1);
@@ -100,6 +135,23 @@ export default function OrdersPage() {
     setOrderItems((prev) => prev.filter((oi) => oi.itemId !== itemId));
   };
 
+  const updateOrderItem = (itemId: string, changes: Partial<(typeof orderItems)[number]>) => {
+    setOrderItems((prev) => prev.map((oi) => oi.itemId === itemId ? { ...oi, ...changes } : oi));
+  };
+
+  const resetPricing = () => {
+    setOrderDiscountType("percent");
+    setOrderDiscountValue(0);
+    setVatTreatment("exclusive");
+  };
+
+  const totals = computeOrderTotals(
+    orderItems,
+    { type: orderDiscountType, value: orderDiscountValue },
+    vatTreatment,
+    !!settings?.vatRegistered
+  );
+
   const handleCreateSubmit = (data: CreateOrderInput) => {
     if (orderItems.length === 0) {
       toast({ title: "No items added", description: "Please add at least one item to the order", variant: "destructive" });
@@ -111,6 +163,8 @@ export default function OrdersPage() {
       ...data,
       items: orderItems,
       address: hasAddress ? addr : undefined,
+      discount: orderDiscountValue > 0 ? { type: orderDiscountType, value: orderDiscountValue } : undefined,
+      vatTreatment,
     });
   };
 
@@ -186,7 +240,7 @@ export default function OrdersPage() {
     <div className="p-3 sm:p-6 space-y-4 sm:space-y-6 overflow-auto h-full">
       <div className="flex items-center justify-between gap-2 sm:gap-4 flex-wrap">
         <h1 className="text-xl sm:text-2xl font-bold" data-testid="text-orders-title">Orders</h1>
-        <Button onClick={() => { setCreateOpen(true); setOrderItems([]); form.reset(); setShowAddress(false); }} data-testid="button-create-order">
+        <Button onClick={() => { setCreateOpen(true); setOrderItems([]); form.reset(); setShowAddress(false); resetPricing(); }} data-testid="button-create-order">
           <Plus className="mr-1" /> Create Order
         </Button>
       </div>
@@ -206,15 +260,23 @@ export default function OrdersPage() {
         <TabsList>
           <TabsTrigger value="all" data-testid="tab-all">All</TabsTrigger>
           <TabsTrigger value="pending-payment" data-testid="tab-pending-payment">Pending Payment</TabsTrigger>
+          <TabsTrigger value="partially-paid" data-testid="tab-partially-paid">Partially Paid</TabsTrigger>
           <TabsTrigger value="pending-release" data-testid="tab-pending-release">Pending Release</TabsTrigger>
+          <TabsTrigger value="partially-released" data-testid="tab-partially-released">Partially Released</TabsTrigger>
           <TabsTrigger value="released" data-testid="tab-released">Released</TabsTrigger>
+          <TabsTrigger value="in-transit" data-testid="tab-in-transit">In Transit</TabsTrigger>
           <TabsTrigger value="completed" data-testid="tab-completed">Completed</TabsTrigger>
+          <TabsTrigger value="cancelled" data-testid="tab-cancelled">Cancelled</TabsTrigger>
         </TabsList>
         <TabsContent value="all"><OrdersTable filteredOrders={filterOrders()} /></TabsContent>
         <TabsContent value="pending-payment"><OrdersTable filteredOrders={filterOrders("Pending Payment")} /></TabsContent>
+        <TabsContent value="partially-paid"><OrdersTable filteredOrders={filterOrders("Partially Paid")} /></TabsContent>
         <TabsContent value="pending-release"><OrdersTable filteredOrders={filterOrders("Pending Release")} /></TabsContent>
+        <TabsContent value="partially-released"><OrdersTable filteredOrders={filterOrders("Partially Released")} /></TabsContent>
         <TabsContent value="released"><OrdersTable filteredOrders={filterOrders("Released")} /></TabsContent>
+        <TabsContent value="in-transit"><OrdersTable filteredOrders={filterOrders("In Transit")} /></TabsContent>
         <TabsContent value="completed"><OrdersTable filteredOrders={filterOrders("Completed")} /></TabsContent>
+        <TabsContent value="cancelled"><OrdersTable filteredOrders={filterOrders("Cancelled")} /></TabsContent>
       </Tabs>
 
       <Dialog open={createOpen} onOpenChange={(open) => { setCreateOpen(open); if (!open) { setOrderItems([]); form.reset(); setShowAddress(false); } }}>
@@ -250,6 +312,15 @@ export default function OrdersPage() {
                 </FormItem>
               )} />
 
+              <FormField control={form.control} name="onAccount" render={({ field }) => (
+                <FormItem className="flex items-center gap-2 space-y-0">
+                  <FormControl>
+                    <Checkbox checked={!!field.value} onCheckedChange={(checked) => field.onChange(!!checked)} data-testid="checkbox-on-account" />
+                  </FormControl>
+                  <FormLabel className="cursor-pointer">Charge to account (customer's credit terms, release before payment)</FormLabel>
+                </FormItem>
+              )} />
+
               <div className="space-y-2">
                 <label className="text-sm font-medium leading-none">Items</label>
                 <div className="flex items-end gap-2 flex-wrap">
@@ -260,7 +331,7 @@ export default function OrdersPage() {
                     <SelectContent>
                       {allItems.map((item) => (
                         <SelectItem key={item._id} value={item._id}>
-                          {item.itemName} ({item.currentQuantity} avail)
+                          {item.itemName} ({availableQuantity(item)} avail)
                         </SelectItem>
                       ))}
                     </SelectContent>
@@ -284,17 +355,47 @@ export default function OrdersPage() {
                         <TableHead>Item</TableHead>
                         <TableHead className="text-right">Qty</TableHead>
                         <TableHead className="text-right">Price</TableHead>
+                        <TableHead>Discount</TableHead>
                         <TableHead className="text-right">Subtotal</TableHead>
                         <TableHead></TableHead>
                       </TableRow>
                     </TableHeader>
                     <TableBody>
-                      {orderItems.map((oi) => (
+                      {orderItems.map((oi, idx) => (
                         <TableRow key={oi.itemId}>
                           <TableCell>{oi.itemName}</TableCell>
                           <TableCell className="text-right">{oi.quantity}</TableCell>
-                          <TableCell className="text-right">{formatCurrency(oi.unitPrice)}</TableCell>
-                          <TableCell className="text-right">{formatCurrency(oi.unitPrice * oi.quantity)}</TableCell>
+                          <TableCell className="text-right">
+                            <Input
+                              type="number"
+                              min={0}
+                              step="0.01"
+                              value={oi.unitPrice}
+                              onChange={(e) => updateOrderItem(oi.itemId, { unitPrice: Math.max(0, parseFloat(e.target.value) || 0) })}
+                              className="w-24 ml-auto text-right"
+                              data-testid={`input-line-price-${oi.itemId}`}
+                            />
+                          </TableCell>
+                          <TableCell>
+                            <div className="flex items-center gap-1">
+                              <Input
+                                type="number"
+                                min={0}
+                                value={oi.discountValue}
+                                onChange={(e) => updateOrderItem(oi.itemId, { discountValue: Math.max(0, parseFloat(e.target.value) || 0) })}
+                                className="w-20"
+                                data-testid={`input-line-discount-${oi.itemId}`}
+                              />
+                              <Select value={oi.discountType} onValueChange={(v) => updateOrderItem(oi.itemId, { discountType: v as DiscountType })}>
+                                <SelectTrigger className="w-16"><SelectValue /></SelectTrigger>
+                                <SelectContent>
+                                  <SelectItem value="percent">%</SelectItem>
+                                  <SelectItem value="fixed">₱</SelectItem>
+                                </SelectContent>
+                              </Select>
+                            </div>
+                          </TableCell>
+                          <TableCell className="text-right">{formatCurrency(totals.lines[idx].lineTotal)}</TableCell>
                           <TableCell>
                             <Button type="button" variant="ghost" size="icon" onClick={() => removeOrderItem(oi.itemId)}>
                               <Trash2 className="h-3 w-3" />
@@ -303,9 +404,30 @@ export default function OrdersPage() {
                         </TableRow>
                       ))}
                       <TableRow>
-                        <TableCell colSpan={3} className="font-bold text-right">Total</TableCell>
-                        <TableCell className="text-right font-bold">
-                          {formatCurrency(orderItems.reduce((sum, oi) => sum + oi.unitPrice * oi.quantity, 0))}
+                        <TableCell colSpan={4} className="text-right">Subtotal</TableCell>
+                        <TableCell className="text-right">{formatCurrency(totals.subtotal)}</TableCell>
+                        <TableCell />
+                      </TableRow>
+                      {totals.discountAmount > 0 && (
+                        <TableRow>
+                          <TableCell colSpan={4} className="text-right">Order Discount</TableCell>
+                          <TableCell className="text-right">-{formatCurrency(totals.discountAmount)}</TableCell>
+                          <TableCell />
+                        </TableRow>
+                      )}
+                      {totals.vatAmount > 0 && (
+                        <TableRow>
+                          <TableCell colSpan={4} className="text-right">
+                            VAT 12%{vatTreatment === "inclusive" ? " (included)" : ""}
+                          </TableCell>
+                          <TableCell className="text-right">{formatCurrency(totals.vatAmount)}</TableCell>
+                          <TableCell />
+                        </TableRow>
+                      )}
+                      <TableRow>
+                        <TableCell colSpan={4} className="font-bold text-right">Grand Total</TableCell>
+                        <TableCell className="text-right font-bold" data-testid="text-order-grand-total">
+                          {formatCurrency(totals.totalAmount)}
                         </TableCell>
                         <TableCell />
                       </TableRow>
@@ -317,6 +439,41 @@ export default function OrdersPage() {
                 )}
               </div>
 
+              <div className="grid grid-cols-2 gap-3">
+                <div className="space-y-2">
+                  <label className="text-sm font-medium leading-none">Order Discount</label>
+                  <div className="flex items-center gap-1">
+                    <Input
+                      type="number"
+                      min={0}
+                      value={orderDiscountValue}
+                      onChange={(e) => setOrderDiscountValue(Math.max(0, parseFloat(e.target.value) || 0))}
+                      data-testid="input-order-discount"
+                    />
+                    <Select value={orderDiscountType} onValueChange={(v) => setOrderDiscountType(v as DiscountType)}>
+                      <SelectTrigger className="w-16" data-testid="select-order-discount-type"><SelectValue /></SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="percent">%</SelectItem>
+                        <SelectItem value="fixed">₱</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+                {settings?.vatRegistered && (
+                  <div className="space-y-2">
+                    <label className="text-sm font-medium leading-none">VAT</label>
+                    <Select value={vatTreatment} onValueChange={(v) => setVatTreatment(v as VatTreatment)}>
+                      <SelectTrigger data-testid="select-vat-treatment"><SelectValue /></SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="exclusive">Add 12% VAT</SelectItem>
+                        <SelectItem value="inclusive">Prices include VAT</SelectItem>
+                        <SelectItem value="exempt">VAT-exempt</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+              </div>
+
               <div className="space-y-3">
                 <div className="flex items-center gap-2">
                   <Checkbox
@@ -401,6 +558,54 @@ export default function OrdersPage() {
           </Form>
         </DialogContent>
       </Dialog>
+
+      <AlertDialog open={!!shortageOrder} onOpenChange={(open) => { if (!open) setShortageOrder(null); }}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Not enough available stock</AlertDialogTitle>
+            <AlertDialogDescription>
+              {shortageOrder?.message}. Create the order anyway? Only the available quantity will be reserved.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel data-testid="button-shortage-cancel">Cancel</AlertDialogCancel>
+            <Button
+              disabled={createMutation.isPending}
+              onClick={() => {
+                if (shortageOrder) createMutation.mutate({ ...shortageOrder.data, acknowledgeShortage: true });
+                setShortageOrder(null);
+              }}
+              data-testid="button-shortage-confirm"
+            >
+              Create Anyway
+            </Button>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <AlertDialog open={!!creditOrder} onOpenChange={(open) => { if (!open) { setCreditOrder(null); setOverrideReason(""); } }}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Credit limit exceeded</AlertDialogTitle>
+            <AlertDialogDescription>{creditOrder?.message}</AlertDialogDescription>
+          </AlertDialogHeader>
+          <Input placeholder="Reason for override" value={overrideReason} onChange={(e) => setOverrideReason(e.target.value)} data-testid="input-credit-override-reason" />
+          <AlertDialogFooter>
+            <AlertDialogCancel data-testid="button-credit-override-cancel">Cancel</AlertDialogCancel>
+            <Button
+              disabled={createMutation.isPending || !overrideReason.trim()}
+              onClick={() => {
+                if (creditOrder) createMutation.mutate({ ...creditOrder.data, creditOverrideReason: overrideReason.trim() });
+                setCreditOrder(null);
+                setOverrideReason("");
+              }}
+              data-testid="button-credit-override-confirm"
+            >
+              Override and Create
+            </Button>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </div>
   );
 }
@@ -0,0 +1,381 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useRoute, useLocation } from "wouter";
+import { ArrowLeft, Loader2, Send, PackageCheck, Printer, Pencil, Trash2 } from "lucide-react";
+import type { IPurchaseOrder } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useAuth } from "@/lib/auth";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  AlertDialog,
+  AlertDialogContent,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogCancel,
+} from "@/components/ui/alert-dialog";
+import { PurchaseOrderStatusBadge, PurchaseOrderFormDialog } from "@/pages/purchase-orders";
+
+const formatCurrency = (v: number) => new Intl.NumberFormat("en-PH", { style: "currency", currency: "PHP" }).format(v);
+const formatDate = (d: string) => new Date(d).toLocaleString("en-PH", { year: "numeric", month: "short", day: "numeric", hour: "2-digit", minute: "2-digit" });
+
+export default function PurchaseOrderDetailPage() {
+  const { toast } = useToast();
+  const { isAdmin } = useAuth();
+  const [, navigate] = useLocation();
+  const [, params] = useRoute("/purchase-orders/:id");
+  const poId = params?.id;
+  const [editOpen, setEditOpen] = useState(false);
+  const [deleteOpen, setDeleteOpen] = useState(false);
+  const [receiveOpen, setReceiveOpen] = useState(false);
+  const [reference, setReference] = useState("");
+  const [receiveLines, setReceiveLines] = useState<Record<string, { quantity: string; unitCost: string }>>({});
+
+  const { data, isLoading } = useQuery<{ success: boolean; data: IPurchaseOrder }>({
+    queryKey: ["/api/purchase-orders", poId],
+    enabled: !!poId && isAdmin,
+  });
+  const po = data?.data;
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/purchase-orders"] });
+  };
+
+  const openDocument = async (url: string) => {
+    const tab = window.open("", "_blank");
+    try {
+      const res = await apiRequest("GET", url);
+      const blob = await res.blob();
+      if (tab) tab.location.href = URL.createObjectURL(blob);
+    } catch (err: any) {
+      tab?.close();
+      toast({ title: "Could not generate purchase order", description: err.message, variant: "destructive" });
+    }
+  };
+
+  const sendMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/purchase-orders/${poId}/send`);
+      return res.json();
+    },
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "Purchase order marked as sent" });
+    },
+    onError: (err: Error) => toast({ title: "Failed to update purchase order", description: err.message, variant: "destructive" }),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("DELETE", `/api/purchase-orders/${poId}`);
+      return res.json();
+    },
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "Purchase order deleted" });
+      navigate("/purchase-orders");
+    },
+    onError: (err: Error) => toast({ title: "Failed to delete purchase order", description: err.message, variant: "destructive" }),
+  });
+
+  const receiveMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/purchase-orders/${poId}/receive`, {
+        reference: reference.trim(),
+        lines: Object.entries(receiveLines).map(([itemId, line]) => ({
+          itemId,
+          quantity: parseInt(line.quantity) || 0,
+          unitCost: parseFloat(line.unitCost) || 0,
+        })),
+      });
+      return res.json();
+    },
+    onSuccess: () => {
+      invalidate();
+      queryClient.invalidateQueries({ queryKey: ["/api/items"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/suppliers"] });
+      setReceiveOpen(false);
+      toast({ title: "Goods received", description: "Stock and Accounts Payable have been updated." });
+    },
+    onError: (err: Error) => toast({ title: "Failed to receive goods", description: err.message, variant: "destructive" }),
+  });
+
+  const openReceive = () => {
+    if (!po) return;
+    setReference("");
+    setReceiveLines(Object.fromEntries(po.items.filter((i) => i.receivedQuantity < i.quantity).map((i) => [
+      i.itemId,
+      { quantity: String(i.quantity - i.receivedQuantity), unitCost: String(i.unitCost) },
+    ])));
+    setReceiveOpen(true);
+  };
+
+  if (!isAdmin) {
+    return (
+      <div className="p-3 sm:p-6 flex items-center justify-center h-full">
+        <p className="text-muted-foreground">Access denied. Admin only.</p>
+      </div>
+    );
+  }
+
+  if (isLoading) {
+    return (
+      <div className="p-3 sm:p-6 space-y-4 sm:space-y-6 overflow-auto h-full">
+        <Skeleton className="h-8 w-48" />
+        <Skeleton className="h-64 w-full" />
+      </div>
+    );
+  }
+
+  if (!po) {
+    return (
+      <div className="p-3 sm:p-6">
+        <p className="text-muted-foreground">Purchase order not found</p>
+        <Button variant="ghost" onClick={() => navigate("/purchase-orders")} className="mt-4">
+          <ArrowLeft className="mr-1" /> Back to Purchase Orders
+        </Button>
+      </div>
+    );
+  }
+
+  const receivable = po.status === "sent" || po.status === "partially_received";
+  const receiveTotal = Object.values(receiveLines).reduce((sum, l) => sum + (parseInt(l.quantity) || 0) * (parseFloat(l.unitCost) || 0), 0);
+
+  return (
+    <div className="p-3 sm:p-6 space-y-4 sm:space-y-6 overflow-auto h-full">
+      <div className="flex items-center gap-4 flex-wrap">
+        <Button variant="ghost" onClick={() => navigate("/purchase-orders")} data-testid="button-back-purchase-orders">
+          <ArrowLeft className="mr-1" /> Back
+        </Button>
+        <div>
+          <h1 className="text-2xl font-bold" data-testid="text-po-number">Purchase Order {po.poNumber}</h1>
+          <div className="flex items-center gap-2 mt-1 flex-wrap">
+            <PurchaseOrderStatusBadge status={po.status} />
+            <span className="text-sm text-muted-foreground">{po.supplierName}</span>
+          </div>
+        </div>
+        <div className="ml-auto flex gap-2 flex-wrap">
+          <Button variant="outline" onClick={() => openDocument(`/api/purchase-orders/${po._id}/print.pdf`)} data-testid="button-print-po">
+            <Printer className="mr-1" /> Print
+          </Button>
+          {po.status === "draft" && (
+            <>
+              <Button variant="outline" onClick={() => setEditOpen(true)} data-testid="button-edit-po">
+                <Pencil className="mr-1" /> Edit
+              </Button>
+              <Button variant="outline" onClick={() => setDeleteOpen(true)} data-testid="button-delete-po">
+                <Trash2 className="mr-1" /> Delete
+              </Button>
+              <Button onClick={() => sendMutation.mutate()} disabled={sendMutation.isPending} data-testid="button-send-po">
+                {sendMutation.isPending ? <Loader2 className="animate-spin mr-1" /> : <Send className="mr-1" />} Mark as Sent
+              </Button>
+            </>
+          )}
+          {receivable && (
+            <Button onClick={openReceive} data-testid="button-receive-po">
+              <PackageCheck className="mr-1" /> Receive Goods
+            </Button>
+          )}
+        </div>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">Purchase Order Information</CardTitle>
+        </CardHeader>
+        <CardContent className="grid grid-cols-2 sm:grid-cols-4 gap-4 text-sm">
+          <div>
+            <span className="text-muted-foreground">Supplier</span>
+            <p className="font-medium">{po.supplierName}</p>
+          </div>
+          <div>
+            <span className="text-muted-foreground">Deliver By</span>
+            <p className="font-medium">{po.expectedDate ? new Date(po.expectedDate).toLocaleDateString("en-PH", { year: "numeric", month: "short", day: "numeric" }) : "-"}</p>
+          </div>
+          <div>
+            <span className="text-muted-foreground">Created</span>
+            <p className="font-medium">{formatDate(po.createdAt)} by {po.createdBy}</p>
+          </div>
+          <div>
+            <span className="text-muted-foreground">Sent</span>
+            <p className="font-medium">{po.sentAt ? formatDate(po.sentAt) : "-"}</p>
+          </div>
+          {po.notes && (
+            <div className="col-span-2 sm:col-span-4">
+              <span className="text-muted-foreground">Notes</span>
+              <p className="whitespace-pre-wrap">{po.notes}</p>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">Ordered vs Received</CardTitle>
+        </CardHeader>
+        <CardContent className="p-0">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Item</TableHead>
+                <TableHead>Supplier SKU</TableHead>
+                <TableHead className="text-right">Ordered</TableHead>
+                <TableHead className="text-right">Received</TableHead>
+                <TableHead className="text-right">Outstanding</TableHead>
+                <TableHead className="text-right">Unit Cost</TableHead>
+                <TableHead className="text-right">Amount</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {po.items.map((line) => (
+                <TableRow key={line.itemId} data-testid={`row-po-line-${line.itemId}`}>
+                  <TableCell className="font-medium">{line.itemName}</TableCell>
+                  <TableCell className="font-mono text-xs">{line.supplierSku || "-"}</TableCell>
+                  <TableCell className="text-right">{line.quantity}</TableCell>
+                  <TableCell className="text-right">{line.receivedQuantity}</TableCell>
+                  <TableCell className={`text-right ${line.receivedQuantity < line.quantity ? "font-medium" : "text-muted-foreground"}`}>
+                    {line.quantity - line.receivedQuantity}
+                  </TableCell>
+                  <TableCell className="text-right">{formatCurrency(line.unitCost)}</TableCell>
+                  <TableCell className="text-right">{formatCurrency(line.quantity * line.unitCost)}</TableCell>
+                </TableRow>
+              ))}
+              <TableRow>
+                <TableCell colSpan={6} className="text-right font-bold">Total Ordered</TableCell>
+                <TableCell className="text-right font-bold">{formatCurrency(po.totalAmount)}</TableCell>
+              </TableRow>
+              <TableRow>
+                <TableCell colSpan={6} className="text-right">Received to Date (at actual cost)</TableCell>
+                <TableCell className="text-right">{formatCurrency(po.receivedAmount)}</TableCell>
+              </TableRow>
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      {po.receipts.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">Deliveries</CardTitle>
+          </CardHeader>
+          <CardContent className="p-0">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Received</TableHead>
+                  <TableHead>Reference</TableHead>
+                  <TableHead>Items</TableHead>
+                  <TableHead className="text-right">Amount</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {po.receipts.map((receipt) => (
+                  <TableRow key={receipt._id}>
+                    <TableCell className="text-muted-foreground">
+                      <p>{formatDate(receipt.receivedAt)}</p>
+                      <p className="text-xs">by {receipt.receivedBy}</p>
+                    </TableCell>
+                    <TableCell className="font-mono text-xs">{receipt.reference || "-"}</TableCell>
+                    <TableCell className="text-sm">
+                      {receipt.lines.map((l) => `${l.itemName} x${l.quantity} @ ${formatCurrency(l.unitCost)}`).join(", ")}
+                    </TableCell>
+                    <TableCell className="text-right">{formatCurrency(receipt.amount)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+
+      <Dialog open={receiveOpen} onOpenChange={setReceiveOpen}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Receive Goods - {po.poNumber}</DialogTitle>
+            <DialogDescription>Enter what arrived and the cost on the supplier's delivery receipt. Leave a line at 0 if it has not arrived yet.</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <label className="text-sm font-medium leading-none" htmlFor="receive-reference">Delivery Receipt / Invoice No.</label>
+              <Input id="receive-reference" value={reference} onChange={(e) => setReference(e.target.value)} data-testid="input-receive-reference" />
+            </div>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Item</TableHead>
+                  <TableHead className="text-right">Outstanding</TableHead>
+                  <TableHead className="text-right">Received Now</TableHead>
+                  <TableHead className="text-right">Unit Cost</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {po.items.filter((i) => receiveLines[i.itemId]).map((line) => (
+                  <TableRow key={line.itemId}>
+                    <TableCell>{line.itemName}</TableCell>
+                    <TableCell className="text-right">{line.quantity - line.receivedQuantity}</TableCell>
+                    <TableCell className="text-right">
+                      <Input
+                        type="number"
+                        min={0}
+                        max={line.quantity - line.receivedQuantity}
+                        value={receiveLines[line.itemId].quantity}
+                        onChange={(e) => setReceiveLines((prev) => ({ ...prev, [line.itemId]: { ...prev[line.itemId], quantity: e.target.value } }))}
+                        className="w-20 ml-auto text-right"
+                        data-testid={`input-receive-qty-${line.itemId}`}
+                      />
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Input
+                        type="number"
+                        min={0}
+                        step="0.01"
+                        value={receiveLines[line.itemId].unitCost}
+                        onChange={(e) => setReceiveLines((prev) => ({ ...prev, [line.itemId]: { ...prev[line.itemId], unitCost: e.target.value } }))}
+                        className="w-24 ml-auto text-right"
+                        data-testid={`input-receive-cost-${line.itemId}`}
+                      />
+                    </TableCell>
+                  </TableRow>
+                ))}
+                <TableRow>
+                  <TableCell colSpan={3} className="text-right font-bold">Owed to Supplier</TableCell>
+                  <TableCell className="text-right font-bold">{formatCurrency(receiveTotal)}</TableCell>
+                </TableRow>
+              </TableBody>
+            </Table>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setReceiveOpen(false)}>Cancel</Button>
+            <Button onClick={() => receiveMutation.mutate()} disabled={receiveMutation.isPending} data-testid="button-confirm-receive">
+              {receiveMutation.isPending ? <Loader2 className="animate-spin mr-1" /> : <PackageCheck className="mr-1" />} Receive
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={deleteOpen} onOpenChange={setDeleteOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete {po.poNumber}?</AlertDialogTitle>
+            <AlertDialogDescription>This draft has not been sent to the supplier. Deleting it cannot be undone.</AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <Button variant="destructive" onClick={() => deleteMutation.mutate()} disabled={deleteMutation.isPending} data-testid="button-confirm-delete-po">
+              Delete
+            </Button>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <PurchaseOrderFormDialog open={editOpen} onOpenChange={setEditOpen} purchaseOrder={po} />
+    </div>
+  );
+}
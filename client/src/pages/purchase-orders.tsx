@@ -0,0 +1,350 @@
+import { useState, useEffect } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { Plus, Search, Loader2, ClipboardList, Trash2 } from "lucide-react";
+import type { IPurchaseOrder, IItem, ISupplier } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useAuth } from "@/lib/auth";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Skeleton } from "@/components/ui/skeleton";
+
+const STATUS_LABELS: Record<string, string> = {
+  draft: "Draft",
+  sent: "Sent",
+  partially_received: "Partially Received",
+  received: "Received",
+};
+
+export function PurchaseOrderStatusBadge({ status }: { status: string }) {
+  const colorMap: Record<string, string> = {
+    draft: "bg-slate-500 text-white border-transparent",
+    sent: "bg-blue-500 text-white border-transparent",
+    partially_received: "bg-amber-500 text-white border-transparent",
+    received: "bg-green-600 text-white border-transparent",
+  };
+  return <Badge className={colorMap[status] || ""}>{STATUS_LABELS[status] || status}</Badge>;
+}
+
+const formatCurrency = (v: number) => new Intl.NumberFormat("en-PH", { style: "currency", currency: "PHP" }).format(v);
+const formatDate = (d: string) => new Date(d).toLocaleDateString("en-PH", { year: "numeric", month: "short", day: "numeric" });
+
+type PoLine = { itemId: string; itemName: string; quantity: number; unitCost: number };
+
+// Creates a draft purchase order, or edits one when `purchaseOrder` is given.
+export function PurchaseOrderFormDialog({ open, onOpenChange, purchaseOrder }: { open: boolean; onOpenChange: (open: boolean) => void; purchaseOrder?: IPurchaseOrder }) {
+  const { toast } = useToast();
+  const [, navigate] = useLocation();
+  const [supplierId, setSupplierId] = useState("");
+  const [expectedDate, setExpectedDate] = useState("");
+  const [notes, setNotes] = useState("");
+  const [lines, setLines] = useState<PoLine[]>([]);
+  const [selectedItemId, setSelectedItemId] = useState("");
+  const [itemQty, setItemQty] = useState(1);
+
+  const { data: suppliersData } = useQuery<{ success: boolean; data: ISupplier[] }>({
+    queryKey: ["/api/suppliers"],
+    enabled: open,
+  });
+  const { data: allItemsData } = useQuery<{ success: boolean; data: IItem[] }>({
+    queryKey: ["/api/items/all"],
+    enabled: open,
+  });
+  const suppliers = (suppliersData?.data || []).filter((s) => s.isActive || s._id === purchaseOrder?.supplierId);
+  const allItems = allItemsData?.data || [];
+  // Items this supplier is known to carry are listed first.
+  const supplierLink = (item: IItem) => item.suppliers?.find((s) => s.supplierId === supplierId);
+  const itemOptions = [...allItems].sort((a, b) => Number(!!supplierLink(b)) - Number(!!supplierLink(a)));
+
+  useEffect(() => {
+    if (!open) return;
+    setSupplierId(purchaseOrder?.supplierId || "");
+    setExpectedDate(purchaseOrder?.expectedDate ? purchaseOrder.expectedDate.slice(0, 10) : "");
+    setNotes(purchaseOrder?.notes || "");
+    setLines(purchaseOrder?.items.map((i) => ({ itemId: i.itemId, itemName: i.itemName, quantity: i.quantity, unitCost: i.unitCost })) || []);
+    setSelectedItemId("");
+    setItemQty(1);
+  }, [open, purchaseOrder]);
+
+  const total = Math.round(lines.reduce((sum, l) => sum + l.quantity * l.unitCost, 0) * 100) / 100;
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const body = { supplierId, expectedDate, notes, items: lines.map(({ itemId, quantity, unitCost }) => ({ itemId, quantity, unitCost })) };
+      const res = purchaseOrder
+        ? await apiRequest("PUT", `/api/purchase-orders/${purchaseOrder._id}`, body)
+        : await apiRequest("POST", "/api/purchase-orders", body);
+      return res.json();
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/purchase-orders"] });
+      onOpenChange(false);
+      toast({ title: purchaseOrder ? "Purchase order updated" : "Purchase order created" });
+      if (!purchaseOrder && result?.data?._id) navigate(`/purchase-orders/${result.data._id}`);
+    },
+    onError: (err: Error) => toast({ title: "Failed to save purchase order", description: err.message, variant: "destructive" }),
+  });
+
+  const addItem = () => {
+    const item = allItems.find((i) => i._id === selectedItemId);
+    if (!item || itemQty < 1) return;
+    if (lines.some((l) => l.itemId === item._id)) {
+      setLines((prev) => prev.map((l) => l.itemId === item._id ? { ...l, quantity: l.quantity + itemQty } : l));
+    } else {
+      setLines((prev) => [...prev, { itemId: item._id, itemName: item.itemName, quantity: itemQty, unitCost: supplierLink(item)?.lastCost || 0 }]);
+    }
+    setSelectedItemId("");
+    setItemQty(1);
+  };
+
+  const updateLine = (itemId: string, changes: Partial<PoLine>) => {
+    setLines((prev) => prev.map((l) => l.itemId === itemId ? { ...l, ...changes } : l));
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{purchaseOrder ? `Edit ${purchaseOrder.poNumber}` : "New Purchase Order"}</DialogTitle>
+          <DialogDescription>Costs start from the supplier's last cost for each item; the cost actually charged is entered when the goods arrive.</DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+            <div className="space-y-2 sm:col-span-2">
+              <label className="text-sm font-medium leading-none">Supplier</label>
+              <Select value={supplierId} onValueChange={setSupplierId}>
+                <SelectTrigger data-testid="select-po-supplier"><SelectValue placeholder="Select supplier" /></SelectTrigger>
+                <SelectContent>
+                  {suppliers.map((s) => (
+                    <SelectItem key={s._id} value={s._id}>{s.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <label className="text-sm font-medium leading-none" htmlFor="po-expected-date">Deliver By</label>
+              <Input id="po-expected-date" type="date" value={expectedDate} onChange={(e) => setExpectedDate(e.target.value)} data-testid="input-po-expected-date" />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <label className="text-sm font-medium leading-none">Items</label>
+            <div className="flex items-end gap-2 flex-wrap">
+              <Select value={selectedItemId} onValueChange={setSelectedItemId}>
+                <SelectTrigger className="w-[240px]" data-testid="select-po-item">
+                  <SelectValue placeholder="Select item" />
+                </SelectTrigger>
+                <SelectContent>
+                  {itemOptions.map((item) => (
+                    <SelectItem key={item._id} value={item._id}>
+                      {item.itemName}{supplierLink(item)?.supplierSku ? ` (${supplierLink(item)!.supplierSku})` : ""}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Input type="number" min={1} value={itemQty} onChange={(e) => setItemQty(parseInt(e.target.value) || 1)} className="w-20" data-testid="input-po-item-qty" />
+              <Button type="button" variant="secondary" onClick={addItem} disabled={!selectedItemId} data-testid="button-add-po-item">Add</Button>
+            </div>
+            {lines.length > 0 ? (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Item</TableHead>
+                    <TableHead className="text-right">Qty</TableHead>
+                    <TableHead className="text-right">Unit Cost</TableHead>
+                    <TableHead className="text-right">Amount</TableHead>
+                    <TableHead></TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {lines.map((line) => (
+                    <TableRow key={line.itemId}>
+                      <TableCell>{line.itemName}</TableCell>
+                      <TableCell className="text-right">
+                        <Input
+                          type="number"
+                          min={1}
+                          value={line.quantity}
+                          onChange={(e) => updateLine(line.itemId, { quantity: Math.max(1, parseInt(e.target.value) || 1) })}
+                          className="w-20 ml-auto text-right"
+                        />
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <Input
+                          type="number"
+                          min={0}
+                          step="0.01"
+                          value={line.unitCost}
+                          onChange={(e) => updateLine(line.itemId, { unitCost: Math.max(0, parseFloat(e.target.value) || 0) })}
+                          className="w-24 ml-auto text-right"
+                        />
+                      </TableCell>
+                      <TableCell className="text-right">{formatCurrency(line.quantity * line.unitCost)}</TableCell>
+                      <TableCell>
+                        <Button type="button" variant="ghost" size="icon" onClick={() => setLines((prev) => prev.filter((l) => l.itemId !== line.itemId))}>
+                          <Trash2 className="h-3 w-3" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                  <TableRow>
+                    <TableCell colSpan={3} className="font-bold text-right">Total</TableCell>
+                    <TableCell className="text-right font-bold">{formatCurrency(total)}</TableCell>
+                    <TableCell />
+                  </TableRow>
+                </TableBody>
+              </Table>
+            ) : (
+              <p className="text-sm text-muted-foreground">No items added yet</p>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <label className="text-sm font-medium leading-none" htmlFor="po-notes">Notes</label>
+            <Textarea id="po-notes" value={notes} onChange={(e) => setNotes(e.target.value)} placeholder="Delivery instructions, payment arrangement..." data-testid="input-po-notes" />
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Close</Button>
+          <Button onClick={() => saveMutation.mutate()} disabled={!supplierId || lines.length === 0 || saveMutation.isPending} data-testid="button-submit-po">
+            {saveMutation.isPending && <Loader2 className="animate-spin mr-1" />}
+            {purchaseOrder ? "Save Changes" : "Create Draft"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export default function PurchaseOrdersPage() {
+  const [, navigate] = useLocation();
+  const { isAdmin } = useAuth();
+  const [search, setSearch] = useState("");
+  const [createOpen, setCreateOpen] = useState(false);
+
+  const { data, isLoading } = useQuery<{ success: boolean; data: IPurchaseOrder[] }>({
+    queryKey: ["/api/purchase-orders"],
+    enabled: isAdmin,
+  });
+  const purchaseOrders = data?.data || [];
+
+  const filterPurchaseOrders = (statuses?: string[]) => {
+    let filtered = purchaseOrders;
+    if (statuses) filtered = filtered.filter((po) => statuses.includes(po.status));
+    if (search) {
+      filtered = filtered.filter(
+        (po) =>
+          po.poNumber.toLowerCase().includes(search.toLowerCase()) ||
+          po.supplierName.toLowerCase().includes(search.toLowerCase())
+      );
+    }
+    return filtered;
+  };
+
+  const PurchaseOrdersTable = ({ rows }: { rows: IPurchaseOrder[] }) => (
+    <Card>
+      <CardContent className="p-0">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>PO #</TableHead>
+              <TableHead>Supplier</TableHead>
+              <TableHead className="text-right">Total</TableHead>
+              <TableHead className="text-right">Received</TableHead>
+              <TableHead>Deliver By</TableHead>
+              <TableHead>Status</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {rows.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={6} className="text-center text-muted-foreground py-8">
+                  <ClipboardList className="h-6 w-6 mx-auto mb-2" />
+                  No purchase orders found
+                </TableCell>
+              </TableRow>
+            ) : (
+              rows.map((po) => {
+                const ordered = po.items.reduce((sum, i) => sum + i.quantity, 0);
+                const received = po.items.reduce((sum, i) => sum + i.receivedQuantity, 0);
+                return (
+                  <TableRow key={po._id} className="cursor-pointer" onClick={() => navigate(`/purchase-orders/${po._id}`)} data-testid={`row-po-${po._id}`}>
+                    <TableCell className="font-mono text-sm">{po.poNumber}</TableCell>
+                    <TableCell>{po.supplierName}</TableCell>
+                    <TableCell className="text-right">{formatCurrency(po.totalAmount)}</TableCell>
+                    <TableCell className="text-right text-muted-foreground">{received} / {ordered} units</TableCell>
+                    <TableCell>{po.expectedDate ? formatDate(po.expectedDate) : "-"}</TableCell>
+                    <TableCell><PurchaseOrderStatusBadge status={po.status} /></TableCell>
+                  </TableRow>
+                );
+              })
+            )}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+
+  if (isLoading) {
+    return (
+      <div className="p-3 sm:p-6 space-y-4 sm:space-y-6 overflow-auto h-full">
+        <h1 className="text-xl sm:text-2xl font-bold">Purchase Orders</h1>
+        <Skeleton className="h-10 w-full" />
+        <Skeleton className="h-64 w-full" />
+      </div>
+    );
+  }
+
+  if (!isAdmin) {
+    return (
+      <div className="p-3 sm:p-6 flex items-center justify-center h-full">
+        <p className="text-muted-foreground">Access denied. Admin only.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-3 sm:p-6 space-y-4 sm:space-y-6 overflow-auto h-full">
+      <div className="flex items-center justify-between gap-2 sm:gap-4 flex-wrap">
+        <h1 className="text-xl sm:text-2xl font-bold" data-testid="text-purchase-orders-title">Purchase Orders</h1>
+        <Button onClick={() => setCreateOpen(true)} data-testid="button-create-po">
+          <Plus className="mr-1" /> New Purchase Order
+        </Button>
+      </div>
+
+      <div className="relative max-w-sm">
+        <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+        <Input
+          placeholder="Search by PO number or supplier..."
+          className="pl-9"
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          data-testid="input-search-purchase-orders"
+        />
+      </div>
+
+      <Tabs defaultValue="open">
+        <TabsList>
+          <TabsTrigger value="open">Awaiting Delivery</TabsTrigger>
+          <TabsTrigger value="draft">Draft</TabsTrigger>
+          <TabsTrigger value="received">Received</TabsTrigger>
+          <TabsTrigger value="all">All</TabsTrigger>
+        </TabsList>
+        <TabsContent value="open"><PurchaseOrdersTable rows={filterPurchaseOrders(["sent", "partially_received"])} /></TabsContent>
+        <TabsContent value="draft"><PurchaseOrdersTable rows={filterPurchaseOrders(["draft"])} /></TabsContent>
+        <TabsContent value="received"><PurchaseOrdersTable rows={filterPurchaseOrders(["received"])} /></TabsContent>
+        <TabsContent value="all"><PurchaseOrdersTable rows={filterPurchaseOrders()} /></TabsContent>
+      </Tabs>
+
+      <PurchaseOrderFormDialog open={createOpen} onOpenChange={setCreateOpen} />
+    </div>
+  );
+}
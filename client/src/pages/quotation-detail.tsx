@@ -0,0 +1,239 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useRoute, useLocation } from "wouter";
+import { ArrowLeft, Loader2, Send, CheckCircle, ShoppingCart } from "lucide-react";
+import type { IQuotation } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  AlertDialog,
+  AlertDialogContent,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogCancel,
+} from "@/components/ui/alert-dialog";
+import { QuotationStatusBadge } from "@/pages/quotations";
+
+export default function QuotationDetailPage() {
+  const { toast } = useToast();
+  const [, navigate] = useLocation();
+  const [, params] = useRoute("/quotations/:id");
+  const quoteId = params?.id;
+  const [shortageMessage, setShortageMessage] = useState<string | null>(null);
+
+  const { data, isLoading } = useQuery<{ success: boolean; data: IQuotation }>({
+    queryKey: ["/api/quotations", quoteId],
+    enabled: !!quoteId,
+  });
+  const quote = data?.data;
+
+  const formatCurrency = (v: number) => new Intl.NumberFormat("en-PH", { style: "currency", currency: "PHP" }).format(v);
+  const formatDate = (d: string) => new Date(d).toLocaleString("en-PH", { year: "numeric", month: "short", day: "numeric", hour: "2-digit", minute: "2-digit" });
+
+  const sendMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/quotations/${quoteId}/send`);
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/quotations"] });
+      toast({ title: "Quotation marked as sent" });
+    },
+    onError: (err: Error) => toast({ title: "Failed to update quotation", description: err.message, variant: "destructive" }),
+  });
+
+  const acceptMutation = useMutation({
+    mutationFn: async (acknowledgeShortage: boolean) => {
+      const res = await apiRequest("POST", `/api/quotations/${quoteId}/accept`, { acknowledgeShortage });
+      return res.json();
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/quotations"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/orders"] });
+      toast({ title: "Quotation accepted", description: `Order ${result?.data?.order?.trackingNumber} created` });
+      if (result?.data?.order?._id) navigate(`/orders/${result.data.order._id}`);
+    },
+    onError: (err: Error, acknowledgeShortage) => {
+      if (err.message.startsWith("409:") && !acknowledgeShortage) {
+        let message = err.message;
+        try { message = JSON.parse(err.message.slice(4)).error || message; } catch {}
+        setShortageMessage(message);
+        return;
+      }
+      toast({ title: "Failed to accept quotation", description: err.message, variant: "destructive" });
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <div className="p-3 sm:p-6 space-y-4 sm:space-y-6 overflow-auto h-full">
+        <Skeleton className="h-8 w-48" />
+        <Skeleton className="h-64 w-full" />
+      </div>
+    );
+  }
+
+  if (!quote) {
+    return (
+      <div className="p-3 sm:p-6">
+        <p className="text-muted-foreground">Quotation not found</p>
+        <Button variant="ghost" onClick={() => navigate("/quotations")} className="mt-4">
+          <ArrowLeft className="mr-1" /> Back to Quotations
+        </Button>
+      </div>
+    );
+  }
+
+  const open = quote.status === "draft" || quote.status === "sent";
+
+  return (
+    <div className="p-3 sm:p-6 space-y-4 sm:space-y-6 overflow-auto h-full">
+      <div className="flex items-center gap-4 flex-wrap">
+        <Button variant="ghost" onClick={() => navigate("/quotations")} data-testid="button-back-quotations">
+          <ArrowLeft className="mr-1" /> Back
+        </Button>
+        <div>
+          <h1 className="text-2xl font-bold" data-testid="text-quote-number">Quotation {quote.quoteNumber}</h1>
+          <div className="flex items-center gap-2 mt-1 flex-wrap">
+            <QuotationStatusBadge status={quote.status} />
+            <span className="text-sm text-muted-foreground">Valid until {formatDate(quote.validUntil)}</span>
+          </div>
+        </div>
+        <div className="ml-auto flex gap-2">
+          {quote.status === "draft" && (
+            <Button variant="outline" onClick={() => sendMutation.mutate()} disabled={sendMutation.isPending} data-testid="button-send-quotation">
+              {sendMutation.isPending ? <Loader2 className="animate-spin mr-1" /> : <Send className="mr-1" />} Mark as Sent
+            </Button>
+          )}
+          {open && (
+            <Button onClick={() => acceptMutation.mutate(false)} disabled={acceptMutation.isPending} data-testid="button-accept-quotation">
+              {acceptMutation.isPending ? <Loader2 className="animate-spin mr-1" /> : <CheckCircle className="mr-1" />} Accept &amp; Create Order
+            </Button>
+          )}
+          {quote.status === "accepted" && quote.orderId && (
+            <Button variant="outline" onClick={() => navigate(`/orders/${quote.orderId}`)} data-testid="button-view-order">
+              <ShoppingCart className="mr-1" /> View Order {quote.trackingNumber}
+            </Button>
+          )}
+        </div>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">Quotation Information</CardTitle>
+        </CardHeader>
+        <CardContent className="grid grid-cols-2 gap-4 text-sm">
+          <div>
+            <span className="text-muted-foreground">Customer</span>
+            <p className="font-medium">{quote.customerName}</p>
+          </div>
+          <div>
+            <span className="text-muted-foreground">Source Channel</span>
+            <p className="font-medium capitalize">{quote.sourceChannel}</p>
+          </div>
+          <div>
+            <span className="text-muted-foreground">Prepared</span>
+            <p className="font-medium">{formatDate(quote.createdAt)} by {quote.createdBy}</p>
+          </div>
+          {quote.acceptedAt && (
+            <div>
+              <span className="text-muted-foreground">Accepted</span>
+              <p className="font-medium">{formatDate(quote.acceptedAt)} by {quote.acceptedBy}</p>
+            </div>
+          )}
+          {quote.notes && (
+            <div className="col-span-2">
+              <span className="text-muted-foreground">Notes</span>
+              <p>{quote.notes}</p>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">Items</CardTitle>
+        </CardHeader>
+        <CardContent className="p-0">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Item</TableHead>
+                <TableHead className="text-right">Qty</TableHead>
+                <TableHead className="text-right">Price</TableHead>
+                <TableHead className="text-right">Subtotal</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {quote.items.map((item, i) => (
+                <TableRow key={i}>
+                  <TableCell className="font-medium">
+                    {item.itemName}
+                    {(item.discountAmount || 0) > 0 && (
+                      <span className="block text-xs font-normal text-muted-foreground">Less {formatCurrency(item.discountAmount || 0)}</span>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-right">{item.quantity}</TableCell>
+                  <TableCell className="text-right">{formatCurrency(item.unitPrice)}</TableCell>
+                  <TableCell className="text-right">{formatCurrency(item.lineTotal)}</TableCell>
+                </TableRow>
+              ))}
+              {quote.subtotal !== quote.totalAmount && (
+                <TableRow>
+                  <TableCell colSpan={3} className="text-right">Subtotal</TableCell>
+                  <TableCell className="text-right">{formatCurrency(quote.subtotal)}</TableCell>
+                </TableRow>
+              )}
+              {quote.discountAmount > 0 && (
+                <TableRow>
+                  <TableCell colSpan={3} className="text-right">Discount</TableCell>
+                  <TableCell className="text-right">-{formatCurrency(quote.discountAmount)}</TableCell>
+                </TableRow>
+              )}
+              {quote.vatAmount > 0 && (
+                <TableRow>
+                  <TableCell colSpan={3} className="text-right">VAT 12%{quote.vatTreatment === "inclusive" ? " (included)" : ""}</TableCell>
+                  <TableCell className="text-right">{formatCurrency(quote.vatAmount)}</TableCell>
+                </TableRow>
+              )}
+              <TableRow>
+                <TableCell colSpan={3} className="font-bold text-right">Total</TableCell>
+                <TableCell className="text-right font-bold" data-testid="text-quote-total">{formatCurrency(quote.totalAmount)}</TableCell>
+              </TableRow>
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <AlertDialog open={!!shortageMessage} onOpenChange={(o) => { if (!o) setShortageMessage(null); }}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Not enough available stock</AlertDialogTitle>
+            <AlertDialogDescription>
+              {shortageMessage}. Create the order anyway? Only the available quantity will be reserved.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <Button
+              disabled={acceptMutation.isPending}
+              onClick={() => {
+                acceptMutation.mutate(true);
+                setShortageMessage(null);
+              }}
+              data-testid="button-accept-anyway"
+            >
+              Create Anyway
+            </Button>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
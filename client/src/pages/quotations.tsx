@@ -0,0 +1,389 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { Plus, Search, Loader2, FileText, Trash2 } from "lucide-react";
+import type { IQuotation, IItem } from "@shared/schema";
+import { computeOrderTotals, type DiscountType, type VatTreatment } from "@shared/pricing";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useSettings } from "@/lib/settings-context";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Skeleton } from "@/components/ui/skeleton";
+
+export function QuotationStatusBadge({ status }: { status: string }) {
+  const colorMap: Record<string, string> = {
+    draft: "bg-slate-500 text-white border-transparent",
+    sent: "bg-blue-500 text-white border-transparent",
+    accepted: "bg-green-600 text-white border-transparent",
+    expired: "bg-red-600 text-white border-transparent",
+  };
+  return <Badge className={`capitalize ${colorMap[status] || ""}`}>{status}</Badge>;
+}
+
+const formatCurrency = (v: number) => new Intl.NumberFormat("en-PH", { style: "currency", currency: "PHP" }).format(v);
+const formatDate = (d: string) => new Date(d).toLocaleDateString("en-PH", { year: "numeric", month: "short", day: "numeric" });
+
+function defaultValidUntil() {
+  const d = new Date(Date.now() + 15 * 86400000);
+  return d.toISOString().slice(0, 10);
+}
+
+export default function QuotationsPage() {
+  const { toast } = useToast();
+  const [, navigate] = useLocation();
+  const { settings } = useSettings();
+  const [search, setSearch] = useState("");
+  const [createOpen, setCreateOpen] = useState(false);
+  const [customerName, setCustomerName] = useState("");
+  const [sourceChannel, setSourceChannel] = useState("walk-in");
+  const [validUntil, setValidUntil] = useState(defaultValidUntil());
+  const [notes, setNotes] = useState("");
+  const [quoteItems, setQuoteItems] = useState<{ itemId: string; itemName: string; quantity: number; unitPrice: number; discountType: DiscountType; discountValue: number }[]>([]);
+  const [selectedItemId, setSelectedItemId] = useState("");
+  const [itemQty, setItemQty] = useState(1);
+  const [discountType, setDiscountType] = useState<DiscountType>("percent");
+  const [discountValue, setDiscountValue] = useState(0);
+  const [vatTreatment, setVatTreatment] = useState<VatTreatment>("exclusive");
+
+  const { data, isLoading } = useQuery<{ success: boolean; data: IQuotation[] }>({
+    queryKey: ["/api/quotations"],
+  });
+  const { data: allItemsData } = useQuery<{ success: boolean; data: IItem[] }>({
+    queryKey: ["/api/items/all"],
+    enabled: createOpen,
+  });
+  const quotations = data?.data || [];
+  const allItems = allItemsData?.data || [];
+
+  const totals = computeOrderTotals(quoteItems, { type: discountType, value: discountValue }, vatTreatment, !!settings?.vatRegistered);
+
+  const resetForm = () => {
+    setCustomerName("");
+    setSourceChannel("walk-in");
+    setValidUntil(defaultValidUntil());
+    setNotes("");
+    setQuoteItems([]);
+    setSelectedItemId("");
+    setItemQty(1);
+    setDiscountType("percent");
+    setDiscountValue(0);
+    setVatTreatment("exclusive");
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/quotations", {
+        customerName: customerName.trim(),
+        sourceChannel,
+        validUntil,
+        notes,
+        items: quoteItems,
+        discount: discountValue > 0 ? { type: discountType, value: discountValue } : undefined,
+        vatTreatment,
+      });
+      return res.json();
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/quotations"] });
+      setCreateOpen(false);
+      resetForm();
+      toast({ title: "Quotation created" });
+      if (result?.data?._id) navigate(`/quotations/${result.data._id}`);
+    },
+    onError: (err: Error) => toast({ title: "Failed to create quotation", description: err.message, variant: "destructive" }),
+  });
+
+  const addItem = () => {
+    const item = allItems.find((i) => i._id === selectedItemId);
+    if (!item || itemQty < 1) return;
+    if (quoteItems.some((qi) => qi.itemId === item._id)) {
+      setQuoteItems((prev) => prev.map((qi) => qi.itemId === item._id ? { ...qi, quantity: qi.quantity + itemQty } : qi));
+    } else {
+      setQuoteItems((prev) => [...prev, { itemId: item._id, itemName: item.itemName, quantity: itemQty, unitPrice: item.unitPrice, discountType: "percent", discountValue: 0 }]);
+    }
+    setSelectedItemId("");
+    setItemQty(1);
+  };
+
+  const updateItem = (itemId: string, changes: Partial<(typeof quoteItems)[number]>) => {
+    setQuoteItems((prev) => prev.map((qi) => qi.itemId === itemId ? { ...qi, ...changes } : qi));
+  };
+
+  const filterQuotations = (status?: string) => {
+    let filtered = quotations;
+    if (status) filtered = filtered.filter((q) => q.status === status);
+    if (search) {
+      filtered = filtered.filter(
+        (q) =>
+          q.quoteNumber.toLowerCase().includes(search.toLowerCase()) ||
+          q.customerName.toLowerCase().includes(search.toLowerCase())
+      );
+    }
+    return filtered;
+  };
+
+  const QuotationsTable = ({ rows }: { rows: IQuotation[] }) => (
+    <Card>
+      <CardContent className="p-0">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Quote #</TableHead>
+              <TableHead>Customer</TableHead>
+              <TableHead className="text-right">Total</TableHead>
+              <TableHead>Valid Until</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead>Order</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {rows.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={6} className="text-center text-muted-foreground py-8">No quotations found</TableCell>
+              </TableRow>
+            ) : (
+              rows.map((q) => (
+                <TableRow key={q._id} className="cursor-pointer" onClick={() => navigate(`/quotations/${q._id}`)} data-testid={`row-quotation-${q._id}`}>
+                  <TableCell className="font-mono text-sm">{q.quoteNumber}</TableCell>
+                  <TableCell>{q.customerName}</TableCell>
+                  <TableCell className="text-right">{formatCurrency(q.totalAmount)}</TableCell>
+                  <TableCell>{formatDate(q.validUntil)}</TableCell>
+                  <TableCell><QuotationStatusBadge status={q.status} /></TableCell>
+                  <TableCell className="font-mono text-sm">{q.trackingNumber || "-"}</TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+
+  if (isLoading) {
+    return (
+      <div className="p-3 sm:p-6 space-y-4 sm:space-y-6 overflow-auto h-full">
+        <h1 className="text-xl sm:text-2xl font-bold">Quotations</h1>
+        <Skeleton className="h-10 w-full" />
+        <Skeleton className="h-64 w-full" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-3 sm:p-6 space-y-4 sm:space-y-6 overflow-auto h-full">
+      <div className="flex items-center justify-between gap-2 sm:gap-4 flex-wrap">
+        <h1 className="text-xl sm:text-2xl font-bold" data-testid="text-quotations-title">Quotations</h1>
+        <Button onClick={() => { resetForm(); setCreateOpen(true); }} data-testid="button-create-quotation">
+          <Plus className="mr-1" /> New Quotation
+        </Button>
+      </div>
+
+      <div className="relative max-w-sm">
+        <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+        <Input
+          placeholder="Search quotations..."
+          className="pl-9"
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          data-testid="input-search-quotations"
+        />
+      </div>
+
+      <Tabs defaultValue="all">
+        <TabsList>
+          <TabsTrigger value="all">All</TabsTrigger>
+          <TabsTrigger value="draft">Draft</TabsTrigger>
+          <TabsTrigger value="sent">Sent</TabsTrigger>
+          <TabsTrigger value="accepted">Accepted</TabsTrigger>
+          <TabsTrigger value="expired">Expired</TabsTrigger>
+        </TabsList>
+        <TabsContent value="all"><QuotationsTable rows={filterQuotations()} /></TabsContent>
+        <TabsContent value="draft"><QuotationsTable rows={filterQuotations("draft")} /></TabsContent>
+        <TabsContent value="sent"><QuotationsTable rows={filterQuotations("sent")} /></TabsContent>
+        <TabsContent value="accepted"><QuotationsTable rows={filterQuotations("accepted")} /></TabsContent>
+        <TabsContent value="expired"><QuotationsTable rows={filterQuotations("expired")} /></TabsContent>
+      </Tabs>
+
+      <Dialog open={createOpen} onOpenChange={(open) => { setCreateOpen(open); if (!open) resetForm(); }}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>New Quotation</DialogTitle>
+            <DialogDescription>Quoted prices are kept when the quotation is accepted and converted into an order.</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+              <div className="space-y-2 sm:col-span-2">
+                <label className="text-sm font-medium leading-none" htmlFor="quote-customer">Customer Name</label>
+                <Input id="quote-customer" value={customerName} onChange={(e) => setCustomerName(e.target.value)} placeholder="Type customer name" data-testid="input-quote-customer" />
+              </div>
+              <div className="space-y-2">
+                <label className="text-sm font-medium leading-none" htmlFor="quote-valid-until">Valid Until</label>
+                <Input id="quote-valid-until" type="date" value={validUntil} onChange={(e) => setValidUntil(e.target.value)} data-testid="input-quote-valid-until" />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <label className="text-sm font-medium leading-none">Source Channel</label>
+              <Select value={sourceChannel} onValueChange={setSourceChannel}>
+                <SelectTrigger data-testid="select-quote-channel"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="walk-in">Walk-in</SelectItem>
+                  <SelectItem value="phone">Phone</SelectItem>
+                  <SelectItem value="email">Email</SelectItem>
+                  <SelectItem value="message">Message</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <label className="text-sm font-medium leading-none">Items</label>
+              <div className="flex items-end gap-2 flex-wrap">
+                <Select value={selectedItemId} onValueChange={setSelectedItemId}>
+                  <SelectTrigger className="w-[200px]" data-testid="select-quote-item">
+                    <SelectValue placeholder="Select item" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {allItems.map((item) => (
+                      <SelectItem key={item._id} value={item._id}>{item.itemName}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Input type="number" min={1} value={itemQty} onChange={(e) => setItemQty(parseInt(e.target.value) || 1)} className="w-20" data-testid="input-quote-item-qty" />
+                <Button type="button" variant="secondary" onClick={addItem} disabled={!selectedItemId} data-testid="button-add-quote-item">Add</Button>
+              </div>
+              {quoteItems.length > 0 ? (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Item</TableHead>
+                      <TableHead className="text-right">Qty</TableHead>
+                      <TableHead className="text-right">Price</TableHead>
+                      <TableHead>Discount</TableHead>
+                      <TableHead className="text-right">Subtotal</TableHead>
+                      <TableHead></TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {quoteItems.map((qi, idx) => (
+                      <TableRow key={qi.itemId}>
+                        <TableCell>{qi.itemName}</TableCell>
+                        <TableCell className="text-right">{qi.quantity}</TableCell>
+                        <TableCell className="text-right">
+                          <Input
+                            type="number"
+                            min={0}
+                            step="0.01"
+                            value={qi.unitPrice}
+                            onChange={(e) => updateItem(qi.itemId, { unitPrice: Math.max(0, parseFloat(e.target.value) || 0) })}
+                            className="w-24 ml-auto text-right"
+                          />
+                        </TableCell>
+                        <TableCell>
+                          <div className="flex items-center gap-1">
+                            <Input
+                              type="number"
+                              min={0}
+                              value={qi.discountValue}
+                              onChange={(e) => updateItem(qi.itemId, { discountValue: Math.max(0, parseFloat(e.target.value) || 0) })}
+                              className="w-20"
+                            />
+                            <Select value={qi.discountType} onValueChange={(v) => updateItem(qi.itemId, { discountType: v as DiscountType })}>
+                              <SelectTrigger className="w-16"><SelectValue /></SelectTrigger>
+                              <SelectContent>
+                                <SelectItem value="percent">%</SelectItem>
+                                <SelectItem value="fixed">₱</SelectItem>
+                              </SelectContent>
+                            </Select>
+                          </div>
+                        </TableCell>
+                        <TableCell className="text-right">{formatCurrency(totals.lines[idx].lineTotal)}</TableCell>
+                        <TableCell>
+                          <Button type="button" variant="ghost" size="icon" onClick={() => setQuoteItems((prev) => prev.filter((p) => p.itemId !== qi.itemId))}>
+                            <Trash2 className="h-3 w-3" />
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                    {totals.discountAmount > 0 && (
+                      <TableRow>
+                        <TableCell colSpan={4} className="text-right">Discount</TableCell>
+                        <TableCell className="text-right">-{formatCurrency(totals.discountAmount)}</TableCell>
+                        <TableCell />
+                      </TableRow>
+                    )}
+                    {totals.vatAmount > 0 && (
+                      <TableRow>
+                        <TableCell colSpan={4} className="text-right">VAT 12%{vatTreatment === "inclusive" ? " (included)" : ""}</TableCell>
+                        <TableCell className="text-right">{formatCurrency(totals.vatAmount)}</TableCell>
+                        <TableCell />
+                      </TableRow>
+                    )}
+                    <TableRow>
+                      <TableCell colSpan={4} className="font-bold text-right">Grand Total</TableCell>
+                      <TableCell className="text-right font-bold">{formatCurrency(totals.totalAmount)}</TableCell>
+                      <TableCell />
+                    </TableRow>
+                  </TableBody>
+                </Table>
+              ) : (
+                <p className="text-sm text-muted-foreground">No items added yet</p>
+              )}
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-2">
+                <label className="text-sm font-medium leading-none">Quote Discount</label>
+                <div className="flex items-center gap-1">
+                  <Input type="number" min={0} value={discountValue} onChange={(e) => setDiscountValue(Math.max(0, parseFloat(e.target.value) || 0))} data-testid="input-quote-discount" />
+                  <Select value={discountType} onValueChange={(v) => setDiscountType(v as DiscountType)}>
+                    <SelectTrigger className="w-16"><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="percent">%</SelectItem>
+                      <SelectItem value="fixed">₱</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+              {settings?.vatRegistered && (
+                <div className="space-y-2">
+                  <label className="text-sm font-medium leading-none">VAT</label>
+                  <Select value={vatTreatment} onValueChange={(v) => setVatTreatment(v as VatTreatment)}>
+                    <SelectTrigger data-testid="select-quote-vat"><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="exclusive">Add 12% VAT</SelectItem>
+                      <SelectItem value="inclusive">Prices include VAT</SelectItem>
+                      <SelectItem value="exempt">VAT-exempt</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <label className="text-sm font-medium leading-none" htmlFor="quote-notes">Notes</label>
+              <Textarea id="quote-notes" value={notes} onChange={(e) => setNotes(e.target.value)} placeholder="Terms, delivery notes..." data-testid="input-quote-notes" />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setCreateOpen(false)}>Close</Button>
+            <Button
+              onClick={() => createMutation.mutate()}
+              disabled={!customerName.trim() || quoteItems.length === 0 || !validUntil || createMutation.isPending}
+              data-testid="button-submit-quotation"
+            >
+              {createMutation.isPending && <Loader2 className="animate-spin mr-1" />}
+              <FileText className="mr-1" /> Create Quotation
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,330 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useRoute, useLocation, Link } from "wouter";
+import { ArrowLeft, Loader2, CheckCircle } from "lucide-react";
+import type { IReconciliation, IReconciliationLine } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Skeleton } from "@/components/ui/skeleton";
+import { ReconciliationStatusBadge } from "@/pages/reconciliation";
+
+const KIND_LABELS: Record<IReconciliationLine["kind"], string> = {
+  matched: "Matched",
+  statement_only: "Only in statement",
+  system_only: "Only in system",
+  mismatch: "Mismatch",
+};
+
+const KIND_CLASSES: Record<IReconciliationLine["kind"], string> = {
+  matched: "bg-green-600 text-white border-transparent",
+  statement_only: "bg-orange-500 text-white border-transparent",
+  system_only: "bg-purple-500 text-white border-transparent",
+  mismatch: "bg-red-600 text-white border-transparent",
+};
+
+const formatCurrency = (v: number) => new Intl.NumberFormat("en-PH", { style: "currency", currency: "PHP" }).format(v);
+const formatDate = (d?: string) => (d ? new Date(d).toLocaleString("en-PH", { year: "numeric", month: "short", day: "numeric", hour: "2-digit", minute: "2-digit" }) : "-");
+
+export default function ReconciliationDetailPage() {
+  const { toast } = useToast();
+  const [, navigate] = useLocation();
+  const [, params] = useRoute("/reconciliation/:id");
+  const reconciliationId = params?.id;
+  const [resolving, setResolving] = useState<IReconciliationLine | null>(null);
+  const [resolution, setResolution] = useState<"explained" | "linked">("explained");
+  const [paymentId, setPaymentId] = useState("");
+  const [note, setNote] = useState("");
+
+  const { data, isLoading } = useQuery<{ success: boolean; data: IReconciliation }>({
+    queryKey: ["/api/reconciliations", reconciliationId],
+    enabled: !!reconciliationId,
+  });
+  const reconciliation = data?.data;
+
+  const openResolve = (line: IReconciliationLine) => {
+    setResolving(line);
+    setResolution("explained");
+    setPaymentId("");
+    setNote("");
+  };
+
+  const resolveMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/reconciliations/${reconciliationId}/lines/${resolving?._id}/resolve`, {
+        resolution,
+        paymentId: resolution === "linked" ? paymentId : undefined,
+        note,
+      });
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/reconciliations"] });
+      setResolving(null);
+      toast({ title: "Difference resolved" });
+    },
+    onError: (err: Error) => toast({ title: "Failed to resolve", description: err.message, variant: "destructive" }),
+  });
+
+  const completeMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/reconciliations/${reconciliationId}/complete`);
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/reconciliations"] });
+      toast({ title: "Reconciliation completed" });
+    },
+    onError: (err: Error) => toast({ title: "Failed to complete", description: err.message, variant: "destructive" }),
+  });
+
+  if (isLoading) {
+    return (
+      <div className="p-3 sm:p-6 space-y-4 sm:space-y-6 overflow-auto h-full">
+        <Skeleton className="h-8 w-48" />
+        <Skeleton className="h-64 w-full" />
+      </div>
+    );
+  }
+
+  if (!reconciliation) {
+    return (
+      <div className="p-3 sm:p-6">
+        <p className="text-muted-foreground">Reconciliation not found</p>
+        <Button variant="ghost" onClick={() => navigate("/reconciliation")} className="mt-4">
+          <ArrowLeft className="mr-1" /> Back to Reconciliation
+        </Button>
+      </div>
+    );
+  }
+
+  const isOpen = reconciliation.status === "open";
+  const differences = reconciliation.lines.filter((l) => l.kind !== "matched");
+  const unresolved = differences.filter((l) => !l.resolution).length;
+  // Payments the statement seems to be missing are the likely targets for an unknown statement row.
+  const linkCandidates = reconciliation.lines.filter((l) => l.kind === "system_only" && !l.resolution && l.paymentId);
+
+  const LinesTable = ({ rows }: { rows: IReconciliationLine[] }) => (
+    <Card>
+      <CardContent className="p-0">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Result</TableHead>
+              <TableHead>Statement</TableHead>
+              <TableHead className="text-right">Statement Amount</TableHead>
+              <TableHead>Payment</TableHead>
+              <TableHead className="text-right">Payment Amount</TableHead>
+              <TableHead>Resolution</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {rows.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={6} className="text-center text-muted-foreground py-8">Nothing here</TableCell>
+              </TableRow>
+            ) : (
+              rows.map((line) => (
+                <TableRow key={line._id} data-testid={`row-reconciliation-line-${line._id}`}>
+                  <TableCell>
+                    <Badge className={KIND_CLASSES[line.kind]}>{KIND_LABELS[line.kind]}</Badge>
+                    {line.issues.length > 0 && (
+                      <p className="text-xs text-muted-foreground mt-1 capitalize">{line.issues.join(", ")} differs</p>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    {line.statementRow ? (
+                      <>
+                        <p className="font-mono text-xs">{line.statementReference || "-"}</p>
+                        <p className="text-xs text-muted-foreground">{formatDate(line.statementDate)} · row {line.statementRow}</p>
+                        {line.statementDescription && <p className="text-xs text-muted-foreground">{line.statementDescription}</p>}
+                      </>
+                    ) : "-"}
+                  </TableCell>
+                  <TableCell className="text-right">{line.statementAmount !== undefined ? formatCurrency(line.statementAmount) : "-"}</TableCell>
+                  <TableCell>
+                    {line.paymentId ? (
+                      <>
+                        <p className="font-mono text-xs">{line.paymentReference || "-"}</p>
+                        <p className="text-xs text-muted-foreground">
+                          {formatDate(line.paymentDate)}
+                          {line.orderId && (
+                            <> · <Link href={`/orders/${line.orderId}`} className="underline">{line.trackingNumber || "Order"}</Link></>
+                          )}
+                        </p>
+                      </>
+                    ) : "-"}
+                  </TableCell>
+                  <TableCell className="text-right">{line.paymentAmount !== undefined ? formatCurrency(line.paymentAmount) : "-"}</TableCell>
+                  <TableCell>
+                    {line.kind === "matched" ? (
+                      <span className="text-xs text-muted-foreground">-</span>
+                    ) : line.resolution ? (
+                      <div className="text-xs">
+                        <p className="font-medium capitalize">{line.resolution}</p>
+                        <p className="text-muted-foreground">{line.resolutionNote}</p>
+                        <p className="text-muted-foreground">{line.resolvedBy}, {formatDate(line.resolvedAt)}</p>
+                      </div>
+                    ) : isOpen ? (
+                      <Button variant="outline" size="sm" onClick={() => openResolve(line)} data-testid={`button-resolve-${line._id}`}>
+                        Resolve
+                      </Button>
+                    ) : null}
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+
+  return (
+    <div className="p-3 sm:p-6 space-y-4 sm:space-y-6 overflow-auto h-full">
+      <div className="flex items-center gap-4 flex-wrap">
+        <Button variant="ghost" onClick={() => navigate("/reconciliation")} data-testid="button-back-reconciliation">
+          <ArrowLeft className="mr-1" /> Back
+        </Button>
+        <div>
+          <h1 className="text-2xl font-bold" data-testid="text-reconciliation-heading">{reconciliation.source} Reconciliation</h1>
+          <div className="flex items-center gap-2 mt-1 flex-wrap">
+            <ReconciliationStatusBadge status={reconciliation.status} />
+            <span className="text-sm text-muted-foreground">{reconciliation.fileName}</span>
+          </div>
+        </div>
+        {isOpen && (
+          <div className="ml-auto">
+            <Button onClick={() => completeMutation.mutate()} disabled={unresolved > 0 || completeMutation.isPending} data-testid="button-complete-reconciliation">
+              {completeMutation.isPending ? <Loader2 className="animate-spin mr-1" /> : <CheckCircle className="mr-1" />}
+              {unresolved > 0 ? `${unresolved} to resolve` : "Complete Reconciliation"}
+            </Button>
+          </div>
+        )}
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">Summary</CardTitle>
+        </CardHeader>
+        <CardContent className="grid grid-cols-2 sm:grid-cols-4 gap-4 text-sm">
+          <div>
+            <span className="text-muted-foreground">Period</span>
+            <p className="font-medium">{new Date(reconciliation.periodStart).toLocaleDateString("en-PH")} – {new Date(reconciliation.periodEnd).toLocaleDateString("en-PH")}</p>
+          </div>
+          <div>
+            <span className="text-muted-foreground">Statement Total</span>
+            <p className="font-medium">{formatCurrency(reconciliation.statementTotal)}</p>
+          </div>
+          <div>
+            <span className="text-muted-foreground">System Total</span>
+            <p className="font-medium">{formatCurrency(reconciliation.systemTotal)}</p>
+          </div>
+          <div>
+            <span className="text-muted-foreground">Difference</span>
+            <p className="font-medium">{formatCurrency(reconciliation.statementTotal - reconciliation.systemTotal)}</p>
+          </div>
+          <div>
+            <span className="text-muted-foreground">Imported</span>
+            <p className="font-medium">{reconciliation.importedBy}, {formatDate(reconciliation.createdAt)}</p>
+          </div>
+          {reconciliation.completedAt && (
+            <div>
+              <span className="text-muted-foreground">Completed</span>
+              <p className="font-medium">{reconciliation.completedBy}, {formatDate(reconciliation.completedAt)}</p>
+            </div>
+          )}
+          {reconciliation.skippedRows > 0 && (
+            <div>
+              <span className="text-muted-foreground">Skipped Rows</span>
+              <p className="font-medium">{reconciliation.skippedRows} (unreadable date)</p>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Tabs defaultValue="differences">
+        <TabsList>
+          <TabsTrigger value="differences">Differences ({differences.length})</TabsTrigger>
+          <TabsTrigger value="matched">Matched ({reconciliation.lines.length - differences.length})</TabsTrigger>
+          <TabsTrigger value="statement_only">Only in Statement</TabsTrigger>
+          <TabsTrigger value="system_only">Only in System</TabsTrigger>
+          <TabsTrigger value="mismatch">Mismatches</TabsTrigger>
+        </TabsList>
+        <TabsContent value="differences"><LinesTable rows={differences} /></TabsContent>
+        <TabsContent value="matched"><LinesTable rows={reconciliation.lines.filter((l) => l.kind === "matched")} /></TabsContent>
+        <TabsContent value="statement_only"><LinesTable rows={reconciliation.lines.filter((l) => l.kind === "statement_only")} /></TabsContent>
+        <TabsContent value="system_only"><LinesTable rows={reconciliation.lines.filter((l) => l.kind === "system_only")} /></TabsContent>
+        <TabsContent value="mismatch"><LinesTable rows={reconciliation.lines.filter((l) => l.kind === "mismatch")} /></TabsContent>
+      </Tabs>
+
+      <Dialog open={!!resolving} onOpenChange={(open) => !open && setResolving(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Resolve Difference</DialogTitle>
+            <DialogDescription>
+              {resolving && KIND_LABELS[resolving.kind]}
+              {resolving?.statementReference ? ` · statement ref ${resolving.statementReference}` : ""}
+              {resolving?.paymentReference ? ` · payment ref ${resolving.paymentReference}` : ""}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            {resolving?.kind === "statement_only" && (
+              <div className="space-y-2">
+                <label className="text-sm font-medium leading-none">Resolution</label>
+                <Select value={resolution} onValueChange={(v) => setResolution(v as "explained" | "linked")}>
+                  <SelectTrigger data-testid="select-resolution">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="explained">Explain the difference</SelectItem>
+                    <SelectItem value="linked">Link to a logged payment</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            {resolution === "linked" && (
+              <div className="space-y-2">
+                <label className="text-sm font-medium leading-none">Payment</label>
+                <Select value={paymentId} onValueChange={setPaymentId}>
+                  <SelectTrigger data-testid="select-link-payment">
+                    <SelectValue placeholder={linkCandidates.length ? "Choose a payment" : "No unmatched payments in this period"} />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {linkCandidates.map((l) => (
+                      <SelectItem key={l._id} value={l.paymentId!}>
+                        {l.paymentReference || "No reference"} · {formatCurrency(l.paymentAmount || 0)} · {formatDate(l.paymentDate)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            <div className="space-y-2">
+              <label className="text-sm font-medium leading-none" htmlFor="resolution-note">Note</label>
+              <Textarea id="resolution-note" value={note} onChange={(e) => setNote(e.target.value)} placeholder="e.g. Reference mistyped by cashier, transfer fee deducted by bank" data-testid="input-resolution-note" />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setResolving(null)}>Cancel</Button>
+            <Button
+              onClick={() => resolveMutation.mutate()}
+              disabled={!note.trim() || (resolution === "linked" && !paymentId) || resolveMutation.isPending}
+              data-testid="button-submit-resolution"
+            >
+              {resolveMutation.isPending && <Loader2 className="animate-spin mr-1" />}
+              Resolve
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,178 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { Upload, Loader2, Scale } from "lucide-react";
+import { RECONCILIATION_SOURCES, type IReconciliation } from "@shared/schema";
+import { queryClient } from "@/lib/queryClient";
+import { useAuth } from "@/lib/auth";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Skeleton } from "@/components/ui/skeleton";
+
+export function ReconciliationStatusBadge({ status }: { status: string }) {
+  return (
+    <Badge className={`capitalize ${status === "completed" ? "bg-green-600 text-white border-transparent" : "bg-amber-500 text-white border-transparent"}`}>
+      {status}
+    </Badge>
+  );
+}
+
+const formatCurrency = (v: number) => new Intl.NumberFormat("en-PH", { style: "currency", currency: "PHP" }).format(v);
+const formatDate = (d: string) => new Date(d).toLocaleDateString("en-PH", { year: "numeric", month: "short", day: "numeric" });
+
+export default function ReconciliationPage() {
+  const { toast } = useToast();
+  const { isAdmin } = useAuth();
+  const [, navigate] = useLocation();
+  const [importOpen, setImportOpen] = useState(false);
+  const [source, setSource] = useState<string>("GCash");
+  const [file, setFile] = useState<File | null>(null);
+
+  const { data, isLoading } = useQuery<{ success: boolean; data: IReconciliation[] }>({
+    queryKey: ["/api/reconciliations"],
+    enabled: isAdmin,
+  });
+  const reconciliations = data?.data || [];
+
+  const importMutation = useMutation({
+    mutationFn: async () => {
+      const formData = new FormData();
+      formData.append("source", source);
+      if (file) formData.append("statement", file);
+      const res = await fetch("/api/reconciliations/import", {
+        method: "POST",
+        headers: { Authorization: `Bearer ${localStorage.getItem("token")}` },
+        body: formData,
+      });
+      const result = await res.json();
+      if (!res.ok) throw new Error(result.error || "Import failed");
+      return result;
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/reconciliations"] });
+      setImportOpen(false);
+      setFile(null);
+      const summary = result?.data?.summary;
+      toast({
+        title: "Statement imported",
+        description: summary ? `${summary.matched} matched, ${summary.unresolved} difference(s) to review` : undefined,
+      });
+      if (result?.data?._id) navigate(`/reconciliation/${result.data._id}`);
+    },
+    onError: (err: Error) => toast({ title: "Import failed", description: err.message, variant: "destructive" }),
+  });
+
+  if (!isAdmin) {
+    return (
+      <div className="p-3 sm:p-6 flex items-center justify-center h-full">
+        <p className="text-muted-foreground">Access denied. Admin only.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-3 sm:p-6 space-y-4 sm:space-y-6 overflow-auto h-full">
+      <div className="flex items-center justify-between gap-2 flex-wrap">
+        <div>
+          <h1 className="text-xl sm:text-2xl font-bold" data-testid="text-reconciliation-title">Reconciliation</h1>
+          <p className="text-sm text-muted-foreground">Match GCash, Maya and bank statements against logged payments</p>
+        </div>
+        <Button onClick={() => setImportOpen(true)} data-testid="button-import-statement">
+          <Upload className="mr-1" /> Import Statement
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <Skeleton className="h-64 w-full" />
+      ) : (
+        <Card>
+          <CardContent className="p-0">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Imported</TableHead>
+                  <TableHead>Source</TableHead>
+                  <TableHead>Period</TableHead>
+                  <TableHead className="text-right">Statement</TableHead>
+                  <TableHead className="text-right">System</TableHead>
+                  <TableHead>Matched</TableHead>
+                  <TableHead>To Review</TableHead>
+                  <TableHead>Status</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {reconciliations.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={8} className="text-center text-muted-foreground py-8">
+                      <Scale className="h-6 w-6 mx-auto mb-2" />
+                      No statements imported yet
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  reconciliations.map((r) => (
+                    <TableRow key={r._id} className="cursor-pointer hover-elevate" onClick={() => navigate(`/reconciliation/${r._id}`)} data-testid={`row-reconciliation-${r._id}`}>
+                      <TableCell>
+                        <p>{formatDate(r.createdAt)}</p>
+                        <p className="text-xs text-muted-foreground">{r.fileName} · {r.importedBy}</p>
+                      </TableCell>
+                      <TableCell>{r.source}</TableCell>
+                      <TableCell className="text-muted-foreground">{formatDate(r.periodStart)} – {formatDate(r.periodEnd)}</TableCell>
+                      <TableCell className="text-right">{formatCurrency(r.statementTotal)}</TableCell>
+                      <TableCell className="text-right">{formatCurrency(r.systemTotal)}</TableCell>
+                      <TableCell>{r.summary?.matched ?? 0}</TableCell>
+                      <TableCell>{r.summary?.unresolved ?? 0}</TableCell>
+                      <TableCell><ReconciliationStatusBadge status={r.status} /></TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+
+      <Dialog open={importOpen} onOpenChange={setImportOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Import Statement</DialogTitle>
+            <DialogDescription>
+              Upload the CSV transaction export. Incoming transactions are matched to payments by reference number, amount and date.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <label className="text-sm font-medium leading-none">Statement Source</label>
+              <Select value={source} onValueChange={setSource}>
+                <SelectTrigger data-testid="select-reconciliation-source">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {RECONCILIATION_SOURCES.map((s) => (
+                    <SelectItem key={s} value={s}>{s}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <label className="text-sm font-medium leading-none" htmlFor="statement-file">CSV File</label>
+              <Input id="statement-file" type="file" accept=".csv,text/csv" onChange={(e) => setFile(e.target.files?.[0] || null)} data-testid="input-statement-file" />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setImportOpen(false)}>Cancel</Button>
+            <Button onClick={() => importMutation.mutate()} disabled={!file || importMutation.isPending} data-testid="button-submit-import">
+              {importMutation.isPending && <Loader2 className="animate-spin mr-1" />}
+              Import
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
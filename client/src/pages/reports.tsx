@@ -1,5 +1,6 @@
 import { useState } from "react";
 import { useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
 import {
   BarChart3,
   Download,
@@ -9,6 +10,9 @@ import {
   TrendingUp,
   Package,
   AlertTriangle,
+  ChevronDown,
+  ChevronRight,
+  Clock,
 } from "lucide-react";
 import {
   ComposedChart,
@@ -29,7 +33,7 @@ import { Button } from "@/components/ui/button";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Skeleton } from "@/components/ui/skeleton";
-import type { IOrder, IItem } from "@shared/schema";
+import { AR_AGING_BUCKETS, type IOrder, type IItem, type IArAgingReport } from "@shared/schema";
 
 function downloadCSV(data: any[], filename: string) {
   if (data.length === 0) return;
@@ -81,8 +85,14 @@ export default function ReportsPage() {
     queryKey: ["/api/reports/forecast"],
   });
 
+  const { data: agingData, isLoading: agingLoading } = useQuery<{ success: boolean; data: IArAgingReport }>({
+    queryKey: ["/api/reports/ar-aging"],
+  });
+  const [expandedCustomer, setExpandedCustomer] = useState<string | null>(null);
+
   const orders = ordersData?.data?.orders || [];
   const items = itemsData?.data?.items || [];
+  const aging = agingData?.data;
   const revenueChart = revenueData?.data || [];
   const forecastChart = forecastData?.data?.forecast || [];
   const forecastModel = forecastData?.data?.model;
@@ -148,6 +158,7 @@ export default function ReportsPage() {
           <TabsTrigger value="sales" data-testid="tab-sales">Sales</TabsTrigger>
           <TabsTrigger value="inventory" data-testid="tab-inventory">Inventory</TabsTrigger>
           <TabsTrigger value="forecast" data-testid="tab-forecast">Forecast</TabsTrigger>
+          <TabsTrigger value="receivables" data-testid="tab-receivables">Receivables</TabsTrigger>
         </TabsList>
 
         <TabsContent value="sales" className="space-y-6">
@@ -518,6 +529,110 @@ export default function ReportsPage() {
             )}
           </div>
         </TabsContent>
+
+        <TabsContent value="receivables" className="space-y-6">
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between gap-2 flex-wrap">
+              <div>
+                <CardTitle className="text-base flex items-center gap-2">
+                  <Clock className="w-4 h-4 text-amber-500" />
+                  Accounts Receivable Aging
+                </CardTitle>
+                <CardDescription>
+                  Open balances by days past due{aging ? ` as of ${new Date(aging.asOf).toLocaleDateString("en-PH")}` : ""}. Click a customer to see their invoices.
+                </CardDescription>
+              </div>
+              <Button variant="outline" size="sm" disabled={!aging?.customers.length} onClick={() => downloadCSV(
+                (aging?.customers || []).flatMap((c) => c.invoices.map((i) => ({
+                  customer: c.customerName,
+                  order: i.trackingNumber,
+                  invoice: i.invoiceNumber || "",
+                  invoiceDate: new Date(i.invoiceDate).toLocaleDateString("en-PH"),
+                  dueDate: new Date(i.dueDate).toLocaleDateString("en-PH"),
+                  daysOverdue: i.daysOverdue,
+                  bucket: i.bucket,
+                  balanceDue: i.balanceDue,
+                }))),
+                "ar-aging.csv"
+              )} data-testid="button-download-ar-aging">
+                <Download className="mr-1 h-3 w-3" /> CSV
+              </Button>
+            </CardHeader>
+            <CardContent className="p-0">
+              {agingLoading ? (
+                <Skeleton className="h-48 w-full" />
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Customer</TableHead>
+                      <TableHead className="text-right">Current</TableHead>
+                      <TableHead className="text-right">1–30</TableHead>
+                      <TableHead className="text-right">31–60</TableHead>
+                      <TableHead className="text-right">61–90</TableHead>
+                      <TableHead className="text-right">90+</TableHead>
+                      <TableHead className="text-right">Total</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {!aging || aging.customers.length === 0 ? (
+                      <TableRow><TableCell colSpan={7} className="text-center text-muted-foreground py-8">No open receivables</TableCell></TableRow>
+                    ) : (
+                      <>
+                        {aging.customers.map((c) => {
+                          const key = c.customerId || c.customerName;
+                          const expanded = expandedCustomer === key;
+                          return [
+                            <TableRow key={key} className="cursor-pointer hover-elevate" onClick={() => setExpandedCustomer(expanded ? null : key)} data-testid={`row-aging-${key}`}>
+                              <TableCell className="font-medium">
+                                <span className="flex items-center gap-1">
+                                  {expanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                                  {c.customerName}
+                                </span>
+                                {c.paymentTermsDays > 0 && (
+                                  <p className={`text-xs ml-5 ${c.total > c.creditLimit ? "text-destructive" : "text-muted-foreground"}`}>
+                                    {c.paymentTermsDays}-day terms · limit {formatPHP(c.creditLimit)}
+                                  </p>
+                                )}
+                              </TableCell>
+                              {AR_AGING_BUCKETS.map((b) => (
+                                <TableCell key={b} className={`text-right ${b !== "current" && c.buckets[b] > 0 ? "text-destructive" : ""}`}>
+                                  {c.buckets[b] ? formatPHP(c.buckets[b]) : "-"}
+                                </TableCell>
+                              ))}
+                              <TableCell className="text-right font-semibold">{formatPHP(c.total)}</TableCell>
+                            </TableRow>,
+                            ...(expanded ? c.invoices.map((i) => (
+                              <TableRow key={i.orderId} className="bg-muted/40">
+                                <TableCell className="pl-10 text-sm">
+                                  <Link href={`/orders/${i.orderId}`} className="underline">{i.invoiceNumber || i.trackingNumber}</Link>
+                                  <span className="text-xs text-muted-foreground ml-2">
+                                    due {new Date(i.dueDate).toLocaleDateString("en-PH")}{i.daysOverdue > 0 ? `, ${i.daysOverdue} days overdue` : ""}
+                                  </span>
+                                </TableCell>
+                                {AR_AGING_BUCKETS.map((b) => (
+                                  <TableCell key={b} className="text-right text-sm">{i.bucket === b ? formatPHP(i.balanceDue) : ""}</TableCell>
+                                ))}
+                                <TableCell className="text-right text-sm text-muted-foreground">of {formatPHP(i.totalAmount)}</TableCell>
+                              </TableRow>
+                            )) : []),
+                          ];
+                        })}
+                        <TableRow className="font-bold">
+                          <TableCell>Total</TableCell>
+                          {AR_AGING_BUCKETS.map((b) => (
+                            <TableCell key={b} className="text-right">{formatPHP(aging.totals[b])}</TableCell>
+                          ))}
+                          <TableCell className="text-right">{formatPHP(aging.totals.total)}</TableCell>
+                        </TableRow>
+                      </>
+                    )}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
       </Tabs>
     </div>
   );
@@ -13,6 +13,7 @@ import { Button } from "@/components/ui/button";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Skeleton } from "@/components/ui/skeleton";
+import { Switch } from "@/components/ui/switch";
 import { cn } from "@/lib/utils";
 import { useEffect } from "react";
 
@@ -81,18 +82,30 @@ export default function SettingsPage() {
     resolver: zodResolver(settingsSchema),
     defaultValues: {
       companyName: settings?.companyName || "JOAP Hardware Trading",
+      companyAddress: settings?.companyAddress || "",
+      companyTin: settings?.companyTin || "",
+      companyContact: settings?.companyContact || "",
       theme: (settings?.theme as "light" | "dark") || "light",
       reorderThreshold: settings?.reorderThreshold || 10,
       lowStockThreshold: settings?.lowStockThreshold || 5,
+      reservationExpiryHours: settings?.reservationExpiryHours || 72,
+      autoFulfillBackorders: settings?.autoFulfillBackorders ?? true,
+      vatRegistered: settings?.vatRegistered ?? false,
       font: settings?.font || "Inter",
       colorTheme: settings?.colorTheme || "blue",
       gradient: settings?.gradient || "none",
     },
     values: settings ? {
       companyName: settings.companyName,
+      companyAddress: settings.companyAddress || "",
+      companyTin: settings.companyTin || "",
+      companyContact: settings.companyContact || "",
       theme: settings.theme as "light" | "dark",
       reorderThreshold: settings.reorderThreshold,
       lowStockThreshold: settings.lowStockThreshold,
+      reservationExpiryHours: settings.reservationExpiryHours || 72,
+      autoFulfillBackorders: settings.autoFulfillBackorders ?? true,
+      vatRegistered: settings.vatRegistered ?? false,
       font: settings.font || "Inter",
       colorTheme: settings.colorTheme || "blue",
       gradient: settings.gradient || "none",
@@ -157,6 +170,29 @@ export default function SettingsPage() {
                   <FormMessage />
                 </FormItem>
               )} />
+              <FormField control={form.control} name="companyAddress" render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Business Address (printed on invoices and receipts)</FormLabel>
+                  <FormControl><Input {...field} data-testid="input-company-address" /></FormControl>
+                  <FormMessage />
+                </FormItem>
+              )} />
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <FormField control={form.control} name="companyTin" render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>TIN</FormLabel>
+                    <FormControl><Input {...field} placeholder="000-000-000-00000" data-testid="input-company-tin" /></FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )} />
+                <FormField control={form.control} name="companyContact" render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Contact Details</FormLabel>
+                    <FormControl><Input {...field} placeholder="Phone / email" data-testid="input-company-contact" /></FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )} />
+              </div>
               <FormField control={form.control} name="theme" render={({ field }) => (
                 <FormItem>
                   <FormLabel>Theme</FormLabel>
@@ -188,6 +224,31 @@ export default function SettingsPage() {
                   <FormMessage />
                 </FormItem>
               )} />
+              <FormField control={form.control} name="reservationExpiryHours" render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Stock Reservation Expiry (hours)</FormLabel>
+                  <FormControl>
+                    <Input type="number" {...field} onChange={(e) => field.onChange(parseInt(e.target.value) || 1)} data-testid="input-reservation-expiry" />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )} />
+              <FormField control={form.control} name="autoFulfillBackorders" render={({ field }) => (
+                <FormItem className="flex items-center justify-between gap-4">
+                  <FormLabel>Release backorders automatically after restock</FormLabel>
+                  <FormControl>
+                    <Switch checked={field.value ?? true} onCheckedChange={field.onChange} data-testid="switch-auto-fulfill-backorders" />
+                  </FormControl>
+                </FormItem>
+              )} />
+              <FormField control={form.control} name="vatRegistered" render={({ field }) => (
+                <FormItem className="flex items-center justify-between gap-4">
+                  <FormLabel>VAT-registered (charge 12% VAT on orders)</FormLabel>
+                  <FormControl>
+                    <Switch checked={field.value ?? false} onCheckedChange={field.onChange} data-testid="switch-vat-registered" />
+                  </FormControl>
+                </FormItem>
+              )} />
             </CardContent>
           </Card>
 
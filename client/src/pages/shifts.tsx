@@ -0,0 +1,331 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Loader2, Printer, Timer, LockKeyhole } from "lucide-react";
+import type { ICashierShift, IShiftCount } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useAuth } from "@/lib/auth";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog";
+import { Skeleton } from "@/components/ui/skeleton";
+
+const formatCurrency = (v: number) => new Intl.NumberFormat("en-PH", { style: "currency", currency: "PHP" }).format(v);
+const formatDateTime = (d: string) => new Date(d).toLocaleString("en-PH", { month: "short", day: "numeric", hour: "2-digit", minute: "2-digit" });
+
+function VarianceText({ value }: { value: number }) {
+  if (!value) return <span className="text-muted-foreground">{formatCurrency(0)}</span>;
+  return (
+    <span className={value < 0 ? "text-destructive font-medium" : "text-green-600 font-medium"}>
+      {value > 0 ? "+" : ""}{formatCurrency(value)} {value < 0 ? "short" : "over"}
+    </span>
+  );
+}
+
+export default function ShiftsPage() {
+  const { toast } = useToast();
+  const { isAdmin } = useAuth();
+  const [openingFloat, setOpeningFloat] = useState("");
+  const [openingNote, setOpeningNote] = useState("");
+  const [closeOpen, setCloseOpen] = useState(false);
+  const [counted, setCounted] = useState<Record<string, string>>({});
+  const [closingNote, setClosingNote] = useState("");
+  const [lastClosed, setLastClosed] = useState<ICashierShift | null>(null);
+  const [detailShift, setDetailShift] = useState<ICashierShift | null>(null);
+  const [reportDate, setReportDate] = useState(() => new Date().toLocaleDateString("en-CA"));
+
+  const { data: currentData, isLoading } = useQuery<{ success: boolean; data: { shift: ICashierShift; counts: IShiftCount[] } | null }>({
+    queryKey: ["/api/shifts/current"],
+  });
+  const current = currentData?.data;
+
+  const { data: historyData, isLoading: historyLoading } = useQuery<{ success: boolean; data: ICashierShift[] }>({
+    queryKey: ["/api/shifts"],
+    enabled: isAdmin,
+  });
+  const history = historyData?.data || [];
+
+  const openDocument = async (url: string) => {
+    const tab = window.open("", "_blank");
+    try {
+      const res = await apiRequest("GET", url);
+      const blob = await res.blob();
+      if (tab) tab.location.href = URL.createObjectURL(blob);
+    } catch (err: any) {
+      tab?.close();
+      toast({ title: "Could not generate Z-report", description: err.message, variant: "destructive" });
+    }
+  };
+
+  const openMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/shifts/open", { openingFloat: Number(openingFloat) || 0, note: openingNote });
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/shifts/current"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/shifts"] });
+      setOpeningFloat("");
+      setOpeningNote("");
+      setLastClosed(null);
+      toast({ title: "Shift opened" });
+    },
+    onError: (err: Error) => toast({ title: "Could not open shift", description: err.message, variant: "destructive" }),
+  });
+
+  const closeMutation = useMutation({
+    mutationFn: async () => {
+      const counts = (current?.counts || []).map((c) => ({ paymentMethod: c.paymentMethod, counted: Number(counted[c.paymentMethod]) || 0 }));
+      const res = await apiRequest("POST", `/api/shifts/${current!.shift._id}/close`, { counts, note: closingNote });
+      return res.json();
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/shifts/current"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/shifts"] });
+      setCloseOpen(false);
+      setCounted({});
+      setClosingNote("");
+      setLastClosed(result.data);
+      toast({ title: "Shift closed", description: result.data.variance ? `Drawer ${result.data.variance < 0 ? "short" : "over"} by ${formatCurrency(Math.abs(result.data.variance))}` : "Drawer balanced" });
+    },
+    onError: (err: Error) => toast({ title: "Could not close shift", description: err.message, variant: "destructive" }),
+  });
+
+  // Methods nothing was collected through are still listed for cash, which always holds the float.
+  const closingCounts = (current?.counts || []).filter((c) => c.paymentCount > 0 || c.paymentMethod === "Cash");
+
+  return (
+    <div className="p-3 sm:p-6 space-y-4 sm:space-y-6 overflow-auto h-full">
+      <div>
+        <h1 className="text-xl sm:text-2xl font-bold" data-testid="text-shifts-title">Cashier Shifts</h1>
+        <p className="text-sm text-muted-foreground">Payments you log are recorded against your open shift and counted when you close it</p>
+      </div>
+
+      {isLoading ? (
+        <Skeleton className="h-48 w-full" />
+      ) : current ? (
+        <Card>
+          <CardHeader className="flex flex-row items-start justify-between gap-2 space-y-0">
+            <div>
+              <CardTitle className="text-base flex items-center gap-2">
+                <Timer className="h-4 w-4" /> Shift {current.shift.shiftNumber}
+              </CardTitle>
+              <CardDescription>
+                Opened {formatDateTime(current.shift.openedAt)} with a {formatCurrency(current.shift.openingFloat)} float
+              </CardDescription>
+            </div>
+            <Button onClick={() => setCloseOpen(true)} data-testid="button-close-shift">
+              <LockKeyhole className="mr-1" /> Close Shift
+            </Button>
+          </CardHeader>
+          <CardContent className="p-0">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Payment Method</TableHead>
+                  <TableHead className="text-right">Payments</TableHead>
+                  <TableHead className="text-right">Expected</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {current.counts.map((c) => (
+                  <TableRow key={c.paymentMethod}>
+                    <TableCell>{c.paymentMethod}</TableCell>
+                    <TableCell className="text-right">{c.paymentCount}</TableCell>
+                    <TableCell className="text-right">{formatCurrency(c.expected)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      ) : (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">Open a Shift</CardTitle>
+            <CardDescription>Count the starting cash in the drawer before taking payments</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid gap-4 sm:grid-cols-2">
+              <div className="space-y-2">
+                <label className="text-sm font-medium leading-none" htmlFor="opening-float">Opening Float</label>
+                <Input id="opening-float" type="number" min="0" step="0.01" placeholder="0.00" value={openingFloat} onChange={(e) => setOpeningFloat(e.target.value)} data-testid="input-opening-float" />
+              </div>
+              <div className="space-y-2">
+                <label className="text-sm font-medium leading-none" htmlFor="opening-note">Note</label>
+                <Input id="opening-note" placeholder="Optional" value={openingNote} onChange={(e) => setOpeningNote(e.target.value)} data-testid="input-opening-note" />
+              </div>
+            </div>
+            <div className="flex items-center gap-2 flex-wrap">
+              <Button onClick={() => openMutation.mutate()} disabled={openMutation.isPending} data-testid="button-open-shift">
+                {openMutation.isPending && <Loader2 className="animate-spin mr-1" />}
+                Open Shift
+              </Button>
+              {lastClosed && (
+                <Button variant="outline" onClick={() => openDocument(`/api/shifts/${lastClosed._id}/z-report.pdf`)} data-testid="button-print-last-zreport">
+                  <Printer className="mr-1" /> Print Z-Report {lastClosed.shiftNumber}
+                </Button>
+              )}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {isAdmin && (
+        <Card>
+          <CardHeader className="flex flex-row items-start justify-between gap-2 space-y-0 flex-wrap">
+            <div>
+              <CardTitle className="text-base">Shift History</CardTitle>
+              <CardDescription>Drawer variances per shift, posted to Cash Over and Short</CardDescription>
+            </div>
+            <div className="flex items-center gap-2">
+              <Input type="date" className="w-40" value={reportDate} onChange={(e) => setReportDate(e.target.value)} data-testid="input-zreport-date" />
+              <Button variant="outline" onClick={() => openDocument(`/api/shifts/z-report.pdf?date=${reportDate}`)} disabled={!reportDate} data-testid="button-print-day-zreport">
+                <Printer className="mr-1" /> Daily Z-Report
+              </Button>
+            </div>
+          </CardHeader>
+          <CardContent className="p-0">
+            {historyLoading ? (
+              <Skeleton className="h-48 w-full" />
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Shift</TableHead>
+                    <TableHead>Cashier</TableHead>
+                    <TableHead>Opened</TableHead>
+                    <TableHead>Closed</TableHead>
+                    <TableHead className="text-right">Expected</TableHead>
+                    <TableHead className="text-right">Counted</TableHead>
+                    <TableHead className="text-right">Variance</TableHead>
+                    <TableHead />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {history.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={8} className="text-center text-muted-foreground py-8">No shifts yet</TableCell>
+                    </TableRow>
+                  ) : (
+                    history.map((s) => (
+                      <TableRow key={s._id} className="cursor-pointer hover-elevate" onClick={() => setDetailShift(s)} data-testid={`row-shift-${s._id}`}>
+                        <TableCell className="font-mono text-xs">{s.shiftNumber}</TableCell>
+                        <TableCell>{s.cashier}</TableCell>
+                        <TableCell className="text-muted-foreground">{formatDateTime(s.openedAt)}</TableCell>
+                        <TableCell className="text-muted-foreground">
+                          {s.status === "open" ? <Badge variant="outline">Open</Badge> : s.closedAt ? formatDateTime(s.closedAt) : "-"}
+                        </TableCell>
+                        <TableCell className="text-right">{s.status === "closed" ? formatCurrency(s.expectedTotal) : "-"}</TableCell>
+                        <TableCell className="text-right">{s.status === "closed" ? formatCurrency(s.countedTotal) : "-"}</TableCell>
+                        <TableCell className="text-right">{s.status === "closed" ? <VarianceText value={s.variance} /> : "-"}</TableCell>
+                        <TableCell className="text-right">
+                          {s.status === "closed" && (
+                            <Button variant="ghost" size="sm" onClick={(e) => { e.stopPropagation(); openDocument(`/api/shifts/${s._id}/z-report.pdf`); }} data-testid={`button-print-zreport-${s._id}`}>
+                              <Printer />
+                            </Button>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))
+                  )}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      <Dialog open={closeOpen} onOpenChange={setCloseOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Close Shift</DialogTitle>
+            <DialogDescription>Enter what you counted for each payment method. Differences are recorded as over or short.</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-3">
+            {closingCounts.map((c) => {
+              const entered = counted[c.paymentMethod];
+              const variance = entered === undefined || entered === "" ? null : Math.round((Number(entered) - c.expected) * 100) / 100;
+              return (
+                <div key={c.paymentMethod} className="grid grid-cols-[1fr_8rem] items-center gap-3">
+                  <div>
+                    <p className="text-sm font-medium">{c.paymentMethod}</p>
+                    <p className="text-xs text-muted-foreground">
+                      Expected {formatCurrency(c.expected)}
+                      {variance !== null && <> · <VarianceText value={variance} /></>}
+                    </p>
+                  </div>
+                  <Input
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={entered ?? ""}
+                    onChange={(e) => setCounted((prev) => ({ ...prev, [c.paymentMethod]: e.target.value }))}
+                    data-testid={`input-counted-${c.paymentMethod}`}
+                  />
+                </div>
+              );
+            })}
+            <div className="space-y-2">
+              <label className="text-sm font-medium leading-none" htmlFor="closing-note">Note</label>
+              <Input id="closing-note" placeholder="Explain any difference" value={closingNote} onChange={(e) => setClosingNote(e.target.value)} data-testid="input-closing-note" />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setCloseOpen(false)}>Cancel</Button>
+            <Button
+              onClick={() => closeMutation.mutate()}
+              disabled={closeMutation.isPending || closingCounts.some((c) => !counted[c.paymentMethod])}
+              data-testid="button-submit-close-shift"
+            >
+              {closeMutation.isPending && <Loader2 className="animate-spin mr-1" />}
+              Close Shift
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!detailShift} onOpenChange={(open) => !open && setDetailShift(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Shift {detailShift?.shiftNumber}</DialogTitle>
+            <DialogDescription>
+              {detailShift?.cashier} · float {formatCurrency(detailShift?.openingFloat || 0)}
+              {detailShift?.closedBy && detailShift.closedBy !== detailShift.cashier ? ` · closed by ${detailShift.closedBy}` : ""}
+            </DialogDescription>
+          </DialogHeader>
+          {detailShift?.status === "closed" ? (
+            <div className="space-y-3">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Method</TableHead>
+                    <TableHead className="text-right">Expected</TableHead>
+                    <TableHead className="text-right">Counted</TableHead>
+                    <TableHead className="text-right">Variance</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {detailShift.counts.filter((c) => c.paymentCount > 0 || c.counted > 0 || c.expected > 0).map((c) => (
+                    <TableRow key={c.paymentMethod}>
+                      <TableCell>{c.paymentMethod}</TableCell>
+                      <TableCell className="text-right">{formatCurrency(c.expected)}</TableCell>
+                      <TableCell className="text-right">{formatCurrency(c.counted)}</TableCell>
+                      <TableCell className="text-right"><VarianceText value={c.variance} /></TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+              {detailShift.closingNote && <p className="text-sm text-muted-foreground">Note: {detailShift.closingNote}</p>}
+            </div>
+          ) : (
+            <p className="text-sm text-muted-foreground">This shift is still open.</p>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
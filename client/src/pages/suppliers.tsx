@@ -0,0 +1,325 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Plus, Search, Loader2, Truck, Pencil, Trash2 } from "lucide-react";
+import type { ISupplier } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useAuth } from "@/lib/auth";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogContent,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogCancel,
+} from "@/components/ui/alert-dialog";
+import { Skeleton } from "@/components/ui/skeleton";
+
+interface SupplierItem {
+  _id: string;
+  itemName: string;
+  category: string;
+  supplierSku: string;
+  lastCost: number;
+  preferred: boolean;
+}
+
+const EMPTY_FORM = {
+  name: "",
+  contactPerson: "",
+  phone: "",
+  email: "",
+  address: "",
+  tin: "",
+  paymentTermsDays: "0",
+  leadTimeDays: "0",
+  notes: "",
+  isActive: true,
+};
+
+const formatCurrency = (v: number) => new Intl.NumberFormat("en-PH", { style: "currency", currency: "PHP" }).format(v);
+
+export default function SuppliersPage() {
+  const { toast } = useToast();
+  const { isAdmin } = useAuth();
+  const [search, setSearch] = useState("");
+  const [editing, setEditing] = useState<ISupplier | null>(null);
+  const [formOpen, setFormOpen] = useState(false);
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [deleting, setDeleting] = useState<ISupplier | null>(null);
+
+  const { data, isLoading } = useQuery<{ success: boolean; data: ISupplier[] }>({
+    queryKey: ["/api/suppliers"],
+    enabled: isAdmin,
+  });
+  const suppliers = (data?.data || []).filter((s) => {
+    const q = search.trim().toLowerCase();
+    return !q || s.name.toLowerCase().includes(q) || s.contactPerson.toLowerCase().includes(q) || s.tin.includes(q);
+  });
+
+  const { data: detailData, isLoading: detailLoading } = useQuery<{ success: boolean; data: { supplier: ISupplier; items: SupplierItem[] } }>({
+    queryKey: ["/api/suppliers", editing?._id],
+    enabled: !!editing,
+  });
+  const linkedItems = detailData?.data?.items || [];
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const body = {
+        ...form,
+        paymentTermsDays: Number(form.paymentTermsDays) || 0,
+        leadTimeDays: Number(form.leadTimeDays) || 0,
+      };
+      const res = editing
+        ? await apiRequest("PATCH", `/api/suppliers/${editing._id}`, body)
+        : await apiRequest("POST", "/api/suppliers", body);
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/suppliers"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/items"] });
+      toast({ title: editing ? "Supplier updated" : "Supplier added" });
+      closeForm();
+    },
+    onError: (err: Error) => toast({ title: "Failed to save supplier", description: err.message, variant: "destructive" }),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const res = await apiRequest("DELETE", `/api/suppliers/${id}`);
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/suppliers"] });
+      setDeleting(null);
+      toast({ title: "Supplier deleted" });
+    },
+    onError: (err: Error) => {
+      setDeleting(null);
+      toast({ title: "Failed to delete supplier", description: err.message, variant: "destructive" });
+    },
+  });
+
+  const openCreate = () => {
+    setEditing(null);
+    setForm(EMPTY_FORM);
+    setFormOpen(true);
+  };
+
+  const openEdit = (s: ISupplier) => {
+    setEditing(s);
+    setForm({
+      name: s.name,
+      contactPerson: s.contactPerson,
+      phone: s.phone,
+      email: s.email,
+      address: s.address,
+      tin: s.tin,
+      paymentTermsDays: String(s.paymentTermsDays),
+      leadTimeDays: String(s.leadTimeDays),
+      notes: s.notes,
+      isActive: s.isActive,
+    });
+    setFormOpen(true);
+  };
+
+  const closeForm = () => {
+    setFormOpen(false);
+    setEditing(null);
+  };
+
+  if (!isAdmin) {
+    return (
+      <div className="p-3 sm:p-6 flex items-center justify-center h-full">
+        <p className="text-muted-foreground">Access denied. Admin only.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-3 sm:p-6 space-y-4 sm:space-y-6 overflow-auto h-full">
+      <div className="flex items-center justify-between gap-2 flex-wrap">
+        <h1 className="text-xl sm:text-2xl font-bold" data-testid="text-suppliers-title">Suppliers</h1>
+        <Button onClick={openCreate} data-testid="button-add-supplier">
+          <Plus className="mr-1" /> Add Supplier
+        </Button>
+      </div>
+
+      <div className="relative max-w-sm">
+        <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+        <Input className="pl-9" placeholder="Search by name, contact or TIN" value={search} onChange={(e) => setSearch(e.target.value)} data-testid="input-search-suppliers" />
+      </div>
+
+      {isLoading ? (
+        <Skeleton className="h-64 w-full" />
+      ) : (
+        <Card>
+          <CardContent className="p-0">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Contact</TableHead>
+                  <TableHead>TIN</TableHead>
+                  <TableHead>Terms</TableHead>
+                  <TableHead>Lead Time</TableHead>
+                  <TableHead className="text-right">Items</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {suppliers.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={8} className="text-center text-muted-foreground py-8">
+                      <Truck className="h-6 w-6 mx-auto mb-2" />
+                      No suppliers found
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  suppliers.map((s) => (
+                    <TableRow key={s._id} data-testid={`row-supplier-${s._id}`}>
+                      <TableCell className="font-medium">{s.name}</TableCell>
+                      <TableCell className="text-muted-foreground">
+                        <p>{s.contactPerson || "-"}</p>
+                        <p className="text-xs">{[s.phone, s.email].filter(Boolean).join(" · ")}</p>
+                      </TableCell>
+                      <TableCell className="font-mono text-xs">{s.tin || "-"}</TableCell>
+                      <TableCell className="text-muted-foreground">{s.paymentTermsDays ? `${s.paymentTermsDays} days` : "COD"}</TableCell>
+                      <TableCell className="text-muted-foreground">{s.leadTimeDays ? `${s.leadTimeDays} days` : "-"}</TableCell>
+                      <TableCell className="text-right">{s.itemCount || 0}</TableCell>
+                      <TableCell>
+                        <Badge variant={s.isActive ? "default" : "secondary"}>{s.isActive ? "Active" : "Inactive"}</Badge>
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex gap-1">
+                          <Button variant="ghost" size="sm" onClick={() => openEdit(s)} data-testid={`button-edit-supplier-${s._id}`}>
+                            <Pencil className="h-3 w-3" />
+                          </Button>
+                          <Button variant="ghost" size="sm" onClick={() => setDeleting(s)} disabled={(s.itemCount || 0) > 0} data-testid={`button-delete-supplier-${s._id}`}>
+                            <Trash2 className="h-3 w-3" />
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+
+      <Dialog open={formOpen} onOpenChange={(open) => { if (!open) closeForm(); }}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editing ? `Edit ${editing.name}` : "Add Supplier"}</DialogTitle>
+            <DialogDescription>Names are matched ignoring case, punctuation and suffixes like "Inc.", so the same company cannot be added twice.</DialogDescription>
+          </DialogHeader>
+          <div className="grid gap-4 sm:grid-cols-2">
+            {([
+              ["name", "Name"],
+              ["contactPerson", "Contact Person"],
+              ["phone", "Phone"],
+              ["email", "Email"],
+              ["tin", "TIN"],
+              ["address", "Address"],
+            ] as const).map(([field, label]) => (
+              <div key={field} className="space-y-2">
+                <label className="text-sm font-medium leading-none" htmlFor={`supplier-${field}`}>{label}</label>
+                <Input
+                  id={`supplier-${field}`}
+                  value={form[field]}
+                  placeholder={field === "tin" ? "000-000-000-000" : undefined}
+                  onChange={(e) => setForm((prev) => ({ ...prev, [field]: e.target.value }))}
+                  data-testid={`input-supplier-${field}`}
+                />
+              </div>
+            ))}
+            <div className="space-y-2">
+              <label className="text-sm font-medium leading-none" htmlFor="supplier-terms">Payment Terms (days)</label>
+              <Input id="supplier-terms" type="number" min="0" max="365" value={form.paymentTermsDays} onChange={(e) => setForm((prev) => ({ ...prev, paymentTermsDays: e.target.value }))} data-testid="input-supplier-terms" />
+            </div>
+            <div className="space-y-2">
+              <label className="text-sm font-medium leading-none" htmlFor="supplier-lead-time">Lead Time (days)</label>
+              <Input id="supplier-lead-time" type="number" min="0" max="365" value={form.leadTimeDays} onChange={(e) => setForm((prev) => ({ ...prev, leadTimeDays: e.target.value }))} data-testid="input-supplier-lead-time" />
+            </div>
+            <div className="space-y-2 sm:col-span-2">
+              <label className="text-sm font-medium leading-none" htmlFor="supplier-notes">Notes</label>
+              <Textarea id="supplier-notes" value={form.notes} onChange={(e) => setForm((prev) => ({ ...prev, notes: e.target.value }))} data-testid="input-supplier-notes" />
+            </div>
+            <div className="flex items-center gap-2">
+              <Switch id="supplier-active" checked={form.isActive} onCheckedChange={(checked) => setForm((prev) => ({ ...prev, isActive: checked }))} data-testid="switch-supplier-active" />
+              <label className="text-sm" htmlFor="supplier-active">Active</label>
+            </div>
+          </div>
+
+          {editing && (
+            <div className="space-y-2">
+              <p className="text-sm font-medium">Items Supplied</p>
+              {detailLoading ? (
+                <Skeleton className="h-16 w-full" />
+              ) : linkedItems.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No items linked to this supplier.</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Item</TableHead>
+                      <TableHead>Supplier SKU</TableHead>
+                      <TableHead className="text-right">Last Cost</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {linkedItems.map((item) => (
+                      <TableRow key={item._id}>
+                        <TableCell>
+                          {item.itemName}
+                          {item.preferred && <Badge variant="outline" className="ml-2">Preferred</Badge>}
+                        </TableCell>
+                        <TableCell className="font-mono text-xs">{item.supplierSku || "-"}</TableCell>
+                        <TableCell className="text-right">{formatCurrency(item.lastCost)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button variant="outline" onClick={closeForm}>Cancel</Button>
+            <Button onClick={() => saveMutation.mutate()} disabled={!form.name.trim() || saveMutation.isPending} data-testid="button-save-supplier">
+              {saveMutation.isPending && <Loader2 className="animate-spin mr-1" />}
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!deleting} onOpenChange={(open) => { if (!open) setDeleting(null); }}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete {deleting?.name}?</AlertDialogTitle>
+            <AlertDialogDescription>This cannot be undone. Suppliers linked to items can only be marked inactive.</AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <Button variant="destructive" disabled={deleteMutation.isPending} onClick={() => deleting && deleteMutation.mutate(deleting._id)} data-testid="button-confirm-delete-supplier">
+              Delete
+            </Button>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -0,0 +1,129 @@
+import { useState, useEffect } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { useRoute, useLocation } from "wouter";
+import { Hammer, Search, Loader2, CheckCircle, Clock } from "lucide-react";
+import type { IPublicTracking } from "@shared/schema";
+import { orderStatusBadgeClass } from "@shared/orderLifecycle";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+
+function StatusBadge({ status }: { status: string }) {
+  return <Badge className={orderStatusBadgeClass(status)}>{status}</Badge>;
+}
+
+export default function TrackOrderPage() {
+  const [, navigate] = useLocation();
+  const [, params] = useRoute("/track/:trackingNumber?");
+  const trackingNumber = params?.trackingNumber ? decodeURIComponent(params.trackingNumber) : "";
+  const [input, setInput] = useState(trackingNumber);
+
+  useEffect(() => {
+    setInput(trackingNumber);
+  }, [trackingNumber]);
+
+  const { data, isLoading, error } = useQuery<{ success: boolean; data: IPublicTracking }>({
+    queryKey: ["/api/public/track", encodeURIComponent(trackingNumber)],
+    enabled: !!trackingNumber,
+  });
+  const tracking = data?.data;
+
+  const formatDate = (d: string) => new Date(d).toLocaleString("en-PH", { year: "numeric", month: "short", day: "numeric", hour: "2-digit", minute: "2-digit" });
+
+  const errorMessage = (() => {
+    if (!error) return "";
+    const message = (error as Error).message;
+    if (message.startsWith("429:")) return "Too many lookups. Please wait a minute and try again.";
+    if (message.startsWith("404:")) return "We couldn't find an order with that tracking number.";
+    return "Something went wrong while looking up your order.";
+  })();
+
+  const onSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const value = input.trim();
+    if (value) navigate(`/track/${encodeURIComponent(value)}`);
+  };
+
+  return (
+    <div className="min-h-screen flex items-start justify-center bg-gradient-to-br from-blue-50 via-indigo-50 to-slate-100 dark:from-slate-900 dark:via-indigo-950 dark:to-slate-900 p-4 pt-12">
+      <div className="w-full max-w-lg space-y-4">
+        <Card>
+          <CardHeader className="text-center space-y-4">
+            <div className="flex justify-center">
+              <div className="flex items-center justify-center rounded-md bg-primary p-3">
+                <Hammer className="h-8 w-8 text-primary-foreground" />
+              </div>
+            </div>
+            <div>
+              <CardTitle className="text-2xl" data-testid="text-track-title">Track Your Order</CardTitle>
+              <CardDescription className="mt-1">JOAP Hardware Trading</CardDescription>
+            </div>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={onSubmit} className="flex gap-2">
+              <Input
+                placeholder="JOAP-XXXX-XXXX"
+                value={input}
+                onChange={(e) => setInput(e.target.value)}
+                className="font-mono"
+                data-testid="input-tracking-number"
+              />
+              <Button type="submit" disabled={!input.trim()} data-testid="button-track">
+                <Search className="mr-1" /> Track
+              </Button>
+            </form>
+          </CardContent>
+        </Card>
+
+        {isLoading && (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        )}
+
+        {errorMessage && (
+          <Card>
+            <CardContent className="py-6 text-center text-sm text-muted-foreground" data-testid="text-track-error">
+              {errorMessage}
+            </CardContent>
+          </Card>
+        )}
+
+        {tracking && (
+          <Card>
+            <CardHeader>
+              <div className="flex items-center justify-between gap-2 flex-wrap">
+                <CardTitle className="text-base font-mono" data-testid="text-tracking-number">{tracking.trackingNumber}</CardTitle>
+                <StatusBadge status={tracking.currentStatus} />
+              </div>
+              <CardDescription>Ordered {formatDate(tracking.createdAt)}</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="space-y-0">
+                {tracking.statusHistory.map((entry, i) => (
+                  <div key={i} className="flex gap-3" data-testid={`track-entry-${i}`}>
+                    <div className="flex flex-col items-center">
+                      <div className="rounded-full bg-primary p-1">
+                        {i === tracking.statusHistory.length - 1 ? (
+                          <CheckCircle className="h-3 w-3 text-primary-foreground" />
+                        ) : (
+                          <Clock className="h-3 w-3 text-primary-foreground" />
+                        )}
+                      </div>
+                      {i < tracking.statusHistory.length - 1 && <div className="w-px h-full bg-border mt-1" />}
+                    </div>
+                    <div className="pb-4">
+                      <p className="text-sm font-medium">{entry.status}</p>
+                      <p className="text-xs text-muted-foreground">{formatDate(entry.timestamp)}</p>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+}
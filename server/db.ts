@@ -1,4 +1,4 @@
-import mongoose from "mongoose";
+import mongoose, { type ClientSession } from "mongoose";
 import { log } from "./index";
 
 const MONGODB_URI = process.env.MONGODB_URI || "";
@@ -11,8 +11,58 @@ export async function connectDB() {
   try {
     await mongoose.connect(MONGODB_URI, { dbName: "joap_hardware" });
     log("Connected to MongoDB", "mongoose");
+    const hello = await mongoose.connection.db!.admin().command({ hello: 1 });
+    if (!hello.setName && hello.msg !== "isdbgrid") {
+      console.warn("MongoDB is not running as a replica set; payments and releases need transactions and will fail.");
+    }
   } catch (err) {
     console.error("MongoDB connection error:", err);
     process.exit(1);
   }
 }
+
+const afterCommitCallbacks = new WeakMap<ClientSession, Array<() => void>>();
+
+// Defers work (socket events) until the surrounding transaction has committed.
+// Without a session the callback runs straight away.
+export function afterCommit(session: ClientSession | null | undefined, callback: () => void) {
+  if (!session || !session.inTransaction()) return callback();
+  const callbacks = afterCommitCallbacks.get(session) || [];
+  callbacks.push(callback);
+  afterCommitCallbacks.set(session, callbacks);
+}
+
+function hasLabel(err: any, label: string) {
+  return typeof err?.hasErrorLabel === "function" && err.hasErrorLabel(label);
+}
+
+// Runs `work` in a transaction and retries the whole unit on transient errors
+// such as write conflicts. `work` must load everything it changes through the
+// session, since a retry starts again from the database state.
+export async function runInTransaction<T>(work: (session: ClientSession) => Promise<T>, maxAttempts = 5): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    const session = await mongoose.startSession();
+    try {
+      session.startTransaction({ readConcern: { level: "snapshot" }, writeConcern: { w: "majority" } });
+      const result = await work(session);
+      for (let commitAttempt = 1; ; commitAttempt++) {
+        try {
+          await session.commitTransaction();
+          break;
+        } catch (err) {
+          if (commitAttempt < maxAttempts && hasLabel(err, "UnknownTransactionCommitResult")) continue;
+          throw err;
+        }
+      }
+      (afterCommitCallbacks.get(session) || []).forEach((callback) => callback());
+      return result;
+    } catch (err) {
+      if (session.inTransaction()) await session.abortTransaction().catch(() => undefined);
+      if (attempt < maxAttempts && hasLabel(err, "TransientTransactionError")) continue;
+      throw err;
+    } finally {
+      afterCommitCallbacks.delete(session);
+      await session.endSession();
+    }
+  }
+}
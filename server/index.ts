@@ -8,6 +8,10 @@ import { seedDatabase } from "./seed";
 const app = express();
 const httpServer = createServer(app);
 
+// The app runs behind the hosting proxy, so req.ip (used by the rate limiter)
+// must come from X-Forwarded-For rather than the proxy's own address.
+app.set("trust proxy", process.env.TRUST_PROXY ? parseInt(process.env.TRUST_PROXY, 10) : 1);
+
 declare module "http" {
   interface IncomingMessage {
     rawBody: unknown;
@@ -0,0 +1,71 @@
+import { Response, NextFunction } from "express";
+import crypto from "crypto";
+import fs from "fs";
+import IdempotencyKey from "../models/IdempotencyKey";
+import { AuthRequest } from "./auth";
+
+// Key order must not change the hash, so objects are serialised with sorted keys.
+function stableStringify(value: any): string {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(",")}]`;
+  if (value && typeof value === "object") {
+    return `{${Object.keys(value).sort().map((k) => `${JSON.stringify(k)}:${stableStringify(value[k])}`).join(",")}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
+
+// Answers the request without reaching the handler. Multipart routes run multer
+// first, so a file it already saved would otherwise be left behind.
+function answer(req: AuthRequest, res: Response, status: number, body: any) {
+  if (req.file && fs.existsSync(req.file.path)) fs.unlinkSync(req.file.path);
+  return res.status(status).json(body);
+}
+
+// Honours an optional Idempotency-Key header. The first response for a key is
+// stored and replayed to retries with the same body; reusing a key for a
+// different request is rejected. Server errors are not stored so the client
+// can retry them. Must run after authMiddleware.
+export async function idempotent(req: AuthRequest, res: Response, next: NextFunction) {
+  const key = req.header("Idempotency-Key");
+  if (!key) return next();
+  if (key.length > 255) {
+    return answer(req, res, 400, { success: false, error: "Idempotency-Key must be at most 255 characters" });
+  }
+
+  try {
+    const userId = req.user!._id;
+    const route = `${req.method} ${req.path}`;
+    const requestHash = crypto.createHash("sha256").update(`${route}\n${stableStringify(req.body)}`).digest("hex");
+
+    let record;
+    try {
+      record = await IdempotencyKey.create({ key, userId, route, requestHash });
+    } catch (err: any) {
+      if (err.code !== 11000) throw err;
+      const existing = await IdempotencyKey.findOne({ userId, key });
+      if (!existing) return answer(req, res, 409, { success: false, error: "Idempotency-Key conflict, please retry" });
+      if (existing.requestHash !== requestHash) {
+        return answer(req, res, 422, { success: false, error: "Idempotency-Key was already used for a different request" });
+      }
+      if (existing.status === "pending") {
+        return answer(req, res, 409, { success: false, error: "A request with this Idempotency-Key is still being processed" });
+      }
+      res.setHeader("Idempotent-Replayed", "true");
+      return answer(req, res, existing.statusCode || 200, existing.responseBody);
+    }
+
+    const json = res.json.bind(res);
+    res.json = (body: any) => {
+      const settle = res.statusCode >= 500
+        ? IdempotencyKey.deleteOne({ _id: record._id })
+        : IdempotencyKey.updateOne({ _id: record._id }, { status: "completed", statusCode: res.statusCode, responseBody: JSON.parse(JSON.stringify(body)) });
+      // Send only once stored, so an immediate retry replays instead of hitting "pending".
+      settle
+        .catch((err: any) => console.error("[idempotency] Failed to store response:", err))
+        .then(() => json(body));
+      return res;
+    };
+    next();
+  } catch (err: any) {
+    return answer(req, res, 500, { success: false, error: err.message });
+  }
+}
@@ -0,0 +1,35 @@
+import { Request, Response, NextFunction } from "express";
+
+interface Window {
+  count: number;
+  resetAt: number;
+}
+
+// Fixed-window, per-IP limiter kept in memory. Good enough for a single
+// server instance guarding unauthenticated endpoints.
+export function rateLimit(options: { windowMs: number; max: number }) {
+  const hits = new Map<string, Window>();
+
+  return function (req: Request, res: Response, next: NextFunction) {
+    const now = Date.now();
+    const key = req.ip || req.socket.remoteAddress || "unknown";
+    let window = hits.get(key);
+
+    if (!window || window.resetAt <= now) {
+      if (hits.size > 10000) {
+        hits.forEach((w, k) => {
+          if (w.resetAt <= now) hits.delete(k);
+        });
+      }
+      window = { count: 0, resetAt: now + options.windowMs };
+      hits.set(key, window);
+    }
+
+    window.count++;
+    if (window.count > options.max) {
+      res.setHeader("Retry-After", Math.ceil((window.resetAt - now) / 1000).toString());
+      return res.status(429).json({ success: false, error: "Too many requests, please try again later" });
+    }
+    next();
+  };
+}
@@ -2,30 +2,84 @@ import mongoose, { Schema, Document } from "mongoose";
 
 export interface IBillingPaymentDoc extends Document {
   orderId: mongoose.Types.ObjectId;
-  paymentMethod: string;
-  gcashNumber: string;
-  gcashReferenceNumber: string;
+  paymentMethod: "Cash" | "GCash" | "Maya" | "Bank Transfer" | "Cheque" | "Card" | "Store Credit";
+  accountNumber: string;
+  referenceNumber: string;
+  bankName: string;
+  chequeNumber: string;
+  chequeDate?: Date;
+  cardLast4: string;
+  approvalCode: string;
   amountPaid: number;
   paymentDate: Date;
   proofNote: string;
   loggedBy: string;
+  balanceAfter: number;
+  receiptNumber?: string;
+  creditedAmount: number;
+  voided: boolean;
+  voidReason?: string;
+  voidedBy?: string;
+  voidedAt?: Date;
+  shiftId?: mongoose.Types.ObjectId;
+  proofFilename: string;
+  verificationStatus: "none" | "pending" | "verified" | "flagged";
+  verificationNote?: string;
+  verifiedBy?: string;
+  verifiedAt?: Date;
   createdAt: Date;
 }
 
 const billingPaymentSchema = new Schema<IBillingPaymentDoc>(
   {
     orderId: { type: Schema.Types.ObjectId, ref: "Order", required: true },
-    paymentMethod: { type: String, default: "GCash" },
-    gcashNumber: { type: String, required: true },
-    gcashReferenceNumber: { type: String, required: true, unique: true },
+    paymentMethod: { type: String, enum: ["Cash", "GCash", "Maya", "Bank Transfer", "Cheque", "Card", "Store Credit"], default: "GCash" },
+    // Wallet mobile number (GCash, Maya).
+    accountNumber: { type: String, default: "" },
+    // Wallet or bank transfer reference.
+    referenceNumber: { type: String, default: "" },
+    bankName: { type: String, default: "" },
+    chequeNumber: { type: String, default: "" },
+    chequeDate: { type: Date },
+    cardLast4: { type: String, default: "" },
+    approvalCode: { type: String, default: "" },
     amountPaid: { type: Number, required: true, min: 0 },
     paymentDate: { type: Date, default: Date.now },
     proofNote: { type: String, default: "" },
     loggedBy: { type: String, required: true },
+    balanceAfter: { type: Number, default: 0 },
+    receiptNumber: { type: String },
+    // Part of amountPaid above the balance due, moved to the customer's credit wallet.
+    creditedAmount: { type: Number, default: 0 },
+    // Voided payments are kept so their reference stays reserved.
+    voided: { type: Boolean, default: false },
+    voidReason: { type: String },
+    voidedBy: { type: String },
+    voidedAt: { type: Date },
+    // Cashier shift that was open when the payment was logged.
+    shiftId: { type: Schema.Types.ObjectId, ref: "CashierShift" },
+    // Screenshot or PDF of the transfer, in the uploads directory.
+    proofFilename: { type: String, default: "" },
+    // Payments with proof wait for an admin; a flagged payment holds the order's release.
+    verificationStatus: { type: String, enum: ["none", "pending", "verified", "flagged"], default: "none" },
+    verificationNote: { type: String },
+    verifiedBy: { type: String },
+    verifiedAt: { type: Date },
   },
   { timestamps: true }
 );
 
 billingPaymentSchema.index({ orderId: 1 });
+billingPaymentSchema.index({ shiftId: 1 });
+billingPaymentSchema.index({ verificationStatus: 1 });
+// A wallet or bank reference can only be used once per method; cash and card payments have none.
+billingPaymentSchema.index(
+  { paymentMethod: 1, referenceNumber: 1 },
+  { unique: true, partialFilterExpression: { referenceNumber: { $gt: "" } } }
+);
+billingPaymentSchema.index(
+  { bankName: 1, chequeNumber: 1 },
+  { unique: true, partialFilterExpression: { chequeNumber: { $gt: "" } } }
+);
 
 export default mongoose.model<IBillingPaymentDoc>("BillingPayment", billingPaymentSchema);
@@ -0,0 +1,67 @@
+import mongoose, { Schema, Document } from "mongoose";
+
+export interface IShiftCountSub {
+  paymentMethod: string;
+  paymentCount: number;
+  expected: number;
+  counted: number;
+  variance: number;
+}
+
+export interface ICashierShiftDoc extends Document {
+  shiftNumber: string;
+  cashier: string;
+  openingFloat: number;
+  openingNote: string;
+  openedAt: Date;
+  lastPaymentAt?: Date;
+  status: "open" | "closed";
+  counts: IShiftCountSub[];
+  expectedTotal: number;
+  countedTotal: number;
+  variance: number;
+  closingNote: string;
+  closedBy?: string;
+  closedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const shiftCountSchema = new Schema<IShiftCountSub>(
+  {
+    paymentMethod: { type: String, required: true },
+    paymentCount: { type: Number, default: 0 },
+    // Cash includes the opening float.
+    expected: { type: Number, default: 0 },
+    counted: { type: Number, default: 0 },
+    // Counted minus expected: positive is over, negative is short.
+    variance: { type: Number, default: 0 },
+  },
+  { _id: false }
+);
+
+const cashierShiftSchema = new Schema<ICashierShiftDoc>(
+  {
+    shiftNumber: { type: String, required: true, unique: true },
+    cashier: { type: String, required: true },
+    openingFloat: { type: Number, default: 0, min: 0 },
+    openingNote: { type: String, default: "" },
+    openedAt: { type: Date, default: Date.now },
+    lastPaymentAt: { type: Date },
+    status: { type: String, enum: ["open", "closed"], default: "open" },
+    counts: [shiftCountSchema],
+    expectedTotal: { type: Number, default: 0 },
+    countedTotal: { type: Number, default: 0 },
+    variance: { type: Number, default: 0 },
+    closingNote: { type: String, default: "" },
+    closedBy: { type: String },
+    closedAt: { type: Date },
+  },
+  { timestamps: true }
+);
+
+cashierShiftSchema.index({ openedAt: -1 });
+// A cashier works one drawer at a time.
+cashierShiftSchema.index({ cashier: 1 }, { unique: true, partialFilterExpression: { status: "open" } });
+
+export default mongoose.model<ICashierShiftDoc>("CashierShift", cashierShiftSchema);
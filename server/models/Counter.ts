@@ -0,0 +1,13 @@
+import mongoose, { Schema, Document } from "mongoose";
+
+export interface ICounterDoc extends Document {
+  name: string;
+  seq: number;
+}
+
+const counterSchema = new Schema<ICounterDoc>({
+  name: { type: String, required: true, unique: true },
+  seq: { type: Number, default: 0 },
+});
+
+export default mongoose.model<ICounterDoc>("Counter", counterSchema);
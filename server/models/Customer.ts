@@ -5,6 +5,10 @@ export interface ICustomerDoc extends Document {
   email: string;
   phone: string;
   address: string;
+  vatTreatment: "exclusive" | "inclusive" | "exempt";
+  creditBalance: number;
+  paymentTermsDays: number;
+  creditLimit: number;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -15,6 +19,13 @@ const customerSchema = new Schema<ICustomerDoc>(
     email: { type: String, default: "" },
     phone: { type: String, default: "" },
     address: { type: String, default: "" },
+    vatTreatment: { type: String, enum: ["exclusive", "inclusive", "exempt"], default: "exclusive" },
+    // Store credit from overpayments; every change is recorded in CustomerCreditEntry.
+    creditBalance: { type: Number, default: 0, min: 0 },
+    // Days to pay after release for orders sold on account; 0 means pay before release.
+    paymentTermsDays: { type: Number, default: 0, min: 0 },
+    // Most the customer may owe on account at once.
+    creditLimit: { type: Number, default: 0, min: 0 },
   },
   { timestamps: true }
 );
@@ -0,0 +1,34 @@
+import mongoose, { Schema, Document } from "mongoose";
+
+export interface ICustomerCreditEntryDoc extends Document {
+  customerId: mongoose.Types.ObjectId;
+  type: "overpayment" | "applied" | "void" | "cancellation";
+  amount: number;
+  balanceAfter: number;
+  orderId?: mongoose.Types.ObjectId;
+  trackingNumber?: string;
+  paymentId?: mongoose.Types.ObjectId;
+  note: string;
+  actor: string;
+  createdAt: Date;
+}
+
+const customerCreditEntrySchema = new Schema<ICustomerCreditEntryDoc>(
+  {
+    customerId: { type: Schema.Types.ObjectId, ref: "Customer", required: true },
+    type: { type: String, enum: ["overpayment", "applied", "void", "cancellation"], required: true },
+    // Positive adds credit, negative uses it.
+    amount: { type: Number, required: true },
+    balanceAfter: { type: Number, required: true },
+    orderId: { type: Schema.Types.ObjectId, ref: "Order" },
+    trackingNumber: { type: String },
+    paymentId: { type: Schema.Types.ObjectId, ref: "BillingPayment" },
+    note: { type: String, default: "" },
+    actor: { type: String, required: true },
+  },
+  { timestamps: true }
+);
+
+customerCreditEntrySchema.index({ customerId: 1, createdAt: -1 });
+
+export default mongoose.model<ICustomerCreditEntryDoc>("CustomerCreditEntry", customerCreditEntrySchema);
@@ -9,6 +9,7 @@ export interface IGeneralLedgerEntryDoc extends Document {
   referenceType: string;
   referenceId: string;
   isReversing: boolean;
+  reversed: boolean;
   actor: string;
   createdAt: Date;
 }
@@ -23,6 +24,8 @@ const generalLedgerEntrySchema = new Schema<IGeneralLedgerEntryDoc>(
     referenceType: { type: String, default: "" },
     referenceId: { type: String, default: "" },
     isReversing: { type: Boolean, default: false },
+    // Set on an original entry once its reversal is posted, so it is never reversed twice.
+    reversed: { type: Boolean, default: false },
     actor: { type: String, default: "" },
   },
   { timestamps: true }
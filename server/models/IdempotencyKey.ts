@@ -0,0 +1,33 @@
+import mongoose, { Schema, Document } from "mongoose";
+
+export interface IIdempotencyKeyDoc extends Document {
+  key: string;
+  userId: string;
+  route: string;
+  requestHash: string;
+  status: "pending" | "completed";
+  statusCode?: number;
+  responseBody?: any;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const idempotencyKeySchema = new Schema<IIdempotencyKeyDoc>(
+  {
+    key: { type: String, required: true },
+    userId: { type: String, required: true },
+    // "METHOD /path" the key was first used on.
+    route: { type: String, required: true },
+    requestHash: { type: String, required: true },
+    status: { type: String, enum: ["pending", "completed"], default: "pending" },
+    statusCode: { type: Number },
+    responseBody: { type: Schema.Types.Mixed },
+  },
+  { timestamps: true }
+);
+
+idempotencyKeySchema.index({ userId: 1, key: 1 }, { unique: true });
+// Keys only need to outlive a client's retries.
+idempotencyKeySchema.index({ createdAt: 1 }, { expireAfterSeconds: 24 * 60 * 60 });
+
+export default mongoose.model<IIdempotencyKeyDoc>("IdempotencyKey", idempotencyKeySchema);
@@ -5,6 +5,7 @@ export interface IInventoryBatch extends Document {
   quantity: number;
   remainingQuantity: number;
   unitCost: number;
+  costEstimated: boolean;
   source: string;
   createdAt: Date;
   updatedAt: Date;
@@ -16,6 +17,8 @@ const inventoryBatchSchema = new Schema(
     quantity: { type: Number, required: true, min: 0 },
     remainingQuantity: { type: Number, required: true, min: 0 },
     unitCost: { type: Number, required: true, min: 0 },
+    // No real cost was known when the batch was stocked; an admin enters it from the cost review.
+    costEstimated: { type: Boolean, default: false },
     source: { type: String, default: "restock" },
   },
   { timestamps: true }
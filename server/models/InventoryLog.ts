@@ -3,7 +3,7 @@ import mongoose, { Schema, Document } from "mongoose";
 export interface IInventoryLogDoc extends Document {
   itemId: mongoose.Types.ObjectId;
   itemName: string;
-  type: "restock" | "deduction" | "adjustment";
+  type: "restock" | "deduction" | "adjustment" | "return";
   quantity: number;
   reason: string;
   actor: string;
@@ -14,7 +14,7 @@ const inventoryLogSchema = new Schema<IInventoryLogDoc>(
   {
     itemId: { type: Schema.Types.ObjectId, ref: "Item", required: true },
     itemName: { type: String, required: true },
-    type: { type: String, enum: ["restock", "deduction", "adjustment"], required: true },
+    type: { type: String, enum: ["restock", "deduction", "adjustment", "return"], required: true },
     quantity: { type: Number, required: true },
     reason: { type: String, default: "" },
     actor: { type: String, required: true },
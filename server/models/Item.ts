@@ -1,11 +1,20 @@
 import mongoose, { Schema, Document } from "mongoose";
 
+export interface IItemSupplierSub {
+  supplierId: mongoose.Types.ObjectId;
+  supplierSku: string;
+  lastCost: number;
+}
+
 export interface IItemDoc extends Document {
   itemName: string;
   category: string;
   supplierName: string;
+  suppliers: IItemSupplierSub[];
   unitPrice: number;
+  costPrice: number;
   currentQuantity: number;
+  reservedQuantity: number;
   reorderLevel: number;
   barcode: string;
   imageFilename: string;
@@ -16,13 +25,29 @@ export interface IItemDoc extends Document {
   updatedAt: Date;
 }
 
+const itemSupplierSchema = new Schema<IItemSupplierSub>(
+  {
+    supplierId: { type: Schema.Types.ObjectId, ref: "Supplier", required: true },
+    // The supplier's own code for the item, used on purchase orders.
+    supplierSku: { type: String, default: "" },
+    lastCost: { type: Number, default: 0, min: 0 },
+  },
+  { _id: false }
+);
+
 const itemSchema = new Schema<IItemDoc>(
   {
     itemName: { type: String, required: true, trim: true },
     category: { type: String, required: true, trim: true },
+    // Free text from before supplier records; moved into suppliers at startup and then cleared.
     supplierName: { type: String, default: "" },
+    // First entry is the preferred supplier.
+    suppliers: { type: [itemSupplierSchema], default: [] },
     unitPrice: { type: Number, required: true, min: 0 },
+    // What one unit costs us, used for new stock batches; the latest restock cost wins.
+    costPrice: { type: Number, default: 0, min: 0 },
     currentQuantity: { type: Number, required: true, default: 0 },
+    reservedQuantity: { type: Number, default: 0, min: 0 },
     reorderLevel: { type: Number, default: 10 },
     barcode: { type: String, default: "" },
     imageFilename: { type: String, default: "" },
@@ -35,5 +60,6 @@ const itemSchema = new Schema<IItemDoc>(
 
 itemSchema.index({ itemName: "text", category: "text" });
 itemSchema.index({ category: 1 });
+itemSchema.index({ "suppliers.supplierId": 1 });
 
 export default mongoose.model<IItemDoc>("Item", itemSchema);
@@ -5,7 +5,20 @@ export interface IOrderItemSub {
   itemName: string;
   quantity: number;
   unitPrice: number;
+  discountType?: string;
+  discountValue: number;
+  discountAmount: number;
   lineTotal: number;
+  reservedQuantity: number;
+  releasedQuantity: number;
+  returnedQuantity: number;
+}
+
+export interface IReleasedBatchSub {
+  itemId: mongoose.Types.ObjectId;
+  batchId: mongoose.Types.ObjectId;
+  quantity: number;
+  unitCost: number;
 }
 
 export interface IStatusEntrySub {
@@ -23,17 +36,57 @@ export interface IAddressSub {
   zipCode: string;
 }
 
+export interface IAmendmentSub {
+  timestamp: Date;
+  actor: string;
+  reason: string;
+  changes: Array<{ field: string; before: any; after: any }>;
+}
+
+export interface IDeliverySub {
+  driverName: string;
+  vehicle: string;
+  dispatchedAt: Date;
+  dispatchedBy: string;
+  receiverName?: string;
+  deliveredAt?: Date;
+  proofFilename?: string;
+  confirmedBy?: string;
+}
+
 export interface IOrderDoc extends Document {
   trackingNumber: string;
   customerId: mongoose.Types.ObjectId;
   customerName: string;
   items: IOrderItemSub[];
+  subtotal: number;
+  discountType?: string;
+  discountValue: number;
+  discountAmount: number;
+  vatTreatment: string;
+  vatableSales: number;
+  vatAmount: number;
   totalAmount: number;
   sourceChannel: string;
   notes: string;
   currentStatus: string;
   statusHistory: IStatusEntrySub[];
   address?: IAddressSub;
+  releasedBatches: IReleasedBatchSub[];
+  amountPaid: number;
+  balanceDue: number;
+  // Returns taken off the unpaid balance of an order on account.
+  returnCredit: number;
+  delivery?: IDeliverySub;
+  amendments: IAmendmentSub[];
+  quotationId?: mongoose.Types.ObjectId;
+  quoteNumber?: string;
+  invoiceNumber?: string;
+  onAccount: boolean;
+  paymentTermsDays: number;
+  chargedAt?: Date;
+  dueDate?: Date;
+  creditOverride?: { by: string; reason: string; at: Date };
   createdAt: Date;
   updatedAt: Date;
 }
@@ -44,7 +97,40 @@ const orderItemSchema = new Schema<IOrderItemSub>(
     itemName: { type: String, required: true },
     quantity: { type: Number, required: true, min: 1 },
     unitPrice: { type: Number, required: true, min: 0 },
+    discountType: { type: String, enum: ["percent", "fixed"] },
+    discountValue: { type: Number, default: 0, min: 0 },
+    discountAmount: { type: Number, default: 0, min: 0 },
     lineTotal: { type: Number, required: true },
+    reservedQuantity: { type: Number, default: 0, min: 0 },
+    releasedQuantity: { type: Number, default: 0, min: 0 },
+    returnedQuantity: { type: Number, default: 0, min: 0 },
+  },
+  { _id: false }
+);
+
+const releasedBatchSchema = new Schema<IReleasedBatchSub>(
+  {
+    itemId: { type: Schema.Types.ObjectId, ref: "Item", required: true },
+    batchId: { type: Schema.Types.ObjectId, ref: "InventoryBatch", required: true },
+    quantity: { type: Number, required: true, min: 0 },
+    unitCost: { type: Number, required: true, min: 0 },
+  },
+  { _id: false }
+);
+
+const amendmentSchema = new Schema<IAmendmentSub>(
+  {
+    timestamp: { type: Date, default: Date.now },
+    actor: { type: String, required: true },
+    reason: { type: String, default: "" },
+    changes: [
+      {
+        _id: false,
+        field: { type: String, required: true },
+        before: { type: Schema.Types.Mixed },
+        after: { type: Schema.Types.Mixed },
+      },
+    ],
   },
   { _id: false }
 );
@@ -65,6 +151,13 @@ const orderSchema = new Schema<IOrderDoc>(
     customerId: { type: Schema.Types.ObjectId, ref: "Customer" },
     customerName: { type: String, required: true },
     items: [orderItemSchema],
+    subtotal: { type: Number },
+    discountType: { type: String, enum: ["percent", "fixed"] },
+    discountValue: { type: Number, default: 0, min: 0 },
+    discountAmount: { type: Number, default: 0, min: 0 },
+    vatTreatment: { type: String, enum: ["exclusive", "inclusive", "exempt"], default: "exclusive" },
+    vatableSales: { type: Number, default: 0 },
+    vatAmount: { type: Number, default: 0 },
     totalAmount: { type: Number, required: true },
     sourceChannel: { type: String, default: "walk-in" },
     notes: { type: String, default: "" },
@@ -81,11 +174,50 @@ const orderSchema = new Schema<IOrderDoc>(
       required: false,
       default: undefined,
     },
+    releasedBatches: [releasedBatchSchema],
+    amountPaid: { type: Number, default: 0 },
+    balanceDue: { type: Number, default: 0 },
+    returnCredit: { type: Number, default: 0 },
+    delivery: {
+      type: {
+        driverName: { type: String, required: true },
+        vehicle: { type: String, required: true },
+        dispatchedAt: { type: Date, required: true },
+        dispatchedBy: { type: String, required: true },
+        receiverName: { type: String },
+        deliveredAt: { type: Date },
+        proofFilename: { type: String },
+        confirmedBy: { type: String },
+      },
+      required: false,
+      default: undefined,
+    },
+    amendments: [amendmentSchema],
+    quotationId: { type: Schema.Types.ObjectId, ref: "Quotation" },
+    quoteNumber: { type: String },
+    invoiceNumber: { type: String },
+    // Sold on the customer's credit terms: released before payment.
+    onAccount: { type: Boolean, default: false },
+    paymentTermsDays: { type: Number, default: 0 },
+    // When the receivable was booked (first release) and when it falls due.
+    chargedAt: { type: Date },
+    dueDate: { type: Date },
+    // Admin approval for exceeding the customer's credit limit.
+    creditOverride: {
+      type: {
+        by: { type: String, required: true },
+        reason: { type: String, required: true },
+        at: { type: Date, default: Date.now },
+      },
+      required: false,
+      default: undefined,
+    },
   },
   { timestamps: true }
 );
 
 orderSchema.index({ currentStatus: 1 });
+orderSchema.index({ customerId: 1, onAccount: 1 });
 orderSchema.index({ createdAt: -1 });
 
 export default mongoose.model<IOrderDoc>("Order", orderSchema);
@@ -0,0 +1,73 @@
+import mongoose, { Schema, Document } from "mongoose";
+
+export interface IReturnLineSub {
+  itemId: mongoose.Types.ObjectId;
+  itemName: string;
+  quantity: number;
+  unitPrice: number;
+  unitCost: number;
+  condition: string;
+  restocked: boolean;
+}
+
+export interface IOrderReturnDoc extends Document {
+  rmaNumber: string;
+  orderId: mongoose.Types.ObjectId;
+  trackingNumber: string;
+  customerId?: mongoose.Types.ObjectId;
+  customerName: string;
+  lines: IReturnLineSub[];
+  reason: string;
+  resolution: "refund" | "credit_note";
+  amount: number;
+  vatAmount: number;
+  // Part of the amount taken off the order's unpaid balance rather than refunded.
+  receivableCredited: number;
+  costRestocked: number;
+  refundMethod: string;
+  refundReference: string;
+  creditNoteNumber: string;
+  processedBy: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const returnLineSchema = new Schema<IReturnLineSub>(
+  {
+    itemId: { type: Schema.Types.ObjectId, ref: "Item", required: true },
+    itemName: { type: String, required: true },
+    quantity: { type: Number, required: true, min: 1 },
+    unitPrice: { type: Number, required: true, min: 0 },
+    unitCost: { type: Number, required: true, min: 0 },
+    condition: { type: String, enum: ["resaleable", "damaged", "defective"], required: true },
+    restocked: { type: Boolean, default: false },
+  },
+  { _id: false }
+);
+
+const orderReturnSchema = new Schema<IOrderReturnDoc>(
+  {
+    rmaNumber: { type: String, required: true, unique: true },
+    orderId: { type: Schema.Types.ObjectId, ref: "Order", required: true },
+    trackingNumber: { type: String, required: true },
+    customerId: { type: Schema.Types.ObjectId, ref: "Customer" },
+    customerName: { type: String, required: true },
+    lines: [returnLineSchema],
+    reason: { type: String, required: true },
+    resolution: { type: String, enum: ["refund", "credit_note"], required: true },
+    amount: { type: Number, required: true, min: 0 },
+    vatAmount: { type: Number, default: 0 },
+    receivableCredited: { type: Number, default: 0 },
+    costRestocked: { type: Number, default: 0 },
+    refundMethod: { type: String, default: "" },
+    refundReference: { type: String, default: "" },
+    creditNoteNumber: { type: String, default: "" },
+    processedBy: { type: String, required: true },
+  },
+  { timestamps: true }
+);
+
+orderReturnSchema.index({ orderId: 1 });
+orderReturnSchema.index({ createdAt: -1 });
+
+export default mongoose.model<IOrderReturnDoc>("OrderReturn", orderReturnSchema);
@@ -0,0 +1,34 @@
+import mongoose, { Schema, Document } from "mongoose";
+
+export interface IPaymentVoidRequestDoc extends Document {
+  paymentId: mongoose.Types.ObjectId;
+  orderId: mongoose.Types.ObjectId;
+  reason: string;
+  requestedBy: string;
+  status: "pending" | "approved" | "rejected";
+  reviewedBy?: string;
+  reviewNote?: string;
+  reviewedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const paymentVoidRequestSchema = new Schema<IPaymentVoidRequestDoc>(
+  {
+    paymentId: { type: Schema.Types.ObjectId, ref: "BillingPayment", required: true },
+    orderId: { type: Schema.Types.ObjectId, ref: "Order", required: true },
+    reason: { type: String, required: true },
+    requestedBy: { type: String, required: true },
+    status: { type: String, enum: ["pending", "approved", "rejected"], default: "pending" },
+    reviewedBy: { type: String },
+    reviewNote: { type: String, default: "" },
+    reviewedAt: { type: Date },
+  },
+  { timestamps: true }
+);
+
+paymentVoidRequestSchema.index({ status: 1 });
+// At most one open request per payment.
+paymentVoidRequestSchema.index({ paymentId: 1 }, { unique: true, partialFilterExpression: { status: "pending" } });
+
+export default mongoose.model<IPaymentVoidRequestDoc>("PaymentVoidRequest", paymentVoidRequestSchema);
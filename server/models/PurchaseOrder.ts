@@ -0,0 +1,99 @@
+import mongoose, { Schema, Document } from "mongoose";
+
+export interface IPurchaseOrderLineSub {
+  itemId: mongoose.Types.ObjectId;
+  itemName: string;
+  supplierSku: string;
+  quantity: number;
+  receivedQuantity: number;
+  unitCost: number;
+}
+
+export interface IPurchaseReceiptLineSub {
+  itemId: mongoose.Types.ObjectId;
+  itemName: string;
+  quantity: number;
+  unitCost: number;
+}
+
+export interface IPurchaseReceiptSub {
+  // Supplier's delivery receipt or invoice number.
+  reference: string;
+  lines: IPurchaseReceiptLineSub[];
+  amount: number;
+  receivedBy: string;
+  receivedAt: Date;
+}
+
+export interface IPurchaseOrderDoc extends Document {
+  poNumber: string;
+  supplierId: mongoose.Types.ObjectId;
+  supplierName: string;
+  items: IPurchaseOrderLineSub[];
+  totalAmount: number;
+  receivedAmount: number;
+  status: "draft" | "sent" | "partially_received" | "received";
+  expectedDate?: Date;
+  notes: string;
+  receipts: IPurchaseReceiptSub[];
+  createdBy: string;
+  sentAt?: Date;
+  receivedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const purchaseOrderLineSchema = new Schema<IPurchaseOrderLineSub>(
+  {
+    itemId: { type: Schema.Types.ObjectId, ref: "Item", required: true },
+    itemName: { type: String, required: true },
+    supplierSku: { type: String, default: "" },
+    quantity: { type: Number, required: true, min: 1 },
+    receivedQuantity: { type: Number, default: 0, min: 0 },
+    // Agreed cost per unit; receipts record what was actually charged.
+    unitCost: { type: Number, required: true, min: 0 },
+  },
+  { _id: false }
+);
+
+const purchaseReceiptLineSchema = new Schema<IPurchaseReceiptLineSub>(
+  {
+    itemId: { type: Schema.Types.ObjectId, ref: "Item", required: true },
+    itemName: { type: String, required: true },
+    quantity: { type: Number, required: true, min: 1 },
+    unitCost: { type: Number, required: true, min: 0 },
+  },
+  { _id: false }
+);
+
+const purchaseReceiptSchema = new Schema<IPurchaseReceiptSub>({
+  reference: { type: String, default: "" },
+  lines: [purchaseReceiptLineSchema],
+  amount: { type: Number, required: true },
+  receivedBy: { type: String, required: true },
+  receivedAt: { type: Date, required: true },
+});
+
+const purchaseOrderSchema = new Schema<IPurchaseOrderDoc>(
+  {
+    poNumber: { type: String, required: true, unique: true },
+    supplierId: { type: Schema.Types.ObjectId, ref: "Supplier", required: true },
+    supplierName: { type: String, required: true },
+    items: [purchaseOrderLineSchema],
+    totalAmount: { type: Number, required: true },
+    receivedAmount: { type: Number, default: 0 },
+    status: { type: String, enum: ["draft", "sent", "partially_received", "received"], default: "draft" },
+    expectedDate: { type: Date },
+    notes: { type: String, default: "" },
+    receipts: [purchaseReceiptSchema],
+    createdBy: { type: String, required: true },
+    sentAt: { type: Date },
+    receivedAt: { type: Date },
+  },
+  { timestamps: true }
+);
+
+purchaseOrderSchema.index({ status: 1, createdAt: -1 });
+purchaseOrderSchema.index({ supplierId: 1 });
+
+export default mongoose.model<IPurchaseOrderDoc>("PurchaseOrder", purchaseOrderSchema);
@@ -0,0 +1,99 @@
+import mongoose, { Schema, Document } from "mongoose";
+import type { IAddressSub } from "./Order";
+
+export interface IQuotationItemSub {
+  itemId: mongoose.Types.ObjectId;
+  itemName: string;
+  quantity: number;
+  unitPrice: number;
+  discountType?: string;
+  discountValue: number;
+  discountAmount: number;
+  lineTotal: number;
+}
+
+export interface IQuotationDoc extends Document {
+  quoteNumber: string;
+  customerId?: mongoose.Types.ObjectId;
+  customerName: string;
+  items: IQuotationItemSub[];
+  subtotal: number;
+  discountType?: string;
+  discountValue: number;
+  discountAmount: number;
+  vatTreatment: string;
+  vatableSales: number;
+  vatAmount: number;
+  totalAmount: number;
+  sourceChannel: string;
+  notes: string;
+  address?: IAddressSub;
+  validUntil: Date;
+  status: "draft" | "sent" | "accepted" | "expired";
+  orderId?: mongoose.Types.ObjectId;
+  trackingNumber?: string;
+  createdBy: string;
+  sentAt?: Date;
+  acceptedAt?: Date;
+  acceptedBy?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const quotationItemSchema = new Schema<IQuotationItemSub>(
+  {
+    itemId: { type: Schema.Types.ObjectId, ref: "Item", required: true },
+    itemName: { type: String, required: true },
+    quantity: { type: Number, required: true, min: 1 },
+    unitPrice: { type: Number, required: true, min: 0 },
+    discountType: { type: String, enum: ["percent", "fixed"] },
+    discountValue: { type: Number, default: 0, min: 0 },
+    discountAmount: { type: Number, default: 0, min: 0 },
+    lineTotal: { type: Number, required: true },
+  },
+  { _id: false }
+);
+
+const quotationSchema = new Schema<IQuotationDoc>(
+  {
+    quoteNumber: { type: String, required: true, unique: true },
+    customerId: { type: Schema.Types.ObjectId, ref: "Customer" },
+    customerName: { type: String, required: true },
+    items: [quotationItemSchema],
+    subtotal: { type: Number, required: true },
+    discountType: { type: String, enum: ["percent", "fixed"] },
+    discountValue: { type: Number, default: 0, min: 0 },
+    discountAmount: { type: Number, default: 0, min: 0 },
+    vatTreatment: { type: String, enum: ["exclusive", "inclusive", "exempt"], default: "exclusive" },
+    vatableSales: { type: Number, default: 0 },
+    vatAmount: { type: Number, default: 0 },
+    totalAmount: { type: Number, required: true },
+    sourceChannel: { type: String, default: "walk-in" },
+    notes: { type: String, default: "" },
+    address: {
+      type: {
+        street: { type: String, default: "" },
+        unitNumber: { type: String, default: "" },
+        city: { type: String, default: "" },
+        province: { type: String, default: "" },
+        zipCode: { type: String, default: "" },
+      },
+      required: false,
+      default: undefined,
+    },
+    validUntil: { type: Date, required: true },
+    status: { type: String, enum: ["draft", "sent", "accepted", "expired"], default: "draft" },
+    orderId: { type: Schema.Types.ObjectId, ref: "Order" },
+    trackingNumber: { type: String },
+    createdBy: { type: String, required: true },
+    sentAt: { type: Date },
+    acceptedAt: { type: Date },
+    acceptedBy: { type: String },
+  },
+  { timestamps: true }
+);
+
+quotationSchema.index({ status: 1, validUntil: 1 });
+quotationSchema.index({ createdAt: -1 });
+
+export default mongoose.model<IQuotationDoc>("Quotation", quotationSchema);
@@ -0,0 +1,80 @@
+import mongoose, { Schema, Document } from "mongoose";
+
+export interface IReconciliationLineSub {
+  _id: mongoose.Types.ObjectId;
+  kind: "matched" | "statement_only" | "system_only" | "mismatch";
+  issues: string[];
+  statementRow?: number;
+  statementDate?: Date;
+  statementReference?: string;
+  statementAmount?: number;
+  statementDescription?: string;
+  paymentId?: mongoose.Types.ObjectId;
+  orderId?: mongoose.Types.ObjectId;
+  paymentReference?: string;
+  paymentAmount?: number;
+  paymentDate?: Date;
+  resolution: "" | "linked" | "explained";
+  resolutionNote: string;
+  resolvedBy?: string;
+  resolvedAt?: Date;
+}
+
+export interface IReconciliationDoc extends Document {
+  source: string;
+  fileName: string;
+  periodStart: Date;
+  periodEnd: Date;
+  statementTotal: number;
+  systemTotal: number;
+  skippedRows: number;
+  lines: IReconciliationLineSub[];
+  status: "open" | "completed";
+  importedBy: string;
+  completedBy?: string;
+  completedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const reconciliationLineSchema = new Schema<IReconciliationLineSub>({
+  kind: { type: String, enum: ["matched", "statement_only", "system_only", "mismatch"], required: true },
+  issues: { type: [String], default: [] },
+  statementRow: { type: Number },
+  statementDate: { type: Date },
+  statementReference: { type: String },
+  statementAmount: { type: Number },
+  statementDescription: { type: String },
+  paymentId: { type: Schema.Types.ObjectId, ref: "BillingPayment" },
+  orderId: { type: Schema.Types.ObjectId, ref: "Order" },
+  paymentReference: { type: String },
+  paymentAmount: { type: Number },
+  paymentDate: { type: Date },
+  resolution: { type: String, enum: ["", "linked", "explained"], default: "" },
+  resolutionNote: { type: String, default: "" },
+  resolvedBy: { type: String },
+  resolvedAt: { type: Date },
+});
+
+const reconciliationSchema = new Schema<IReconciliationDoc>(
+  {
+    // Payment method the statement covers (GCash, Maya, Bank Transfer).
+    source: { type: String, required: true },
+    fileName: { type: String, default: "" },
+    periodStart: { type: Date, required: true },
+    periodEnd: { type: Date, required: true },
+    statementTotal: { type: Number, default: 0 },
+    systemTotal: { type: Number, default: 0 },
+    skippedRows: { type: Number, default: 0 },
+    lines: [reconciliationLineSchema],
+    status: { type: String, enum: ["open", "completed"], default: "open" },
+    importedBy: { type: String, required: true },
+    completedBy: { type: String },
+    completedAt: { type: Date },
+  },
+  { timestamps: true }
+);
+
+reconciliationSchema.index({ source: 1, periodStart: -1 });
+
+export default mongoose.model<IReconciliationDoc>("Reconciliation", reconciliationSchema);
@@ -0,0 +1,44 @@
+import mongoose, { Schema, Document } from "mongoose";
+
+export interface ISalesDocumentDoc extends Document {
+  type: "invoice" | "receipt";
+  number: number;
+  documentNumber: string;
+  sourceKey: string;
+  orderId: mongoose.Types.ObjectId;
+  paymentId?: mongoose.Types.ObjectId;
+  trackingNumber: string;
+  customerName: string;
+  amount: number;
+  issuedBy: string;
+  printCount: number;
+  lastPrintedAt: Date;
+  lastPrintedBy: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const salesDocumentSchema = new Schema<ISalesDocumentDoc>(
+  {
+    type: { type: String, enum: ["invoice", "receipt"], required: true },
+    number: { type: Number, required: true },
+    documentNumber: { type: String, required: true },
+    // One document per source: "invoice:<orderId>" or "receipt:<paymentId>".
+    sourceKey: { type: String, required: true, unique: true },
+    orderId: { type: Schema.Types.ObjectId, ref: "Order", required: true },
+    paymentId: { type: Schema.Types.ObjectId, ref: "BillingPayment" },
+    trackingNumber: { type: String, required: true },
+    customerName: { type: String, required: true },
+    amount: { type: Number, required: true },
+    issuedBy: { type: String, required: true },
+    printCount: { type: Number, default: 1 },
+    lastPrintedAt: { type: Date, default: Date.now },
+    lastPrintedBy: { type: String, required: true },
+  },
+  { timestamps: true }
+);
+
+salesDocumentSchema.index({ type: 1, number: 1 }, { unique: true });
+salesDocumentSchema.index({ orderId: 1 });
+
+export default mongoose.model<ISalesDocumentDoc>("SalesDocument", salesDocumentSchema);
@@ -2,9 +2,15 @@ import mongoose, { Schema, Document } from "mongoose";
 
 export interface ISettingsDoc extends Document {
   companyName: string;
+  companyAddress: string;
+  companyTin: string;
+  companyContact: string;
   theme: string;
   reorderThreshold: number;
   lowStockThreshold: number;
+  reservationExpiryHours: number;
+  autoFulfillBackorders: boolean;
+  vatRegistered: boolean;
   font: string;
   colorTheme: string;
   gradient: string;
@@ -18,9 +24,15 @@ export interface ISettingsDoc extends Document {
 const settingsSchema = new Schema<ISettingsDoc>(
   {
     companyName: { type: String, default: "JOAP Hardware Trading" },
+    companyAddress: { type: String, default: "" },
+    companyTin: { type: String, default: "" },
+    companyContact: { type: String, default: "" },
     theme: { type: String, default: "light" },
     reorderThreshold: { type: Number, default: 10 },
     lowStockThreshold: { type: Number, default: 20 },
+    reservationExpiryHours: { type: Number, default: 72 },
+    autoFulfillBackorders: { type: Boolean, default: true },
+    vatRegistered: { type: Boolean, default: false },
     font: { type: String, default: "Inter" },
     colorTheme: { type: String, default: "blue" },
     gradient: { type: String, default: "none" },
@@ -0,0 +1,42 @@
+import mongoose, { Schema, Document } from "mongoose";
+
+export interface ISupplierDoc extends Document {
+  name: string;
+  nameKey: string;
+  contactPerson: string;
+  phone: string;
+  email: string;
+  address: string;
+  tin: string;
+  paymentTermsDays: number;
+  leadTimeDays: number;
+  notes: string;
+  isActive: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const supplierSchema = new Schema<ISupplierDoc>(
+  {
+    name: { type: String, required: true, trim: true },
+    // Normalised name (see supplierNameKey) so differently typed spellings cannot become two suppliers.
+    nameKey: { type: String, required: true },
+    contactPerson: { type: String, default: "" },
+    phone: { type: String, default: "" },
+    email: { type: String, default: "" },
+    address: { type: String, default: "" },
+    tin: { type: String, default: "" },
+    // Days we have to pay the supplier's invoices.
+    paymentTermsDays: { type: Number, default: 0, min: 0 },
+    // Usual days from ordering to delivery.
+    leadTimeDays: { type: Number, default: 0, min: 0 },
+    notes: { type: String, default: "" },
+    // Inactive suppliers stay linked to their items but are not offered for new ones.
+    isActive: { type: Boolean, default: true },
+  },
+  { timestamps: true }
+);
+
+supplierSchema.index({ nameKey: 1 }, { unique: true });
+
+export default mongoose.model<ISupplierDoc>("Supplier", supplierSchema);
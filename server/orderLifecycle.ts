@@ -0,0 +1,99 @@
+import type { Response } from "express";
+import type { OrderStatusType } from "@shared/schema";
+import { allowedNextStatuses, canPerformOn, transitionError, type OrderAction } from "@shared/orderLifecycle";
+import type { IOrderDoc } from "./models/Order";
+import { afterCommit } from "./db";
+
+export interface TransitionContext {
+  actor: string;
+  note: string;
+  // Route-specific input for hooks, e.g. the payment being posted.
+  data?: Record<string, any>;
+}
+
+export type TransitionCheck =
+  | { ok: true }
+  | { ok: false; status: 409; error: string; allowedNextStates: OrderStatusType[] };
+
+// A flow that runs inside a transaction reports failures as values, since
+// responding from inside a unit that may be retried is not safe.
+export type Rejection = { ok: false; status: number; error: string; allowedNextStates?: OrderStatusType[] };
+
+export function reject(status: number, error: string): Rejection {
+  return { ok: false, status, error };
+}
+
+// `apply` runs before the order is saved (ledger, inventory) and may still
+// change the order; `notify` runs once it is saved (socket events).
+export interface OrderStatusHook {
+  apply?: (order: IOrderDoc, ctx: TransitionContext, result: Record<string, any>) => Promise<void> | void;
+  notify?: (order: IOrderDoc, ctx: TransitionContext, result: Record<string, any>) => void;
+}
+
+const hooks: Array<{ statuses: string[]; hook: OrderStatusHook }> = [];
+const pending = new WeakMap<IOrderDoc, Array<{ status: OrderStatusType; ctx: TransitionContext }>>();
+
+// Registers side effects for entering the given statuses ("*" for every status).
+export function onOrderStatus(statuses: OrderStatusType | OrderStatusType[] | "*", hook: OrderStatusHook) {
+  hooks.push({ statuses: Array.isArray(statuses) ? statuses : [statuses], hook });
+}
+
+function hooksFor(status: OrderStatusType) {
+  return hooks.filter((h) => h.statuses.includes("*") || h.statuses.includes(status)).map((h) => h.hook);
+}
+
+function rejected(order: IOrderDoc, error: string): TransitionCheck {
+  return { ok: false, status: 409, error, allowedNextStates: allowedNextStatuses(order.currentStatus) };
+}
+
+export function checkOrderAction(order: IOrderDoc, action: OrderAction): TransitionCheck {
+  if (canPerformOn(order, action)) return { ok: true };
+  return rejected(order, `Cannot ${action} an order that is ${order.currentStatus}`);
+}
+
+// Moves the order to `to` in memory and records the history entry. Hooks run
+// when the order is committed.
+export function transitionOrder(order: IOrderDoc, to: OrderStatusType, ctx: TransitionContext): TransitionCheck {
+  const error = transitionError(order, to);
+  if (error) return rejected(order, error);
+
+  order.currentStatus = to;
+  order.statusHistory.push({ status: to, timestamp: new Date(), actor: ctx.actor, note: ctx.note });
+  const queued = pending.get(order) || [];
+  queued.push({ status: to, ctx });
+  pending.set(order, queued);
+  return { ok: true };
+}
+
+// Adds a history entry without changing status (amendments, returns, expiries).
+export function annotateOrder(order: IOrderDoc, actor: string, note: string) {
+  order.statusHistory.push({ status: order.currentStatus, timestamp: new Date(), actor, note });
+}
+
+// Saves the order with the side effects of every transition made since the last
+// commit. Apply hooks share the order's session; notifications wait for the
+// transaction to commit.
+export async function commitOrder(order: IOrderDoc) {
+  const queued = pending.get(order) || [];
+  pending.delete(order);
+  const result: Record<string, any> = {};
+
+  for (const { status, ctx } of queued) {
+    for (const hook of hooksFor(status)) {
+      if (hook.apply) await hook.apply(order, ctx, result);
+    }
+  }
+  await order.save();
+  afterCommit(order.$session(), () => {
+    for (const { status, ctx } of queued) {
+      for (const hook of hooksFor(status)) {
+        if (hook.notify) hook.notify(order, ctx, result);
+      }
+    }
+  });
+  return result;
+}
+
+export function failTransition(res: Response, check: Rejection) {
+  return res.status(check.status).json({ success: false, error: check.error, allowedNextStates: check.allowedNextStates });
+}
@@ -0,0 +1,209 @@
+// Parses GCash / bank statement CSV exports and matches their incoming
+// transactions against logged payments.
+
+export interface StatementRow {
+  row: number;
+  date: Date;
+  reference: string;
+  amount: number;
+  description: string;
+}
+
+export interface ParsedStatement {
+  rows: StatementRow[];
+  skippedRows: number;
+}
+
+export interface PaymentRecord {
+  _id: any;
+  orderId: any;
+  referenceNumber?: string;
+  amountPaid: number;
+  paymentDate: Date;
+}
+
+export type ReconciliationKind = "matched" | "statement_only" | "system_only" | "mismatch";
+
+export interface ReconciliationLine {
+  kind: ReconciliationKind;
+  // What differs on a mismatch: "amount", "date" or "reference".
+  issues: string[];
+  statementRow?: number;
+  statementDate?: Date;
+  statementReference?: string;
+  statementAmount?: number;
+  statementDescription?: string;
+  paymentId?: any;
+  orderId?: any;
+  paymentReference?: string;
+  paymentAmount?: number;
+  paymentDate?: Date;
+}
+
+// Statements post a day or two after a payment is logged.
+const DATE_TOLERANCE_DAYS = 3;
+const DAY_MS = 86400000;
+
+function splitCsvLine(line: string): string[] {
+  const cells: string[] = [];
+  let cell = "";
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (quoted) {
+      if (ch === '"' && line[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        cell += ch;
+      }
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === ",") {
+      cells.push(cell.trim());
+      cell = "";
+    } else {
+      cell += ch;
+    }
+  }
+  cells.push(cell.trim());
+  return cells;
+}
+
+function parseAmount(value: string | undefined) {
+  if (!value) return 0;
+  const cleaned = value.replace(/[^0-9.\-()]/g, "");
+  const negative = cleaned.startsWith("(") || cleaned.startsWith("-");
+  const amount = parseFloat(cleaned.replace(/[()\-]/g, ""));
+  if (isNaN(amount)) return 0;
+  return negative ? -amount : amount;
+}
+
+export function normalizeReference(value: string | undefined) {
+  return (value || "").replace(/\s+/g, "").toUpperCase();
+}
+
+function findColumn(headers: string[], pattern: RegExp) {
+  return headers.findIndex((h) => pattern.test(h));
+}
+
+// Exports put account details above the table, so the header is the first
+// line that names both a date and a reference column. Only money received
+// (credit, or a positive signed amount) is kept.
+export function parseStatementCsv(text: string): ParsedStatement {
+  const lines = text.replace(/^\uFEFF/, "").split(/\r?\n/);
+  const headerIndex = lines.findIndex((line) => {
+    const cells = splitCsvLine(line).map((c) => c.toLowerCase());
+    return cells.some((c) => c.includes("date")) && cells.some((c) => c.includes("ref"));
+  });
+  if (headerIndex === -1) throw new Error("Could not find a header row with date and reference columns");
+
+  const headers = splitCsvLine(lines[headerIndex]).map((h) => h.toLowerCase());
+  const dateCol = findColumn(headers, /date/);
+  const refCol = findColumn(headers, /ref/);
+  const descCol = findColumn(headers, /desc|details|particulars|remarks|narration/);
+  const creditCol = findColumn(headers, /credit|deposit|money in|cash in|received/);
+  const amountCol = findColumn(headers, /^amount/);
+  if (creditCol === -1 && amountCol === -1) throw new Error("Could not find a credit or amount column");
+
+  const rows: StatementRow[] = [];
+  let skippedRows = 0;
+  for (let i = headerIndex + 1; i < lines.length; i++) {
+    if (!lines[i].trim()) continue;
+    const cells = splitCsvLine(lines[i]);
+    const amount = parseAmount(creditCol !== -1 ? cells[creditCol] : cells[amountCol]);
+    if (amount <= 0) continue;
+    const date = new Date(cells[dateCol]);
+    if (isNaN(date.getTime())) {
+      skippedRows++;
+      continue;
+    }
+    rows.push({
+      row: i + 1,
+      date,
+      reference: cells[refCol] || "",
+      amount: Math.round(amount * 100) / 100,
+      description: descCol !== -1 ? cells[descCol] || "" : "",
+    });
+  }
+  return { rows, skippedRows };
+}
+
+// Statement period in whole days, used to decide which payments the statement should contain.
+export function statementPeriod(rows: StatementRow[]) {
+  const times = rows.map((r) => r.date.getTime());
+  const start = new Date(Math.min(...times));
+  start.setHours(0, 0, 0, 0);
+  const end = new Date(Math.max(...times));
+  end.setHours(23, 59, 59, 999);
+  return { start, end };
+}
+
+function paymentFields(p: PaymentRecord) {
+  return {
+    paymentId: p._id,
+    orderId: p.orderId,
+    paymentReference: p.referenceNumber || "",
+    paymentAmount: p.amountPaid,
+    paymentDate: p.paymentDate,
+  };
+}
+
+function statementFields(r: StatementRow) {
+  return {
+    statementRow: r.row,
+    statementDate: r.date,
+    statementReference: r.reference,
+    statementAmount: r.amount,
+    statementDescription: r.description,
+  };
+}
+
+// Rows match a payment by reference first. Rows whose reference is unknown
+// are then paired with the only unused payment of the same amount around that
+// date, flagged as a reference mismatch. `inPeriod` payments left over are
+// missing from the statement.
+export function matchStatement(rows: StatementRow[], payments: PaymentRecord[], inPeriod: (p: PaymentRecord) => boolean): ReconciliationLine[] {
+  const used = new Set<string>();
+  const byReference = new Map<string, PaymentRecord>();
+  payments.forEach((p) => {
+    const ref = normalizeReference(p.referenceNumber);
+    if (ref) byReference.set(ref, p);
+  });
+
+  const paired = rows.map((r) => {
+    const payment = byReference.get(normalizeReference(r.reference));
+    if (!payment || used.has(String(payment._id))) return undefined;
+    used.add(String(payment._id));
+    return payment;
+  });
+  rows.forEach((r, i) => {
+    if (paired[i]) return;
+    const candidates = payments.filter((p) =>
+      !used.has(String(p._id)) &&
+      Math.abs(p.amountPaid - r.amount) < 0.005 &&
+      Math.abs(new Date(p.paymentDate).getTime() - r.date.getTime()) <= DAY_MS
+    );
+    if (candidates.length !== 1) return;
+    paired[i] = candidates[0];
+    used.add(String(candidates[0]._id));
+  });
+
+  const lines: ReconciliationLine[] = rows.map((r, i) => {
+    const payment = paired[i];
+    if (!payment) return { kind: "statement_only", issues: [], ...statementFields(r) };
+    const issues: string[] = [];
+    if (normalizeReference(payment.referenceNumber) !== normalizeReference(r.reference)) issues.push("reference");
+    if (Math.abs(payment.amountPaid - r.amount) >= 0.005) issues.push("amount");
+    if (Math.abs(new Date(payment.paymentDate).getTime() - r.date.getTime()) > DATE_TOLERANCE_DAYS * DAY_MS) issues.push("date");
+    return { kind: issues.length > 0 ? "mismatch" : "matched", issues, ...statementFields(r), ...paymentFields(payment) };
+  });
+
+  payments
+    .filter((p) => !used.has(String(p._id)) && inPeriod(p))
+    .forEach((p) => lines.push({ kind: "system_only", issues: [], ...paymentFields(p) }));
+
+  return lines;
+}
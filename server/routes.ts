@@ -8,13 +8,14 @@ import multer from "multer";
 import path from "path";
 import fs from "fs";
 import cron from "node-cron";
+import type { ClientSession, Model, Types } from "mongoose";
 
 import { authMiddleware, adminOnly, generateToken, AuthRequest } from "./middleware/auth";
 import User from "./models/User";
 import UserSession from "./models/UserSession";
 import Item from "./models/Item";
 import Customer from "./models/Customer";
-import Order from "./models/Order";
+import Order, { type IAddressSub, type IOrderDoc } from "./models/Order";
 import BillingPayment from "./models/BillingPayment";
 import InventoryLog from "./models/InventoryLog";
 import AccountingAccount from "./models/AccountingAccount";
@@ -23,22 +24,77 @@ import SystemLog from "./models/SystemLog";
 import Settings from "./models/Settings";
 import BackupHistory from "./models/BackupHistory";
 import ImageApproval from "./models/ImageApproval";
+import Supplier from "./models/Supplier";
+import PurchaseOrder from "./models/PurchaseOrder";
 
 import {
   loginSchema,
   createUserSchema,
   createItemSchema,
   createCustomerSchema,
+  updateCustomerTermsSchema,
   createOrderSchema,
+  amendOrderSchema,
   logPaymentSchema,
+  requestPaymentVoidSchema,
+  reviewPaymentVoidSchema,
+  reviewPaymentVerificationSchema,
+  billingQuerySchema,
+  supplierSchema,
+  itemSuppliersSchema,
+  inventoryCostReviewSchema,
+  purchaseOrderSchema,
+  receivePurchaseOrderSchema,
+  openShiftSchema,
+  closeShiftSchema,
+  cancelOrderSchema,
+  releaseOrderSchema,
+  createReturnSchema,
+  dispatchOrderSchema,
+  confirmDeliverySchema,
   inventoryLogSchema,
   settingsSchema,
   ledgerEntrySchema,
+  createQuotationSchema,
+  acceptQuotationSchema,
+  importReconciliationSchema,
+  resolveReconciliationLineSchema,
+  PaymentMethod,
+  PAYMENT_METHODS,
+  REFUND_METHODS,
+  PAYMENT_METHOD_FIELDS,
+  paymentReference,
+  type CreateOrderInput,
+  type LogPaymentInput,
+  type PaymentMethodType,
+  type IPublicTracking,
+  type OrderStatusType,
+  type ArAgingBucket,
+  type IArAgingCustomer,
+  type BillingQuery,
+  type PurchaseOrderInput,
 } from "@shared/schema";
+import { computeOrderTotals, type VatTreatment } from "@shared/pricing";
+import { ADDRESS_FIELDS, hasDeliveryAddress, canPerform } from "@shared/orderLifecycle";
 import InventoryBatch from "./models/InventoryBatch";
+import OrderReturn from "./models/OrderReturn";
+import Quotation from "./models/Quotation";
+import Counter from "./models/Counter";
+import SalesDocument, { type ISalesDocumentDoc } from "./models/SalesDocument";
+import { renderInvoicePdf, renderReceiptPdf, renderZReportPdf, renderPurchaseOrderPdf } from "./salesDocuments";
+import Reconciliation, { type IReconciliationLineSub } from "./models/Reconciliation";
+import PaymentVoidRequest from "./models/PaymentVoidRequest";
+import CustomerCreditEntry, { type ICustomerCreditEntryDoc } from "./models/CustomerCreditEntry";
+import CashierShift, { type ICashierShiftDoc } from "./models/CashierShift";
+import { parseStatementCsv, statementPeriod, matchStatement, normalizeReference } from "./reconciliation";
+import { groupSupplierNames, sameSupplierKey, supplierNameKey, tidySupplierName } from "./suppliers";
 import { globalTrie } from "./trie";
 import { itemIndex, orderIndex, customerIndex, trackingIndex, barcodeIndex } from "./hashIndex";
 import { arimaForecast } from "./forecast";
+import { runInTransaction, afterCommit } from "./db";
+import { rateLimit } from "./middleware/rateLimit";
+import { idempotent } from "./middleware/idempotency";
+import { onOrderStatus, checkOrderAction, transitionOrder, annotateOrder, commitOrder, failTransition, reject, type TransitionContext } from "./orderLifecycle";
 
 let io: SocketIOServer;
 
@@ -58,6 +114,10 @@ function fail(res: Response, status: number, error: string, fieldErrors?: Record
   return res.status(status).json({ success: false, error, fieldErrors });
 }
 
+function pickAddress(address: any) {
+  return Object.fromEntries(ADDRESS_FIELDS.map((f) => [f, address[f] || ""])) as IAddressSub;
+}
+
 function indexItem(item: any) {
   const id = item._id.toString();
   const entry = { type: "item", id, label: item.itemName, sublabel: item.category || "" };
@@ -83,6 +143,242 @@ function indexOrder(order: any) {
   trackingIndex.set(order.trackingNumber, entry);
 }
 
+function indexQuotation(quote: any) {
+  const id = quote._id.toString();
+  const entry = { type: "quotation", id, label: quote.quoteNumber, sublabel: quote.customerName || "" };
+  globalTrie.insert(quote.quoteNumber, entry);
+  if (quote.customerName) globalTrie.insert(quote.customerName, entry);
+}
+
+function reindexQuotation(quote: any) {
+  globalTrie.remove(quote._id.toString(), "quotation");
+  indexQuotation(quote);
+}
+
+// Atomically hands out the next number in a named series (quotes, invoices, ...).
+async function nextSequence(name: string) {
+  const counter = await Counter.findOneAndUpdate({ name }, { $inc: { seq: 1 } }, { new: true, upsert: true });
+  return counter.seq;
+}
+
+// Invoice/OR numbers must be gap-free, so a number only exists once its document
+// is stored: take the highest issued number + 1 and retry if another request won
+// the race. A document printed again is a reprint of the same number.
+async function issueSalesDocument(
+  type: "invoice" | "receipt",
+  sourceKey: string,
+  fields: { orderId: any; paymentId?: any; trackingNumber: string; customerName: string; amount: number },
+  actor: string
+): Promise<{ document: ISalesDocumentDoc; reprint: boolean }> {
+  const existing = await SalesDocument.findOneAndUpdate(
+    { sourceKey },
+    { $inc: { printCount: 1 }, $set: { lastPrintedAt: new Date(), lastPrintedBy: actor } },
+    { new: true }
+  );
+  if (existing) return { document: existing, reprint: true };
+
+  const prefix = type === "invoice" ? "SI" : "OR";
+  for (let attempt = 0; attempt < 5; attempt++) {
+    const last = await SalesDocument.findOne({ type }).sort({ number: -1 }).select("number");
+    const number = (last?.number || 0) + 1;
+    try {
+      const document = await SalesDocument.create({
+        type,
+        number,
+        documentNumber: `${prefix}-${String(number).padStart(6, "0")}`,
+        sourceKey,
+        ...fields,
+        issuedBy: actor,
+        lastPrintedBy: actor,
+      });
+      return { document, reprint: false };
+    } catch (err: any) {
+      if (err.code !== 11000) throw err;
+      if (err.keyPattern?.sourceKey) return issueSalesDocument(type, sourceKey, fields, actor);
+    }
+  }
+  throw new Error("Could not allocate a document number, please try again");
+}
+
+function companyProfile(settings: any) {
+  return {
+    companyName: settings?.companyName || "JOAP Hardware Trading",
+    companyAddress: settings?.companyAddress,
+    companyTin: settings?.companyTin,
+    companyContact: settings?.companyContact,
+    vatRegistered: !!settings?.vatRegistered,
+  };
+}
+
+function sendPdf(res: Response, filename: string, pdf: Buffer) {
+  res.setHeader("Content-Type", "application/pdf");
+  res.setHeader("Content-Disposition", `inline; filename="${filename}"`);
+  return res.send(pdf);
+}
+
+function reindexOrder(order: any) {
+  globalTrie.remove(order._id.toString(), "order");
+  indexOrder(order);
+}
+
+function diffOrderItems(
+  before: Array<{ itemId: any; itemName: string; quantity: number; unitPrice: number; discountType?: string; discountValue?: number }>,
+  after: typeof before
+) {
+  const changes: Array<{ field: string; before: any; after: any }> = [];
+  const beforeMap = new Map(before.map((i) => [i.itemId.toString(), i]));
+  const afterMap = new Map(after.map((i) => [i.itemId.toString(), i]));
+  for (const b of before) {
+    const a = afterMap.get(b.itemId.toString());
+    if (!a) {
+      changes.push({ field: `items.${b.itemName}`, before: { quantity: b.quantity, unitPrice: b.unitPrice }, after: null });
+      continue;
+    }
+    if (a.quantity !== b.quantity) changes.push({ field: `items.${b.itemName}.quantity`, before: b.quantity, after: a.quantity });
+    if (a.unitPrice !== b.unitPrice) changes.push({ field: `items.${b.itemName}.unitPrice`, before: b.unitPrice, after: a.unitPrice });
+    if ((a.discountValue || 0) !== (b.discountValue || 0) || (a.discountValue && a.discountType !== b.discountType)) {
+      changes.push({
+        field: `items.${b.itemName}.discount`,
+        before: b.discountValue ? { type: b.discountType, value: b.discountValue } : null,
+        after: a.discountValue ? { type: a.discountType, value: a.discountValue } : null,
+      });
+    }
+  }
+  for (const a of after) {
+    if (!beforeMap.has(a.itemId.toString())) {
+      changes.push({ field: `items.${a.itemName}`, before: null, after: { quantity: a.quantity, unitPrice: a.unitPrice } });
+    }
+  }
+  return changes;
+}
+
+async function resolveVatTreatment(customerId: string | undefined, requested: VatTreatment | undefined): Promise<VatTreatment> {
+  if (requested) return requested;
+  if (customerId) {
+    const customer = await Customer.findById(customerId).lean();
+    if (customer?.vatTreatment) return customer.vatTreatment;
+  }
+  return "exclusive";
+}
+
+async function priceOrder(
+  items: Array<{ quantity: number; unitPrice: number; discountType?: "percent" | "fixed"; discountValue?: number }>,
+  discount: { type: "percent" | "fixed"; value: number } | undefined,
+  vatTreatment: VatTreatment
+) {
+  const settings = await Settings.findOne().lean();
+  return computeOrderTotals(items, discount, vatTreatment, !!settings?.vatRegistered);
+}
+
+// Orders with a balance on Accounts Receivable: partly paid, or charged to account on release.
+const OPEN_RECEIVABLES = {
+  balanceDue: { $gt: 0 },
+  currentStatus: { $ne: "Cancelled" },
+  $or: [{ currentStatus: "Partially Paid" }, { chargedAt: { $exists: true } }],
+};
+
+// What a customer owes on credit-terms orders, which counts against their limit.
+async function customerExposure(customerId: any) {
+  const [row] = await Order.aggregate([
+    { $match: { customerId, onAccount: true, currentStatus: { $ne: "Cancelled" }, balanceDue: { $gt: 0 } } },
+    { $group: { _id: null, total: { $sum: "$balanceDue" } } },
+  ]);
+  return Math.round((row?.total || 0) * 100) / 100;
+}
+
+// An order on account needs a customer with payment terms, and must fit within
+// their credit limit unless an admin overrides it with a reason.
+async function creditTermsFor(input: CreateOrderInput, totalAmount: number, actor: string, isAdmin: boolean) {
+  const customer = input.customerId
+    ? await Customer.findById(input.customerId)
+    : await Customer.findOne({ name: input.customerName.trim() }).collation({ locale: "en", strength: 2 });
+  if (!customer || !customer.paymentTermsDays) {
+    return { ok: false as const, status: 400, error: `${input.customerName} has no credit terms` };
+  }
+  const exposure = await customerExposure(customer._id);
+  const overBy = Math.round((exposure + totalAmount - customer.creditLimit) * 100) / 100;
+  if (overBy > 0) {
+    const reason = `Order would put ${customer.name} ${overBy} over their credit limit of ${customer.creditLimit} (currently owes ${exposure})`;
+    if (!isAdmin) return { ok: false as const, status: 403, error: `${reason}. An admin must approve it.` };
+    if (!input.creditOverrideReason) return { ok: false as const, status: 403, error: `${reason}. Give a reason to override.` };
+  }
+  return {
+    ok: true as const,
+    customer,
+    creditOverride: overBy > 0 ? { by: actor, reason: input.creditOverrideReason, at: new Date() } : undefined,
+  };
+}
+
+// Shared by POST /api/orders and quotation acceptance so both paths reserve
+// stock, price and record orders identically.
+async function createOrder(input: CreateOrderInput, actor: string, quotation?: { quotationId: any; quoteNumber: string }, isAdmin = false) {
+  const vatTreatment = await resolveVatTreatment(input.customerId, input.vatTreatment);
+  const totals = await priceOrder(input.items, input.discount, vatTreatment);
+
+  const terms = input.onAccount ? await creditTermsFor(input, totals.totalAmount, actor, isAdmin) : null;
+  if (terms && !terms.ok) return terms;
+
+  const reservation = await reserveStock(input.items, input.acknowledgeShortage);
+  if (!reservation.ok) {
+    return { ok: false as const, status: 409, error: `Insufficient available stock: ${reservation.shortages.join("; ")}` };
+  }
+
+  const items = input.items.map((i, idx) => ({
+    ...i,
+    discountAmount: totals.lines[idx].discountAmount,
+    lineTotal: totals.lines[idx].lineTotal,
+    reservedQuantity: reservation.reserved[idx],
+  }));
+  const totalAmount = totals.totalAmount;
+  const trackingNumber = `JOAP-${Date.now().toString(36).toUpperCase()}-${Math.random().toString(36).slice(2, 6).toUpperCase()}`;
+
+  const addressData = input.address;
+  const hasAddress = hasDeliveryAddress(addressData);
+
+  let createdNote = quotation ? `Order created from quotation ${quotation.quoteNumber}` : "Order created";
+  if (terms) createdNote += ` on ${terms.customer.paymentTermsDays}-day terms`;
+  if (terms?.creditOverride) createdNote += `, credit limit overridden: ${terms.creditOverride.reason}`;
+  if (reservation.shortages.length > 0) createdNote += ` with short stock (${reservation.shortages.join("; ")})`;
+
+  let order;
+  try {
+    order = await Order.create({
+      trackingNumber,
+      ...(input.customerId ? { customerId: input.customerId } : {}),
+      ...(terms ? { customerId: terms.customer._id, onAccount: true, paymentTermsDays: terms.customer.paymentTermsDays, creditOverride: terms.creditOverride } : {}),
+      customerName: input.customerName,
+      items,
+      subtotal: totals.subtotal,
+      discountType: input.discount?.type,
+      discountValue: input.discount?.value ?? 0,
+      discountAmount: totals.discountAmount,
+      vatTreatment,
+      vatableSales: totals.vatableSales,
+      vatAmount: totals.vatAmount,
+      totalAmount,
+      sourceChannel: input.sourceChannel,
+      notes: input.notes,
+      currentStatus: "Pending Payment",
+      statusHistory: [{ status: "Pending Payment", timestamp: new Date(), actor, note: createdNote }],
+      amountPaid: 0,
+      balanceDue: totalAmount,
+      ...(hasAddress ? { address: addressData } : {}),
+      ...(quotation || {}),
+    });
+  } catch (err) {
+    await releaseStock(items);
+    throw err;
+  }
+
+  indexOrder(order);
+  await logAction("ORDER_CREATED", actor, order.trackingNumber, { totalAmount, shortages: reservation.shortages, quoteNumber: quotation?.quoteNumber, onAccount: order.onAccount });
+  if (terms?.creditOverride) {
+    await logAction("CREDIT_LIMIT_OVERRIDDEN", actor, order.trackingNumber, { customer: terms.customer.name, reason: terms.creditOverride.reason, totalAmount });
+  }
+  emitEvent("ORDER_CREATED", { orderId: order._id });
+  return { ok: true as const, order };
+}
+
 async function buildSearchIndexes() {
   globalTrie.clear();
   itemIndex.clear();
@@ -91,17 +387,47 @@ async function buildSearchIndexes() {
   orderIndex.clear();
   trackingIndex.clear();
 
-  const [items, customers, orders] = await Promise.all([
+  const [items, customers, orders, quotations] = await Promise.all([
     Item.find().lean(),
     Customer.find().lean(),
     Order.find().lean(),
+    Quotation.find().lean(),
   ]);
 
   for (const item of items) indexItem(item);
   for (const customer of customers) indexCustomer(customer);
   for (const order of orders) indexOrder(order);
+  for (const quote of quotations) indexQuotation(quote);
+
+  console.log(`${new Date().toLocaleTimeString()} [search] Trie & hash indexes built: ${items.length} items, ${customers.length} customers, ${orders.length} orders, ${quotations.length} quotations`);
+}
+
+// Stock taken in without a known cost is booked at the item's cost price, or
+// flagged for the cost review when the item has none yet.
+function batchCost(item: { costPrice?: number }, unitCost?: number) {
+  const cost = unitCost ?? item.costPrice ?? 0;
+  return { unitCost: cost, costEstimated: unitCost === undefined && !item.costPrice };
+}
+
+// Costs and margins are for admins; employees get items without the cost price
+// or what each supplier last charged.
+function itemForRole(item: any, role: string | undefined) {
+  if (role === "ADMIN") return item;
+  const { costPrice, ...rest } = typeof item.toObject === "function" ? item.toObject() : item;
+  return { ...rest, suppliers: (rest.suppliers || []).map(({ lastCost, ...link }: any) => link) };
+}
+
+// The same goes for what released stock cost and what a return put back on the shelves.
+function orderForRole(order: any, role: string | undefined) {
+  if (role === "ADMIN") return order;
+  const plain = typeof order.toObject === "function" ? order.toObject() : order;
+  return { ...plain, releasedBatches: (plain.releasedBatches || []).map(({ unitCost, ...batch }: any) => batch) };
+}
 
-  console.log(`${new Date().toLocaleTimeString()} [search] Trie & hash indexes built: ${items.length} items, ${customers.length} customers, ${orders.length} orders`);
+function returnForRole(orderReturn: any, role: string | undefined) {
+  if (role === "ADMIN") return orderReturn;
+  const { costRestocked, ...rest } = typeof orderReturn.toObject === "function" ? orderReturn.toObject() : orderReturn;
+  return { ...rest, lines: (rest.lines || []).map(({ unitCost, ...line }: any) => line) };
 }
 
 async function ensureInventoryBatches() {
@@ -116,7 +442,7 @@ async function ensureInventoryBatches() {
         itemId: item._id,
         quantity: item.currentQuantity,
         remainingQuantity: item.currentQuantity,
-        unitCost: item.unitPrice,
+        ...batchCost(item),
         source: "initial",
       });
       created++;
@@ -127,19 +453,125 @@ async function ensureInventoryBatches() {
   }
 }
 
-async function deductFIFO(itemId: string, quantity: number): Promise<{ totalCost: number; batchesUsed: Array<{ batchId: string; qty: number; cost: number }>; shortfall: number }> {
-  const batches = await InventoryBatch.find({ itemId, remainingQuantity: { $gt: 0 } }).sort({ createdAt: 1 });
-  const totalAvailable = batches.reduce((s, b) => s + b.remainingQuantity, 0);
+// Batches used to be stocked at the selling price, which made FIFO COGS equal to
+// revenue. Those batches are flagged until an admin enters the real cost.
+async function flagEstimatedBatchCosts() {
+  const result = await InventoryBatch.updateMany(
+    { costEstimated: { $exists: false }, source: { $ne: "purchase-order" } },
+    { $set: { costEstimated: true } }
+  );
+  if (result.modifiedCount > 0) {
+    console.log(`${new Date().toLocaleTimeString()} [fifo] Flagged ${result.modifiedCount} inventory batches costed at selling price for review`);
+  }
+}
+
+// Overpayments held for the customer; store credit payments draw it down.
+const CUSTOMER_DEPOSITS = { accountCode: "2150", accountName: "Customer Deposits" };
+// Drawer differences found when a cashier shift is counted.
+const CASH_OVER_SHORT = { accountCode: "5200", accountName: "Cash Over and Short" };
+
+// Where money received by each payment method is held.
+const PAYMENT_ACCOUNTS: Record<PaymentMethodType, { accountCode: string; accountName: string }> = {
+  Cash: { accountCode: "1010", accountName: "Cash on Hand" },
+  GCash: { accountCode: "1020", accountName: "GCash Wallet" },
+  Maya: { accountCode: "1030", accountName: "Maya Wallet" },
+  "Bank Transfer": { accountCode: "1040", accountName: "Cash in Bank" },
+  Cheque: { accountCode: "1050", accountName: "Cheques for Deposit" },
+  Card: { accountCode: "1060", accountName: "Card Settlements Receivable" },
+  "Store Credit": CUSTOMER_DEPOSITS,
+};
+
+function paymentAccount(method: string) {
+  return (PAYMENT_ACCOUNTS[method as PaymentMethodType] || PAYMENT_ACCOUNTS.Cash).accountName;
+}
+
+// Accounts added after the initial seed, created on startup for existing databases.
+const REQUIRED_ACCOUNTS = [
+  ...Object.values(PAYMENT_ACCOUNTS).filter((a) => a !== CUSTOMER_DEPOSITS).map((a) => ({ ...a, accountType: "Asset" })),
+  { accountCode: "2100", accountName: "Customer Credit Notes", accountType: "Liability" },
+  { ...CUSTOMER_DEPOSITS, accountType: "Liability" },
+  { accountCode: "2200", accountName: "Output VAT Payable", accountType: "Liability" },
+  { ...CASH_OVER_SHORT, accountType: "Expense" },
+];
+
+// Payments logged before other methods existed kept their details in
+// gcashNumber / gcashReferenceNumber, with a unique index on the reference.
+function legacyPaymentFields(payment: Record<string, any>) {
+  const { gcashNumber, gcashReferenceNumber, ...rest } = payment;
+  if (gcashNumber === undefined && gcashReferenceNumber === undefined) return payment;
+  return {
+    ...rest,
+    paymentMethod: PAYMENT_METHODS.includes(rest.paymentMethod) ? rest.paymentMethod : "GCash",
+    accountNumber: rest.accountNumber || gcashNumber || "",
+    referenceNumber: rest.referenceNumber || gcashReferenceNumber || "",
+  };
+}
+
+async function migrateLegacyPayments() {
+  const legacy = await BillingPayment.collection.find({ gcashReferenceNumber: { $exists: true } }).toArray();
+  for (const payment of legacy) {
+    const { _id, ...fields } = legacyPaymentFields(payment);
+    await BillingPayment.collection.replaceOne({ _id }, fields);
+  }
+  const indexes = await BillingPayment.collection.indexes();
+  if (indexes.some((i) => i.name === "gcashReferenceNumber_1")) {
+    await BillingPayment.collection.dropIndex("gcashReferenceNumber_1");
+  }
+  if (legacy.length > 0) console.log(`${new Date().toLocaleTimeString()} [payments] Migrated ${legacy.length} GCash-only payment records`);
+}
+
+// Items used to name their supplier in free text. Each company, after matching
+// near-identical spellings, becomes one Supplier record linked to its items.
+async function migrateItemSuppliers() {
+  const legacy = await Item.find({ supplierName: { $gt: "" } });
+  if (legacy.length === 0) return;
+  const suppliers = await Supplier.find();
+  const supplierIds = new Map<string, Types.ObjectId>();
+  let created = 0;
+  for (const group of groupSupplierNames(legacy.map((i) => i.supplierName))) {
+    let supplier = suppliers.find((s) => sameSupplierKey(s.nameKey, group.key));
+    if (!supplier) {
+      supplier = await Supplier.create({ name: group.name, nameKey: group.key });
+      suppliers.push(supplier);
+      created++;
+    }
+    for (const variant of group.variants) supplierIds.set(variant, supplier._id);
+  }
+  for (const item of legacy) {
+    const supplierId = supplierIds.get(tidySupplierName(item.supplierName));
+    if (supplierId && !item.suppliers.some((s) => s.supplierId.equals(supplierId))) {
+      item.suppliers.push({ supplierId, supplierSku: "", lastCost: 0 });
+    }
+    item.supplierName = "";
+    await item.save();
+  }
+  console.log(`${new Date().toLocaleTimeString()} [suppliers] Linked ${legacy.length} items to suppliers (${created} supplier records created)`);
+}
+
+async function ensureLedgerAccounts() {
+  for (const account of REQUIRED_ACCOUNTS) {
+    await AccountingAccount.updateOne({ accountCode: account.accountCode }, { $setOnInsert: { ...account, balance: 0 } }, { upsert: true });
+  }
+}
 
+// Each batch is drawn down with a conditional update that only succeeds while the
+// batch still holds the units read, so concurrent releases cannot consume the
+// same stock twice; a lost race re-reads the oldest batch and tries again.
+async function deductFIFO(itemId: string, quantity: number, session?: ClientSession | null): Promise<{ totalCost: number; batchesUsed: Array<{ batchId: string; qty: number; cost: number }>; shortfall: number }> {
   let remaining = quantity;
   let totalCost = 0;
   const batchesUsed: Array<{ batchId: string; qty: number; cost: number }> = [];
 
-  for (const batch of batches) {
-    if (remaining <= 0) break;
+  while (remaining > 0) {
+    const batch = await InventoryBatch.findOne({ itemId, remainingQuantity: { $gt: 0 } }).sort({ createdAt: 1 }).session(session ?? null);
+    if (!batch) break;
     const deduct = Math.min(remaining, batch.remainingQuantity);
-    batch.remainingQuantity -= deduct;
-    await batch.save();
+    const updated = await InventoryBatch.findOneAndUpdate(
+      { _id: batch._id, remainingQuantity: { $gte: deduct } },
+      { $inc: { remainingQuantity: -deduct } },
+      { new: true, session: session ?? undefined }
+    );
+    if (!updated) continue;
     totalCost += deduct * batch.unitCost;
     batchesUsed.push({ batchId: batch._id.toString(), qty: deduct, cost: batch.unitCost });
     remaining -= deduct;
@@ -148,6 +580,226 @@ async function deductFIFO(itemId: string, quantity: number): Promise<{ totalCost
   return { totalCost, batchesUsed, shortfall: remaining };
 }
 
+async function releaseStock(lines: Array<{ itemId: any; reservedQuantity?: number }>, session?: ClientSession | null) {
+  for (const line of lines) {
+    if (!line.reservedQuantity || line.reservedQuantity <= 0) continue;
+    await Item.updateOne({ _id: line.itemId }, [
+      { $set: { reservedQuantity: { $max: [0, { $subtract: [{ $ifNull: ["$reservedQuantity", 0] }, line.reservedQuantity] }] } } },
+    ], { session: session ?? undefined });
+  }
+}
+
+// Holds stock for order lines so two open orders cannot promise the same units.
+// Each hold is a conditional update, so concurrent orders cannot over-reserve.
+async function reserveStock(lines: Array<{ itemId: any; itemName: string; quantity: number }>, allowShortage: boolean, session?: ClientSession | null) {
+  const reserved: number[] = [];
+  const shortages: string[] = [];
+  for (const line of lines) {
+    const item = await Item.findById(line.itemId).session(session ?? null).lean();
+    const available = item ? Math.max(0, item.currentQuantity - (item.reservedQuantity || 0)) : 0;
+    const wanted = Math.min(line.quantity, available);
+    let held = 0;
+    if (wanted > 0) {
+      const result = await Item.updateOne(
+        { _id: line.itemId, $expr: { $gte: [{ $subtract: ["$currentQuantity", { $ifNull: ["$reservedQuantity", 0] }] }, wanted] } },
+        { $inc: { reservedQuantity: wanted } },
+        { session: session ?? undefined }
+      );
+      if (result.modifiedCount === 1) held = wanted;
+    }
+    if (held < line.quantity) shortages.push(`${line.itemName}: need ${line.quantity}, available ${available}`);
+    reserved.push(held);
+  }
+
+  if (shortages.length > 0 && !allowShortage) {
+    await releaseStock(lines.map((l, i) => ({ itemId: l.itemId, reservedQuantity: reserved[i] })), session);
+    return { ok: false as const, reserved: lines.map(() => 0), shortages };
+  }
+  return { ok: true as const, reserved, shortages };
+}
+
+async function releaseOrderReservation(order: any) {
+  await releaseStock(order.items, order.$session());
+  for (const oi of order.items) oi.reservedQuantity = 0;
+}
+
+async function expireStockReservations() {
+  try {
+    const settings = await Settings.findOne();
+    const hours = settings?.reservationExpiryHours ?? 72;
+    const cutoff = new Date(Date.now() - hours * 3600000);
+    const orders = await Order.find({
+      currentStatus: "Pending Payment",
+      createdAt: { $lt: cutoff },
+      "items.reservedQuantity": { $gt: 0 },
+    });
+    for (const order of orders) {
+      await releaseOrderReservation(order);
+      annotateOrder(order, "system", `Stock reservation expired after ${hours} hours without payment`);
+      await order.save();
+      await logAction("RESERVATION_EXPIRED", "system", order.trackingNumber, { hours });
+    }
+    if (orders.length > 0) {
+      console.log(`${new Date().toLocaleTimeString()} [reservations] Released stock held by ${orders.length} unpaid orders`);
+      emitEvent("INVENTORY_LOG_CREATED");
+    }
+  } catch (err) {
+    console.error("[reservations] Expiry job failed:", err);
+  }
+}
+
+// Releases whatever stock is on hand for an order's outstanding lines and posts
+// FIFO COGS for just that portion. Units that cannot be released stay on the
+// order as a backorder until the next restock.
+// Runs inside the order's session when it has one, so stock, batches, logs and
+// COGS commit together with the order.
+async function releaseOrderLines(order: IOrderDoc, requested: Record<string, number> | undefined, actor: string) {
+  const session = order.$session();
+  let totalCOGS = 0;
+  const released: string[] = [];
+  for (const oi of order.items) {
+    const outstanding = oi.quantity - (oi.releasedQuantity || 0);
+    if (outstanding <= 0) continue;
+    const wanted = requested ? Math.min(requested[oi.itemId.toString()] ?? 0, outstanding) : outstanding;
+    if (wanted <= 0) continue;
+
+    const item = await Item.findById(oi.itemId).session(session);
+    if (!item) continue;
+    const heldByOthers = Math.max(0, (item.reservedQuantity || 0) - (oi.reservedQuantity || 0));
+    const qty = Math.min(wanted, Math.max(0, item.currentQuantity - heldByOthers));
+    if (qty <= 0) continue;
+
+    const freed = Math.min(oi.reservedQuantity || 0, qty);
+    item.currentQuantity -= qty;
+    item.reservedQuantity = Math.max(0, (item.reservedQuantity || 0) - freed);
+    await item.save();
+    oi.reservedQuantity = (oi.reservedQuantity || 0) - freed;
+    oi.releasedQuantity = (oi.releasedQuantity || 0) + qty;
+
+    const fifoResult = await deductFIFO(item._id.toString(), qty, session);
+    totalCOGS += fifoResult.totalCost;
+    for (const used of fifoResult.batchesUsed) {
+      order.releasedBatches.push({ itemId: item._id, batchId: used.batchId as any, quantity: used.qty, unitCost: used.cost });
+    }
+
+    await InventoryLog.create([{
+      itemId: item._id,
+      itemName: item.itemName,
+      type: "deduction",
+      quantity: -qty,
+      reason: `Released for order ${order.trackingNumber} (FIFO COGS: ${fifoResult.totalCost.toFixed(2)})`,
+      actor,
+    }], { session });
+    released.push(`${oi.itemName} x${qty}`);
+  }
+
+  if (totalCOGS > 0) {
+    await GeneralLedgerEntry.create([
+      { date: new Date(), accountName: "Cost of Goods Sold", debit: totalCOGS, credit: 0, description: `COGS for order ${order.trackingNumber} (FIFO)`, referenceType: "order", referenceId: order._id.toString(), actor },
+      { date: new Date(), accountName: "Inventory", debit: 0, credit: totalCOGS, description: `Inventory reduction for order ${order.trackingNumber} (FIFO)`, referenceType: "order", referenceId: order._id.toString(), actor },
+    ], { session });
+  }
+
+  const backordered = order.items
+    .filter((oi: any) => oi.quantity > (oi.releasedQuantity || 0))
+    .map((oi: any) => `${oi.itemName} x${oi.quantity - (oi.releasedQuantity || 0)}`);
+  const forDelivery = hasDeliveryAddress(order.address);
+  if (released.length === 0) return { released, backordered, forDelivery, totalCOGS };
+
+  // Stock has already moved, so a rejected transition here is a bug rather than user error.
+  const move = (to: OrderStatusType, note: string) => {
+    const check = transitionOrder(order, to, { actor, note, data: { totalCOGS } });
+    if (!check.ok) throw new Error(check.error);
+  };
+  if (backordered.length > 0) {
+    move("Partially Released", `Released ${released.join(", ")}; backordered ${backordered.join(", ")}`);
+  } else {
+    // Delivery orders wait for dispatch; walk-in orders are handed over on the spot.
+    move("Released", order.currentStatus === "Partially Released" ? `Backorder fulfilled: ${released.join(", ")}` : "Items released from inventory");
+    if (!forDelivery) move("Completed", "Order fulfilled");
+  }
+  return { released, backordered, forDelivery, totalCOGS };
+}
+
+async function fulfillBackorders(itemId: string, actor: string) {
+  try {
+    const settings = await Settings.findOne();
+    if (settings && settings.autoFulfillBackorders === false) return;
+    const orders = await Order.find({ currentStatus: "Partially Released", "items.itemId": itemId }).sort({ createdAt: 1 }).select("_id").lean();
+    for (const { _id } of orders) {
+      const outcome = await runInTransaction(async (session) => {
+        const order = await Order.findById(_id).session(session);
+        if (!order || !checkOrderAction(order, "release").ok) return null;
+        if (await flaggedPaymentHold(order._id, session)) return null;
+        const result = await releaseOrderLines(order, { [itemId]: Infinity }, actor);
+        if (result.released.length > 0) await commitOrder(order);
+        return { order, result };
+      });
+      if (!outcome) continue;
+      if (outcome.result.released.length === 0) break;
+      await logAction("BACKORDER_FULFILLED", actor, outcome.order.trackingNumber, { released: outcome.result.released, backordered: outcome.result.backordered });
+    }
+  } catch (err) {
+    console.error("[backorders] Auto-fulfilment failed:", err);
+  }
+}
+
+// Weighted FIFO cost of the units originally released for an item on an order.
+function releasedUnitCost(order: any, itemId: string, fallback: number) {
+  const allocations = (order.releasedBatches || []).filter((b: any) => b.itemId.toString() === itemId);
+  const qty = allocations.reduce((s: number, b: any) => s + b.quantity, 0);
+  if (qty <= 0) return fallback;
+  return allocations.reduce((s: number, b: any) => s + b.quantity * b.unitCost, 0) / qty;
+}
+
+async function expireQuotations() {
+  try {
+    const result = await Quotation.updateMany(
+      { status: { $in: ["draft", "sent"] }, validUntil: { $lt: new Date() } },
+      { $set: { status: "expired" } }
+    );
+    if (result.modifiedCount > 0) {
+      console.log(`${new Date().toLocaleTimeString()} [quotations] Expired ${result.modifiedCount} quotations past their validity date`);
+      await logAction("QUOTATIONS_EXPIRED", "system", "", { count: result.modifiedCount });
+    }
+  } catch (err) {
+    console.error("[quotations] Expiry job failed:", err);
+  }
+}
+
+async function restoreFIFO(itemId: string, batchId: string | undefined, quantity: number, unitCost: number, source: string, session?: ClientSession | null) {
+  if (batchId) {
+    const restored = await InventoryBatch.findByIdAndUpdate(batchId, { $inc: { remainingQuantity: quantity } }, { new: true, session: session ?? undefined });
+    if (restored) return restored;
+  }
+  const [created] = await InventoryBatch.create([{ itemId, quantity, remainingQuantity: quantity, unitCost, source }], { session: session ?? undefined });
+  return created;
+}
+
+// Originals are marked as reversed in the same write unit, so a repeated call
+// (a retry, or a second cancel of the same payments) posts nothing.
+async function reverseLedgerEntries(filter: Record<string, any>, reason: string, actor: string, session?: ClientSession | null) {
+  const originals = await GeneralLedgerEntry.find({ ...filter, isReversing: false, reversed: { $ne: true } }).session(session ?? null).lean();
+  if (originals.length === 0) return [];
+  const marked = await GeneralLedgerEntry.updateMany(
+    { _id: { $in: originals.map((e) => e._id) }, reversed: { $ne: true } },
+    { $set: { reversed: true } },
+    { session: session ?? undefined }
+  );
+  if (marked.modifiedCount !== originals.length) throw new Error("Ledger entries were reversed by another request, please try again");
+  return GeneralLedgerEntry.create(originals.map((e) => ({
+    date: new Date(),
+    accountName: e.accountName,
+    debit: e.credit,
+    credit: e.debit,
+    description: `Reversal: ${e.description} (${reason})`,
+    referenceType: e.referenceType,
+    referenceId: e.referenceId,
+    isReversing: true,
+    actor,
+  })), { session: session ?? undefined });
+}
+
 const UPLOADS_DIR = path.join(process.cwd(), "uploads");
 const BACKUPS_DIR = path.join(process.cwd(), "backups");
 if (!fs.existsSync(UPLOADS_DIR)) fs.mkdirSync(UPLOADS_DIR, { recursive: true });
@@ -158,7 +810,8 @@ const imageUpload = multer({
     destination: (_req, _file, cb) => cb(null, UPLOADS_DIR),
     filename: (_req, file, cb) => {
       const ext = path.extname(file.originalname);
-      cb(null, `item-${Date.now()}${ext}`);
+      const prefix = file.fieldname === "image" ? "item" : file.fieldname;
+      cb(null, `${prefix}-${Date.now()}${ext}`);
     },
   }),
   limits: { fileSize: 5 * 1024 * 1024 },
@@ -169,8 +822,314 @@ const imageUpload = multer({
   },
 });
 
+const proofUpload = multer({
+  storage: multer.diskStorage({
+    destination: (_req, _file, cb) => cb(null, UPLOADS_DIR),
+    filename: (_req, file, cb) => cb(null, `payment-proof-${Date.now()}${path.extname(file.originalname)}`),
+  }),
+  limits: { fileSize: 5 * 1024 * 1024 },
+  fileFilter: (_req, file, cb) => {
+    if (/\.(jpg|jpeg|png|gif|webp|pdf)$/i.test(path.extname(file.originalname))) cb(null, true);
+    else cb(new Error("Only image or PDF files are allowed as payment proof"));
+  },
+});
+
+// An admin flagged one of the order's payments, so nothing leaves until they resolve it.
+async function flaggedPaymentHold(orderId: Types.ObjectId, session?: ClientSession | null) {
+  const flagged = await BillingPayment.findOne({ orderId, verificationStatus: "flagged", voided: { $ne: true } }).session(session ?? null);
+  if (!flagged) return null;
+  return reject(409, `Release is on hold: the ${flagged.paymentMethod} payment of ${flagged.amountPaid} was flagged by ${flagged.verifiedBy}${flagged.verificationNote ? ` (${flagged.verificationNote})` : ""}`);
+}
+
+const statementUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: 5 * 1024 * 1024 },
+  fileFilter: (_req, file, cb) => {
+    if (/\.csv$/i.test(path.extname(file.originalname))) cb(null, true);
+    else cb(new Error("Only CSV files are allowed"));
+  },
+});
+
+const escapeRegex = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+// Mongo filter for a billing search, or null when the tracking number matches no order.
+async function billingFilter(query: BillingQuery): Promise<Record<string, any> | null> {
+  const filter: Record<string, any> = {};
+  if (query.from || query.to) {
+    filter.createdAt = {};
+    if (query.from) filter.createdAt.$gte = new Date(query.from);
+    if (query.to) filter.createdAt.$lte = new Date(query.to);
+  }
+  if (query.minAmount !== undefined || query.maxAmount !== undefined) {
+    filter.amountPaid = {};
+    if (query.minAmount !== undefined) filter.amountPaid.$gte = query.minAmount;
+    if (query.maxAmount !== undefined) filter.amountPaid.$lte = query.maxAmount;
+  }
+  if (query.paymentMethod) filter.paymentMethod = query.paymentMethod;
+  if (query.loggedBy) filter.loggedBy = query.loggedBy;
+  if (query.accountNumber) filter.accountNumber = { $regex: escapeRegex(query.accountNumber), $options: "i" };
+  if (query.reference) {
+    const prefix = { $regex: `^${escapeRegex(query.reference)}`, $options: "i" };
+    filter.$or = [{ referenceNumber: prefix }, { chequeNumber: prefix }, { approvalCode: prefix }];
+  }
+  if (query.trackingNumber) {
+    const orders = await Order.find({ trackingNumber: { $regex: `^${escapeRegex(query.trackingNumber)}`, $options: "i" } }).select("_id").lean();
+    if (orders.length === 0) return null;
+    filter.orderId = { $in: orders.map((o) => o._id) };
+  }
+  return filter;
+}
+
+function reconciliationSummary(lines: IReconciliationLineSub[]) {
+  const count = (kind: string) => lines.filter((l) => l.kind === kind).length;
+  return {
+    matched: count("matched"),
+    statementOnly: count("statement_only"),
+    systemOnly: count("system_only"),
+    mismatch: count("mismatch"),
+    unresolved: lines.filter((l) => l.kind !== "matched" && !l.resolution).length,
+  };
+}
+
+// What the drawer should hold per payment method: the opening float in cash plus
+// every payment logged during the shift that has not been voided. Store credit
+// moves no money, so only the refundable channels are counted.
+async function shiftExpectedCounts(shift: ICashierShiftDoc, session?: ClientSession | null) {
+  const totals = await BillingPayment.aggregate([
+    { $match: { shiftId: shift._id, voided: { $ne: true }, paymentMethod: { $in: REFUND_METHODS } } },
+    { $group: { _id: "$paymentMethod", total: { $sum: "$amountPaid" }, count: { $sum: 1 } } },
+  ]).session(session ?? null);
+  const byMethod = new Map<string, { total: number; count: number }>(totals.map((t) => [t._id, t]));
+  return REFUND_METHODS.map((paymentMethod) => {
+    const collected = byMethod.get(paymentMethod);
+    const float = paymentMethod === PaymentMethod.CASH ? shift.openingFloat : 0;
+    return {
+      paymentMethod,
+      paymentCount: collected?.count || 0,
+      expected: Math.round(((collected?.total || 0) + float) * 100) / 100,
+    };
+  });
+}
+
+async function shiftPayments(shiftIds: any[]) {
+  const payments = await BillingPayment.find({ shiftId: { $in: shiftIds } }).sort({ createdAt: 1 }).lean();
+  const orders = await Order.find({ _id: { $in: payments.map((p) => p.orderId) } }).select("trackingNumber").lean();
+  const orderMap = new Map(orders.map((o) => [o._id.toString(), o.trackingNumber]));
+  return payments.map((p) => ({ ...p, trackingNumber: orderMap.get(p.orderId.toString()) }));
+}
+
+// Keeps only the detail fields the payment method uses.
+function paymentDetails(input: LogPaymentInput) {
+  const details: Record<string, any> = { paymentMethod: input.paymentMethod };
+  for (const field of PAYMENT_METHOD_FIELDS[input.paymentMethod]) {
+    details[field] = field === "chequeDate" ? new Date(input.chequeDate) : input[field];
+  }
+  return details;
+}
+
+async function findDuplicatePayment(details: Record<string, any>, session?: ClientSession | null) {
+  if (details.referenceNumber) {
+    const existing = await BillingPayment.findOne({ paymentMethod: details.paymentMethod, referenceNumber: details.referenceNumber }).session(session ?? null);
+    if (existing?.voided) return `${details.paymentMethod} reference number belongs to a voided payment and cannot be reused`;
+    if (existing) return `Duplicate ${details.paymentMethod} reference number`;
+  }
+  if (details.chequeNumber) {
+    const existing = await BillingPayment.findOne({ bankName: details.bankName, chequeNumber: details.chequeNumber }).session(session ?? null);
+    if (existing) return `Cheque ${details.chequeNumber} from ${details.bankName} was already recorded${existing.voided ? " on a voided payment" : ""}`;
+  }
+  return null;
+}
+
+// Orders typed in by name are matched to the customer record of the same name
+// (ignoring case) and linked to it, so every order of a customer shares one wallet.
+async function orderCustomer(order: IOrderDoc, session: ClientSession | null, createIfMissing = false) {
+  if (order.customerId) return Customer.findById(order.customerId).session(session);
+  let customer = await Customer.findOne({ name: order.customerName.trim() }).collation({ locale: "en", strength: 2 }).session(session);
+  if (!customer && createIfMissing) {
+    [customer] = await Customer.create([{ name: order.customerName.trim() }], { session });
+    const created = customer;
+    afterCommit(session, () => indexCustomer(created));
+  }
+  if (customer) order.customerId = customer._id;
+  return customer;
+}
+
+// Adds (positive) or uses (negative) store credit and records the history
+// entry. Returns null, changing nothing, when the wallet cannot cover a debit.
+async function postCustomerCredit(
+  customerId: any,
+  amount: number,
+  entry: Pick<ICustomerCreditEntryDoc, "type" | "note" | "actor"> & { orderId?: any; trackingNumber?: string; paymentId?: any },
+  session: ClientSession | null
+) {
+  amount = Math.round(amount * 100) / 100;
+  const customer = await Customer.findOneAndUpdate(
+    amount < 0 ? { _id: customerId, creditBalance: { $gte: -amount } } : { _id: customerId },
+    { $inc: { creditBalance: amount } },
+    { new: true, session }
+  );
+  if (!customer) return null;
+  customer.creditBalance = Math.round(customer.creditBalance * 100) / 100;
+  await CustomerCreditEntry.create([{ customerId, amount, balanceAfter: customer.creditBalance, ...entry }], { session });
+  return customer;
+}
+
+// ─── ORDER LIFECYCLE HOOKS ───────────────────────────────
+// Side effects of entering a status; routes only request the transition.
+
+onOrderStatus("*", {
+  notify: (order) => emitEvent("ORDER_STATUS_APPENDED", { orderId: order._id, status: order.currentStatus }),
+});
+
+// The first payment recognizes the full sale and carries any unpaid portion on
+// Accounts Receivable; later installments, and payments on an order already
+// charged to account, only draw that receivable down. Money above the balance
+// due is owed back to the customer as store credit.
+async function postPaymentLedger(order: IOrderDoc, data: Record<string, any>, actor: string) {
+  const { payment, amountPaid, previouslyPaid, balanceBefore, balanceAfter, credited = 0 } = data;
+  const applied = amountPaid - credited;
+  const ledgerRef = { referenceType: "payment", referenceId: payment._id.toString(), actor };
+  const entries: Array<Record<string, any>> = [
+    { date: new Date(), accountName: paymentAccount(payment.paymentMethod), debit: amountPaid, credit: 0, description: `${payment.paymentMethod} payment for order ${order.trackingNumber}`, ...ledgerRef },
+  ];
+  if (previouslyPaid === 0 && !order.chargedAt) {
+    if (balanceAfter > 0) {
+      entries.push({ date: new Date(), accountName: "Accounts Receivable", debit: balanceAfter, credit: 0, description: `Unpaid balance for order ${order.trackingNumber}`, ...ledgerRef });
+    }
+    const vatAmount = order.vatAmount || 0;
+    entries.push({ date: new Date(), accountName: "Sales Revenue", debit: 0, credit: applied + balanceAfter - vatAmount, description: `Revenue from order ${order.trackingNumber}`, ...ledgerRef });
+    if (vatAmount > 0) {
+      entries.push({ date: new Date(), accountName: "Output VAT Payable", debit: 0, credit: vatAmount, description: `Output VAT on order ${order.trackingNumber}`, ...ledgerRef });
+    }
+  } else {
+    entries.push({ date: new Date(), accountName: "Accounts Receivable", debit: 0, credit: Math.min(applied, balanceBefore), description: `Installment received for order ${order.trackingNumber}`, ...ledgerRef });
+  }
+  if (credited > 0) {
+    entries.push({ date: new Date(), accountName: CUSTOMER_DEPOSITS.accountName, debit: 0, credit: credited, description: `Overpayment on order ${order.trackingNumber} held as store credit`, ...ledgerRef });
+  }
+  await GeneralLedgerEntry.create(entries, { session: order.$session() });
+}
+
+// Only a new payment posts; a void stepping the order back to "Partially Paid"
+// carries no payment data and reverses its own entries.
+onOrderStatus(["Partially Paid", "Paid"], {
+  apply: async (order, ctx) => {
+    if (ctx.data?.payment) await postPaymentLedger(order, ctx.data, ctx.actor);
+  },
+  notify: (order, ctx) => {
+    if (!ctx.data?.payment) return;
+    emitEvent("PAYMENT_LOGGED", { orderId: order._id });
+    emitEvent("LEDGER_POSTED");
+  },
+});
+
+// Stock and COGS move line by line in releaseOrderLines. An order on account is
+// billed when it first leaves: the terms run from then, and an unpaid order books
+// its sale to Accounts Receivable (a paid one already did with its first payment).
+onOrderStatus(["Partially Released", "Released"], {
+  apply: async (order, ctx, result) => {
+    if (!order.onAccount || order.chargedAt) return;
+    order.chargedAt = new Date();
+    order.dueDate = new Date(order.chargedAt.getTime() + order.paymentTermsDays * 24 * 60 * 60 * 1000);
+    if ((order.amountPaid || 0) > 0) return;
+    const vatAmount = order.vatAmount || 0;
+    const ledgerRef = { referenceType: "order", referenceId: order._id.toString(), actor: ctx.actor };
+    const entries: Array<Record<string, any>> = [
+      { date: new Date(), accountName: "Accounts Receivable", debit: order.totalAmount, credit: 0, description: `Order ${order.trackingNumber} charged to account (${order.paymentTermsDays}-day terms)`, ...ledgerRef },
+      { date: new Date(), accountName: "Sales Revenue", debit: 0, credit: order.totalAmount - vatAmount, description: `Revenue from order ${order.trackingNumber}`, ...ledgerRef },
+    ];
+    if (vatAmount > 0) {
+      entries.push({ date: new Date(), accountName: "Output VAT Payable", debit: 0, credit: vatAmount, description: `Output VAT on order ${order.trackingNumber}`, ...ledgerRef });
+    }
+    await GeneralLedgerEntry.create(entries, { session: order.$session() });
+    result.charged = true;
+  },
+  notify: (order, ctx, result) => {
+    emitEvent("ORDER_RELEASED", { orderId: order._id });
+    emitEvent("INVENTORY_LOG_CREATED");
+    if (ctx.data?.totalCOGS > 0 || result.charged) emitEvent("LEDGER_POSTED");
+  },
+});
+
+onOrderStatus("Cancelled", {
+  apply: reverseCancelledOrder,
+  notify: (_order, _ctx, result) => {
+    if (result.reversedEntries > 0) emitEvent("LEDGER_POSTED");
+    if (result.restockedUnits > 0) emitEvent("INVENTORY_LOG_CREATED");
+  },
+});
+
+// Reverses every posting made for the order and puts released stock back.
+// Runs in the order's session, so the whole cancellation commits or fails together.
+async function reverseCancelledOrder(order: IOrderDoc, ctx: TransitionContext, result: Record<string, any>) {
+  const session = order.$session();
+  // Voided payments were already reversed when the void was approved.
+  const payments = await BillingPayment.find({ orderId: order._id, voided: { $ne: true } }).session(session).lean();
+  const paymentIds = payments.map((p) => p._id.toString());
+
+  // Store credit spent on the order goes back to the wallet and credit the order
+  // created is taken back. Done first, since a spent credit stops the cancellation.
+  const walletChange = payments.reduce((sum, p) => sum + (p.paymentMethod === PaymentMethod.STORE_CREDIT ? p.amountPaid : 0) - (p.creditedAmount || 0), 0);
+  if (walletChange !== 0 && order.customerId) {
+    const wallet = await postCustomerCredit(order.customerId, walletChange, {
+      type: "cancellation",
+      orderId: order._id,
+      trackingNumber: order.trackingNumber,
+      note: `Order ${order.trackingNumber} cancelled`,
+      actor: ctx.actor,
+    }, session);
+    if (!wallet) throw new Error("Store credit from this order's overpayment has already been used");
+  }
+
+  const reversals = await reverseLedgerEntries({
+    $or: [
+      { referenceType: "payment", referenceId: { $in: paymentIds } },
+      { referenceType: "order", referenceId: order._id.toString() },
+    ],
+  }, `order ${order.trackingNumber} cancelled`, ctx.actor, session);
+
+  // Orders that reached "Released" shipped every line; partial releases track per-line quantities.
+  const wasReleased = order.statusHistory.some((h) => h.status === "Released");
+  const wasPartiallyReleased = order.statusHistory.some((h) => h.status === "Partially Released");
+  if (!wasReleased) await releaseOrderReservation(order);
+  let restockedUnits = 0;
+  if (wasReleased || wasPartiallyReleased) {
+    const releasedBatches = order.releasedBatches || [];
+    for (const oi of order.items) {
+      const releasedQty = wasReleased ? oi.quantity : oi.releasedQuantity || 0;
+      if (releasedQty <= 0) continue;
+      const item = await Item.findById(oi.itemId).session(session);
+      if (!item) continue;
+
+      const allocations = releasedBatches.filter((b) => b.itemId.toString() === item._id.toString());
+      if (allocations.length > 0) {
+        for (const a of allocations) {
+          await restoreFIFO(item._id.toString(), a.batchId.toString(), a.quantity, a.unitCost, "cancellation", session);
+        }
+      } else {
+        await restoreFIFO(item._id.toString(), undefined, releasedQty, item.costPrice ?? 0, "cancellation", session);
+      }
+
+      item.currentQuantity += releasedQty;
+      await item.save();
+      restockedUnits += releasedQty;
+
+      await InventoryLog.create([{
+        itemId: item._id,
+        itemName: item.itemName,
+        type: "restock",
+        quantity: releasedQty,
+        reason: `Returned from cancelled order ${order.trackingNumber}`,
+        actor: ctx.actor,
+      }], { session });
+    }
+  }
+  result.reversedEntries = reversals.length;
+  result.restockedUnits = restockedUnits;
+}
+
 async function createBackupData() {
-  const [items, customers, orders, payments, inventoryLogs, accounts, ledger, settings, systemLogs, users] =
+  const [items, customers, orders, payments, inventoryLogs, accounts, ledger, settings, systemLogs, users, returns, salesDocuments, reconciliations, voidRequests, customerCredits, shifts, suppliers, purchaseOrders, quotations, counters] =
     await Promise.all([
       Item.find().lean(),
       Customer.find().lean(),
@@ -182,8 +1141,18 @@ async function createBackupData() {
       Settings.find().lean(),
       SystemLog.find().lean(),
       User.find().select("-password").lean(),
+      OrderReturn.find().lean(),
+      SalesDocument.find().lean(),
+      Reconciliation.find().lean(),
+      PaymentVoidRequest.find().lean(),
+      CustomerCreditEntry.find().lean(),
+      CashierShift.find().lean(),
+      Supplier.find().lean(),
+      PurchaseOrder.find().lean(),
+      Quotation.find().lean(),
+      Counter.find().lean(),
     ]);
-  return { items, customers, orders, payments, inventoryLogs, accounts, ledger, settings, systemLogs, users, exportDate: new Date() };
+  return { items, customers, orders, payments, inventoryLogs, accounts, ledger, settings, systemLogs, users, returns, salesDocuments, reconciliations, voidRequests, customerCredits, shifts, suppliers, purchaseOrders, quotations, counters, exportDate: new Date() };
 }
 
 async function performAutoBackup() {
@@ -238,6 +1207,12 @@ export async function registerRoutes(httpServer: Server, app: Express): Promise<
 
   buildSearchIndexes().catch(err => console.error("Failed to build search indexes:", err));
   ensureInventoryBatches().catch(err => console.error("Failed to ensure inventory batches:", err));
+  flagEstimatedBatchCosts().catch(err => console.error("Failed to flag estimated batch costs:", err));
+  ensureLedgerAccounts().catch(err => console.error("Failed to ensure ledger accounts:", err));
+  migrateLegacyPayments().catch(err => console.error("Failed to migrate legacy payments:", err));
+  migrateItemSuppliers().catch(err => console.error("Failed to migrate item suppliers:", err));
+  cron.schedule("0 * * * *", expireStockReservations);
+  cron.schedule("5 0 * * *", expireQuotations);
 
   // ─── AUTH ───────────────────────────────────────────────
   app.post("/api/auth/login", async (req: Request, res: Response) => {
@@ -305,6 +1280,37 @@ export async function registerRoutes(httpServer: Server, app: Express): Promise<
     return ok(res, { key });
   });
 
+  // ─── PUBLIC TRACKING ────────────────────────────────────
+  // Unauthenticated: only statuses and timestamps leave the server. Actors and
+  // notes are dropped since notes carry payment references and GCash numbers.
+  app.get("/api/public/track/:trackingNumber", rateLimit({ windowMs: 60 * 1000, max: 20 }), async (req: Request, res: Response) => {
+    try {
+      const trackingNumber = String(req.params.trackingNumber).trim();
+      const entry = trackingIndex.get(trackingNumber);
+      if (!entry) return fail(res, 404, "No order found with that tracking number");
+
+      const order = await Order.findById(entry.id).select("trackingNumber currentStatus statusHistory createdAt");
+      if (!order) return fail(res, 404, "No order found with that tracking number");
+
+      const tracking: IPublicTracking = {
+        trackingNumber: order.trackingNumber,
+        currentStatus: order.currentStatus as IPublicTracking["currentStatus"],
+        createdAt: order.createdAt.toISOString(),
+        // Amendments, returns and installments add entries that repeat the current
+        // status; customers only see the points where the status changed.
+        statusHistory: order.statusHistory
+          .filter((s, i, history) => i === 0 || s.status !== history[i - 1].status)
+          .map((s) => ({
+            status: s.status as IPublicTracking["currentStatus"],
+            timestamp: new Date(s.timestamp).toISOString(),
+          })),
+      };
+      return ok(res, tracking);
+    } catch (err: any) {
+      return fail(res, 500, err.message);
+    }
+  });
+
   // ─── DASHBOARD ──────────────────────────────────────────
   app.get("/api/dashboard/stats", authMiddleware, async (req: AuthRequest, res: Response) => {
     try {
@@ -321,19 +1327,24 @@ export async function registerRoutes(httpServer: Server, app: Express): Promise<
         activeUsers,
         totalItems,
         items,
+        receivables,
       ] = await Promise.all([
         Order.countDocuments({ createdAt: { $gte: todayStart } }),
         Order.countDocuments({ currentStatus: "Completed" }),
         Order.countDocuments({ currentStatus: "Pending Payment" }),
         Order.countDocuments({ currentStatus: { $in: ["Paid", "Pending Release"] } }),
         BillingPayment.aggregate([
-          { $match: { paymentDate: { $gte: todayStart } } },
+          { $match: { paymentDate: { $gte: todayStart }, voided: { $ne: true } } },
           { $group: { _id: null, total: { $sum: "$amountPaid" } } },
         ]),
-        BillingPayment.aggregate([{ $group: { _id: null, total: { $sum: "$amountPaid" } } }]),
+        BillingPayment.aggregate([{ $match: { voided: { $ne: true } } }, { $group: { _id: null, total: { $sum: "$amountPaid" } } }]),
         UserSession.countDocuments({ isActive: true, lastActivity: { $gte: new Date(Date.now() - 3600000) } }),
         Item.countDocuments(),
         Item.find().lean(),
+        Order.aggregate([
+          { $match: OPEN_RECEIVABLES },
+          { $group: { _id: null, total: { $sum: "$balanceDue" } } },
+        ]),
       ]);
 
       const settings = await Settings.findOne();
@@ -356,6 +1367,7 @@ export async function registerRoutes(httpServer: Server, app: Express): Promise<
         criticalStock,
         lowStock,
         totalInventoryValue,
+        outstandingReceivables: receivables[0]?.total || 0,
       });
     } catch (err: any) {
       return fail(res, 500, err.message);
@@ -366,7 +1378,7 @@ export async function registerRoutes(httpServer: Server, app: Express): Promise<
     try {
       const thirtyDaysAgo = new Date(Date.now() - 30 * 86400000);
       const data = await BillingPayment.aggregate([
-        { $match: { paymentDate: { $gte: thirtyDaysAgo } } },
+        { $match: { paymentDate: { $gte: thirtyDaysAgo }, voided: { $ne: true } } },
         {
           $group: {
             _id: { $dateToString: { format: "%Y-%m-%d", date: "$paymentDate" } },
@@ -399,13 +1411,18 @@ export async function registerRoutes(httpServer: Server, app: Express): Promise<
       const reorderThreshold = settings?.reorderThreshold ?? 10;
       const lowThreshold = settings?.lowStockThreshold ?? 20;
       const items = await Item.find().lean();
-      const critical = items.filter((i) => i.currentQuantity <= reorderThreshold).length;
-      const low = items.filter((i) => i.currentQuantity > reorderThreshold && i.currentQuantity <= lowThreshold).length;
-      const normal = items.filter((i) => i.currentQuantity > lowThreshold).length;
+      const stockCounts = (group: typeof items) => {
+        const onHand = group.reduce((s, i) => s + i.currentQuantity, 0);
+        const reserved = group.reduce((s, i) => s + (i.reservedQuantity || 0), 0);
+        return { onHand, reserved, available: Math.max(0, onHand - reserved) };
+      };
+      const critical = items.filter((i) => i.currentQuantity <= reorderThreshold);
+      const low = items.filter((i) => i.currentQuantity > reorderThreshold && i.currentQuantity <= lowThreshold);
+      const normal = items.filter((i) => i.currentQuantity > lowThreshold);
       return ok(res, [
-        { name: "Critical", value: critical },
-        { name: "Low", value: low },
-        { name: "Normal", value: normal },
+        { name: "Critical", value: critical.length, ...stockCounts(critical) },
+        { name: "Low", value: low.length, ...stockCounts(low) },
+        { name: "Normal", value: normal.length, ...stockCounts(normal) },
       ]);
     } catch (err: any) {
       return fail(res, 500, err.message);
@@ -458,11 +1475,11 @@ export async function registerRoutes(httpServer: Server, app: Express): Promise<
         topItems,
       ] = await Promise.all([
         BillingPayment.aggregate([
-          { $match: { paymentDate: { $gte: range.start } } },
+          { $match: { paymentDate: { $gte: range.start }, voided: { $ne: true } } },
           { $group: { _id: null, total: { $sum: "$amountPaid" }, count: { $sum: 1 } } },
         ]),
         BillingPayment.aggregate([
-          { $match: { paymentDate: { $gte: range.prevStart, $lt: range.start } } },
+          { $match: { paymentDate: { $gte: range.prevStart, $lt: range.start }, voided: { $ne: true } } },
           { $group: { _id: null, total: { $sum: "$amountPaid" }, count: { $sum: 1 } } },
         ]),
         Order.countDocuments({ createdAt: { $gte: range.start } }),
@@ -471,7 +1488,7 @@ export async function registerRoutes(httpServer: Server, app: Express): Promise<
         Item.find().lean(),
         Order.find({ currentStatus: "Pending Payment" }).lean(),
         BillingPayment.aggregate([
-          { $match: { paymentDate: { $gte: range.start } } },
+          { $match: { paymentDate: { $gte: range.start }, voided: { $ne: true } } },
           { $group: { _id: { $dateToString: { format: range.groupFormat, date: "$paymentDate", timezone: "+08:00" } }, revenue: { $sum: "$amountPaid" } } },
           { $sort: { _id: 1 } },
         ]),
@@ -583,7 +1600,7 @@ export async function registerRoutes(httpServer: Server, app: Express): Promise<
 
       const [orders, payments, inventoryLogs, systemLogs] = await Promise.all([
         Order.find({ createdAt: { $gte: dayStart, $lte: dayEnd } }).lean(),
-        BillingPayment.find({ paymentDate: { $gte: dayStart, $lte: dayEnd } }).lean(),
+        BillingPayment.find({ paymentDate: { $gte: dayStart, $lte: dayEnd }, voided: { $ne: true } }).lean(),
         InventoryLog.find({ createdAt: { $gte: dayStart, $lte: dayEnd } }).lean(),
         SystemLog.find({ createdAt: { $gte: dayStart, $lte: dayEnd } }).sort({ createdAt: -1 }).limit(50).lean(),
       ]);
@@ -658,8 +1675,8 @@ export async function registerRoutes(httpServer: Server, app: Express): Promise<
           orderId: p.orderId,
           amountPaid: p.amountPaid,
           paymentMethod: p.paymentMethod,
-          gcashNumber: p.gcashNumber,
-          gcashReferenceNumber: p.gcashReferenceNumber,
+          accountNumber: p.accountNumber,
+          referenceNumber: paymentReference(p),
           loggedBy: p.loggedBy,
           paymentDate: p.paymentDate,
         })),
@@ -704,7 +1721,7 @@ export async function registerRoutes(httpServer: Server, app: Express): Promise<
           { $group: { _id: { $dateToString: { format: "%Y-%m-%d", date: "$createdAt" } }, count: { $sum: 1 }, total: { $sum: "$totalAmount" } } },
         ]),
         BillingPayment.aggregate([
-          { $match: { paymentDate: { $gte: startDate, $lte: endDate } } },
+          { $match: { paymentDate: { $gte: startDate, $lte: endDate }, voided: { $ne: true } } },
           { $group: { _id: { $dateToString: { format: "%Y-%m-%d", date: "$paymentDate" } }, count: { $sum: 1 }, total: { $sum: "$amountPaid" } } },
         ]),
       ]);
@@ -883,16 +1900,16 @@ export async function registerRoutes(httpServer: Server, app: Express): Promise<
         Item.find(filter).sort({ itemName: 1 }).skip(skip).limit(parseInt(pageSize)),
         Item.countDocuments(filter),
       ]);
-      return ok(res, { items, total, page: parseInt(page), pageSize: parseInt(pageSize) });
+      return ok(res, { items: items.map((i) => itemForRole(i, req.user!.role)), total, page: parseInt(page), pageSize: parseInt(pageSize) });
     } catch (err: any) {
       return fail(res, 500, err.message);
     }
   });
 
-  app.get("/api/items/all", authMiddleware, async (_req: AuthRequest, res: Response) => {
+  app.get("/api/items/all", authMiddleware, async (req: AuthRequest, res: Response) => {
     try {
       const items = await Item.find().sort({ itemName: 1 }).lean();
-      return ok(res, items);
+      return ok(res, items.map((i) => itemForRole(i, req.user!.role)));
     } catch (err: any) {
       return fail(res, 500, err.message);
     }
@@ -912,7 +1929,9 @@ export async function registerRoutes(httpServer: Server, app: Express): Promise<
       const parsed = createItemSchema.safeParse(req.body);
       if (!parsed.success) return fail(res, 400, "Validation failed", Object.fromEntries(parsed.error.errors.map((e) => [e.path.join("."), e.message])));
 
-      const item = await Item.create(parsed.data);
+      const { supplierId, ...fields } = parsed.data;
+      if (supplierId && !(await Supplier.exists({ _id: supplierId, isActive: true }))) return fail(res, 400, "Supplier not found");
+      const item = await Item.create({ ...fields, suppliers: supplierId ? [{ supplierId }] : [] });
 
       if (item.currentQuantity > 0) {
         await InventoryLog.create({
@@ -930,7 +1949,7 @@ export async function registerRoutes(httpServer: Server, app: Express): Promise<
           itemId: item._id,
           quantity: item.currentQuantity,
           remainingQuantity: item.currentQuantity,
-          unitCost: item.unitPrice,
+          ...batchCost(item),
           source: "initial",
         });
       }
@@ -938,7 +1957,7 @@ export async function registerRoutes(httpServer: Server, app: Express): Promise<
       indexItem(item);
       await logAction("ITEM_CREATED", req.user!.username, item.itemName);
       emitEvent("INVENTORY_LOG_CREATED");
-      return ok(res, item);
+      return ok(res, itemForRole(item, req.user!.role));
     } catch (err: any) {
       return fail(res, 500, err.message);
     }
@@ -953,286 +1972,1828 @@ export async function registerRoutes(httpServer: Server, app: Express): Promise<
       indexItem(item);
       await logAction("ITEM_PRICE_ADJUSTED", req.user!.username, item.itemName, { unitPrice });
       emitEvent("INVENTORY_LOG_CREATED");
-      return ok(res, item);
+      return ok(res, itemForRole(item, req.user!.role));
     } catch (err: any) {
       return fail(res, 500, err.message);
     }
   });
 
-  // ─── INVENTORY LOGS ─────────────────────────────────────
-  app.get("/api/inventory-logs", authMiddleware, async (req: AuthRequest, res: Response) => {
+  app.put("/api/items/:id/suppliers", authMiddleware, adminOnly, async (req: AuthRequest, res: Response) => {
     try {
-      const { itemId, page = "1", pageSize = "20" } = req.query as Record<string, string>;
-      const filter: any = {};
-      if (itemId) filter.itemId = itemId;
+      const parsed = itemSuppliersSchema.safeParse(req.body);
+      if (!parsed.success) return fail(res, 400, "Validation failed", Object.fromEntries(parsed.error.errors.map((e) => [e.path.join("."), e.message])));
 
-      const skip = (parseInt(page) - 1) * parseInt(pageSize);
-      const [logs, total] = await Promise.all([
-        InventoryLog.find(filter).sort({ createdAt: -1 }).skip(skip).limit(parseInt(pageSize)),
-        InventoryLog.countDocuments(filter),
-      ]);
-      return ok(res, { logs, total });
+      const item = await Item.findById(req.params.id);
+      if (!item) return fail(res, 404, "Item not found");
+      const ids = parsed.data.suppliers.map((s) => s.supplierId);
+      if (await Supplier.countDocuments({ _id: { $in: ids } }) !== ids.length) return fail(res, 400, "Supplier not found");
+      item.set("suppliers", parsed.data.suppliers);
+      await item.save();
+      await logAction("ITEM_SUPPLIERS_UPDATED", req.user!.username, item.itemName, { suppliers: parsed.data.suppliers });
+      return ok(res, item);
     } catch (err: any) {
       return fail(res, 500, err.message);
     }
   });
 
-  app.post("/api/inventory-logs", authMiddleware, async (req: AuthRequest, res: Response) => {
-    try {
-      const parsed = inventoryLogSchema.safeParse(req.body);
-      if (!parsed.success) return fail(res, 400, "Validation failed");
+  // ─── SUPPLIERS ──────────────────────────────────────────
+  // Another supplier whose name matches once case, punctuation, legal suffixes
+  // and a typo are ignored.
+  async function similarSupplier(name: string, excludeId?: string) {
+    const key = supplierNameKey(name);
+    const suppliers = await Supplier.find(excludeId ? { _id: { $ne: excludeId } } : {}).select("name nameKey");
+    return suppliers.find((s) => sameSupplierKey(s.nameKey, key));
+  }
 
-      const item = await Item.findById(parsed.data.itemId);
-      if (!item) return fail(res, 404, "Item not found");
+  app.get("/api/suppliers", authMiddleware, async (_req: AuthRequest, res: Response) => {
+    try {
+      const [suppliers, counts] = await Promise.all([
+        Supplier.find().sort({ name: 1 }).lean(),
+        Item.aggregate([{ $unwind: "$suppliers" }, { $group: { _id: "$suppliers.supplierId", count: { $sum: 1 } } }]),
+      ]);
+      const countMap = new Map(counts.map((c) => [c._id.toString(), c.count]));
+      return ok(res, suppliers.map((s) => ({ ...s, itemCount: countMap.get(s._id.toString()) || 0 })));
+    } catch (err: any) {
+      return fail(res, 500, err.message);
+    }
+  });
 
-      const quantityChange = parsed.data.type === "deduction" ? -Math.abs(parsed.data.quantity) : parsed.data.quantity;
+  app.get("/api/suppliers/:id", authMiddleware, adminOnly, async (req: AuthRequest, res: Response) => {
+    try {
+      const supplier = await Supplier.findById(req.params.id).lean();
+      if (!supplier) return fail(res, 404, "Supplier not found");
+      const items = await Item.find({ "suppliers.supplierId": supplier._id }).sort({ itemName: 1 }).select("itemName category suppliers").lean();
+      return ok(res, {
+        supplier,
+        items: items.map((item) => {
+          const index = item.suppliers.findIndex((s) => s.supplierId.equals(supplier._id));
+          const { supplierSku, lastCost } = item.suppliers[index];
+          return { _id: item._id, itemName: item.itemName, category: item.category, supplierSku, lastCost, preferred: index === 0 };
+        }),
+      });
+    } catch (err: any) {
+      return fail(res, 500, err.message);
+    }
+  });
+
+  app.post("/api/suppliers", authMiddleware, adminOnly, async (req: AuthRequest, res: Response) => {
+    try {
+      const parsed = supplierSchema.safeParse(req.body);
+      if (!parsed.success) return fail(res, 400, "Validation failed", Object.fromEntries(parsed.error.errors.map((e) => [e.path.join("."), e.message])));
+
+      const duplicate = await similarSupplier(parsed.data.name);
+      if (duplicate) return fail(res, 409, `Supplier "${duplicate.name}" already exists`);
+      const supplier = await Supplier.create({ ...parsed.data, name: tidySupplierName(parsed.data.name), nameKey: supplierNameKey(parsed.data.name) });
+      await logAction("SUPPLIER_CREATED", req.user!.username, supplier.name);
+      return ok(res, supplier);
+    } catch (err: any) {
+      return fail(res, 500, err.message);
+    }
+  });
+
+  app.patch("/api/suppliers/:id", authMiddleware, adminOnly, async (req: AuthRequest, res: Response) => {
+    try {
+      const parsed = supplierSchema.safeParse(req.body);
+      if (!parsed.success) return fail(res, 400, "Validation failed", Object.fromEntries(parsed.error.errors.map((e) => [e.path.join("."), e.message])));
+
+      const supplier = await Supplier.findById(req.params.id);
+      if (!supplier) return fail(res, 404, "Supplier not found");
+      const duplicate = await similarSupplier(parsed.data.name, supplier._id.toString());
+      if (duplicate) return fail(res, 409, `Supplier "${duplicate.name}" already exists`);
+      supplier.set({ ...parsed.data, name: tidySupplierName(parsed.data.name), nameKey: supplierNameKey(parsed.data.name) });
+      await supplier.save();
+      await logAction("SUPPLIER_UPDATED", req.user!.username, supplier.name, parsed.data);
+      return ok(res, supplier);
+    } catch (err: any) {
+      return fail(res, 500, err.message);
+    }
+  });
+
+  app.delete("/api/suppliers/:id", authMiddleware, adminOnly, async (req: AuthRequest, res: Response) => {
+    try {
+      const supplier = await Supplier.findById(req.params.id);
+      if (!supplier) return fail(res, 404, "Supplier not found");
+      const linked = await Item.countDocuments({ "suppliers.supplierId": supplier._id });
+      if (linked > 0) return fail(res, 409, `Supplier is linked to ${linked} item(s); mark it inactive instead`);
+      await supplier.deleteOne();
+      await logAction("SUPPLIER_DELETED", req.user!.username, supplier.name);
+      return ok(res, { message: "Supplier deleted" });
+    } catch (err: any) {
+      return fail(res, 500, err.message);
+    }
+  });
+
+  // ─── PURCHASE ORDERS ────────────────────────────────────
+  const parseExpectedDate = (value: string) => {
+    if (!value) return undefined;
+    const date = new Date(value);
+    return isNaN(date.getTime()) ? null : date;
+  };
+
+  // Lines carry the item name and this supplier's SKU as they were when ordered.
+  async function purchaseOrderLines(supplierId: string, lines: PurchaseOrderInput["items"]) {
+    const items = await Item.find({ _id: { $in: lines.map((l) => l.itemId) } }).select("itemName suppliers").lean();
+    if (items.length !== lines.length) return null;
+    return lines.map((line) => {
+      const item = items.find((i) => i._id.toString() === line.itemId)!;
+      const link = item.suppliers.find((s) => s.supplierId.toString() === supplierId);
+      return { itemId: item._id, itemName: item.itemName, supplierSku: link?.supplierSku || "", quantity: line.quantity, receivedQuantity: 0, unitCost: line.unitCost };
+    });
+  }
+
+  const purchaseOrderTotal = (lines: Array<{ quantity: number; unitCost: number }>) =>
+    Math.round(lines.reduce((sum, l) => sum + l.quantity * l.unitCost, 0) * 100) / 100;
+
+  app.get("/api/purchase-orders", authMiddleware, adminOnly, async (req: AuthRequest, res: Response) => {
+    try {
+      const { status, supplierId, search } = req.query as Record<string, string>;
+      const filter: any = {};
+      if (status) filter.status = status;
+      if (supplierId) filter.supplierId = supplierId;
+      if (search) filter.$or = [
+        { poNumber: { $regex: escapeRegex(search), $options: "i" } },
+        { supplierName: { $regex: escapeRegex(search), $options: "i" } },
+      ];
+      const purchaseOrders = await PurchaseOrder.find(filter).sort({ createdAt: -1 });
+      return ok(res, purchaseOrders);
+    } catch (err: any) {
+      return fail(res, 500, err.message);
+    }
+  });
+
+  app.get("/api/purchase-orders/:id", authMiddleware, adminOnly, async (req: AuthRequest, res: Response) => {
+    try {
+      const po = await PurchaseOrder.findById(req.params.id);
+      if (!po) return fail(res, 404, "Purchase order not found");
+      return ok(res, po);
+    } catch (err: any) {
+      return fail(res, 500, err.message);
+    }
+  });
+
+  app.post("/api/purchase-orders", authMiddleware, adminOnly, async (req: AuthRequest, res: Response) => {
+    try {
+      const parsed = purchaseOrderSchema.safeParse(req.body);
+      if (!parsed.success) return fail(res, 400, "Validation failed", Object.fromEntries(parsed.error.errors.map((e) => [e.path.join("."), e.message])));
+      const expectedDate = parseExpectedDate(parsed.data.expectedDate);
+      if (expectedDate === null) return fail(res, 400, "Invalid expected date");
+
+      const supplier = await Supplier.findById(parsed.data.supplierId);
+      if (!supplier) return fail(res, 404, "Supplier not found");
+      if (!supplier.isActive) return fail(res, 400, "Supplier is inactive");
+      const lines = await purchaseOrderLines(parsed.data.supplierId, parsed.data.items);
+      if (!lines) return fail(res, 404, "Item not found");
+
+      const seq = await nextSequence("purchaseOrder");
+      const po = await PurchaseOrder.create({
+        poNumber: `PO-${new Date().getFullYear()}-${String(seq).padStart(5, "0")}`,
+        supplierId: supplier._id,
+        supplierName: supplier.name,
+        items: lines,
+        totalAmount: purchaseOrderTotal(lines),
+        status: "draft",
+        expectedDate,
+        notes: parsed.data.notes,
+        createdBy: req.user!.username,
+      });
+
+      await logAction("PURCHASE_ORDER_CREATED", req.user!.username, po.poNumber, { supplier: po.supplierName, totalAmount: po.totalAmount });
+      emitEvent("PURCHASE_ORDER_UPDATED", { purchaseOrderId: po._id });
+      return ok(res, po);
+    } catch (err: any) {
+      return fail(res, 500, err.message);
+    }
+  });
+
+  app.put("/api/purchase-orders/:id", authMiddleware, adminOnly, async (req: AuthRequest, res: Response) => {
+    try {
+      const parsed = purchaseOrderSchema.safeParse(req.body);
+      if (!parsed.success) return fail(res, 400, "Validation failed", Object.fromEntries(parsed.error.errors.map((e) => [e.path.join("."), e.message])));
+      const expectedDate = parseExpectedDate(parsed.data.expectedDate);
+      if (expectedDate === null) return fail(res, 400, "Invalid expected date");
+
+      const po = await PurchaseOrder.findById(req.params.id);
+      if (!po) return fail(res, 404, "Purchase order not found");
+      if (po.status !== "draft") return fail(res, 400, "Only draft purchase orders can be edited");
+      const supplier = await Supplier.findById(parsed.data.supplierId);
+      if (!supplier) return fail(res, 404, "Supplier not found");
+      if (!supplier.isActive && !supplier._id.equals(po.supplierId)) return fail(res, 400, "Supplier is inactive");
+      const lines = await purchaseOrderLines(parsed.data.supplierId, parsed.data.items);
+      if (!lines) return fail(res, 404, "Item not found");
+
+      po.set({
+        supplierId: supplier._id,
+        supplierName: supplier.name,
+        items: lines,
+        totalAmount: purchaseOrderTotal(lines),
+        expectedDate,
+        notes: parsed.data.notes,
+      });
+      await po.save();
+
+      await logAction("PURCHASE_ORDER_UPDATED", req.user!.username, po.poNumber, { supplier: po.supplierName, totalAmount: po.totalAmount });
+      emitEvent("PURCHASE_ORDER_UPDATED", { purchaseOrderId: po._id });
+      return ok(res, po);
+    } catch (err: any) {
+      return fail(res, 500, err.message);
+    }
+  });
+
+  app.delete("/api/purchase-orders/:id", authMiddleware, adminOnly, async (req: AuthRequest, res: Response) => {
+    try {
+      const po = await PurchaseOrder.findById(req.params.id);
+      if (!po) return fail(res, 404, "Purchase order not found");
+      if (po.status !== "draft") return fail(res, 400, "Only draft purchase orders can be deleted");
+      await po.deleteOne();
+      await logAction("PURCHASE_ORDER_DELETED", req.user!.username, po.poNumber);
+      emitEvent("PURCHASE_ORDER_UPDATED", { purchaseOrderId: po._id });
+      return ok(res, { message: "Purchase order deleted" });
+    } catch (err: any) {
+      return fail(res, 500, err.message);
+    }
+  });
+
+  app.post("/api/purchase-orders/:id/send", authMiddleware, adminOnly, async (req: AuthRequest, res: Response) => {
+    try {
+      const po = await PurchaseOrder.findById(req.params.id);
+      if (!po) return fail(res, 404, "Purchase order not found");
+      if (po.status !== "draft") return fail(res, 400, "Only draft purchase orders can be marked as sent");
+
+      po.status = "sent";
+      po.sentAt = new Date();
+      await po.save();
+
+      await logAction("PURCHASE_ORDER_SENT", req.user!.username, po.poNumber, { supplier: po.supplierName });
+      emitEvent("PURCHASE_ORDER_UPDATED", { purchaseOrderId: po._id });
+      return ok(res, po);
+    } catch (err: any) {
+      return fail(res, 500, err.message);
+    }
+  });
+
+  // Goods arrive as FIFO batches at the cost actually charged, and the amount is
+  // owed to the supplier until paid: Inventory debit, Accounts Payable credit.
+  app.post("/api/purchase-orders/:id/receive", authMiddleware, adminOnly, async (req: AuthRequest, res: Response) => {
+    try {
+      const parsed = receivePurchaseOrderSchema.safeParse(req.body);
+      if (!parsed.success) return fail(res, 400, "Validation failed", Object.fromEntries(parsed.error.errors.map((e) => [e.path.join("."), e.message])));
+
+      const actor = req.user!.username;
+      const received = parsed.data.lines.filter((l) => l.quantity > 0);
+      const outcome = await runInTransaction(async (session) => {
+        const po = await PurchaseOrder.findById(req.params.id).session(session);
+        if (!po) return reject(404, "Purchase order not found");
+        if (po.status === "draft") return reject(409, "Mark the purchase order as sent before receiving against it");
+        if (po.status === "received") return reject(409, "Purchase order is already fully received");
+        for (const line of received) {
+          const poLine = po.items.find((i) => i.itemId.toString() === line.itemId);
+          if (!poLine) return reject(400, "Item is not on this purchase order");
+          const outstanding = poLine.quantity - poLine.receivedQuantity;
+          if (line.quantity > outstanding) return reject(400, `Only ${outstanding} of ${poLine.itemName} left to receive`);
+        }
+        const items = await Item.find({ _id: { $in: received.map((l) => l.itemId) } }).session(session);
+        if (items.length !== received.length) return reject(404, "Item not found");
+
+        const receivedAt = new Date();
+        const reason = `Received on ${po.poNumber}${parsed.data.reference ? ` (${parsed.data.reference})` : ""}`;
+        const lines = [];
+        for (const line of received) {
+          const poLine = po.items.find((i) => i.itemId.toString() === line.itemId)!;
+          const item = items.find((i) => i._id.toString() === line.itemId)!;
+          const unitCost = Math.round(line.unitCost * 100) / 100;
+          poLine.receivedQuantity += line.quantity;
+
+          item.currentQuantity += line.quantity;
+          item.costPrice = unitCost;
+          const link = item.suppliers.find((s) => s.supplierId.equals(po.supplierId));
+          if (link) link.lastCost = unitCost;
+          else item.suppliers.push({ supplierId: po.supplierId, supplierSku: poLine.supplierSku, lastCost: unitCost });
+          await item.save({ session });
+
+          await InventoryBatch.create([{ itemId: item._id, quantity: line.quantity, remainingQuantity: line.quantity, unitCost, source: "purchase-order" }], { session });
+          await InventoryLog.create([{ itemId: item._id, itemName: item.itemName, type: "restock", quantity: line.quantity, reason, actor }], { session });
+          lines.push({ itemId: item._id, itemName: item.itemName, quantity: line.quantity, unitCost });
+        }
+
+        const amount = purchaseOrderTotal(lines);
+        po.receipts.push({ reference: parsed.data.reference, lines, amount, receivedBy: actor, receivedAt });
+        po.receivedAmount = Math.round((po.receivedAmount + amount) * 100) / 100;
+        const complete = po.items.every((i) => i.receivedQuantity >= i.quantity);
+        po.status = complete ? "received" : "partially_received";
+        if (complete) po.receivedAt = receivedAt;
+        await po.save({ session });
+
+        if (amount > 0) {
+          const ledgerRef = { referenceType: "purchase_order", referenceId: po._id.toString(), actor };
+          await GeneralLedgerEntry.create([
+            { date: receivedAt, accountName: "Inventory", debit: amount, credit: 0, description: `Goods received on ${po.poNumber} from ${po.supplierName}`, ...ledgerRef },
+            { date: receivedAt, accountName: "Accounts Payable", debit: 0, credit: amount, description: `Owed to ${po.supplierName} for ${po.poNumber}${parsed.data.reference ? ` (${parsed.data.reference})` : ""}`, ...ledgerRef },
+          ], { session, ordered: true });
+        }
+        return { ok: true as const, po, lines, amount };
+      });
+      if (!outcome.ok) return failTransition(res, outcome);
+      const { po, lines, amount } = outcome;
+
+      await logAction("PURCHASE_ORDER_RECEIVED", actor, po.poNumber, { reference: parsed.data.reference, amount, lines: lines.map((l) => ({ itemName: l.itemName, quantity: l.quantity, unitCost: l.unitCost })) });
+      emitEvent("PURCHASE_ORDER_UPDATED", { purchaseOrderId: po._id });
+      emitEvent("INVENTORY_LOG_CREATED");
+      if (amount > 0) emitEvent("LEDGER_POSTED");
+      for (const line of lines) await fulfillBackorders(line.itemId.toString(), actor);
+      return ok(res, po);
+    } catch (err: any) {
+      return fail(res, 500, err.message);
+    }
+  });
+
+  app.get("/api/purchase-orders/:id/print.pdf", authMiddleware, adminOnly, async (req: AuthRequest, res: Response) => {
+    try {
+      const po = await PurchaseOrder.findById(req.params.id).lean();
+      if (!po) return fail(res, 404, "Purchase order not found");
+      const [settings, supplier] = await Promise.all([Settings.findOne(), Supplier.findById(po.supplierId).lean()]);
+      const pdf = renderPurchaseOrderPdf(
+        companyProfile(settings),
+        po,
+        supplier,
+        { documentNumber: po.poNumber, issuedAt: po.sentAt || po.createdAt, reprint: false, printedBy: req.user!.username }
+      );
+
+      await logAction("PURCHASE_ORDER_PRINTED", req.user!.username, po.poNumber);
+      return sendPdf(res, `${po.poNumber}.pdf`, pdf);
+    } catch (err: any) {
+      return fail(res, 500, err.message);
+    }
+  });
+
+  // ─── INVENTORY LOGS ─────────────────────────────────────
+  app.get("/api/inventory-logs", authMiddleware, async (req: AuthRequest, res: Response) => {
+    try {
+      const { itemId, page = "1", pageSize = "20" } = req.query as Record<string, string>;
+      const filter: any = {};
+      if (itemId) filter.itemId = itemId;
+
+      const skip = (parseInt(page) - 1) * parseInt(pageSize);
+      const [logs, total] = await Promise.all([
+        InventoryLog.find(filter).sort({ createdAt: -1 }).skip(skip).limit(parseInt(pageSize)),
+        InventoryLog.countDocuments(filter),
+      ]);
+      return ok(res, { logs, total });
+    } catch (err: any) {
+      return fail(res, 500, err.message);
+    }
+  });
+
+  app.post("/api/inventory-logs", authMiddleware, async (req: AuthRequest, res: Response) => {
+    try {
+      const parsed = inventoryLogSchema.safeParse(req.body);
+      if (!parsed.success) return fail(res, 400, "Validation failed");
+
+      const item = await Item.findById(parsed.data.itemId);
+      if (!item) return fail(res, 404, "Item not found");
+
+      const quantityChange = parsed.data.type === "deduction" ? -Math.abs(parsed.data.quantity) : parsed.data.quantity;
+
+      // Units reserved for open orders cannot be deducted by hand.
+      const available = item.currentQuantity - (item.reservedQuantity || 0);
+      if (quantityChange < 0 && available + quantityChange < 0) {
+        return fail(res, 400, `Insufficient available stock. On hand: ${item.currentQuantity}, reserved: ${item.reservedQuantity || 0}`);
+      }
+
+      const { unitCost, ...logFields } = parsed.data;
+      const restockCost = parsed.data.type === "restock" ? batchCost(item, unitCost) : null;
+      item.currentQuantity += quantityChange;
+      if (restockCost && unitCost !== undefined) item.costPrice = unitCost;
+      await item.save();
+
+      if (restockCost) {
+        await InventoryBatch.create({
+          itemId: item._id,
+          quantity: Math.abs(parsed.data.quantity),
+          remainingQuantity: Math.abs(parsed.data.quantity),
+          ...restockCost,
+          source: "restock",
+        });
+      } else if (parsed.data.type === "deduction") {
+        await deductFIFO(item._id.toString(), Math.abs(parsed.data.quantity));
+      }
+
+      const logEntry = await InventoryLog.create({
+        ...logFields,
+        quantity: quantityChange,
+        itemName: item.itemName,
+        actor: req.user!.username,
+      });
+
+      await logAction("INVENTORY_LOG_CREATED", req.user!.username, item.itemName, { type: parsed.data.type, quantity: quantityChange, ...(restockCost ? { unitCost: restockCost.unitCost } : {}) });
+      emitEvent("INVENTORY_LOG_CREATED", { itemId: item._id });
+      if (quantityChange > 0) await fulfillBackorders(item._id.toString(), req.user!.username);
+      return ok(res, logEntry);
+    } catch (err: any) {
+      return fail(res, 500, err.message);
+    }
+  });
+
+  // ─── INVENTORY COSTS ────────────────────────────────────
+  // Items with stock batches still awaiting a real cost, or with no cost price at all.
+  app.get("/api/inventory/cost-review", authMiddleware, adminOnly, async (_req: AuthRequest, res: Response) => {
+    try {
+      const estimated = await InventoryBatch.aggregate([
+        { $match: { costEstimated: true } },
+        { $group: { _id: "$itemId", estimatedBatches: { $sum: 1 }, estimatedQuantity: { $sum: "$remainingQuantity" } } },
+      ]);
+      const byItem = new Map(estimated.map((e) => [e._id.toString(), e]));
+      const items = await Item.find({ $or: [{ _id: { $in: estimated.map((e) => e._id) } }, { costPrice: { $in: [0, null] } }] })
+        .sort({ itemName: 1 })
+        .select("itemName category unitPrice costPrice")
+        .lean();
+      return ok(res, items.map((item) => ({
+        _id: item._id,
+        itemName: item.itemName,
+        category: item.category,
+        unitPrice: item.unitPrice,
+        costPrice: item.costPrice || 0,
+        estimatedBatches: byItem.get(item._id.toString())?.estimatedBatches || 0,
+        estimatedQuantity: byItem.get(item._id.toString())?.estimatedQuantity || 0,
+      })));
+    } catch (err: any) {
+      return fail(res, 500, err.message);
+    }
+  });
+
+  // The entered cost becomes the item's cost price and replaces the estimate on its
+  // flagged batches, so stock sold from now on is costed correctly. COGS already
+  // posted for earlier sales is left as it was.
+  app.post("/api/inventory/cost-review", authMiddleware, adminOnly, async (req: AuthRequest, res: Response) => {
+    try {
+      const parsed = inventoryCostReviewSchema.safeParse(req.body);
+      if (!parsed.success) return fail(res, 400, "Validation failed", Object.fromEntries(parsed.error.errors.map((e) => [e.path.join("."), e.message])));
+
+      const items = await Item.find({ _id: { $in: parsed.data.items.map((i) => i.itemId) } });
+      if (items.length !== new Set(parsed.data.items.map((i) => i.itemId)).size) return fail(res, 404, "Item not found");
+
+      const updated = [];
+      for (const entry of parsed.data.items) {
+        const item = items.find((i) => i._id.toString() === entry.itemId)!;
+        const unitCost = Math.round(entry.unitCost * 100) / 100;
+        const batches = await InventoryBatch.updateMany({ itemId: item._id, costEstimated: true }, { $set: { unitCost, costEstimated: false } });
+        item.costPrice = unitCost;
+        await item.save();
+        updated.push({ itemName: item.itemName, unitCost, batches: batches.modifiedCount });
+      }
+
+      await logAction("INVENTORY_COSTS_ENTERED", req.user!.username, "", { items: updated });
+      emitEvent("INVENTORY_LOG_CREATED");
+      return ok(res, { updated });
+    } catch (err: any) {
+      return fail(res, 500, err.message);
+    }
+  });
+
+  // ─── CUSTOMERS ──────────────────────────────────────────
+  app.get("/api/customers", authMiddleware, async (req: AuthRequest, res: Response) => {
+    try {
+      const { search } = req.query as Record<string, string>;
+      const filter: any = {};
+      if (search) filter.name = { $regex: search, $options: "i" };
+      const customers = await Customer.find(filter).sort({ name: 1 });
+      return ok(res, customers);
+    } catch (err: any) {
+      return fail(res, 500, err.message);
+    }
+  });
+
+  app.get("/api/customers/:id", authMiddleware, async (req: AuthRequest, res: Response) => {
+    try {
+      const customer = await Customer.findById(req.params.id);
+      if (!customer) return fail(res, 404, "Customer not found");
+      const [credits, orders, exposure] = await Promise.all([
+        CustomerCreditEntry.find({ customerId: customer._id }).sort({ createdAt: -1 }),
+        Order.find({ customerId: customer._id }).sort({ createdAt: -1 }).limit(50).select("trackingNumber currentStatus totalAmount balanceDue onAccount dueDate createdAt"),
+        customerExposure(customer._id),
+      ]);
+      return ok(res, { customer, credits, orders, exposure });
+    } catch (err: any) {
+      return fail(res, 500, err.message);
+    }
+  });
+
+  app.post("/api/customers", authMiddleware, async (req: AuthRequest, res: Response) => {
+    try {
+      const parsed = createCustomerSchema.safeParse(req.body);
+      if (!parsed.success) return fail(res, 400, "Validation failed");
+      const customer = await Customer.create(parsed.data);
+      indexCustomer(customer);
+      return ok(res, customer);
+    } catch (err: any) {
+      return fail(res, 500, err.message);
+    }
+  });
+
+  app.patch("/api/customers/:id/credit-terms", authMiddleware, adminOnly, async (req: AuthRequest, res: Response) => {
+    try {
+      const parsed = updateCustomerTermsSchema.safeParse(req.body);
+      if (!parsed.success) return fail(res, 400, "Validation failed", Object.fromEntries(parsed.error.errors.map((e) => [e.path.join("."), e.message])));
+
+      const customer = await Customer.findById(req.params.id);
+      if (!customer) return fail(res, 404, "Customer not found");
+      const before = { paymentTermsDays: customer.paymentTermsDays, creditLimit: customer.creditLimit };
+      customer.paymentTermsDays = parsed.data.paymentTermsDays;
+      customer.creditLimit = parsed.data.creditLimit;
+      await customer.save();
+
+      await logAction("CUSTOMER_CREDIT_TERMS_CHANGED", req.user!.username, customer.name, { before, after: parsed.data });
+      return ok(res, customer);
+    } catch (err: any) {
+      return fail(res, 500, err.message);
+    }
+  });
+
+  // ─── ORDERS ─────────────────────────────────────────────
+  app.get("/api/orders", authMiddleware, async (req: AuthRequest, res: Response) => {
+    try {
+      const { status, search, page = "1", pageSize = "20" } = req.query as Record<string, string>;
+      const filter: any = {};
+      if (status) filter.currentStatus = status;
+      if (search) filter.$or = [
+        { trackingNumber: { $regex: search, $options: "i" } },
+        { customerName: { $regex: search, $options: "i" } },
+      ];
+
+      const skip = (parseInt(page) - 1) * parseInt(pageSize);
+      const [orders, total] = await Promise.all([
+        Order.find(filter).sort({ createdAt: -1 }).skip(skip).limit(parseInt(pageSize)),
+        Order.countDocuments(filter),
+      ]);
+      return ok(res, { orders: orders.map((o) => orderForRole(o, req.user!.role)), total, page: parseInt(page), pageSize: parseInt(pageSize) });
+    } catch (err: any) {
+      return fail(res, 500, err.message);
+    }
+  });
+
+  app.get("/api/orders/:id", authMiddleware, async (req: AuthRequest, res: Response) => {
+    try {
+      const order = await Order.findById(req.params.id);
+      if (!order) return fail(res, 404, "Order not found");
+      const [payments, returns, voidRequests, customer] = await Promise.all([
+        BillingPayment.find({ orderId: order._id }).sort({ createdAt: -1 }),
+        OrderReturn.find({ orderId: order._id }).sort({ createdAt: -1 }),
+        PaymentVoidRequest.find({ orderId: order._id }).sort({ createdAt: -1 }),
+        orderCustomer(order, null),
+      ]);
+      const credits = customer ? await CustomerCreditEntry.find({ customerId: customer._id }).sort({ createdAt: -1 }).limit(10) : [];
+      const role = req.user!.role;
+      return ok(res, { order: orderForRole(order, role), payments, returns: returns.map((r) => returnForRole(r, role)), voidRequests, customer, credits });
+    } catch (err: any) {
+      return fail(res, 500, err.message);
+    }
+  });
+
+  app.post("/api/orders", authMiddleware, idempotent, async (req: AuthRequest, res: Response) => {
+    try {
+      const parsed = createOrderSchema.safeParse(req.body);
+      if (!parsed.success) return fail(res, 400, "Validation failed", Object.fromEntries(parsed.error.errors.map((e) => [e.path.join("."), e.message])));
+      if (!parsed.data.items || parsed.data.items.length === 0) return fail(res, 400, "At least one item is required");
+
+      const result = await createOrder(parsed.data, req.user!.username, undefined, req.user!.role === "ADMIN");
+      if (!result.ok) return fail(res, result.status, result.error);
+      return ok(res, orderForRole(result.order, req.user!.role));
+    } catch (err: any) {
+      return fail(res, 500, err.message);
+    }
+  });
+
+  app.post("/api/orders/:id/amend", authMiddleware, async (req: AuthRequest, res: Response) => {
+    try {
+      const parsed = amendOrderSchema.safeParse(req.body);
+      if (!parsed.success) return fail(res, 400, "Validation failed", Object.fromEntries(parsed.error.errors.map((e) => [e.path.join("."), e.message])));
+
+      const actor = req.user!.username;
+      // The order's holds are released and taken again in one transaction; putting
+      // the old holds back on a rejected amendment cannot fail on the same snapshot.
+      const outcome = await runInTransaction(async (session) => {
+        const order = await Order.findById(req.params.id).session(session);
+        if (!order) return reject(404, "Order not found");
+        const allowed = checkOrderAction(order, "amend");
+        if (!allowed.ok) return allowed;
+
+        const previousLines = order.items.map((i) => ({ itemId: i.itemId, itemName: i.itemName, quantity: i.quantity, reservedQuantity: i.reservedQuantity }));
+        const restorePrevious = () => reserveStock(previousLines.map((l) => ({ ...l, quantity: l.reservedQuantity || 0 })), true, session);
+        await releaseStock(previousLines, session);
+        const reservation = await reserveStock(parsed.data.items, parsed.data.acknowledgeShortage, session);
+        if (!reservation.ok) {
+          await restorePrevious();
+          return reject(409, `Insufficient available stock: ${reservation.shortages.join("; ")}`);
+        }
+
+        const discount = parsed.data.discount === undefined
+          ? (order.discountType && order.discountValue ? { type: order.discountType as "percent" | "fixed", value: order.discountValue } : undefined)
+          : parsed.data.discount ?? undefined;
+        const vatTreatment = parsed.data.vatTreatment ?? (order.vatTreatment as VatTreatment) ?? "exclusive";
+        const totals = await priceOrder(parsed.data.items, discount, vatTreatment);
+        const items = parsed.data.items.map((i, idx) => ({
+          ...i,
+          discountAmount: totals.lines[idx].discountAmount,
+          lineTotal: totals.lines[idx].lineTotal,
+          reservedQuantity: reservation.reserved[idx],
+        }));
+        const totalAmount = totals.totalAmount;
+
+        const changes = diffOrderItems(
+          order.items.map((i) => ({ itemId: i.itemId, itemName: i.itemName, quantity: i.quantity, unitPrice: i.unitPrice, discountType: i.discountType, discountValue: i.discountValue })),
+          items
+        );
+        if ((discount?.value || 0) !== (order.discountValue || 0) || (discount && discount.type !== order.discountType)) {
+          changes.push({
+            field: "discount",
+            before: order.discountValue ? { type: order.discountType, value: order.discountValue } : null,
+            after: discount?.value ? discount : null,
+          });
+        }
+        if (vatTreatment !== order.vatTreatment) changes.push({ field: "vatTreatment", before: order.vatTreatment, after: vatTreatment });
+        if (totalAmount !== order.totalAmount) changes.push({ field: "totalAmount", before: order.totalAmount, after: totalAmount });
+
+        let nextAddress = order.address;
+        if (parsed.data.address !== undefined) {
+          const beforeAddress = hasDeliveryAddress(order.address) ? pickAddress(order.address) : null;
+          const afterAddress = hasDeliveryAddress(parsed.data.address) ? pickAddress(parsed.data.address) : null;
+          if (JSON.stringify(beforeAddress) !== JSON.stringify(afterAddress)) {
+            changes.push({ field: "address", before: beforeAddress, after: afterAddress });
+          }
+          nextAddress = afterAddress || undefined;
+        }
+        if (parsed.data.notes !== undefined && parsed.data.notes !== order.notes) {
+          changes.push({ field: "notes", before: order.notes, after: parsed.data.notes });
+        }
+        if (changes.length === 0) {
+          await releaseStock(items, session);
+          await restorePrevious();
+          return reject(400, "No changes to amend");
+        }
+
+        order.set("items", items);
+        order.subtotal = totals.subtotal;
+        order.discountType = discount?.type;
+        order.discountValue = discount?.value ?? 0;
+        order.discountAmount = totals.discountAmount;
+        order.vatTreatment = vatTreatment;
+        order.vatableSales = totals.vatableSales;
+        order.vatAmount = totals.vatAmount;
+        order.totalAmount = totalAmount;
+        order.balanceDue = Math.max(0, totalAmount - (order.amountPaid || 0));
+        order.set("address", nextAddress);
+        if (parsed.data.notes !== undefined) order.notes = parsed.data.notes;
+        order.amendments.push({ timestamp: new Date(), actor, reason: parsed.data.reason, changes });
+
+        const summary = changes.map((c) => c.field).join(", ");
+        annotateOrder(order, actor, `Order amended (${summary})${parsed.data.reason ? `: ${parsed.data.reason}` : ""}`);
+        await order.save();
+        return { ok: true as const, order, changes };
+      });
+      if (!outcome.ok) return failTransition(res, outcome);
+      const { order, changes } = outcome;
+
+      reindexOrder(order);
+      await logAction("ORDER_AMENDED", actor, order.trackingNumber, { changes, reason: parsed.data.reason });
+      emitEvent("ORDER_AMENDED", { orderId: order._id });
+      return ok(res, orderForRole(order, req.user!.role));
+    } catch (err: any) {
+      return fail(res, 500, err.message);
+    }
+  });
+
+  // ─── BILLING & PAYMENT ─────────────────────────────────
+  app.get("/api/billing", authMiddleware, async (req: AuthRequest, res: Response) => {
+    try {
+      const parsed = billingQuerySchema.safeParse(req.query);
+      if (!parsed.success) return fail(res, 400, "Validation failed", Object.fromEntries(parsed.error.errors.map((e) => [e.path.join("."), e.message])));
+      const query = parsed.data;
+
+      const filter = await billingFilter(query);
+      if (!filter) return ok(res, { payments: [], total: 0, totals: { count: 0, voidedCount: 0, amountPaid: 0, creditedAmount: 0 } });
+      const skip = (query.page - 1) * query.pageSize;
+      const sortDir = query.sortDir === "asc" ? 1 : -1;
+      const [payments, total, [sums]] = await Promise.all([
+        BillingPayment.find(filter).sort({ [query.sortBy]: sortDir, _id: sortDir }).skip(skip).limit(query.pageSize).lean(),
+        BillingPayment.countDocuments(filter),
+        BillingPayment.aggregate([
+          { $match: filter },
+          {
+            $group: {
+              _id: null,
+              voidedCount: { $sum: { $cond: ["$voided", 1, 0] } },
+              amountPaid: { $sum: { $cond: ["$voided", 0, "$amountPaid"] } },
+              creditedAmount: { $sum: { $cond: ["$voided", 0, "$creditedAmount"] } },
+            },
+          },
+        ]),
+      ]);
+      const orders = await Order.find({ _id: { $in: payments.map((p) => p.orderId) } }).select("trackingNumber").lean();
+      const orderMap = new Map(orders.map((o) => [o._id.toString(), o.trackingNumber]));
+      return ok(res, {
+        payments: payments.map((p) => ({ ...p, trackingNumber: orderMap.get(p.orderId.toString()) })),
+        total,
+        totals: {
+          count: total,
+          voidedCount: sums?.voidedCount || 0,
+          amountPaid: Math.round((sums?.amountPaid || 0) * 100) / 100,
+          creditedAmount: Math.round((sums?.creditedAmount || 0) * 100) / 100,
+        },
+      });
+    } catch (err: any) {
+      return fail(res, 500, err.message);
+    }
+  });
+
+  // Takes JSON, or multipart with the fields as a JSON "payload" and an optional "proof" file.
+  app.post("/api/billing/pay", authMiddleware, proofUpload.single("proof"), idempotent, async (req: AuthRequest, res: Response) => {
+    const discardUpload = () => {
+      if (req.file && fs.existsSync(req.file.path)) fs.unlinkSync(req.file.path);
+    };
+    try {
+      let body = req.body;
+      if (typeof req.body?.payload === "string") {
+        try { body = JSON.parse(req.body.payload); } catch { body = null; }
+      }
+      const parsed = logPaymentSchema.safeParse(body);
+      if (!parsed.success) {
+        discardUpload();
+        return fail(res, 400, "Validation failed", Object.fromEntries(parsed.error.errors.map((e) => [e.path.join("."), e.message])));
+      }
+
+      const actor = req.user!.username;
+      const details = paymentDetails(parsed.data);
+      const outcome = await runInTransaction(async (session) => {
+        const order = await Order.findById(parsed.data.orderId).session(session);
+        if (!order) return reject(404, "Order not found");
+        const allowed = checkOrderAction(order, "pay");
+        if (!allowed.ok) return allowed;
+
+        const duplicate = await findDuplicatePayment(details, session);
+        if (duplicate) return reject(409, duplicate);
+
+        const previouslyPaid = order.amountPaid || 0;
+        const balanceBefore = Math.max(0, order.totalAmount - (order.returnCredit || 0) - previouslyPaid);
+        const balanceAfter = Math.max(0, balanceBefore - parsed.data.amountPaid);
+        // Anything above the balance due goes to the customer's wallet instead of revenue.
+        const credited = Math.max(0, Math.round((parsed.data.amountPaid - balanceBefore) * 100) / 100);
+
+        const isStoreCredit = parsed.data.paymentMethod === PaymentMethod.STORE_CREDIT;
+        if (isStoreCredit) {
+          if (credited > 0) return reject(400, `Store credit cannot exceed the balance due of ${balanceBefore}`);
+          const customer = await orderCustomer(order, session);
+          if (!customer || customer.creditBalance < parsed.data.amountPaid) {
+            return reject(409, `Insufficient store credit (available ${customer?.creditBalance ?? 0})`);
+          }
+        }
+
+        order.amountPaid = previouslyPaid + parsed.data.amountPaid - credited;
+        order.balanceDue = balanceAfter;
+        let paymentNote = `Payment of ${parsed.data.amountPaid} received via ${parsed.data.paymentMethod}`;
+        if (credited > 0) paymentNote += `, ${credited} kept as store credit`;
+        const paymentContext: Record<string, any> = { amountPaid: parsed.data.amountPaid, previouslyPaid, balanceBefore, balanceAfter, credited };
+        // An order on account paid after release keeps its fulfilment status.
+        const afterRelease = !canPerform(order.currentStatus, "pay");
+        if (afterRelease) {
+          annotateOrder(order, actor, balanceAfter > 0 ? `${paymentNote}, balance due ${balanceAfter}` : `${paymentNote}, account settled`);
+        } else {
+          const moved = balanceAfter > 0
+            ? transitionOrder(order, "Partially Paid", { actor, note: `${paymentNote}, balance due ${balanceAfter}`, data: paymentContext })
+            : transitionOrder(order, "Paid", { actor, note: paymentNote, data: paymentContext });
+          if (!moved.ok) return moved;
+          if (balanceAfter <= 0) transitionOrder(order, "Pending Release", { actor, note: "Payment confirmed, awaiting release" });
+        }
+
+        // Touching the shift makes a payment racing the shift's close conflict and retry.
+        const shift = await CashierShift.findOneAndUpdate({ cashier: actor, status: "open" }, { $set: { lastPaymentAt: new Date() } }, { new: true, session });
+
+        const [payment] = await BillingPayment.create([{
+          orderId: parsed.data.orderId,
+          amountPaid: parsed.data.amountPaid,
+          proofNote: parsed.data.proofNote,
+          ...details,
+          paymentDate: parsed.data.paymentDate ? new Date(parsed.data.paymentDate) : new Date(),
+          loggedBy: actor,
+          balanceAfter,
+          creditedAmount: credited,
+          shiftId: shift?._id,
+          proofFilename: req.file?.filename || "",
+          verificationStatus: req.file ? "pending" : "none",
+        }], { session });
+        paymentContext.payment = payment;
+
+        const walletRef = { orderId: order._id, trackingNumber: order.trackingNumber, paymentId: payment._id, actor };
+        if (isStoreCredit) {
+          const used = await postCustomerCredit(order.customerId, -parsed.data.amountPaid, { ...walletRef, type: "applied", note: `Applied to order ${order.trackingNumber}` }, session);
+          if (!used) throw new Error("Insufficient store credit");
+        }
+        if (credited > 0) {
+          const customer = await orderCustomer(order, session, true);
+          await postCustomerCredit(customer!._id, credited, { ...walletRef, type: "overpayment", note: `Overpayment on order ${order.trackingNumber}` }, session);
+        }
+        if (afterRelease) {
+          await postPaymentLedger(order, paymentContext, actor);
+          afterCommit(session, () => {
+            emitEvent("PAYMENT_LOGGED", { orderId: order._id });
+            emitEvent("LEDGER_POSTED");
+          });
+        }
+        await commitOrder(order);
+        return { ok: true as const, order, payment, balanceAfter };
+      });
+      if (!outcome.ok) {
+        discardUpload();
+        return failTransition(res, outcome);
+      }
+      const { order, payment, balanceAfter } = outcome;
+
+      await logAction("PAYMENT_LOGGED", actor, order.trackingNumber, { amount: parsed.data.amountPaid, balanceDue: balanceAfter, creditedToWallet: payment.creditedAmount, proof: payment.proofFilename || undefined });
+      if (payment.verificationStatus === "pending") emitEvent("PAYMENT_VERIFICATION_PENDING", { orderId: order._id });
+      return ok(res, { payment, order: orderForRole(order, req.user!.role) });
+    } catch (err: any) {
+      discardUpload();
+      return fail(res, 500, err.message);
+    }
+  });
+
+  // ─── PAYMENT VERIFICATION ───────────────────────────────
+  // Payments logged with proof wait here until an admin checks them against the
+  // wallet or bank. Flagged payments stay listed until verified or voided.
+  app.get("/api/billing/verifications", authMiddleware, adminOnly, async (_req: AuthRequest, res: Response) => {
+    try {
+      const payments = await BillingPayment.find({ verificationStatus: { $in: ["pending", "flagged"] }, voided: { $ne: true } }).sort({ createdAt: -1 }).lean();
+      const orders = await Order.find({ _id: { $in: payments.map((p) => p.orderId) } }).select("trackingNumber").lean();
+      const orderMap = new Map(orders.map((o) => [o._id.toString(), o]));
+      return ok(res, payments.map((p) => ({ ...p, trackingNumber: orderMap.get(p.orderId.toString())?.trackingNumber })));
+    } catch (err: any) {
+      return fail(res, 500, err.message);
+    }
+  });
+
+  app.patch("/api/billing/payments/:id/verification", authMiddleware, adminOnly, async (req: AuthRequest, res: Response) => {
+    try {
+      const parsed = reviewPaymentVerificationSchema.safeParse(req.body);
+      if (!parsed.success) return fail(res, 400, "Validation failed", Object.fromEntries(parsed.error.errors.map((e) => [e.path.join("."), e.message])));
+
+      const payment = await BillingPayment.findById(req.params.id);
+      if (!payment) return fail(res, 404, "Payment not found");
+      if (payment.voided) return fail(res, 409, "Payment is voided");
+      const allowedFrom = parsed.data.action === "verify" ? ["pending", "flagged"] : ["pending"];
+      if (!allowedFrom.includes(payment.verificationStatus)) {
+        return fail(res, 409, payment.verificationStatus === "none" ? "Payment has no proof to review" : `Payment is already ${payment.verificationStatus}`);
+      }
+
+      const wasFlagged = payment.verificationStatus === "flagged";
+      payment.verificationStatus = parsed.data.action === "verify" ? "verified" : "flagged";
+      payment.verificationNote = parsed.data.note;
+      payment.verifiedBy = req.user!.username;
+      payment.verifiedAt = new Date();
+      await payment.save();
+
+      const order = await Order.findById(payment.orderId).select("trackingNumber").lean();
+      await logAction(
+        parsed.data.action === "flag" ? "PAYMENT_FLAGGED" : wasFlagged ? "PAYMENT_FLAG_RESOLVED" : "PAYMENT_VERIFIED",
+        req.user!.username,
+        order?.trackingNumber || "",
+        { amount: payment.amountPaid, reference: paymentReference(payment), note: parsed.data.note },
+      );
+      emitEvent("PAYMENT_VERIFICATION_REVIEWED", { orderId: payment.orderId });
+      return ok(res, payment);
+    } catch (err: any) {
+      return fail(res, 500, err.message);
+    }
+  });
+
+  // ─── PAYMENT VOIDS ──────────────────────────────────────
+  // Only the latest active payment may be voided, so reversing its ledger rows
+  // undoes exactly what it posted.
+  async function voidablePayment(paymentId: string, session?: ClientSession | null) {
+    const payment = await BillingPayment.findById(paymentId).session(session ?? null);
+    if (!payment) return reject(404, "Payment not found");
+    if (payment.voided) return reject(409, "Payment is already voided");
+    const order = await Order.findById(payment.orderId).session(session ?? null);
+    if (!order) return reject(404, "Order not found");
+    const allowed = checkOrderAction(order, "void");
+    if (!allowed.ok) return allowed;
+    const latest = await BillingPayment.findOne({ orderId: order._id, voided: { $ne: true } }).sort({ createdAt: -1 }).session(session ?? null);
+    if (!latest || !latest._id.equals(payment._id)) return reject(409, "Void the later payments on this order first");
+    return { ok: true as const, payment, order };
+  }
+
+  app.post("/api/billing/payments/:id/void", authMiddleware, async (req: AuthRequest, res: Response) => {
+    try {
+      const parsed = requestPaymentVoidSchema.safeParse(req.body);
+      if (!parsed.success) return fail(res, 400, "Validation failed", Object.fromEntries(parsed.error.errors.map((e) => [e.path.join("."), e.message])));
+
+      const target = await voidablePayment(String(req.params.id));
+      if (!target.ok) return failTransition(res, target);
+      const { payment, order } = target;
+      if (await PaymentVoidRequest.exists({ paymentId: payment._id, status: "pending" })) {
+        return fail(res, 409, "A void request for this payment is already awaiting approval");
+      }
+
+      const request = await PaymentVoidRequest.create({
+        paymentId: payment._id,
+        orderId: order._id,
+        reason: parsed.data.reason,
+        requestedBy: req.user!.username,
+      });
+      await logAction("PAYMENT_VOID_REQUESTED", req.user!.username, order.trackingNumber, { amount: payment.amountPaid, reference: paymentReference(payment), reason: parsed.data.reason });
+      emitEvent("PAYMENT_VOID_REQUESTED", { orderId: order._id });
+      return ok(res, request);
+    } catch (err: any) {
+      return fail(res, 500, err.message);
+    }
+  });
+
+  app.get("/api/billing/void-requests", authMiddleware, adminOnly, async (_req: AuthRequest, res: Response) => {
+    try {
+      const requests = await PaymentVoidRequest.find({ status: "pending" }).sort({ createdAt: -1 }).lean();
+      const [payments, orders] = await Promise.all([
+        BillingPayment.find({ _id: { $in: requests.map((r) => r.paymentId) } }).lean(),
+        Order.find({ _id: { $in: requests.map((r) => r.orderId) } }).select("trackingNumber").lean(),
+      ]);
+      const paymentMap = new Map(payments.map((p) => [p._id.toString(), p]));
+      const orderMap = new Map(orders.map((o) => [o._id.toString(), o]));
+      return ok(res, requests.map((r) => ({
+        ...r,
+        payment: paymentMap.get(r.paymentId.toString()),
+        trackingNumber: orderMap.get(r.orderId.toString())?.trackingNumber,
+      })));
+    } catch (err: any) {
+      return fail(res, 500, err.message);
+    }
+  });
+
+  app.patch("/api/billing/void-requests/:id", authMiddleware, adminOnly, async (req: AuthRequest, res: Response) => {
+    try {
+      const parsed = reviewPaymentVoidSchema.safeParse(req.body);
+      if (!parsed.success) return fail(res, 400, "Validation failed", Object.fromEntries(parsed.error.errors.map((e) => [e.path.join("."), e.message])));
+
+      const actor = req.user!.username;
+      const outcome = await runInTransaction(async (session) => {
+        const request = await PaymentVoidRequest.findById(req.params.id).session(session);
+        if (!request) return reject(404, "Void request not found");
+        if (request.status !== "pending") return reject(409, `Void request was already ${request.status}`);
+
+        request.status = parsed.data.action === "approve" ? "approved" : "rejected";
+        request.reviewedBy = actor;
+        request.reviewNote = parsed.data.note;
+        request.reviewedAt = new Date();
+        if (parsed.data.action === "reject") {
+          await request.save({ session });
+          return { ok: true as const, request, order: await Order.findById(request.orderId).session(session) };
+        }
+
+        const target = await voidablePayment(request.paymentId.toString(), session);
+        if (!target.ok) return target;
+        const { payment, order } = target;
+
+        // Settle the wallet first; it is the only step that can still fail.
+        const credited = payment.creditedAmount || 0;
+        const walletChange = (payment.paymentMethod === PaymentMethod.STORE_CREDIT ? payment.amountPaid : 0) - credited;
+        if (walletChange !== 0) {
+          const customer = await orderCustomer(order, session);
+          const wallet = customer && await postCustomerCredit(customer._id, walletChange, {
+            type: "void",
+            orderId: order._id,
+            trackingNumber: order.trackingNumber,
+            paymentId: payment._id,
+            note: `Payment on order ${order.trackingNumber} voided`,
+            actor,
+          }, session);
+          if (!wallet) return reject(409, `The ${credited} store credit from this overpayment has already been used`);
+        }
+
+        const reversals = await reverseLedgerEntries(
+          { referenceType: "payment", referenceId: payment._id.toString() },
+          `payment voided: ${request.reason}`,
+          actor,
+          session,
+        );
+        payment.voided = true;
+        payment.voidReason = request.reason;
+        payment.voidedBy = actor;
+        payment.voidedAt = new Date();
+        await payment.save({ session });
+
+        order.amountPaid = Math.max(0, (order.amountPaid || 0) - (payment.amountPaid - credited));
+        order.balanceDue = Math.max(0, order.totalAmount - order.amountPaid);
+        const note = `Payment of ${payment.amountPaid} via ${payment.paymentMethod} voided (requested by ${request.requestedBy}, approved by ${actor}): ${request.reason}`;
+        const moved = transitionOrder(order, order.amountPaid > 0 ? "Partially Paid" : "Pending Payment", { actor, note });
+        if (!moved.ok) return moved;
+        await commitOrder(order);
+        await request.save({ session });
+        return { ok: true as const, request, order, payment, reversedEntries: reversals.length };
+      });
+      if (!outcome.ok) return failTransition(res, outcome);
+      const { request, order } = outcome;
+
+      if (request.status === "rejected") {
+        await logAction("PAYMENT_VOID_REJECTED", actor, order?.trackingNumber || "", { reason: request.reason, note: request.reviewNote });
+      } else {
+        await logAction("PAYMENT_VOIDED", actor, order?.trackingNumber || "", {
+          amount: outcome.payment?.amountPaid,
+          reference: outcome.payment ? paymentReference(outcome.payment) : "",
+          reason: request.reason,
+          requestedBy: request.requestedBy,
+        });
+        if (outcome.reversedEntries) emitEvent("LEDGER_POSTED");
+      }
+      emitEvent("PAYMENT_VOID_REVIEWED", { orderId: request.orderId });
+      return ok(res, { request, order });
+    } catch (err: any) {
+      return fail(res, 500, err.message);
+    }
+  });
+
+  // ─── CASHIER SHIFTS ─────────────────────────────────────
+  // Payments are tagged with the logging cashier's open shift. Closing compares the
+  // counted drawer with what was logged and books any difference to Cash Over and Short.
+  app.get("/api/shifts/current", authMiddleware, async (req: AuthRequest, res: Response) => {
+    try {
+      const shift = await CashierShift.findOne({ cashier: req.user!.username, status: "open" });
+      if (!shift) return ok(res, null);
+      return ok(res, { shift, counts: await shiftExpectedCounts(shift) });
+    } catch (err: any) {
+      return fail(res, 500, err.message);
+    }
+  });
+
+  app.post("/api/shifts/open", authMiddleware, async (req: AuthRequest, res: Response) => {
+    try {
+      const parsed = openShiftSchema.safeParse(req.body);
+      if (!parsed.success) return fail(res, 400, "Validation failed", Object.fromEntries(parsed.error.errors.map((e) => [e.path.join("."), e.message])));
+
+      const cashier = req.user!.username;
+      if (await CashierShift.exists({ cashier, status: "open" })) return fail(res, 409, "You already have an open shift");
+      const seq = await nextSequence("shift");
+      const shift = await CashierShift.create({
+        shiftNumber: `SH-${new Date().getFullYear()}-${String(seq).padStart(5, "0")}`,
+        cashier,
+        openingFloat: parsed.data.openingFloat,
+        openingNote: parsed.data.note,
+      });
+
+      await logAction("SHIFT_OPENED", cashier, shift.shiftNumber, { openingFloat: shift.openingFloat });
+      emitEvent("SHIFT_UPDATED");
+      return ok(res, shift);
+    } catch (err: any) {
+      if (err.code === 11000) return fail(res, 409, "You already have an open shift");
+      return fail(res, 500, err.message);
+    }
+  });
+
+  app.post("/api/shifts/:id/close", authMiddleware, async (req: AuthRequest, res: Response) => {
+    try {
+      const parsed = closeShiftSchema.safeParse(req.body);
+      if (!parsed.success) return fail(res, 400, "Validation failed", Object.fromEntries(parsed.error.errors.map((e) => [e.path.join("."), e.message])));
+
+      const actor = req.user!.username;
+      const counted = new Map(parsed.data.counts.map((c) => [c.paymentMethod as string, c.counted]));
+      const outcome = await runInTransaction(async (session) => {
+        const shift = await CashierShift.findById(req.params.id).session(session);
+        if (!shift) return reject(404, "Shift not found");
+        if (shift.cashier !== actor && req.user!.role !== "ADMIN") return reject(403, "Only the cashier or an admin can close this shift");
+        if (shift.status !== "open") return reject(409, "Shift is already closed");
+
+        const expected = await shiftExpectedCounts(shift, session);
+        shift.counts = expected.map((e) => {
+          const amount = Math.round((counted.get(e.paymentMethod) ?? 0) * 100) / 100;
+          return { ...e, counted: amount, variance: Math.round((amount - e.expected) * 100) / 100 };
+        });
+        shift.expectedTotal = Math.round(shift.counts.reduce((s, c) => s + c.expected, 0) * 100) / 100;
+        shift.countedTotal = Math.round(shift.counts.reduce((s, c) => s + c.counted, 0) * 100) / 100;
+        shift.variance = Math.round((shift.countedTotal - shift.expectedTotal) * 100) / 100;
+        shift.status = "closed";
+        shift.closingNote = parsed.data.note;
+        shift.closedBy = actor;
+        shift.closedAt = new Date();
+        await shift.save({ session });
+
+        // A shortage is an expense taken out of the method's account; an overage the reverse.
+        const ledgerRef = { referenceType: "shift", referenceId: shift._id.toString(), actor };
+        const entries = shift.counts.filter((c) => c.variance !== 0).flatMap((c) => {
+          const amount = Math.abs(c.variance);
+          const description = `${c.paymentMethod} ${c.variance < 0 ? "short" : "over"} on shift ${shift.shiftNumber} (${shift.cashier})`;
+          return c.variance < 0
+            ? [
+                { date: new Date(), accountName: CASH_OVER_SHORT.accountName, debit: amount, credit: 0, description, ...ledgerRef },
+                { date: new Date(), accountName: paymentAccount(c.paymentMethod), debit: 0, credit: amount, description, ...ledgerRef },
+              ]
+            : [
+                { date: new Date(), accountName: paymentAccount(c.paymentMethod), debit: amount, credit: 0, description, ...ledgerRef },
+                { date: new Date(), accountName: CASH_OVER_SHORT.accountName, debit: 0, credit: amount, description, ...ledgerRef },
+              ];
+        });
+        if (entries.length > 0) await GeneralLedgerEntry.create(entries, { session });
+        return { ok: true as const, shift, posted: entries.length > 0 };
+      });
+      if (!outcome.ok) return failTransition(res, outcome);
+      const { shift, posted } = outcome;
+
+      await logAction("SHIFT_CLOSED", actor, shift.shiftNumber, { cashier: shift.cashier, expected: shift.expectedTotal, counted: shift.countedTotal, variance: shift.variance });
+      emitEvent("SHIFT_UPDATED");
+      if (posted) emitEvent("LEDGER_POSTED");
+      return ok(res, shift);
+    } catch (err: any) {
+      return fail(res, 500, err.message);
+    }
+  });
+
+  app.get("/api/shifts", authMiddleware, adminOnly, async (req: AuthRequest, res: Response) => {
+    try {
+      const { startDate, endDate, cashier } = req.query as Record<string, string>;
+      const filter: any = {};
+      if (cashier) filter.cashier = cashier;
+      if (startDate || endDate) {
+        filter.openedAt = {};
+        if (startDate) filter.openedAt.$gte = new Date(startDate);
+        if (endDate) filter.openedAt.$lte = new Date(endDate);
+      }
+      const shifts = await CashierShift.find(filter).sort({ openedAt: -1 }).limit(200);
+      return ok(res, shifts);
+    } catch (err: any) {
+      return fail(res, 500, err.message);
+    }
+  });
+
+  // Daily Z-report: every shift opened on the given day (YYYY-MM-DD, server local time).
+  app.get("/api/shifts/z-report.pdf", authMiddleware, adminOnly, async (req: AuthRequest, res: Response) => {
+    try {
+      const { date } = req.query as Record<string, string>;
+      if (!/^\d{4}-\d{2}-\d{2}$/.test(date || "")) return fail(res, 400, "date must be YYYY-MM-DD");
+      const start = new Date(`${date}T00:00:00`);
+      const end = new Date(start.getTime() + 24 * 60 * 60 * 1000);
+      if (isNaN(start.getTime())) return fail(res, 400, "Invalid date");
 
-      if (item.currentQuantity + quantityChange < 0) {
-        return fail(res, 400, `Insufficient stock. Current: ${item.currentQuantity}`);
-      }
+      const shifts = await CashierShift.find({ openedAt: { $gte: start, $lt: end } }).sort({ openedAt: 1 }).lean();
+      if (shifts.length === 0) return fail(res, 404, "No shifts on this day");
+      const payments = await shiftPayments(shifts.map((s) => s._id));
+      const openCount = shifts.filter((s) => s.status === "open").length;
 
-      item.currentQuantity += quantityChange;
-      await item.save();
+      const settings = await Settings.findOne();
+      const documentNumber = `Z-${date.replace(/-/g, "")}`;
+      const pdf = renderZReportPdf(
+        companyProfile(settings),
+        {
+          heading: `Business day ${start.toLocaleDateString("en-PH", { year: "numeric", month: "long", day: "numeric" })}${openCount > 0 ? ` (${openCount} shift(s) still open, not counted)` : ""}`,
+          shifts,
+          payments,
+        },
+        { documentNumber, issuedAt: new Date(), reprint: false, printedBy: req.user!.username }
+      );
 
-      if (parsed.data.type === "restock") {
-        await InventoryBatch.create({
-          itemId: item._id,
-          quantity: Math.abs(parsed.data.quantity),
-          remainingQuantity: Math.abs(parsed.data.quantity),
-          unitCost: item.unitPrice,
-          source: "restock",
-        });
-      } else if (parsed.data.type === "deduction") {
-        await deductFIFO(item._id.toString(), Math.abs(parsed.data.quantity));
+      await logAction("Z_REPORT_PRINTED", req.user!.username, documentNumber, { shifts: shifts.length });
+      return sendPdf(res, `${documentNumber}.pdf`, pdf);
+    } catch (err: any) {
+      return fail(res, 500, err.message);
+    }
+  });
+
+  app.get("/api/shifts/:id", authMiddleware, async (req: AuthRequest, res: Response) => {
+    try {
+      const shift = await CashierShift.findById(req.params.id);
+      if (!shift) return fail(res, 404, "Shift not found");
+      if (shift.cashier !== req.user!.username && req.user!.role !== "ADMIN") return fail(res, 403, "Access denied");
+      const [counts, payments] = await Promise.all([
+        shift.status === "open" ? shiftExpectedCounts(shift) : Promise.resolve(shift.counts),
+        shiftPayments([shift._id]),
+      ]);
+      return ok(res, { shift, counts, payments });
+    } catch (err: any) {
+      return fail(res, 500, err.message);
+    }
+  });
+
+  app.get("/api/shifts/:id/z-report.pdf", authMiddleware, async (req: AuthRequest, res: Response) => {
+    try {
+      const shift = await CashierShift.findById(req.params.id).lean();
+      if (!shift) return fail(res, 404, "Shift not found");
+      if (shift.cashier !== req.user!.username && req.user!.role !== "ADMIN") return fail(res, 403, "Access denied");
+      if (shift.status !== "closed") return fail(res, 400, "Close the shift before printing its Z-report");
+
+      const payments = await shiftPayments([shift._id]);
+      const settings = await Settings.findOne();
+      const pdf = renderZReportPdf(
+        companyProfile(settings),
+        { heading: `Shift ${shift.shiftNumber} - ${shift.cashier}`, shifts: [shift], payments },
+        { documentNumber: shift.shiftNumber, issuedAt: shift.closedAt!, reprint: false, printedBy: req.user!.username }
+      );
+
+      await logAction("Z_REPORT_PRINTED", req.user!.username, shift.shiftNumber, { cashier: shift.cashier });
+      return sendPdf(res, `Z-${shift.shiftNumber}.pdf`, pdf);
+    } catch (err: any) {
+      return fail(res, 500, err.message);
+    }
+  });
+
+  // ─── ORDER RELEASE ──────────────────────────────────────
+  app.post("/api/orders/:id/release", authMiddleware, async (req: AuthRequest, res: Response) => {
+    try {
+      const parsed = releaseOrderSchema.safeParse(req.body ?? {});
+      if (!parsed.success) return fail(res, 400, "Validation failed", Object.fromEntries(parsed.error.errors.map((e) => [e.path.join("."), e.message])));
+
+      const requested = parsed.data.lines
+        ? Object.fromEntries(parsed.data.lines.map((l) => [l.itemId, l.quantity]))
+        : undefined;
+      const outcome = await runInTransaction(async (session) => {
+        const order = await Order.findById(req.params.id).session(session);
+        if (!order) return reject(404, "Order not found");
+        const allowed = checkOrderAction(order, "release");
+        if (!allowed.ok) return allowed;
+        const hold = await flaggedPaymentHold(order._id, session);
+        if (hold) return hold;
+
+        const result = await releaseOrderLines(order, requested, req.user!.username);
+        if (result.released.length === 0) {
+          const insufficientItems: string[] = [];
+          for (const oi of order.items) {
+            const outstanding = oi.quantity - (oi.releasedQuantity || 0);
+            if (outstanding <= 0) continue;
+            const item = await Item.findById(oi.itemId).session(session);
+            const heldByOthers = item ? Math.max(0, (item.reservedQuantity || 0) - (oi.reservedQuantity || 0)) : 0;
+            insufficientItems.push(`${oi.itemName}: need ${outstanding}, have ${item ? Math.max(0, item.currentQuantity - heldByOthers) : 0}`);
+          }
+          return reject(400, `Insufficient stock: ${insufficientItems.join("; ")}`);
+        }
+        await commitOrder(order);
+        return { ok: true as const, order, result };
+      });
+      if (!outcome.ok) return failTransition(res, outcome);
+      const { order, result } = outcome;
+
+      await logAction(result.backordered.length > 0 ? "ORDER_PARTIALLY_RELEASED" : "ORDER_RELEASED", req.user!.username, order.trackingNumber, {
+        released: result.released,
+        backordered: result.backordered,
+      });
+      return ok(res, {
+        order: orderForRole(order, req.user!.role),
+        message: result.backordered.length > 0
+          ? `Partially released. Backordered: ${result.backordered.join(", ")}.`
+          : result.forDelivery
+            ? "Order released. Inventory updated. Awaiting dispatch."
+            : "Order released. Inventory updated. Revenue updated.",
+      });
+    } catch (err: any) {
+      return fail(res, 500, err.message);
+    }
+  });
+
+  app.get("/api/backorders", authMiddleware, async (_req: AuthRequest, res: Response) => {
+    try {
+      const orders = await Order.find({ currentStatus: "Partially Released" }).sort({ createdAt: 1 }).lean();
+      const itemIds = orders.reduce<string[]>((ids, o) => ids.concat(o.items.map((i) => i.itemId.toString())), []);
+      const items = await Item.find({ _id: { $in: itemIds } }).lean();
+      const availableById: Record<string, number> = {};
+      for (const item of items) {
+        availableById[item._id.toString()] = Math.max(0, item.currentQuantity - (item.reservedQuantity || 0));
       }
 
-      const logEntry = await InventoryLog.create({
-        ...parsed.data,
-        quantity: quantityChange,
-        itemName: item.itemName,
+      const backorders = [];
+      for (const order of orders) {
+        for (const oi of order.items) {
+          const outstanding = oi.quantity - (oi.releasedQuantity || 0);
+          if (outstanding <= 0) continue;
+          backorders.push({
+            orderId: order._id,
+            trackingNumber: order.trackingNumber,
+            customerName: order.customerName,
+            itemId: oi.itemId,
+            itemName: oi.itemName,
+            ordered: oi.quantity,
+            released: oi.releasedQuantity || 0,
+            outstanding,
+            available: availableById[oi.itemId.toString()] ?? 0,
+            orderedAt: order.createdAt,
+          });
+        }
+      }
+      return ok(res, backorders);
+    } catch (err: any) {
+      return fail(res, 500, err.message);
+    }
+  });
+
+  // ─── DELIVERY ───────────────────────────────────────────
+  app.post("/api/orders/:id/dispatch", authMiddleware, async (req: AuthRequest, res: Response) => {
+    try {
+      const parsed = dispatchOrderSchema.safeParse(req.body);
+      if (!parsed.success) return fail(res, 400, "Validation failed", Object.fromEntries(parsed.error.errors.map((e) => [e.path.join("."), e.message])));
+
+      const order = await Order.findById(req.params.id);
+      if (!order) return fail(res, 404, "Order not found");
+      const allowed = checkOrderAction(order, "dispatch");
+      if (!allowed.ok) return failTransition(res, allowed);
+
+      const dispatchedAt = parsed.data.dispatchedAt ? new Date(parsed.data.dispatchedAt) : new Date();
+      if (isNaN(dispatchedAt.getTime())) return fail(res, 400, "Invalid dispatch time");
+
+      order.delivery = {
+        driverName: parsed.data.driverName,
+        vehicle: parsed.data.vehicle,
+        dispatchedAt,
+        dispatchedBy: req.user!.username,
+      };
+      const moved = transitionOrder(order, "In Transit", {
         actor: req.user!.username,
+        note: `Dispatched with ${parsed.data.driverName} (${parsed.data.vehicle})`,
       });
+      if (!moved.ok) return failTransition(res, moved);
+      await commitOrder(order);
 
-      await logAction("INVENTORY_LOG_CREATED", req.user!.username, item.itemName, { type: parsed.data.type, quantity: quantityChange });
-      emitEvent("INVENTORY_LOG_CREATED", { itemId: item._id });
-      return ok(res, logEntry);
+      await logAction("ORDER_DISPATCHED", req.user!.username, order.trackingNumber, { driverName: parsed.data.driverName, vehicle: parsed.data.vehicle });
+      return ok(res, orderForRole(order, req.user!.role));
     } catch (err: any) {
       return fail(res, 500, err.message);
     }
   });
 
-  // ─── CUSTOMERS ──────────────────────────────────────────
-  app.get("/api/customers", authMiddleware, async (req: AuthRequest, res: Response) => {
+  app.post("/api/orders/:id/deliver", authMiddleware, imageUpload.single("proof"), async (req: AuthRequest, res: Response) => {
+    const discardUpload = () => {
+      if (req.file && fs.existsSync(req.file.path)) fs.unlinkSync(req.file.path);
+    };
     try {
-      const { search } = req.query as Record<string, string>;
-      const filter: any = {};
-      if (search) filter.name = { $regex: search, $options: "i" };
-      const customers = await Customer.find(filter).sort({ name: 1 });
-      return ok(res, customers);
+      const parsed = confirmDeliverySchema.safeParse(req.body);
+      if (!parsed.success) {
+        discardUpload();
+        return fail(res, 400, "Validation failed", Object.fromEntries(parsed.error.errors.map((e) => [e.path.join("."), e.message])));
+      }
+      if (!req.file) return fail(res, 400, "Proof of delivery photo is required");
+
+      const order = await Order.findById(req.params.id);
+      if (!order) {
+        discardUpload();
+        return fail(res, 404, "Order not found");
+      }
+      const allowed = checkOrderAction(order, "deliver");
+      if (!allowed.ok || !order.delivery) {
+        discardUpload();
+        return allowed.ok ? fail(res, 400, "Order has no dispatch record") : failTransition(res, allowed);
+      }
+
+      order.delivery.receiverName = parsed.data.receiverName;
+      order.delivery.deliveredAt = new Date();
+      order.delivery.proofFilename = req.file.filename;
+      order.delivery.confirmedBy = req.user!.username;
+      order.markModified("delivery");
+      const moved = transitionOrder(order, "Completed", { actor: req.user!.username, note: `Delivered to ${parsed.data.receiverName}` });
+      if (!moved.ok) {
+        discardUpload();
+        return failTransition(res, moved);
+      }
+      await commitOrder(order);
+
+      await logAction("ORDER_DELIVERED", req.user!.username, order.trackingNumber, { receiverName: parsed.data.receiverName, proof: req.file.filename });
+      return ok(res, orderForRole(order, req.user!.role));
     } catch (err: any) {
+      discardUpload();
       return fail(res, 500, err.message);
     }
   });
 
-  app.post("/api/customers", authMiddleware, async (req: AuthRequest, res: Response) => {
+  // ─── ORDER CANCELLATION ─────────────────────────────────
+  app.post("/api/orders/:id/cancel", authMiddleware, async (req: AuthRequest, res: Response) => {
     try {
-      const parsed = createCustomerSchema.safeParse(req.body);
-      if (!parsed.success) return fail(res, 400, "Validation failed");
-      const customer = await Customer.create(parsed.data);
-      indexCustomer(customer);
-      return ok(res, customer);
+      const parsed = cancelOrderSchema.safeParse(req.body);
+      if (!parsed.success) return fail(res, 400, "Validation failed", Object.fromEntries(parsed.error.errors.map((e) => [e.path.join("."), e.message])));
+
+      const { reason } = parsed.data;
+      const actor = req.user!.username;
+      const outcome = await runInTransaction(async (session) => {
+        const order = await Order.findById(req.params.id).session(session);
+        if (!order) return reject(404, "Order not found");
+        const allowed = checkOrderAction(order, "cancel");
+        if (!allowed.ok) return allowed;
+        // A return already reversed part of the sale, so reversing the whole order would count it twice.
+        if (order.items.some((i) => (i.returnedQuantity || 0) > 0)) {
+          return reject(409, "Orders with recorded returns cannot be cancelled; record a return for the remaining items instead");
+        }
+        // Undoing a finished sale reverses its revenue and stock, which needs an admin.
+        if (order.currentStatus === "Completed" && req.user!.role !== "ADMIN") {
+          return reject(403, "Only an admin can cancel a completed order");
+        }
+
+        const moved = transitionOrder(order, "Cancelled", { actor, note: `Order cancelled: ${reason}` });
+        if (!moved.ok) return moved;
+        const { reversedEntries = 0, restockedUnits = 0 } = await commitOrder(order);
+        return { ok: true as const, order, reversedEntries: reversedEntries as number, restockedUnits: restockedUnits as number };
+      });
+      if (!outcome.ok) return failTransition(res, outcome);
+      const { order, reversedEntries, restockedUnits } = outcome;
+
+      await logAction("ORDER_CANCELLED", req.user!.username, order.trackingNumber, { reason, reversedEntries, restockedUnits });
+      return ok(res, { order: orderForRole(order, req.user!.role), reversedEntries, restockedUnits });
     } catch (err: any) {
       return fail(res, 500, err.message);
     }
   });
 
-  // ─── ORDERS ─────────────────────────────────────────────
-  app.get("/api/orders", authMiddleware, async (req: AuthRequest, res: Response) => {
+  // ─── QUOTATIONS ─────────────────────────────────────────
+  const parseValidUntil = (value: string) => {
+    const date = new Date(value);
+    if (isNaN(date.getTime())) return null;
+    date.setHours(23, 59, 59, 999);
+    return date;
+  };
+
+  const priceQuotation = async (data: z.infer<typeof createQuotationSchema>) => {
+    const vatTreatment = await resolveVatTreatment(data.customerId, data.vatTreatment);
+    const totals = await priceOrder(data.items, data.discount, vatTreatment);
+    return {
+      ...(data.customerId ? { customerId: data.customerId } : {}),
+      customerName: data.customerName,
+      items: data.items.map((i, idx) => ({ ...i, discountAmount: totals.lines[idx].discountAmount, lineTotal: totals.lines[idx].lineTotal })),
+      subtotal: totals.subtotal,
+      discountType: data.discount?.type,
+      discountValue: data.discount?.value ?? 0,
+      discountAmount: totals.discountAmount,
+      vatTreatment,
+      vatableSales: totals.vatableSales,
+      vatAmount: totals.vatAmount,
+      totalAmount: totals.totalAmount,
+      sourceChannel: data.sourceChannel,
+      notes: data.notes,
+      address: hasDeliveryAddress(data.address) ? data.address : undefined,
+    };
+  };
+
+  app.get("/api/quotations", authMiddleware, async (req: AuthRequest, res: Response) => {
     try {
-      const { status, search, page = "1", pageSize = "20" } = req.query as Record<string, string>;
+      const { status, search } = req.query as Record<string, string>;
       const filter: any = {};
-      if (status) filter.currentStatus = status;
+      if (status) filter.status = status;
       if (search) filter.$or = [
-        { trackingNumber: { $regex: search, $options: "i" } },
+        { quoteNumber: { $regex: search, $options: "i" } },
         { customerName: { $regex: search, $options: "i" } },
       ];
+      const quotations = await Quotation.find(filter).sort({ createdAt: -1 });
+      return ok(res, quotations);
+    } catch (err: any) {
+      return fail(res, 500, err.message);
+    }
+  });
 
-      const skip = (parseInt(page) - 1) * parseInt(pageSize);
-      const [orders, total] = await Promise.all([
-        Order.find(filter).sort({ createdAt: -1 }).skip(skip).limit(parseInt(pageSize)),
-        Order.countDocuments(filter),
-      ]);
-      return ok(res, { orders, total, page: parseInt(page), pageSize: parseInt(pageSize) });
+  app.get("/api/quotations/:id", authMiddleware, async (req: AuthRequest, res: Response) => {
+    try {
+      const quote = await Quotation.findById(req.params.id);
+      if (!quote) return fail(res, 404, "Quotation not found");
+      return ok(res, quote);
     } catch (err: any) {
       return fail(res, 500, err.message);
     }
   });
 
-  app.get("/api/orders/:id", authMiddleware, async (req: AuthRequest, res: Response) => {
+  app.post("/api/quotations", authMiddleware, async (req: AuthRequest, res: Response) => {
     try {
-      const order = await Order.findById(req.params.id);
-      if (!order) return fail(res, 404, "Order not found");
-      const payments = await BillingPayment.find({ orderId: order._id }).sort({ createdAt: -1 });
-      return ok(res, { order, payments });
+      const parsed = createQuotationSchema.safeParse(req.body);
+      if (!parsed.success) return fail(res, 400, "Validation failed", Object.fromEntries(parsed.error.errors.map((e) => [e.path.join("."), e.message])));
+      const validUntil = parseValidUntil(parsed.data.validUntil);
+      if (!validUntil) return fail(res, 400, "Invalid validity date");
+      if (validUntil < new Date()) return fail(res, 400, "Validity date must not be in the past");
+
+      const seq = await nextSequence("quotation");
+      const quoteNumber = `Q-${new Date().getFullYear()}-${String(seq).padStart(5, "0")}`;
+      const quote = await Quotation.create({
+        quoteNumber,
+        ...(await priceQuotation(parsed.data)),
+        validUntil,
+        status: "draft",
+        createdBy: req.user!.username,
+      });
+
+      indexQuotation(quote);
+      await logAction("QUOTATION_CREATED", req.user!.username, quote.quoteNumber, { totalAmount: quote.totalAmount });
+      emitEvent("QUOTATION_CREATED", { quotationId: quote._id });
+      return ok(res, quote);
     } catch (err: any) {
       return fail(res, 500, err.message);
     }
   });
 
-  app.post("/api/orders", authMiddleware, async (req: AuthRequest, res: Response) => {
+  app.put("/api/quotations/:id", authMiddleware, async (req: AuthRequest, res: Response) => {
     try {
-      const parsed = createOrderSchema.safeParse(req.body);
+      const parsed = createQuotationSchema.safeParse(req.body);
       if (!parsed.success) return fail(res, 400, "Validation failed", Object.fromEntries(parsed.error.errors.map((e) => [e.path.join("."), e.message])));
-      if (!parsed.data.items || parsed.data.items.length === 0) return fail(res, 400, "At least one item is required");
+      const validUntil = parseValidUntil(parsed.data.validUntil);
+      if (!validUntil) return fail(res, 400, "Invalid validity date");
 
-      const items = parsed.data.items.map((i) => ({
-        ...i,
-        lineTotal: i.quantity * i.unitPrice,
-      }));
-      const totalAmount = items.reduce((sum, i) => sum + i.lineTotal, 0);
-      const trackingNumber = `JOAP-${Date.now().toString(36).toUpperCase()}-${Math.random().toString(36).slice(2, 6).toUpperCase()}`;
+      const quote = await Quotation.findById(req.params.id);
+      if (!quote) return fail(res, 404, "Quotation not found");
+      if (!["draft", "sent"].includes(quote.status)) return fail(res, 400, `A ${quote.status} quotation can no longer be edited`);
 
-      const addressData = parsed.data.address;
-      const hasAddress = addressData && Object.values(addressData).some((v) => v && v.trim() !== "");
+      quote.set({ ...(await priceQuotation(parsed.data)), validUntil });
+      if (!parsed.data.customerId) quote.set("customerId", undefined);
+      await quote.save();
 
-      const order = await Order.create({
-        trackingNumber,
-        ...(parsed.data.customerId ? { customerId: parsed.data.customerId } : {}),
-        customerName: parsed.data.customerName,
-        items,
-        totalAmount,
-        sourceChannel: parsed.data.sourceChannel,
-        notes: parsed.data.notes,
-        currentStatus: "Pending Payment",
-        statusHistory: [{ status: "Pending Payment", timestamp: new Date(), actor: req.user!.username, note: "Order created" }],
-        ...(hasAddress ? { address: addressData } : {}),
-      });
+      reindexQuotation(quote);
+      await logAction("QUOTATION_UPDATED", req.user!.username, quote.quoteNumber, { totalAmount: quote.totalAmount });
+      return ok(res, quote);
+    } catch (err: any) {
+      return fail(res, 500, err.message);
+    }
+  });
+
+  app.post("/api/quotations/:id/send", authMiddleware, async (req: AuthRequest, res: Response) => {
+    try {
+      const quote = await Quotation.findById(req.params.id);
+      if (!quote) return fail(res, 404, "Quotation not found");
+      if (quote.status !== "draft") return fail(res, 400, "Only draft quotations can be marked as sent");
+
+      quote.status = "sent";
+      quote.sentAt = new Date();
+      await quote.save();
 
-      indexOrder(order);
-      await logAction("ORDER_CREATED", req.user!.username, order.trackingNumber, { totalAmount });
-      emitEvent("ORDER_CREATED", { orderId: order._id });
-      return ok(res, order);
+      await logAction("QUOTATION_SENT", req.user!.username, quote.quoteNumber);
+      return ok(res, quote);
     } catch (err: any) {
       return fail(res, 500, err.message);
     }
   });
 
-  // ─── BILLING & PAYMENT ─────────────────────────────────
-  app.get("/api/billing", authMiddleware, async (req: AuthRequest, res: Response) => {
+  app.post("/api/quotations/:id/accept", authMiddleware, async (req: AuthRequest, res: Response) => {
     try {
-      const { page = "1", pageSize = "20" } = req.query as Record<string, string>;
-      const skip = (parseInt(page) - 1) * parseInt(pageSize);
-      const [payments, total] = await Promise.all([
-        BillingPayment.find().sort({ createdAt: -1 }).skip(skip).limit(parseInt(pageSize)),
-        BillingPayment.countDocuments(),
-      ]);
-      return ok(res, { payments, total });
+      const parsed = acceptQuotationSchema.safeParse(req.body ?? {});
+      if (!parsed.success) return fail(res, 400, "Validation failed");
+
+      const existing = await Quotation.findById(req.params.id);
+      if (!existing) return fail(res, 404, "Quotation not found");
+      if (!["draft", "sent"].includes(existing.status)) return fail(res, 400, `A ${existing.status} quotation cannot be accepted`);
+      if (existing.validUntil < new Date()) {
+        existing.status = "expired";
+        await existing.save();
+        return fail(res, 400, "Quotation has expired");
+      }
+
+      // Claim the quotation before creating the order, so two accepts at once
+      // cannot both turn it into an order. A failed order hands it back.
+      const quote = await Quotation.findOneAndUpdate(
+        { _id: existing._id, status: existing.status },
+        { $set: { status: "accepted", acceptedAt: new Date(), acceptedBy: req.user!.username } },
+        { new: true }
+      );
+      if (!quote) return fail(res, 409, "Quotation is already being accepted");
+      const handBack = () => Quotation.updateOne(
+        { _id: quote._id, status: "accepted", orderId: { $exists: false } },
+        { $set: { status: existing.status }, $unset: { acceptedAt: 1, acceptedBy: 1 } }
+      );
+
+      let result;
+      try {
+        result = await createOrder({
+          customerId: quote.customerId ? quote.customerId.toString() : "",
+          customerName: quote.customerName,
+          items: quote.items.map((i) => ({
+            itemId: i.itemId.toString(),
+            itemName: i.itemName,
+            quantity: i.quantity,
+            unitPrice: i.unitPrice,
+            discountType: i.discountType as "percent" | "fixed" | undefined,
+            discountValue: i.discountValue || 0,
+          })),
+          sourceChannel: quote.sourceChannel as CreateOrderInput["sourceChannel"],
+          notes: quote.notes,
+          address: quote.address && hasDeliveryAddress(quote.address) ? pickAddress(quote.address) : undefined,
+          discount: quote.discountType && quote.discountValue ? { type: quote.discountType as "percent" | "fixed", value: quote.discountValue } : undefined,
+          vatTreatment: quote.vatTreatment as VatTreatment,
+          acknowledgeShortage: parsed.data.acknowledgeShortage,
+          onAccount: false,
+          creditOverrideReason: "",
+        }, req.user!.username, { quotationId: quote._id, quoteNumber: quote.quoteNumber });
+      } catch (err) {
+        await handBack();
+        throw err;
+      }
+      if (!result.ok) {
+        await handBack();
+        return fail(res, result.status, result.error);
+      }
+
+      quote.orderId = result.order._id as any;
+      quote.trackingNumber = result.order.trackingNumber;
+      await quote.save();
+
+      await logAction("QUOTATION_ACCEPTED", req.user!.username, quote.quoteNumber, { trackingNumber: result.order.trackingNumber });
+      return ok(res, { quotation: quote, order: orderForRole(result.order, req.user!.role) });
     } catch (err: any) {
       return fail(res, 500, err.message);
     }
   });
 
-  app.post("/api/billing/pay", authMiddleware, async (req: AuthRequest, res: Response) => {
+  // ─── RETURNS ────────────────────────────────────────────
+  app.post("/api/orders/:id/returns", authMiddleware, async (req: AuthRequest, res: Response) => {
     try {
-      const parsed = logPaymentSchema.safeParse(req.body);
+      const parsed = createReturnSchema.safeParse(req.body);
       if (!parsed.success) return fail(res, 400, "Validation failed", Object.fromEntries(parsed.error.errors.map((e) => [e.path.join("."), e.message])));
 
-      const order = await Order.findById(parsed.data.orderId);
-      if (!order) return fail(res, 404, "Order not found");
-      if (order.currentStatus !== "Pending Payment") return fail(res, 400, "Order is not pending payment");
+      const actor = req.user!.username;
+      const outcome = await runInTransaction(async (session) => {
+        const order = await Order.findById(req.params.id).session(session);
+        if (!order) return reject(404, "Order not found");
+        const allowed = checkOrderAction(order, "return");
+        if (!allowed.ok) return allowed;
+
+        const requestedByItem: Record<string, number> = {};
+        for (const line of parsed.data.lines) {
+          requestedByItem[line.itemId] = (requestedByItem[line.itemId] || 0) + line.quantity;
+        }
+        for (const itemId of Object.keys(requestedByItem)) {
+          const oi = order.items.find((i) => i.itemId.toString() === itemId);
+          if (!oi) return reject(400, "Returned item is not part of this order");
+          const returnable = oi.quantity - (oi.returnedQuantity || 0);
+          if (requestedByItem[itemId] > returnable) {
+            return reject(400, `${oi.itemName}: only ${returnable} can be returned`);
+          }
+        }
 
-      const existingRef = await BillingPayment.findOne({ gcashReferenceNumber: parsed.data.gcashReferenceNumber });
-      if (existingRef) return fail(res, 409, "Duplicate GCash reference number");
+        // Refunds follow what the customer actually paid per unit, after discounts and VAT.
+        const orderSubtotal = order.subtotal ?? order.items.reduce((sum, i) => sum + i.lineTotal, 0);
+        const rmaNumber = `RMA-${Date.now().toString(36).toUpperCase()}-${Math.random().toString(36).slice(2, 6).toUpperCase()}`;
+        const lines = [];
+        let amount = 0;
+        let vatAmount = 0;
+        let costRestocked = 0;
+        for (const line of parsed.data.lines) {
+          const oi = order.items.find((i) => i.itemId.toString() === line.itemId)!;
+          const item = await Item.findById(oi.itemId).session(session);
+          const unitCost = releasedUnitCost(order, line.itemId, item?.costPrice ?? 0);
+          const restocked = line.condition === "resaleable" && !!item;
+
+          if (restocked && item) {
+            await restoreFIFO(item._id.toString(), undefined, line.quantity, unitCost, "return", session);
+            item.currentQuantity += line.quantity;
+            await item.save();
+            costRestocked += line.quantity * unitCost;
+            await InventoryLog.create([{
+              itemId: item._id,
+              itemName: item.itemName,
+              type: "return",
+              quantity: line.quantity,
+              reason: `Returned from order ${order.trackingNumber} (${rmaNumber}): ${parsed.data.reason}`,
+              actor,
+            }], { session });
+          }
 
-      if (parsed.data.amountPaid < order.totalAmount) return fail(res, 400, `Payment must be at least ${order.totalAmount}`);
+          oi.returnedQuantity = (oi.returnedQuantity || 0) + line.quantity;
+          const share = orderSubtotal > 0 ? ((oi.lineTotal / oi.quantity) * line.quantity) / orderSubtotal : 0;
+          amount += share * order.totalAmount;
+          vatAmount += share * (order.vatAmount || 0);
+          lines.push({
+            itemId: oi.itemId,
+            itemName: oi.itemName,
+            quantity: line.quantity,
+            unitPrice: oi.unitPrice,
+            unitCost,
+            condition: line.condition,
+            restocked,
+          });
+        }
 
-      const payment = await BillingPayment.create({
-        ...parsed.data,
-        paymentDate: parsed.data.paymentDate ? new Date(parsed.data.paymentDate) : new Date(),
-        loggedBy: req.user!.username,
-      });
+        amount = Math.round(amount * 100) / 100;
+        vatAmount = Math.round(vatAmount * 100) / 100;
+        // Only money actually received (less what earlier returns gave back) can be
+        // refunded or turned into a credit note; the rest comes off the unpaid balance.
+        const earlierReturns = await OrderReturn.find({ orderId: order._id }).session(session).lean();
+        const alreadyReturned = earlierReturns.reduce((sum, r) => sum + r.amount - (r.receivableCredited || 0), 0);
+        const settled = Math.min(amount, Math.max(0, Math.round(((order.amountPaid || 0) - alreadyReturned) * 100) / 100));
+        const receivableCredited = Math.round((amount - settled) * 100) / 100;
+        if (receivableCredited > 0) {
+          order.returnCredit = Math.round(((order.returnCredit || 0) + receivableCredited) * 100) / 100;
+          order.balanceDue = Math.max(0, Math.round(((order.balanceDue || 0) - receivableCredited) * 100) / 100);
+        }
 
-      order.currentStatus = "Pending Release";
-      order.statusHistory.push(
-        { status: "Paid", timestamp: new Date(), actor: req.user!.username, note: `Payment of ${parsed.data.amountPaid} received via ${parsed.data.paymentMethod}` },
-        { status: "Pending Release", timestamp: new Date(), actor: req.user!.username, note: "Payment confirmed, awaiting release" }
-      );
-      await order.save();
+        const isRefund = parsed.data.resolution === "refund";
+        const [orderReturn] = await OrderReturn.create([{
+          rmaNumber,
+          orderId: order._id,
+          trackingNumber: order.trackingNumber,
+          ...(order.customerId ? { customerId: order.customerId } : {}),
+          customerName: order.customerName,
+          lines,
+          reason: parsed.data.reason,
+          resolution: parsed.data.resolution,
+          amount,
+          vatAmount,
+          receivableCredited,
+          costRestocked,
+          refundMethod: isRefund ? parsed.data.refundMethod : "",
+          refundReference: isRefund ? parsed.data.refundReference : "",
+          creditNoteNumber: isRefund || settled <= 0 ? "" : rmaNumber.replace(/^RMA-/, "CN-"),
+          processedBy: actor,
+        }], { session });
+
+        const ledgerRef = { referenceType: "return", referenceId: orderReturn._id.toString(), actor };
+        const entries: any[] = [
+          { date: new Date(), accountName: "Sales Revenue", debit: amount - vatAmount, credit: 0, description: `Sales return ${rmaNumber} for order ${order.trackingNumber}`, ...ledgerRef },
+        ];
+        if (settled > 0) {
+          entries.push(isRefund
+            ? { date: new Date(), accountName: paymentAccount(parsed.data.refundMethod), debit: 0, credit: settled, description: `Refund for ${rmaNumber} (${parsed.data.refundMethod})`, ...ledgerRef }
+            : { date: new Date(), accountName: "Customer Credit Notes", debit: 0, credit: settled, description: `Credit note ${orderReturn.creditNoteNumber} issued to ${order.customerName}`, ...ledgerRef });
+        }
+        if (receivableCredited > 0) {
+          entries.push({ date: new Date(), accountName: "Accounts Receivable", debit: 0, credit: receivableCredited, description: `${rmaNumber} credited against the unpaid balance of order ${order.trackingNumber}`, ...ledgerRef });
+        }
+        if (vatAmount > 0) {
+          entries.push({ date: new Date(), accountName: "Output VAT Payable", debit: vatAmount, credit: 0, description: `Output VAT reversed for ${rmaNumber}`, ...ledgerRef });
+        }
+        if (costRestocked > 0) {
+          entries.push(
+            { date: new Date(), accountName: "Inventory", debit: costRestocked, credit: 0, description: `Returned stock from ${rmaNumber} (FIFO cost)`, ...ledgerRef },
+            { date: new Date(), accountName: "Cost of Goods Sold", debit: 0, credit: costRestocked, description: `COGS reversal for ${rmaNumber}`, ...ledgerRef },
+          );
+        }
+        await GeneralLedgerEntry.create(entries, { session });
 
-      await GeneralLedgerEntry.create([
-        { date: new Date(), accountName: "Cash/GCash", debit: parsed.data.amountPaid, credit: 0, description: `Payment for order ${order.trackingNumber}`, referenceType: "payment", referenceId: payment._id.toString(), actor: req.user!.username },
-        { date: new Date(), accountName: "Sales Revenue", debit: 0, credit: parsed.data.amountPaid, description: `Revenue from order ${order.trackingNumber}`, referenceType: "payment", referenceId: payment._id.toString(), actor: req.user!.username },
-      ]);
+        annotateOrder(order, actor, `Return ${rmaNumber}: ${lines.map((l) => `${l.itemName} x${l.quantity} (${l.condition})`).join(", ")}`);
+        await order.save();
+        return { ok: true as const, order, orderReturn, lines, amount, costRestocked };
+      });
+      if (!outcome.ok) return failTransition(res, outcome);
+      const { order, orderReturn, lines, amount, costRestocked } = outcome;
 
-      await logAction("PAYMENT_LOGGED", req.user!.username, order.trackingNumber, { amount: parsed.data.amountPaid });
-      emitEvent("PAYMENT_LOGGED", { orderId: order._id });
-      emitEvent("ORDER_STATUS_APPENDED", { orderId: order._id, status: "Pending Release" });
+      await logAction("ORDER_RETURNED", actor, order.trackingNumber, { rmaNumber: orderReturn.rmaNumber, amount, resolution: parsed.data.resolution, costRestocked });
       emitEvent("LEDGER_POSTED");
-      return ok(res, { payment, order });
+      if (costRestocked > 0) {
+        emitEvent("INVENTORY_LOG_CREATED");
+        for (const line of lines) {
+          if (line.restocked) await fulfillBackorders(line.itemId.toString(), actor);
+        }
+      }
+      return ok(res, returnForRole(orderReturn, req.user!.role));
     } catch (err: any) {
       return fail(res, 500, err.message);
     }
   });
 
-  // ─── ORDER RELEASE ──────────────────────────────────────
-  app.post("/api/orders/:id/release", authMiddleware, async (req: AuthRequest, res: Response) => {
+  // ─── INVOICES & RECEIPTS ────────────────────────────────
+  app.get("/api/orders/:id/invoice.pdf", authMiddleware, async (req: AuthRequest, res: Response) => {
     try {
       const order = await Order.findById(req.params.id);
       if (!order) return fail(res, 404, "Order not found");
-      if (!["Paid", "Pending Release"].includes(order.currentStatus)) {
-        return fail(res, 400, "Order must be Paid or Pending Release to release items");
+      const sourceKey = `invoice:${order._id}`;
+      if (order.currentStatus === "Cancelled" && !(await SalesDocument.exists({ sourceKey }))) {
+        return fail(res, 400, "Cancelled orders cannot be invoiced");
       }
 
-      const insufficientItems: string[] = [];
-      for (const oi of order.items) {
-        const item = await Item.findById(oi.itemId);
-        if (!item || item.currentQuantity < oi.quantity) {
-          insufficientItems.push(`${oi.itemName}: need ${oi.quantity}, have ${item?.currentQuantity ?? 0}`);
-        }
-      }
-      if (insufficientItems.length > 0) {
-        return fail(res, 400, `Insufficient stock: ${insufficientItems.join("; ")}`);
+      const { document, reprint } = await issueSalesDocument("invoice", sourceKey, {
+        orderId: order._id,
+        trackingNumber: order.trackingNumber,
+        customerName: order.customerName,
+        amount: order.totalAmount,
+      }, req.user!.username);
+      if (!order.invoiceNumber) {
+        order.invoiceNumber = document.documentNumber;
+        await order.save();
       }
 
-      let totalCOGS = 0;
-      for (const oi of order.items) {
-        const item = await Item.findById(oi.itemId);
-        if (item) {
-          item.currentQuantity -= oi.quantity;
-          await item.save();
-
-          const fifoResult = await deductFIFO(item._id.toString(), oi.quantity);
-          totalCOGS += fifoResult.totalCost;
+      const settings = await Settings.findOne();
+      const pdf = renderInvoicePdf(
+        companyProfile(settings),
+        order,
+        { documentNumber: document.documentNumber, issuedAt: document.createdAt, reprint, printedBy: req.user!.username }
+      );
 
-          await InventoryLog.create({
-            itemId: item._id,
-            itemName: item.itemName,
-            type: "deduction",
-            quantity: -oi.quantity,
-            reason: `Released for order ${order.trackingNumber} (FIFO COGS: ${fifoResult.totalCost.toFixed(2)})`,
-            actor: req.user!.username,
-          });
-        }
-      }
+      await logAction(reprint ? "INVOICE_REPRINTED" : "INVOICE_ISSUED", req.user!.username, order.trackingNumber, { documentNumber: document.documentNumber, printCount: document.printCount });
+      return sendPdf(res, `${document.documentNumber}.pdf`, pdf);
+    } catch (err: any) {
+      return fail(res, 500, err.message);
+    }
+  });
 
-      if (totalCOGS > 0) {
-        await GeneralLedgerEntry.create([
-          { date: new Date(), accountName: "Cost of Goods Sold", debit: totalCOGS, credit: 0, description: `COGS for order ${order.trackingNumber} (FIFO)`, referenceType: "order", referenceId: order._id.toString(), actor: req.user!.username },
-          { date: new Date(), accountName: "Inventory", debit: 0, credit: totalCOGS, description: `Inventory reduction for order ${order.trackingNumber} (FIFO)`, referenceType: "order", referenceId: order._id.toString(), actor: req.user!.username },
-        ]);
+  app.get("/api/orders/:id/receipt.pdf", authMiddleware, async (req: AuthRequest, res: Response) => {
+    try {
+      const order = await Order.findById(req.params.id);
+      if (!order) return fail(res, 404, "Order not found");
+      const { paymentId } = req.query as Record<string, string>;
+      const payment = paymentId
+        ? await BillingPayment.findOne({ _id: paymentId, orderId: order._id })
+        : await BillingPayment.findOne({ orderId: order._id, voided: { $ne: true } }).sort({ createdAt: -1 });
+      if (!payment) return fail(res, 404, "No payment found for this order");
+      if (payment.voided) return fail(res, 400, "A voided payment cannot be given an official receipt");
+
+      const { document, reprint } = await issueSalesDocument("receipt", `receipt:${payment._id}`, {
+        orderId: order._id,
+        paymentId: payment._id,
+        trackingNumber: order.trackingNumber,
+        customerName: order.customerName,
+        amount: payment.amountPaid,
+      }, req.user!.username);
+      if (!payment.receiptNumber) {
+        payment.receiptNumber = document.documentNumber;
+        await payment.save();
       }
 
-      order.currentStatus = "Completed";
-      order.statusHistory.push(
-        { status: "Released", timestamp: new Date(), actor: req.user!.username, note: "Items released from inventory" },
-        { status: "Completed", timestamp: new Date(), actor: req.user!.username, note: "Order fulfilled" }
+      const settings = await Settings.findOne();
+      const pdf = renderReceiptPdf(
+        companyProfile(settings),
+        order,
+        payment,
+        { documentNumber: document.documentNumber, issuedAt: document.createdAt, reprint, printedBy: req.user!.username },
+        order.invoiceNumber
       );
-      await order.save();
 
-      await logAction("ORDER_RELEASED", req.user!.username, order.trackingNumber);
-      emitEvent("ORDER_RELEASED", { orderId: order._id });
-      emitEvent("INVENTORY_LOG_CREATED");
-      return ok(res, { order, message: "Order released. Inventory updated. Revenue updated." });
+      await logAction(reprint ? "RECEIPT_REPRINTED" : "RECEIPT_ISSUED", req.user!.username, order.trackingNumber, { documentNumber: document.documentNumber, paymentId: payment._id, printCount: document.printCount });
+      return sendPdf(res, `${document.documentNumber}.pdf`, pdf);
     } catch (err: any) {
       return fail(res, 500, err.message);
     }
@@ -1296,11 +3857,167 @@ export async function registerRoutes(httpServer: Server, app: Express): Promise<
     }
   });
 
+  // ─── RECONCILIATION ─────────────────────────────────────
+  app.get("/api/reconciliations", authMiddleware, adminOnly, async (_req: AuthRequest, res: Response) => {
+    try {
+      const reconciliations = await Reconciliation.find().sort({ createdAt: -1 }).lean();
+      return ok(res, reconciliations.map(({ lines, ...rest }) => ({ ...rest, summary: reconciliationSummary(lines) })));
+    } catch (err: any) {
+      return fail(res, 500, err.message);
+    }
+  });
+
+  app.get("/api/reconciliations/:id", authMiddleware, adminOnly, async (req: AuthRequest, res: Response) => {
+    try {
+      const reconciliation = await Reconciliation.findById(req.params.id).lean();
+      if (!reconciliation) return fail(res, 404, "Reconciliation not found");
+      const orderIds = reconciliation.lines.flatMap((l) => (l.orderId ? [l.orderId] : []));
+      const orders = await Order.find({ _id: { $in: orderIds } }).select("trackingNumber").lean();
+      const tracking = new Map(orders.map((o) => [String(o._id), o.trackingNumber]));
+      return ok(res, {
+        ...reconciliation,
+        lines: reconciliation.lines.map((l) => ({ ...l, trackingNumber: l.orderId ? tracking.get(String(l.orderId)) : undefined })),
+        summary: reconciliationSummary(reconciliation.lines),
+      });
+    } catch (err: any) {
+      return fail(res, 500, err.message);
+    }
+  });
+
+  app.post("/api/reconciliations/import", authMiddleware, adminOnly, statementUpload.single("statement"), async (req: AuthRequest, res: Response) => {
+    try {
+      const parsed = importReconciliationSchema.safeParse(req.body);
+      if (!parsed.success) return fail(res, 400, "Validation failed", Object.fromEntries(parsed.error.errors.map((e) => [e.path.join("."), e.message])));
+      if (!req.file) return fail(res, 400, "Statement CSV file is required");
+
+      let statement;
+      try {
+        statement = parseStatementCsv(req.file.buffer.toString("utf8"));
+      } catch (err: any) {
+        return fail(res, 400, err.message);
+      }
+      if (statement.rows.length === 0) return fail(res, 400, "The statement has no incoming transactions");
+
+      const { source } = parsed.data;
+      const { start, end } = statementPeriod(statement.rows);
+      const margin = 3 * 86400000;
+      const references = statement.rows.map((r) => r.reference).filter(Boolean);
+      const payments = await BillingPayment.find({
+        paymentMethod: source,
+        voided: { $ne: true },
+        $or: [
+          { paymentDate: { $gte: new Date(start.getTime() - margin), $lte: new Date(end.getTime() + margin) } },
+          { referenceNumber: { $in: references.concat(references.map(normalizeReference)) } },
+        ],
+      }).lean();
+      const inPeriod = (p: { paymentDate: Date }) => p.paymentDate >= start && p.paymentDate <= end;
+      const lines = matchStatement(statement.rows, payments, inPeriod);
+
+      const actor = req.user!.username;
+      const reconciliation = await Reconciliation.create({
+        source,
+        fileName: req.file.originalname,
+        periodStart: start,
+        periodEnd: end,
+        statementTotal: Math.round(statement.rows.reduce((sum, r) => sum + r.amount, 0) * 100) / 100,
+        systemTotal: Math.round(payments.filter(inPeriod).reduce((sum, p) => sum + p.amountPaid, 0) * 100) / 100,
+        skippedRows: statement.skippedRows,
+        lines,
+        importedBy: actor,
+      });
+      const summary = reconciliationSummary(reconciliation.lines);
+      await logAction("RECONCILIATION_IMPORTED", actor, `${source} ${req.file.originalname}`, { reconciliationId: reconciliation._id, ...summary });
+      return ok(res, { ...reconciliation.toObject(), summary });
+    } catch (err: any) {
+      return fail(res, 500, err.message);
+    }
+  });
+
+  app.post("/api/reconciliations/:id/lines/:lineId/resolve", authMiddleware, adminOnly, async (req: AuthRequest, res: Response) => {
+    try {
+      const parsed = resolveReconciliationLineSchema.safeParse(req.body);
+      if (!parsed.success) return fail(res, 400, "Validation failed", Object.fromEntries(parsed.error.errors.map((e) => [e.path.join("."), e.message])));
+
+      const reconciliation = await Reconciliation.findById(req.params.id);
+      if (!reconciliation) return fail(res, 404, "Reconciliation not found");
+      if (reconciliation.status === "completed") return fail(res, 409, "Reconciliation is already completed");
+      const line = reconciliation.lines.find((l) => String(l._id) === String(req.params.lineId));
+      if (!line) return fail(res, 404, "Reconciliation line not found");
+      if (line.kind === "matched") return fail(res, 400, "Matched lines need no resolution");
+
+      const actor = req.user!.username;
+      const resolvedAt = new Date();
+      if (parsed.data.resolution === "linked") {
+        if (line.kind !== "statement_only") return fail(res, 400, "Only statement-only lines can be linked to a payment");
+        const payment = await BillingPayment.findById(parsed.data.paymentId).lean();
+        if (!payment) return fail(res, 404, "Payment not found");
+        if (payment.voided) return fail(res, 400, "A voided payment cannot be linked to a statement line");
+        if (payment.paymentMethod !== reconciliation.source) {
+          return fail(res, 400, `Payment was made via ${payment.paymentMethod}, not ${reconciliation.source}`);
+        }
+        const taken = reconciliation.lines.find((l) => l.kind !== "system_only" && l.paymentId && String(l.paymentId) === String(payment._id));
+        if (taken) return fail(res, 409, `Payment is already matched to statement row ${taken.statementRow}`);
+        Object.assign(line, {
+          paymentId: payment._id,
+          orderId: payment.orderId,
+          paymentReference: payment.referenceNumber,
+          paymentAmount: payment.amountPaid,
+          paymentDate: payment.paymentDate,
+        });
+        // The payment no longer counts as missing from the statement.
+        reconciliation.lines
+          .filter((l) => l.kind === "system_only" && String(l.paymentId) === String(payment._id) && !l.resolution)
+          .forEach((l) => Object.assign(l, { resolution: "linked", resolutionNote: `Linked to statement row ${line.statementRow}`, resolvedBy: actor, resolvedAt }));
+      }
+      Object.assign(line, { resolution: parsed.data.resolution, resolutionNote: parsed.data.note, resolvedBy: actor, resolvedAt });
+      await reconciliation.save();
+
+      await logAction("RECONCILIATION_LINE_RESOLVED", actor, `${reconciliation.source} ${reconciliation.fileName}`, {
+        reconciliationId: reconciliation._id,
+        kind: line.kind,
+        statementReference: line.statementReference,
+        paymentReference: line.paymentReference,
+        resolution: parsed.data.resolution,
+        note: parsed.data.note,
+      });
+      return ok(res, reconciliation);
+    } catch (err: any) {
+      return fail(res, 500, err.message);
+    }
+  });
+
+  app.post("/api/reconciliations/:id/complete", authMiddleware, adminOnly, async (req: AuthRequest, res: Response) => {
+    try {
+      const reconciliation = await Reconciliation.findById(req.params.id);
+      if (!reconciliation) return fail(res, 404, "Reconciliation not found");
+      if (reconciliation.status === "completed") return fail(res, 409, "Reconciliation is already completed");
+      const summary = reconciliationSummary(reconciliation.lines);
+      if (summary.unresolved > 0) return fail(res, 400, `${summary.unresolved} difference(s) still need to be resolved`);
+
+      reconciliation.status = "completed";
+      reconciliation.completedBy = req.user!.username;
+      reconciliation.completedAt = new Date();
+      await reconciliation.save();
+
+      await logAction("RECONCILIATION_COMPLETED", req.user!.username, `${reconciliation.source} ${reconciliation.fileName}`, {
+        reconciliationId: reconciliation._id,
+        periodStart: reconciliation.periodStart,
+        periodEnd: reconciliation.periodEnd,
+        statementTotal: reconciliation.statementTotal,
+        systemTotal: reconciliation.systemTotal,
+        ...summary,
+      });
+      return ok(res, reconciliation);
+    } catch (err: any) {
+      return fail(res, 500, err.message);
+    }
+  });
+
   // ─── REPORTS ────────────────────────────────────────────
   app.get("/api/reports/sales", authMiddleware, async (req: AuthRequest, res: Response) => {
     try {
       const { startDate, endDate } = req.query as Record<string, string>;
-      const filter: any = {};
+      const filter: any = { voided: { $ne: true } };
       if (startDate || endDate) {
         filter.paymentDate = {};
         if (startDate) filter.paymentDate.$gte = new Date(startDate);
@@ -1314,11 +4031,70 @@ export async function registerRoutes(httpServer: Server, app: Express): Promise<
     }
   });
 
-  app.get("/api/reports/inventory", authMiddleware, async (_req: AuthRequest, res: Response) => {
+  // Open receivables by customer, aged from each invoice's due date: the end of the
+  // payment terms for orders on account, the order date for everything else.
+  app.get("/api/reports/ar-aging", authMiddleware, async (_req: AuthRequest, res: Response) => {
+    try {
+      const asOf = new Date();
+      const orders = await Order.find(OPEN_RECEIVABLES).sort({ createdAt: 1 }).lean();
+      const customers = await Customer.find({ _id: { $in: orders.flatMap((o) => (o.customerId ? [o.customerId] : [])) } }).lean();
+      const customerMap = new Map(customers.map((c) => [c._id.toString(), c]));
+
+      const emptyBuckets = (): Record<ArAgingBucket, number> => ({ current: 0, "1-30": 0, "31-60": 0, "61-90": 0, "90+": 0 });
+      const bucketFor = (days: number): ArAgingBucket => (days <= 0 ? "current" : days <= 30 ? "1-30" : days <= 60 ? "31-60" : days <= 90 ? "61-90" : "90+");
+      const totals = { ...emptyBuckets(), total: 0 };
+      const byCustomer = new Map<string, IArAgingCustomer>();
+
+      for (const order of orders) {
+        const customer = order.customerId ? customerMap.get(order.customerId.toString()) : undefined;
+        const key = customer ? customer._id.toString() : order.customerName.trim().toLowerCase();
+        let row = byCustomer.get(key);
+        if (!row) {
+          row = {
+            customerId: customer?._id.toString(),
+            customerName: customer?.name || order.customerName,
+            paymentTermsDays: customer?.paymentTermsDays || 0,
+            creditLimit: customer?.creditLimit || 0,
+            buckets: emptyBuckets(),
+            total: 0,
+            invoices: [],
+          };
+          byCustomer.set(key, row);
+        }
+
+        const invoiceDate = order.chargedAt || order.createdAt;
+        const dueDate = order.dueDate || order.createdAt;
+        const daysOverdue = Math.floor((asOf.getTime() - new Date(dueDate).getTime()) / (24 * 60 * 60 * 1000));
+        const bucket = bucketFor(daysOverdue);
+        row.buckets[bucket] += order.balanceDue;
+        row.total += order.balanceDue;
+        totals[bucket] += order.balanceDue;
+        totals.total += order.balanceDue;
+        row.invoices.push({
+          orderId: order._id.toString(),
+          trackingNumber: order.trackingNumber,
+          invoiceNumber: order.invoiceNumber,
+          invoiceDate: new Date(invoiceDate).toISOString(),
+          dueDate: new Date(dueDate).toISOString(),
+          totalAmount: order.totalAmount,
+          balanceDue: order.balanceDue,
+          daysOverdue: Math.max(0, daysOverdue),
+          bucket,
+        });
+      }
+
+      const rows = Array.from(byCustomer.values()).sort((a, b) => b.total - a.total);
+      return ok(res, { asOf: asOf.toISOString(), totals, customers: rows });
+    } catch (err: any) {
+      return fail(res, 500, err.message);
+    }
+  });
+
+  app.get("/api/reports/inventory", authMiddleware, async (req: AuthRequest, res: Response) => {
     try {
       const items = await Item.find().sort({ itemName: 1 }).lean();
       const totalValue = items.reduce((s, i) => s + i.unitPrice * i.currentQuantity, 0);
-      return ok(res, { items, totalValue, count: items.length });
+      return ok(res, { items: items.map((i) => itemForRole(i, req.user!.role)), totalValue, count: items.length });
     } catch (err: any) {
       return fail(res, 500, err.message);
     }
@@ -1328,7 +4104,7 @@ export async function registerRoutes(httpServer: Server, app: Express): Promise<
     try {
       const ninetyDaysAgo = new Date(Date.now() - 90 * 86400000);
       const data = await BillingPayment.aggregate([
-        { $match: { paymentDate: { $gte: ninetyDaysAgo } } },
+        { $match: { paymentDate: { $gte: ninetyDaysAgo }, voided: { $ne: true } } },
         { $group: { _id: { $dateToString: { format: "%Y-%m-%d", date: "$paymentDate" } }, revenue: { $sum: "$amountPaid" } } },
         { $sort: { _id: 1 } },
       ]);
@@ -1423,8 +4199,9 @@ export async function registerRoutes(httpServer: Server, app: Express): Promise<
       return ok(res, {
         itemName: item?.itemName || "Unknown",
         totalRemaining: batches.reduce((s, b) => s + b.remainingQuantity, 0),
-        batches: batches.map(b => ({
+        batches: batches.map(({ unitCost, ...b }) => ({
           ...b,
+          ...(req.user!.role === "ADMIN" ? { unitCost } : {}),
           _id: (b as any)._id.toString(),
           depleted: b.remainingQuantity === 0,
         })),
@@ -1438,7 +4215,7 @@ export async function registerRoutes(httpServer: Server, app: Express): Promise<
     try {
       const thirtyDaysAgo = new Date(Date.now() - 30 * 86400000);
       const data = await BillingPayment.aggregate([
-        { $match: { paymentDate: { $gte: thirtyDaysAgo } } },
+        { $match: { paymentDate: { $gte: thirtyDaysAgo }, voided: { $ne: true } } },
         { $group: { _id: { $dateToString: { format: "%Y-%m-%d", date: "$paymentDate" } }, revenue: { $sum: "$amountPaid" } } },
         { $sort: { _id: 1 } },
       ]);
@@ -1476,16 +4253,18 @@ export async function registerRoutes(httpServer: Server, app: Express): Promise<
       }
 
       const regex = { $regex: q, $options: "i" };
-      const [items, customers, orders] = await Promise.all([
+      const [items, customers, orders, quotations] = await Promise.all([
         Item.find({ $or: [{ itemName: regex }, { category: regex }, { barcode: regex }] }).limit(5).lean(),
         Customer.find({ $or: [{ name: regex }, { email: regex }, { phone: regex }] }).limit(5).lean(),
         Order.find({ $or: [{ trackingNumber: regex }, { customerName: regex }] }).limit(5).lean(),
+        Quotation.find({ $or: [{ quoteNumber: regex }, { customerName: regex }] }).limit(5).lean(),
       ]);
 
       const results = [
         ...items.map((i) => ({ type: "item" as const, id: i._id.toString(), label: i.itemName, sublabel: i.category || "" })),
         ...customers.map((c) => ({ type: "customer" as const, id: c._id.toString(), label: c.name, sublabel: c.phone || "" })),
         ...orders.map((o) => ({ type: "order" as const, id: o._id.toString(), label: o.trackingNumber, sublabel: o.customerName || "" })),
+        ...quotations.map((q) => ({ type: "quotation" as const, id: q._id.toString(), label: q.quoteNumber, sublabel: q.customerName || "" })),
       ];
       return ok(res, { results, source: "mongodb-regex" });
     } catch (err: any) {
@@ -1496,21 +4275,9 @@ export async function registerRoutes(httpServer: Server, app: Express): Promise<
   // ─── MAINTENANCE (backup/restore) ──────────────────────
   app.get("/api/maintenance/backup", authMiddleware, adminOnly, async (req: AuthRequest, res: Response) => {
     try {
-      const [items, customers, orders, payments, inventoryLogs, accounts, ledger, settings, systemLogs] =
-        await Promise.all([
-          Item.find().lean(),
-          Customer.find().lean(),
-          Order.find().lean(),
-          BillingPayment.find().lean(),
-          InventoryLog.find().lean(),
-          AccountingAccount.find().lean(),
-          GeneralLedgerEntry.find().lean(),
-          Settings.find().lean(),
-          SystemLog.find().lean(),
-        ]);
-
+      const data = await createBackupData();
       await logAction("BACKUP_CREATED", req.user!.username);
-      return ok(res, { items, customers, orders, payments, inventoryLogs, accounts, ledger, settings, systemLogs, exportDate: new Date() });
+      return ok(res, data);
     } catch (err: any) {
       return fail(res, 500, err.message);
     }
@@ -1720,16 +4487,43 @@ export async function registerRoutes(httpServer: Server, app: Express): Promise<
       const hasRequired = requiredKeys.some((key) => Array.isArray(backupData[key]));
       if (!hasRequired) return fail(res, 400, "Backup file must contain valid data (items, orders, etc.)");
 
+      // Records that point at orders, payments and invoice numbers are replaced along
+      // with the orders whenever the file has them, even as an empty list, so no stale
+      // row survives. A file without the collection leaves it untouched.
+      const restoresOrders = backupData.orders?.length > 0;
+      const replaceOrderRecords = (model: Model<any>, docs: any[] | undefined) =>
+        restoresOrders && Array.isArray(docs)
+          ? model.deleteMany({}).then(() => (docs.length > 0 ? model.insertMany(docs) : undefined))
+          : Promise.resolve();
+
       await Promise.all([
         backupData.items?.length > 0 ? Item.deleteMany({}).then(() => Item.insertMany(backupData.items)) : Promise.resolve(),
         backupData.customers?.length > 0 ? Customer.deleteMany({}).then(() => Customer.insertMany(backupData.customers)) : Promise.resolve(),
         backupData.orders?.length > 0 ? Order.deleteMany({}).then(() => Order.insertMany(backupData.orders)) : Promise.resolve(),
-        backupData.payments?.length > 0 ? BillingPayment.deleteMany({}).then(() => BillingPayment.insertMany(backupData.payments)) : Promise.resolve(),
+        backupData.payments?.length > 0 ? BillingPayment.deleteMany({}).then(() => BillingPayment.insertMany(backupData.payments.map(legacyPaymentFields))) : Promise.resolve(),
         backupData.inventoryLogs?.length > 0 ? InventoryLog.deleteMany({}).then(() => InventoryLog.insertMany(backupData.inventoryLogs)) : Promise.resolve(),
         backupData.accounts?.length > 0 ? AccountingAccount.deleteMany({}).then(() => AccountingAccount.insertMany(backupData.accounts)) : Promise.resolve(),
         backupData.ledger?.length > 0 ? GeneralLedgerEntry.deleteMany({}).then(() => GeneralLedgerEntry.insertMany(backupData.ledger)) : Promise.resolve(),
         backupData.settings?.length > 0 ? Settings.deleteMany({}).then(() => Settings.insertMany(backupData.settings)) : Promise.resolve(),
+        backupData.suppliers?.length > 0 ? Supplier.deleteMany({}).then(() => Supplier.insertMany(backupData.suppliers)) : Promise.resolve(),
+        replaceOrderRecords(OrderReturn, backupData.returns),
+        replaceOrderRecords(SalesDocument, backupData.salesDocuments),
+        replaceOrderRecords(Reconciliation, backupData.reconciliations),
+        replaceOrderRecords(PaymentVoidRequest, backupData.voidRequests),
+        replaceOrderRecords(CustomerCreditEntry, backupData.customerCredits),
+        replaceOrderRecords(CashierShift, backupData.shifts),
+        backupData.purchaseOrders?.length > 0 ? PurchaseOrder.deleteMany({}).then(() => PurchaseOrder.insertMany(backupData.purchaseOrders)) : Promise.resolve(),
+        // Quotes and the number series travel together: a file with an empty quote
+        // list still clears stale quotes, so the restored Q- series matches them.
+        Array.isArray(backupData.quotations)
+          ? Quotation.deleteMany({}).then(() => (backupData.quotations.length > 0 ? Quotation.insertMany(backupData.quotations) : undefined))
+          : Promise.resolve(),
+        // Quote, PO and shift numbers continue from the restored series.
+        backupData.counters?.length > 0 ? Counter.deleteMany({}).then(() => Counter.insertMany(backupData.counters)) : Promise.resolve(),
       ]);
+      // Backups taken before supplier records still name suppliers in free text.
+      await migrateItemSuppliers();
+      await buildSearchIndexes();
 
       await logAction("BACKUP_RESTORED", req.user!.username, "", { collections: Object.keys(backupData) });
       return ok(res, { message: "Backup restored successfully" });
@@ -1863,8 +4657,8 @@ export async function registerRoutes(httpServer: Server, app: Express): Promise<
       }))),
       BillingPayment.find({}).sort({ paymentDate: -1 }).limit(100).lean().then(docs => docs.map(d => ({
         orderId: d.orderId, amountPaid: d.amountPaid, paymentMethod: d.paymentMethod,
-        gcashNumber: d.gcashNumber, gcashReferenceNumber: d.gcashReferenceNumber,
-        loggedBy: d.loggedBy, paymentDate: d.paymentDate,
+        reference: paymentReference(d),
+        loggedBy: d.loggedBy, paymentDate: d.paymentDate, voided: d.voided,
       }))),
       User.find({}).lean().then(docs => docs.map(d => ({
         username: d.username, role: d.role, active: d.active, lastLogin: d.lastLogin,
@@ -0,0 +1,392 @@
+import { jsPDF } from "jspdf";
+import autoTable, { type Table } from "jspdf-autotable";
+
+export interface CompanyProfile {
+  companyName: string;
+  companyAddress?: string;
+  companyTin?: string;
+  companyContact?: string;
+  vatRegistered?: boolean;
+}
+
+export interface DocumentStamp {
+  documentNumber: string;
+  issuedAt: Date;
+  reprint: boolean;
+  printedBy: string;
+}
+
+function money(value: number) {
+  return `PHP ${(value || 0).toLocaleString("en-PH", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+}
+
+function formatDate(value: Date | string) {
+  return new Date(value).toLocaleDateString("en-PH", { year: "numeric", month: "long", day: "numeric" });
+}
+
+function formatAddress(address: any) {
+  if (!address) return "";
+  return [address.unitNumber, address.street, address.city, address.province, address.zipCode].filter(Boolean).join(", ");
+}
+
+// Company block, document title and number. Returns the y position to continue from.
+function drawHeader(doc: jsPDF, company: CompanyProfile, title: string, stamp: DocumentStamp) {
+  const pageWidth = doc.internal.pageSize.getWidth();
+  let y = 18;
+
+  doc.setFont("helvetica", "bold");
+  doc.setFontSize(16);
+  doc.text(company.companyName, pageWidth / 2, y, { align: "center" });
+  doc.setFont("helvetica", "normal");
+  doc.setFontSize(9);
+  if (company.companyAddress) {
+    y += 5;
+    doc.text(company.companyAddress, pageWidth / 2, y, { align: "center" });
+  }
+  if (company.companyTin) {
+    y += 5;
+    doc.text(`${company.vatRegistered ? "VAT Reg." : "Non-VAT Reg."} TIN: ${company.companyTin}`, pageWidth / 2, y, { align: "center" });
+  }
+  if (company.companyContact) {
+    y += 5;
+    doc.text(company.companyContact, pageWidth / 2, y, { align: "center" });
+  }
+
+  y += 10;
+  doc.setFont("helvetica", "bold");
+  doc.setFontSize(14);
+  doc.text(title, 14, y);
+  doc.setTextColor(200, 0, 0);
+  doc.text(`No. ${stamp.documentNumber}`, pageWidth - 14, y, { align: "right" });
+  doc.setTextColor(0, 0, 0);
+  doc.setFont("helvetica", "normal");
+  doc.setFontSize(9);
+  y += 5;
+  doc.text(`Date issued: ${formatDate(stamp.issuedAt)}`, pageWidth - 14, y, { align: "right" });
+
+  if (stamp.reprint) {
+    doc.setFont("helvetica", "bold");
+    doc.setFontSize(60);
+    doc.setTextColor(220, 220, 220);
+    doc.text("REPRINT", pageWidth / 2, 150, { align: "center", angle: 30 });
+    doc.setFontSize(12);
+    doc.setTextColor(200, 0, 0);
+    doc.text("REPRINT", 14, y);
+    doc.setTextColor(0, 0, 0);
+    doc.setFont("helvetica", "normal");
+    doc.setFontSize(9);
+  }
+
+  return y + 8;
+}
+
+function drawFooter(doc: jsPDF, stamp: DocumentStamp) {
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  doc.setFontSize(8);
+  doc.setTextColor(120, 120, 120);
+  const printed = `Printed ${new Date().toLocaleString("en-PH")} by ${stamp.printedBy}`;
+  doc.text(stamp.reprint ? `${printed} - REPRINT of ${stamp.documentNumber}` : printed, pageWidth / 2, pageHeight - 10, { align: "center" });
+  doc.setTextColor(0, 0, 0);
+}
+
+// jspdf-autotable records the last table it drew on the document but does not
+// declare the property on jsPDF.
+function tableEndY(doc: jsPDF) {
+  return (doc as jsPDF & { lastAutoTable: Table }).lastAutoTable.finalY ?? 0;
+}
+
+function drawVatBreakdown(doc: jsPDF, y: number, rows: Array<[string, string]>) {
+  autoTable(doc, {
+    startY: y,
+    body: rows,
+    theme: "plain",
+    styles: { fontSize: 9, cellPadding: 1 },
+    columnStyles: { 0: { halign: "right", cellWidth: 140 }, 1: { halign: "right", fontStyle: "bold" } },
+    margin: { left: 14, right: 14 },
+  });
+  return tableEndY(doc);
+}
+
+// VAT-exempt / non-VAT sales are whatever part of the total is neither vatable sales nor VAT.
+function vatRows(total: number, vatableSales: number, vatAmount: number, vatRegistered: boolean): Array<[string, string]> {
+  if (!vatRegistered) return [];
+  const exempt = Math.max(0, Math.round((total - vatableSales - vatAmount) * 100) / 100);
+  return [
+    ["VATable Sales", money(vatableSales)],
+    ["VAT-Exempt Sales", money(exempt)],
+    ["VAT (12%)", money(vatAmount)],
+  ];
+}
+
+export function renderInvoicePdf(company: CompanyProfile, order: any, stamp: DocumentStamp): Buffer {
+  const doc = new jsPDF();
+  let y = drawHeader(doc, company, "SALES INVOICE", stamp);
+
+  doc.text(`Sold to: ${order.customerName}`, 14, y);
+  doc.text(`Order: ${order.trackingNumber}`, doc.internal.pageSize.getWidth() - 14, y, { align: "right" });
+  const address = formatAddress(order.address);
+  if (address) {
+    y += 5;
+    doc.text(`Address: ${address}`, 14, y);
+  }
+
+  autoTable(doc, {
+    startY: y + 5,
+    head: [["Item", "Qty", "Unit Price", "Discount", "Amount"]],
+    body: order.items.map((i: any) => [
+      i.itemName,
+      String(i.quantity),
+      money(i.unitPrice),
+      i.discountAmount ? `-${money(i.discountAmount)}` : "",
+      money(i.lineTotal),
+    ]),
+    styles: { fontSize: 9 },
+    headStyles: { fillColor: [40, 40, 40] },
+    columnStyles: { 1: { halign: "right" }, 2: { halign: "right" }, 3: { halign: "right" }, 4: { halign: "right" } },
+    margin: { left: 14, right: 14 },
+  });
+  y = tableEndY(doc) + 3;
+
+  const totals: Array<[string, string]> = [["Subtotal", money(order.subtotal ?? order.totalAmount)]];
+  if (order.discountAmount) totals.push(["Less: Discount", `-${money(order.discountAmount)}`]);
+  totals.push(...vatRows(order.totalAmount, order.vatableSales || 0, order.vatAmount || 0, !!company.vatRegistered));
+  totals.push(["TOTAL AMOUNT DUE", money(order.totalAmount)]);
+  totals.push(["Amount Paid", money(order.amountPaid || 0)]);
+  totals.push(["Balance Due", money(order.balanceDue ?? order.totalAmount)]);
+  drawVatBreakdown(doc, y, totals);
+
+  drawFooter(doc, stamp);
+  return Buffer.from(doc.output("arraybuffer"));
+}
+
+function paymentDetailRows(payment: any): string[][] {
+  const rows: string[][] = [];
+  if (payment.bankName) rows.push(["Bank", payment.bankName]);
+  if (payment.accountNumber) rows.push(["Account no.", payment.accountNumber]);
+  if (payment.referenceNumber) rows.push(["Reference no.", payment.referenceNumber]);
+  if (payment.chequeNumber) rows.push(["Cheque no.", `${payment.chequeNumber}${payment.chequeDate ? ` dated ${formatDate(payment.chequeDate)}` : ""}`]);
+  if (payment.cardLast4) rows.push(["Card", `**** ${payment.cardLast4}`]);
+  if (payment.approvalCode) rows.push(["Approval code", payment.approvalCode]);
+  return rows;
+}
+
+export function renderReceiptPdf(company: CompanyProfile, order: any, payment: any, stamp: DocumentStamp, invoiceNumber?: string): Buffer {
+  const doc = new jsPDF();
+  let y = drawHeader(doc, company, "OFFICIAL RECEIPT", stamp);
+
+  doc.setFontSize(10);
+  const lines = doc.splitTextToSize(
+    `Received from ${order.customerName} the sum of ${money(payment.amountPaid)} as ${payment.balanceAfter > 0 ? "partial" : "full"} payment for order ${order.trackingNumber}${invoiceNumber ? ` (Sales Invoice No. ${invoiceNumber})` : ""}.`,
+    doc.internal.pageSize.getWidth() - 28
+  );
+  doc.text(lines, 14, y);
+  y += lines.length * 5 + 3;
+
+  autoTable(doc, {
+    startY: y,
+    body: [
+      ["Payment date", formatDate(payment.paymentDate || payment.createdAt)],
+      ["Payment method", payment.paymentMethod],
+      ...paymentDetailRows(payment),
+      ["Received by", payment.loggedBy],
+      ...(payment.voided ? [["Voided", `${payment.voidedAt ? formatDate(payment.voidedAt) : ""} by ${payment.voidedBy || "-"}: ${payment.voidReason || ""}`]] : []),
+    ],
+    theme: "plain",
+    styles: { fontSize: 9, cellPadding: 1 },
+    columnStyles: { 0: { fontStyle: "bold", cellWidth: 40 } },
+    margin: { left: 14, right: 14 },
+  });
+  y = tableEndY(doc) + 4;
+
+  // The payment carries the same VAT share as the order it settles.
+  const share = order.totalAmount > 0 ? payment.amountPaid / order.totalAmount : 0;
+  const vatableSales = Math.round((order.vatableSales || 0) * share * 100) / 100;
+  const vatAmount = Math.round((order.vatAmount || 0) * share * 100) / 100;
+  const totals: Array<[string, string]> = vatRows(payment.amountPaid, vatableSales, vatAmount, !!company.vatRegistered);
+  totals.push(["AMOUNT RECEIVED", money(payment.amountPaid)]);
+  totals.push(["Balance after payment", money(payment.balanceAfter || 0)]);
+  drawVatBreakdown(doc, y, totals);
+
+  // The receipt number stays issued; a voided payment's receipt is marked rather than withdrawn.
+  if (payment.voided) {
+    const pageWidth = doc.internal.pageSize.getWidth();
+    doc.setFont("helvetica", "bold");
+    doc.setFontSize(80);
+    doc.setTextColor(230, 150, 150);
+    doc.text("VOID", pageWidth / 2, 120, { align: "center", angle: 30 });
+    doc.setTextColor(0, 0, 0);
+    doc.setFont("helvetica", "normal");
+  }
+
+  drawFooter(doc, stamp);
+  return Buffer.from(doc.output("arraybuffer"));
+}
+
+export interface ZReportData {
+  heading: string;
+  shifts: any[];
+  payments: any[];
+}
+
+function formatTime(value: Date | string) {
+  return new Date(value).toLocaleString("en-PH", { month: "short", day: "numeric", hour: "2-digit", minute: "2-digit" });
+}
+
+function signedMoney(value: number) {
+  if (!value) return money(0);
+  return value > 0 ? `+${money(value)}` : `(${money(-value)})`;
+}
+
+// End-of-shift (or end-of-day) drawer summary. Counts from every shift are added
+// up per payment method, then listed shift by shift and payment by payment.
+export function renderZReportPdf(company: CompanyProfile, report: ZReportData, stamp: DocumentStamp): Buffer {
+  const doc = new jsPDF();
+  let y = drawHeader(doc, company, "Z-REPORT", stamp);
+
+  doc.setFontSize(10);
+  doc.text(report.heading, 14, y);
+  y += 4;
+
+  const byMethod = new Map<string, { paymentCount: number; expected: number; counted: number; variance: number }>();
+  for (const shift of report.shifts) {
+    for (const c of shift.counts || []) {
+      const row = byMethod.get(c.paymentMethod) || { paymentCount: 0, expected: 0, counted: 0, variance: 0 };
+      row.paymentCount += c.paymentCount;
+      row.expected += c.expected;
+      row.counted += c.counted;
+      row.variance += c.variance;
+      byMethod.set(c.paymentMethod, row);
+    }
+  }
+  const methodRows = Array.from(byMethod.entries()).map(([method, row]) => [
+    method,
+    String(row.paymentCount),
+    money(row.expected),
+    money(row.counted),
+    signedMoney(Math.round(row.variance * 100) / 100),
+  ]);
+  const sum = (field: "expectedTotal" | "countedTotal" | "variance") =>
+    Math.round(report.shifts.reduce((s, shift) => s + (shift[field] || 0), 0) * 100) / 100;
+
+  autoTable(doc, {
+    startY: y,
+    head: [["Payment Method", "Payments", "Expected", "Counted", "Over / (Short)"]],
+    body: methodRows,
+    foot: [["TOTAL", "", money(sum("expectedTotal")), money(sum("countedTotal")), signedMoney(sum("variance"))]],
+    styles: { fontSize: 9 },
+    headStyles: { fillColor: [40, 40, 40] },
+    footStyles: { fillColor: [230, 230, 230], textColor: [0, 0, 0] },
+    columnStyles: { 1: { halign: "right" }, 2: { halign: "right" }, 3: { halign: "right" }, 4: { halign: "right" } },
+    margin: { left: 14, right: 14 },
+  });
+  y = tableEndY(doc) + 6;
+
+  autoTable(doc, {
+    startY: y,
+    head: [["Shift", "Cashier", "Opened", "Closed", "Float", "Over / (Short)"]],
+    body: report.shifts.map((s) => [
+      s.shiftNumber,
+      s.cashier,
+      formatTime(s.openedAt),
+      s.closedAt ? `${formatTime(s.closedAt)}${s.closedBy && s.closedBy !== s.cashier ? ` by ${s.closedBy}` : ""}` : "Still open",
+      money(s.openingFloat),
+      s.status === "closed" ? signedMoney(s.variance) : "-",
+    ]),
+    styles: { fontSize: 8 },
+    headStyles: { fillColor: [90, 90, 90] },
+    columnStyles: { 4: { halign: "right" }, 5: { halign: "right" } },
+    margin: { left: 14, right: 14 },
+  });
+  y = tableEndY(doc) + 6;
+
+  const voided = report.payments.filter((p) => p.voided);
+  autoTable(doc, {
+    startY: y,
+    head: [["Time", "Order", "Method", "Reference", "Received by", "Amount"]],
+    body: report.payments.map((p) => [
+      formatTime(p.createdAt),
+      p.trackingNumber || "",
+      p.paymentMethod,
+      p.referenceNumber || p.chequeNumber || (p.cardLast4 ? `**** ${p.cardLast4}` : ""),
+      p.loggedBy,
+      p.voided ? `VOID ${money(p.amountPaid)}` : money(p.amountPaid),
+    ]),
+    styles: { fontSize: 8 },
+    headStyles: { fillColor: [90, 90, 90] },
+    columnStyles: { 5: { halign: "right" } },
+    margin: { left: 14, right: 14 },
+  });
+  y = tableEndY(doc) + 4;
+
+  if (voided.length > 0) {
+    doc.setFontSize(8);
+    doc.text(`${voided.length} voided payment(s) listed. Payments voided before their shift closed are not part of the expected amounts.`, 14, y);
+  }
+
+  drawFooter(doc, stamp);
+  return Buffer.from(doc.output("arraybuffer"));
+}
+
+// Purchase order sent to the supplier. Once goods start arriving the same
+// document shows how much of each line has been received.
+export function renderPurchaseOrderPdf(company: CompanyProfile, po: any, supplier: any, stamp: DocumentStamp): Buffer {
+  const doc = new jsPDF();
+  const pageWidth = doc.internal.pageSize.getWidth();
+  let y = drawHeader(doc, company, po.status === "draft" ? "PURCHASE ORDER (DRAFT)" : "PURCHASE ORDER", stamp);
+
+  doc.setFont("helvetica", "bold");
+  doc.text(`Supplier: ${po.supplierName}`, 14, y);
+  doc.setFont("helvetica", "normal");
+  if (po.expectedDate) doc.text(`Deliver by: ${formatDate(po.expectedDate)}`, pageWidth - 14, y, { align: "right" });
+  const supplierLines = [
+    supplier?.address,
+    supplier?.tin ? `TIN: ${supplier.tin}` : "",
+    [supplier?.contactPerson, supplier?.phone, supplier?.email].filter(Boolean).join(" / "),
+    supplier?.paymentTermsDays ? `Terms: ${supplier.paymentTermsDays} days` : "",
+  ].filter(Boolean);
+  for (const line of supplierLines) {
+    y += 5;
+    doc.text(line, 14, y);
+  }
+
+  const showReceived = po.status === "partially_received" || po.status === "received";
+  autoTable(doc, {
+    startY: y + 5,
+    head: [["Item", "Supplier SKU", "Ordered", ...(showReceived ? ["Received"] : []), "Unit Cost", "Amount"]],
+    body: po.items.map((i: any) => [
+      i.itemName,
+      i.supplierSku || "",
+      String(i.quantity),
+      ...(showReceived ? [String(i.receivedQuantity)] : []),
+      money(i.unitCost),
+      money(i.quantity * i.unitCost),
+    ]),
+    styles: { fontSize: 9 },
+    headStyles: { fillColor: [40, 40, 40] },
+    columnStyles: showReceived
+      ? { 2: { halign: "right" }, 3: { halign: "right" }, 4: { halign: "right" }, 5: { halign: "right" } }
+      : { 2: { halign: "right" }, 3: { halign: "right" }, 4: { halign: "right" } },
+    margin: { left: 14, right: 14 },
+  });
+  y = tableEndY(doc) + 3;
+
+  const totals: Array<[string, string]> = [["TOTAL", money(po.totalAmount)]];
+  if (showReceived) totals.push(["Received to date", money(po.receivedAmount)]);
+  y = drawVatBreakdown(doc, y, totals) + 6;
+
+  if (po.notes) {
+    doc.setFontSize(9);
+    doc.text(doc.splitTextToSize(`Notes: ${po.notes}`, pageWidth - 28), 14, y);
+    y += 10;
+  }
+
+  doc.setFontSize(9);
+  doc.text("Prepared by:", 14, y + 10);
+  doc.text(po.createdBy, 14, y + 15);
+  doc.text("Approved by:", pageWidth / 2, y + 10);
+  doc.line(pageWidth / 2, y + 16, pageWidth - 14, y + 16);
+
+  drawFooter(doc, stamp);
+  return Buffer.from(doc.output("arraybuffer"));
+}
@@ -2,6 +2,8 @@ import bcrypt from "bcryptjs";
 import User from "./models/User";
 import Item from "./models/Item";
 import Customer from "./models/Customer";
+import Supplier from "./models/Supplier";
+import { supplierNameKey } from "./suppliers";
 import AccountingAccount from "./models/AccountingAccount";
 import Settings from "./models/Settings";
 import { log } from "./index";
@@ -32,28 +34,43 @@ export async function seedDatabase() {
       { name: "Roberto Lim", email: "roberto@email.com", phone: "09167788990", address: "654 Del Pilar Blvd, Taguig" },
     ]);
 
+    const suppliers = await Supplier.create(
+      ["Republic Cement", "Steel Asia", "Local Supplier", "Wood Industries", "Steel Corp", "Boysen", "Atlanta Industries", "Metal Works", "Quarry Supply"]
+        .map((name) => ({ name, nameKey: supplierNameKey(name), paymentTermsDays: 30, leadTimeDays: 3 }))
+    );
+    const supplier = (name: string, lastCost: number) => [{ supplierId: suppliers.find((s) => s.name === name)!._id, lastCost }];
+
     await Item.create([
-      { itemName: "Portland Cement", category: "Cement", supplierName: "Republic Cement", unitPrice: 280, currentQuantity: 150, reorderLevel: 30, barcode: "CEM001" },
-      { itemName: "Deformed Steel Bar 10mm", category: "Steel", supplierName: "Steel Asia", unitPrice: 185, currentQuantity: 200, reorderLevel: 50, barcode: "STL001" },
-      { itemName: "Hollow Blocks 4\"", category: "Masonry", supplierName: "Local Supplier", unitPrice: 12, currentQuantity: 500, reorderLevel: 100, barcode: "MSN001" },
-      { itemName: "Plywood 1/4\" Marine", category: "Wood", supplierName: "Wood Industries", unitPrice: 450, currentQuantity: 45, reorderLevel: 15, barcode: "WD001" },
-      { itemName: "GI Wire #16", category: "Wire", supplierName: "Steel Corp", unitPrice: 85, currentQuantity: 80, reorderLevel: 20, barcode: "WR001" },
-      { itemName: "Paint Latex White 4L", category: "Paint", supplierName: "Boysen", unitPrice: 650, currentQuantity: 8, reorderLevel: 10, barcode: "PNT001" },
-      { itemName: "PVC Pipe 4\" x 10ft", category: "Plumbing", supplierName: "Atlanta Industries", unitPrice: 320, currentQuantity: 35, reorderLevel: 10, barcode: "PLB001" },
-      { itemName: "Roof Nail 3\"", category: "Nails", supplierName: "Metal Works", unitPrice: 120, currentQuantity: 5, reorderLevel: 15, barcode: "NL001" },
-      { itemName: "Sand (per cubic meter)", category: "Aggregates", supplierName: "Quarry Supply", unitPrice: 1200, currentQuantity: 20, reorderLevel: 5, barcode: "AGG001" },
-      { itemName: "Gravel (per cubic meter)", category: "Aggregates", supplierName: "Quarry Supply", unitPrice: 1400, currentQuantity: 18, reorderLevel: 5, barcode: "AGG002" },
+      { itemName: "Portland Cement", category: "Cement", suppliers: supplier("Republic Cement", 235), unitPrice: 280, costPrice: 235, currentQuantity: 150, reorderLevel: 30, barcode: "CEM001" },
+      { itemName: "Deformed Steel Bar 10mm", category: "Steel", suppliers: supplier("Steel Asia", 150), unitPrice: 185, costPrice: 150, currentQuantity: 200, reorderLevel: 50, barcode: "STL001" },
+      { itemName: "Hollow Blocks 4\"", category: "Masonry", suppliers: supplier("Local Supplier", 8.5), unitPrice: 12, costPrice: 8.5, currentQuantity: 500, reorderLevel: 100, barcode: "MSN001" },
+      { itemName: "Plywood 1/4\" Marine", category: "Wood", suppliers: supplier("Wood Industries", 365), unitPrice: 450, costPrice: 365, currentQuantity: 45, reorderLevel: 15, barcode: "WD001" },
+      { itemName: "GI Wire #16", category: "Wire", suppliers: supplier("Steel Corp", 62), unitPrice: 85, costPrice: 62, currentQuantity: 80, reorderLevel: 20, barcode: "WR001" },
+      { itemName: "Paint Latex White 4L", category: "Paint", suppliers: supplier("Boysen", 520), unitPrice: 650, costPrice: 520, currentQuantity: 8, reorderLevel: 10, barcode: "PNT001" },
+      { itemName: "PVC Pipe 4\" x 10ft", category: "Plumbing", suppliers: supplier("Atlanta Industries", 245), unitPrice: 320, costPrice: 245, currentQuantity: 35, reorderLevel: 10, barcode: "PLB001" },
+      { itemName: "Roof Nail 3\"", category: "Nails", suppliers: supplier("Metal Works", 88), unitPrice: 120, costPrice: 88, currentQuantity: 5, reorderLevel: 15, barcode: "NL001" },
+      { itemName: "Sand (per cubic meter)", category: "Aggregates", suppliers: supplier("Quarry Supply", 850), unitPrice: 1200, costPrice: 850, currentQuantity: 20, reorderLevel: 5, barcode: "AGG001" },
+      { itemName: "Gravel (per cubic meter)", category: "Aggregates", suppliers: supplier("Quarry Supply", 1000), unitPrice: 1400, costPrice: 1000, currentQuantity: 18, reorderLevel: 5, barcode: "AGG002" },
     ]);
 
     await AccountingAccount.create([
-      { accountCode: "1000", accountName: "Cash/GCash", accountType: "Asset", balance: 0 },
+      { accountCode: "1010", accountName: "Cash on Hand", accountType: "Asset", balance: 0 },
+      { accountCode: "1020", accountName: "GCash Wallet", accountType: "Asset", balance: 0 },
+      { accountCode: "1030", accountName: "Maya Wallet", accountType: "Asset", balance: 0 },
+      { accountCode: "1040", accountName: "Cash in Bank", accountType: "Asset", balance: 0 },
+      { accountCode: "1050", accountName: "Cheques for Deposit", accountType: "Asset", balance: 0 },
+      { accountCode: "1060", accountName: "Card Settlements Receivable", accountType: "Asset", balance: 0 },
       { accountCode: "1100", accountName: "Accounts Receivable", accountType: "Asset", balance: 0 },
       { accountCode: "1200", accountName: "Inventory", accountType: "Asset", balance: 0 },
       { accountCode: "2000", accountName: "Accounts Payable", accountType: "Liability", balance: 0 },
+      { accountCode: "2100", accountName: "Customer Credit Notes", accountType: "Liability", balance: 0 },
+      { accountCode: "2150", accountName: "Customer Deposits", accountType: "Liability", balance: 0 },
+      { accountCode: "2200", accountName: "Output VAT Payable", accountType: "Liability", balance: 0 },
       { accountCode: "3000", accountName: "Owner's Equity", accountType: "Equity", balance: 0 },
       { accountCode: "4000", accountName: "Sales Revenue", accountType: "Revenue", balance: 0 },
       { accountCode: "5000", accountName: "Cost of Goods Sold", accountType: "Expense", balance: 0 },
       { accountCode: "5100", accountName: "Operating Expenses", accountType: "Expense", balance: 0 },
+      { accountCode: "5200", accountName: "Cash Over and Short", accountType: "Expense", balance: 0 },
     ]);
 
     await Settings.create({
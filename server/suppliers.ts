@@ -0,0 +1,80 @@
+// Supplier names were typed freely on items, so the same company shows up as
+// "Quarry Supply", "Quarry supply" and "Quarry Supply Inc.". These helpers
+// decide when two spellings are the same supplier.
+
+const COMPANY_SUFFIXES = new Set(["inc", "incorporated", "corp", "corporation", "co", "company", "ltd", "limited", "opc"]);
+
+// Lowercase, punctuation-free, with legal suffixes dropped: "Quarry Supply, Inc." -> "quarry supply".
+export function supplierNameKey(name: string) {
+  const words = name
+    .toLowerCase()
+    .replace(/&/g, " and ")
+    .replace(/[^a-z0-9\s]/g, " ")
+    .split(/\s+/)
+    .filter(Boolean);
+  while (words.length > 1 && COMPANY_SUFFIXES.has(words[words.length - 1])) words.pop();
+  return words.join(" ");
+}
+
+function editDistance(a: string, b: string) {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+// Same key, or a typo apart: one edit for names of 8+ characters, two for 16+.
+export function sameSupplierKey(a: string, b: string) {
+  if (a === b) return true;
+  const length = Math.min(a.length, b.length);
+  const allowed = length >= 16 ? 2 : length >= 8 ? 1 : 0;
+  return allowed > 0 && Math.abs(a.length - b.length) <= allowed && editDistance(a, b) <= allowed;
+}
+
+export interface SupplierNameGroup {
+  // The spelling used most often, which becomes the supplier record's name.
+  name: string;
+  key: string;
+  variants: string[];
+}
+
+export const tidySupplierName = (name: string) => name.trim().replace(/\s+/g, " ");
+
+// Share of words written as "Title" rather than "title" or "TITLE".
+function titleCaseScore(name: string) {
+  const words = name.split(" ");
+  return words.filter((w) => /^[A-Z][a-z]/.test(w)).length / words.length;
+}
+
+// Clusters free-text supplier names into one group per company.
+export function groupSupplierNames(names: string[]): SupplierNameGroup[] {
+  const counts = new Map<string, number>();
+  names.map(tidySupplierName).filter(Boolean).forEach((n) => counts.set(n, (counts.get(n) || 0) + 1));
+  const spellings = Array.from(counts.keys()).sort((a, b) => counts.get(b)! - counts.get(a)! || a.localeCompare(b));
+
+  const groups: SupplierNameGroup[] = [];
+  for (const spelling of spellings) {
+    const key = supplierNameKey(spelling);
+    const group = groups.find((g) => sameSupplierKey(g.key, key));
+    if (group) group.variants.push(spelling);
+    else groups.push({ name: spelling, key, variants: [spelling] });
+  }
+
+  // Name each group after its most used normalised form, so a one-off typo never
+  // wins; among its spellings the most used, then the properly capitalised, is kept.
+  return groups.map((group) => {
+    const keyUses = new Map<string, number>();
+    group.variants.forEach((v) => keyUses.set(supplierNameKey(v), (keyUses.get(supplierNameKey(v)) || 0) + counts.get(v)!));
+    const [name] = [...group.variants].sort((a, b) =>
+      keyUses.get(supplierNameKey(b))! - keyUses.get(supplierNameKey(a))!
+      || counts.get(b)! - counts.get(a)!
+      || titleCaseScore(b) - titleCaseScore(a)
+      || a.length - b.length);
+    return { ...group, name, key: supplierNameKey(name) };
+  });
+}
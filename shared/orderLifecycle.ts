@@ -0,0 +1,149 @@
+import { OrderStatus, type OrderStatusType } from "./schema";
+
+// The single definition of the order lifecycle. The server enforces it through
+// server/orderLifecycle.ts and the client reads badge colours from it.
+
+export const ADDRESS_FIELDS = ["street", "unitNumber", "city", "province", "zipCode"] as const;
+
+export function hasDeliveryAddress(address?: Record<string, any> | null) {
+  return !!address && ADDRESS_FIELDS.some((f) => typeof address[f] === "string" && address[f].trim() !== "");
+}
+
+// Minimal shape the guards need; both Mongoose documents and IOrder satisfy it.
+export interface LifecycleOrder {
+  currentStatus: string;
+  totalAmount: number;
+  amountPaid?: number;
+  balanceDue?: number;
+  address?: any;
+  delivery?: any;
+  onAccount?: boolean;
+}
+
+export interface OrderStatusDefinition {
+  next: OrderStatusType[];
+  badgeClass: string;
+  // Dotted paths that must be set on the order before it may enter this status.
+  requiredFields?: string[];
+  // Returns a reason when the order may not enter this status from `from`.
+  guard?: (order: LifecycleOrder, from: OrderStatusType) => string | null;
+}
+
+const balanceDue = (order: LifecycleOrder) => order.balanceDue ?? Math.max(0, order.totalAmount - (order.amountPaid || 0));
+
+// Only orders sold on credit terms may leave before they are paid.
+const releaseGuard = (order: LifecycleOrder, from: OrderStatusType) =>
+  (from === OrderStatus.PENDING_PAYMENT || from === OrderStatus.PARTIALLY_PAID) && !order.onAccount
+    ? "Order must be paid before release"
+    : null;
+
+export const ORDER_LIFECYCLE: Record<OrderStatusType, OrderStatusDefinition> = {
+  [OrderStatus.PENDING_PAYMENT]: {
+    next: [OrderStatus.PARTIALLY_PAID, OrderStatus.PAID, OrderStatus.PARTIALLY_RELEASED, OrderStatus.RELEASED, OrderStatus.CANCELLED],
+    badgeClass: "bg-yellow-500 text-white border-transparent",
+  },
+  // Voiding a payment steps an unreleased order back to the matching payment status.
+  [OrderStatus.PARTIALLY_PAID]: {
+    next: [OrderStatus.PENDING_PAYMENT, OrderStatus.PARTIALLY_PAID, OrderStatus.PAID, OrderStatus.PARTIALLY_RELEASED, OrderStatus.RELEASED, OrderStatus.CANCELLED],
+    badgeClass: "bg-amber-600 text-white border-transparent",
+    guard: (order) => ((order.amountPaid || 0) > 0 && balanceDue(order) > 0 ? null : "A partial payment must leave a balance due"),
+  },
+  [OrderStatus.PAID]: {
+    next: [OrderStatus.PENDING_PAYMENT, OrderStatus.PARTIALLY_PAID, OrderStatus.PENDING_RELEASE, OrderStatus.PARTIALLY_RELEASED, OrderStatus.RELEASED, OrderStatus.CANCELLED],
+    badgeClass: "bg-blue-500 text-white border-transparent",
+    guard: (order) => (balanceDue(order) <= 0 ? null : "Order still has a balance due"),
+  },
+  [OrderStatus.PENDING_RELEASE]: {
+    next: [OrderStatus.PENDING_PAYMENT, OrderStatus.PARTIALLY_PAID, OrderStatus.PARTIALLY_RELEASED, OrderStatus.RELEASED, OrderStatus.CANCELLED],
+    badgeClass: "bg-orange-500 text-white border-transparent",
+  },
+  [OrderStatus.PARTIALLY_RELEASED]: {
+    next: [OrderStatus.PARTIALLY_RELEASED, OrderStatus.RELEASED, OrderStatus.CANCELLED],
+    badgeClass: "bg-cyan-600 text-white border-transparent",
+    guard: releaseGuard,
+  },
+  [OrderStatus.RELEASED]: {
+    next: [OrderStatus.IN_TRANSIT, OrderStatus.COMPLETED, OrderStatus.CANCELLED],
+    badgeClass: "bg-indigo-500 text-white border-transparent",
+    guard: releaseGuard,
+  },
+  [OrderStatus.IN_TRANSIT]: {
+    next: [OrderStatus.COMPLETED, OrderStatus.CANCELLED],
+    badgeClass: "bg-purple-500 text-white border-transparent",
+    requiredFields: ["delivery.driverName", "delivery.vehicle", "delivery.dispatchedAt"],
+    guard: (order) => (hasDeliveryAddress(order.address) ? null : "Order has no delivery address"),
+  },
+  [OrderStatus.COMPLETED]: {
+    next: [OrderStatus.CANCELLED],
+    badgeClass: "bg-green-600 text-white border-transparent",
+    guard: (order, from) => {
+      if (from === OrderStatus.IN_TRANSIT) return order.delivery?.receiverName ? null : "Receiver name is required to complete a delivery";
+      if (from === OrderStatus.RELEASED && hasDeliveryAddress(order.address)) return "Delivery orders must be dispatched before completion";
+      return null;
+    },
+  },
+  [OrderStatus.CANCELLED]: {
+    next: [],
+    badgeClass: "bg-red-600 text-white border-transparent",
+  },
+};
+
+export type OrderAction = "amend" | "pay" | "void" | "release" | "dispatch" | "deliver" | "return" | "cancel";
+
+// Operations that are gated on the current status without necessarily moving it.
+export const ORDER_ACTIONS: Record<OrderAction, OrderStatusType[]> = {
+  amend: [OrderStatus.PENDING_PAYMENT],
+  pay: [OrderStatus.PENDING_PAYMENT, OrderStatus.PARTIALLY_PAID],
+  // Payments can only be voided before any stock has left.
+  void: [OrderStatus.PARTIALLY_PAID, OrderStatus.PAID, OrderStatus.PENDING_RELEASE],
+  release: [OrderStatus.PAID, OrderStatus.PENDING_RELEASE, OrderStatus.PARTIALLY_RELEASED],
+  dispatch: [OrderStatus.RELEASED],
+  deliver: [OrderStatus.IN_TRANSIT],
+  return: [OrderStatus.COMPLETED],
+  cancel: Object.values(OrderStatus).filter((s) => s !== OrderStatus.CANCELLED),
+};
+
+export function allowedNextStatuses(status: string): OrderStatusType[] {
+  return ORDER_LIFECYCLE[status as OrderStatusType]?.next ?? [];
+}
+
+export function canTransition(from: string, to: OrderStatusType) {
+  return allowedNextStatuses(from).includes(to);
+}
+
+export function canPerform(status: string, action: OrderAction) {
+  return ORDER_ACTIONS[action].includes(status as OrderStatusType);
+}
+
+// Orders on credit terms can also be released while unpaid and paid after release.
+const ON_ACCOUNT_ACTIONS: Partial<Record<OrderAction, OrderStatusType[]>> = {
+  release: [OrderStatus.PENDING_PAYMENT, OrderStatus.PARTIALLY_PAID],
+  pay: [OrderStatus.PARTIALLY_RELEASED, OrderStatus.RELEASED, OrderStatus.IN_TRANSIT, OrderStatus.COMPLETED],
+};
+
+export function canPerformOn(order: LifecycleOrder, action: OrderAction) {
+  if (canPerform(order.currentStatus, action)) return true;
+  if (!order.onAccount || (action === "pay" && balanceDue(order) <= 0)) return false;
+  return ON_ACCOUNT_ACTIONS[action]?.includes(order.currentStatus as OrderStatusType) ?? false;
+}
+
+export function orderStatusBadgeClass(status: string) {
+  return ORDER_LIFECYCLE[status as OrderStatusType]?.badgeClass ?? "";
+}
+
+function readPath(source: any, path: string) {
+  return path.split(".").reduce((value, key) => (value == null ? undefined : value[key]), source);
+}
+
+// Null when `order` may move to `to`, otherwise the reason it may not.
+export function transitionError(order: LifecycleOrder, to: OrderStatusType): string | null {
+  const from = order.currentStatus as OrderStatusType;
+  if (!canTransition(from, to)) return `Cannot move order from ${from} to ${to}`;
+  const definition = ORDER_LIFECYCLE[to];
+  const missing = (definition.requiredFields || []).filter((f) => {
+    const value = readPath(order, f);
+    return value === undefined || value === null || value === "";
+  });
+  if (missing.length > 0) return `Cannot move order to ${to}: missing ${missing.join(", ")}`;
+  return definition.guard ? definition.guard(order, from) : null;
+}
@@ -0,0 +1,62 @@
+export const VAT_RATE = 0.12;
+
+export type DiscountType = "percent" | "fixed";
+export type VatTreatment = "exclusive" | "inclusive" | "exempt";
+
+export interface PricedLineInput {
+  quantity: number;
+  unitPrice: number;
+  discountType?: DiscountType;
+  discountValue?: number;
+}
+
+export interface OrderTotals {
+  lines: Array<{ grossAmount: number; discountAmount: number; lineTotal: number }>;
+  subtotal: number;
+  discountAmount: number;
+  vatableSales: number;
+  vatAmount: number;
+  totalAmount: number;
+}
+
+function round2(value: number) {
+  return Math.round(value * 100) / 100;
+}
+
+export function discountAmount(base: number, type: DiscountType | undefined, value: number | undefined) {
+  if (!value || value <= 0 || base <= 0) return 0;
+  const amount = type === "percent" ? (base * Math.min(value, 100)) / 100 : value;
+  return round2(Math.min(amount, base));
+}
+
+// Line discounts apply first, then the order discount on the discounted subtotal.
+// VAT-exclusive prices add 12% on top; VAT-inclusive prices already contain it.
+export function computeOrderTotals(
+  items: PricedLineInput[],
+  orderDiscount: { type?: DiscountType; value?: number } | undefined,
+  vatTreatment: VatTreatment,
+  vatRegistered: boolean
+): OrderTotals {
+  const lines = items.map((i) => {
+    const grossAmount = round2(i.quantity * i.unitPrice);
+    const lineDiscount = discountAmount(grossAmount, i.discountType, i.discountValue);
+    return { grossAmount, discountAmount: lineDiscount, lineTotal: round2(grossAmount - lineDiscount) };
+  });
+  const subtotal = round2(lines.reduce((sum, l) => sum + l.lineTotal, 0));
+  const orderDiscountAmount = discountAmount(subtotal, orderDiscount?.type, orderDiscount?.value);
+  const net = round2(subtotal - orderDiscountAmount);
+
+  let vatableSales = 0;
+  let vatAmount = 0;
+  let totalAmount = net;
+  if (vatRegistered && vatTreatment === "exclusive") {
+    vatableSales = net;
+    vatAmount = round2(net * VAT_RATE);
+    totalAmount = round2(net + vatAmount);
+  } else if (vatRegistered && vatTreatment === "inclusive") {
+    vatAmount = round2((net * VAT_RATE) / (1 + VAT_RATE));
+    vatableSales = round2(net - vatAmount);
+  }
+
+  return { lines, subtotal, discountAmount: orderDiscountAmount, vatableSales, vatAmount, totalAmount };
+}
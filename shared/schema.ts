@@ -5,18 +5,37 @@ export type UserRoleType = (typeof UserRole)[keyof typeof UserRole];
 
 export const OrderStatus = {
   PENDING_PAYMENT: "Pending Payment",
+  PARTIALLY_PAID: "Partially Paid",
   PAID: "Paid",
   PENDING_RELEASE: "Pending Release",
+  PARTIALLY_RELEASED: "Partially Released",
   RELEASED: "Released",
   IN_TRANSIT: "In Transit",
   COMPLETED: "Completed",
+  CANCELLED: "Cancelled",
 } as const;
 export type OrderStatusType = (typeof OrderStatus)[keyof typeof OrderStatus];
 
+export const PaymentMethod = {
+  CASH: "Cash",
+  GCASH: "GCash",
+  MAYA: "Maya",
+  BANK_TRANSFER: "Bank Transfer",
+  CHEQUE: "Cheque",
+  CARD: "Card",
+  // Draws on the customer's credit wallet.
+  STORE_CREDIT: "Store Credit",
+} as const;
+export type PaymentMethodType = (typeof PaymentMethod)[keyof typeof PaymentMethod];
+export const PAYMENT_METHODS = Object.values(PaymentMethod) as [PaymentMethodType, ...PaymentMethodType[]];
+// Money can be refunded through any channel except the wallet, which credit notes cover.
+export const REFUND_METHODS = PAYMENT_METHODS.filter((m) => m !== PaymentMethod.STORE_CREDIT) as [PaymentMethodType, ...PaymentMethodType[]];
+
 export const InventoryLogType = {
   RESTOCK: "restock",
   DEDUCTION: "deduction",
   ADJUSTMENT: "adjustment",
+  RETURN: "return",
 } as const;
 
 export const loginSchema = z.object({
@@ -35,26 +54,95 @@ export type CreateUserInput = z.infer<typeof createUserSchema>;
 export const createItemSchema = z.object({
   itemName: z.string().min(1, "Item name is required"),
   category: z.string().min(1, "Category is required"),
-  supplierName: z.string().optional().default(""),
+  supplierId: z.string().optional().default(""),
   unitPrice: z.number().min(0, "Unit price must be positive"),
+  costPrice: z.number().min(0, "Cost price must be non-negative").default(0),
   currentQuantity: z.number().int().min(0, "Quantity must be non-negative"),
   reorderLevel: z.number().int().min(0, "Reorder level must be non-negative"),
 });
 export type CreateItemInput = z.infer<typeof createItemSchema>;
 
+// Philippine TIN: 9 digits, optionally followed by a 3 to 5 digit branch code.
+const TIN_PATTERN = /^\d{3}-?\d{3}-?\d{3}(-?\d{3,5})?$/;
+
+export const supplierSchema = z.object({
+  name: z.string().trim().min(1, "Supplier name is required"),
+  contactPerson: z.string().trim().optional().default(""),
+  phone: z.string().trim().optional().default(""),
+  email: z.string().trim().optional().default("").refine((v) => !v || /^[^\s@]+@[^\s@]+$/.test(v), "Invalid email address"),
+  address: z.string().trim().optional().default(""),
+  tin: z.string().trim().optional().default("").refine((v) => !v || TIN_PATTERN.test(v), "TIN must look like 000-000-000 or 000-000-000-000"),
+  paymentTermsDays: z.number().int().min(0, "Payment terms must be non-negative").max(365, "Payment terms cannot exceed 365 days").default(0),
+  leadTimeDays: z.number().int().min(0, "Lead time must be non-negative").max(365, "Lead time cannot exceed 365 days").default(0),
+  notes: z.string().trim().optional().default(""),
+  isActive: z.boolean().optional().default(true),
+});
+export type SupplierInput = z.infer<typeof supplierSchema>;
+
+export const itemSuppliersSchema = z.object({
+  suppliers: z.array(z.object({
+    supplierId: z.string().min(1, "Supplier is required"),
+    supplierSku: z.string().trim().optional().default(""),
+    lastCost: z.number().min(0, "Cost must be non-negative").default(0),
+  })).refine((list) => new Set(list.map((s) => s.supplierId)).size === list.length, "Each supplier can only be listed once"),
+});
+export type ItemSuppliersInput = z.infer<typeof itemSuppliersSchema>;
+
+export const purchaseOrderSchema = z.object({
+  supplierId: z.string().min(1, "Supplier is required"),
+  items: z.array(z.object({
+    itemId: z.string().min(1, "Item is required"),
+    quantity: z.number().int().min(1, "Quantity must be at least 1"),
+    unitCost: z.number().min(0, "Cost must be non-negative"),
+  })).min(1, "At least one item is required")
+    .refine((list) => new Set(list.map((i) => i.itemId)).size === list.length, "Each item can only be listed once"),
+  expectedDate: z.string().optional().default(""),
+  notes: z.string().trim().optional().default(""),
+});
+export type PurchaseOrderInput = z.infer<typeof purchaseOrderSchema>;
+
+export const receivePurchaseOrderSchema = z.object({
+  reference: z.string().trim().optional().default(""),
+  lines: z.array(z.object({
+    itemId: z.string().min(1),
+    quantity: z.number().int().min(0, "Quantity must be non-negative"),
+    unitCost: z.number().min(0, "Cost must be non-negative"),
+  })).refine((lines) => lines.some((l) => l.quantity > 0), "Enter a received quantity for at least one item")
+    .refine((lines) => new Set(lines.map((l) => l.itemId)).size === lines.length, "Each item can only be listed once"),
+});
+export type ReceivePurchaseOrderInput = z.infer<typeof receivePurchaseOrderSchema>;
+
 export const createCustomerSchema = z.object({
   name: z.string().min(1, "Customer name is required"),
   email: z.string().optional().default(""),
   phone: z.string().optional().default(""),
   address: z.string().optional().default(""),
+  vatTreatment: z.enum(["exclusive", "inclusive", "exempt"]).optional().default("exclusive"),
 });
 export type CreateCustomerInput = z.infer<typeof createCustomerSchema>;
 
+// Zero payment terms means the customer pays before release.
+export const updateCustomerTermsSchema = z.object({
+  paymentTermsDays: z.number().int().min(0, "Payment terms must be non-negative").max(365, "Payment terms cannot exceed 365 days"),
+  creditLimit: z.number().min(0, "Credit limit must be non-negative"),
+});
+export type UpdateCustomerTermsInput = z.infer<typeof updateCustomerTermsSchema>;
+
+export const discountTypeSchema = z.enum(["percent", "fixed"]);
+export const vatTreatmentSchema = z.enum(["exclusive", "inclusive", "exempt"]);
+
 export const createOrderItemSchema = z.object({
   itemId: z.string().min(1),
   itemName: z.string().min(1),
   quantity: z.number().int().min(1),
   unitPrice: z.number().min(0),
+  discountType: discountTypeSchema.optional(),
+  discountValue: z.number().min(0).optional().default(0),
+});
+
+export const orderDiscountSchema = z.object({
+  type: discountTypeSchema,
+  value: z.number().min(0),
 });
 
 export const orderAddressSchema = z.object({
@@ -72,39 +160,272 @@ export const createOrderSchema = z.object({
   sourceChannel: z.enum(["phone", "email", "message", "walk-in"]).default("walk-in"),
   notes: z.string().optional().default(""),
   address: orderAddressSchema.optional(),
+  discount: orderDiscountSchema.optional(),
+  vatTreatment: vatTreatmentSchema.optional(),
+  acknowledgeShortage: z.boolean().optional().default(false),
+  // Sell on the customer's credit terms: released before payment, billed to Accounts Receivable.
+  onAccount: z.boolean().optional().default(false),
+  // Admin reason for letting an on-account order exceed the customer's credit limit.
+  creditOverrideReason: z.string().trim().optional().default(""),
 });
 export type CreateOrderInput = z.infer<typeof createOrderSchema>;
 
+export const createQuotationSchema = z.object({
+  customerId: z.string().optional().default(""),
+  customerName: z.string().min(1, "Customer name is required"),
+  items: z.array(createOrderItemSchema).min(1, "At least one item is required"),
+  sourceChannel: z.enum(["phone", "email", "message", "walk-in"]).default("walk-in"),
+  notes: z.string().optional().default(""),
+  address: orderAddressSchema.optional(),
+  discount: orderDiscountSchema.optional(),
+  vatTreatment: vatTreatmentSchema.optional(),
+  validUntil: z.string().min(1, "Validity date is required"),
+});
+export type CreateQuotationInput = z.infer<typeof createQuotationSchema>;
+
+export const acceptQuotationSchema = z.object({
+  acknowledgeShortage: z.boolean().optional().default(false),
+});
+export type AcceptQuotationInput = z.infer<typeof acceptQuotationSchema>;
+
+export const amendOrderSchema = z.object({
+  items: z.array(createOrderItemSchema).min(1, "At least one item is required"),
+  address: orderAddressSchema.nullable().optional(),
+  discount: orderDiscountSchema.nullable().optional(),
+  vatTreatment: vatTreatmentSchema.optional(),
+  notes: z.string().optional(),
+  reason: z.string().optional().default(""),
+  acknowledgeShortage: z.boolean().optional().default(false),
+});
+export type AmendOrderInput = z.infer<typeof amendOrderSchema>;
+
+export type PaymentDetailField = "accountNumber" | "referenceNumber" | "bankName" | "chequeNumber" | "chequeDate" | "cardLast4" | "approvalCode";
+
+// The details each payment method must carry. Fields not listed for a method are dropped.
+export const PAYMENT_METHOD_FIELDS: Record<PaymentMethodType, PaymentDetailField[]> = {
+  [PaymentMethod.CASH]: [],
+  [PaymentMethod.GCASH]: ["accountNumber", "referenceNumber"],
+  [PaymentMethod.MAYA]: ["accountNumber", "referenceNumber"],
+  [PaymentMethod.BANK_TRANSFER]: ["bankName", "referenceNumber"],
+  [PaymentMethod.CHEQUE]: ["bankName", "chequeNumber", "chequeDate"],
+  [PaymentMethod.CARD]: ["cardLast4", "approvalCode"],
+  [PaymentMethod.STORE_CREDIT]: [],
+};
+
+const STALE_CHEQUE_DAYS = 180;
+
+function paymentDetailError(method: PaymentMethodType, field: PaymentDetailField, value: string): string | null {
+  const isWallet = method === PaymentMethod.GCASH || method === PaymentMethod.MAYA;
+  switch (field) {
+    case "accountNumber":
+      return /^(09|\+639)\d{9}$/.test(value) ? null : `${method} number must be a mobile number like 09XXXXXXXXX`;
+    case "referenceNumber":
+      if (isWallet) return /^[A-Za-z0-9]{8,20}$/.test(value) ? null : "Reference number must be 8 to 20 letters or digits";
+      return value.length >= 4 && value.length <= 40 ? null : "Reference number must be 4 to 40 characters";
+    case "bankName":
+      return value ? null : "Bank name is required";
+    case "chequeNumber":
+      return /^\d{6,12}$/.test(value) ? null : "Cheque number must be 6 to 12 digits";
+    case "chequeDate": {
+      const date = new Date(value);
+      if (!value || isNaN(date.getTime())) return "Cheque date is required";
+      return Date.now() - date.getTime() > STALE_CHEQUE_DAYS * 86400000 ? "Cheque is stale (dated more than 180 days ago)" : null;
+    }
+    case "cardLast4":
+      return /^\d{4}$/.test(value) ? null : "Enter the last 4 digits of the card";
+    case "approvalCode":
+      return /^[A-Za-z0-9]{4,12}$/.test(value) ? null : "Approval code must be 4 to 12 letters or digits";
+  }
+}
+
 export const logPaymentSchema = z.object({
   orderId: z.string().min(1),
-  paymentMethod: z.string().default("GCash"),
-  gcashNumber: z.string().min(1, "GCash number is required"),
-  gcashReferenceNumber: z.string().min(8, "Reference number must be at least 8 characters").max(20),
+  paymentMethod: z.enum(PAYMENT_METHODS).default("GCash"),
+  accountNumber: z.string().trim().optional().default(""),
+  referenceNumber: z.string().trim().optional().default(""),
+  bankName: z.string().trim().optional().default(""),
+  chequeNumber: z.string().trim().optional().default(""),
+  chequeDate: z.string().optional().default(""),
+  cardLast4: z.string().trim().optional().default(""),
+  approvalCode: z.string().trim().optional().default(""),
   amountPaid: z.number().min(0.01, "Amount must be greater than 0"),
   paymentDate: z.string().optional(),
   proofNote: z.string().optional().default(""),
+}).superRefine((data, ctx) => {
+  for (const field of PAYMENT_METHOD_FIELDS[data.paymentMethod]) {
+    const message = paymentDetailError(data.paymentMethod, field, data[field] || "");
+    if (message) ctx.addIssue({ code: z.ZodIssueCode.custom, path: [field], message });
+  }
 });
 export type LogPaymentInput = z.infer<typeof logPaymentSchema>;
 
+// What identifies a payment to a person: the wallet/bank reference, cheque number or card approval code.
+export function paymentReference(payment: Partial<Pick<IBillingPayment, "referenceNumber" | "chequeNumber" | "approvalCode">>) {
+  return payment.referenceNumber || payment.chequeNumber || payment.approvalCode || "";
+}
+
+export const requestPaymentVoidSchema = z.object({
+  reason: z.string().trim().min(1, "Void reason is required"),
+});
+export type RequestPaymentVoidInput = z.infer<typeof requestPaymentVoidSchema>;
+
+export const reviewPaymentVoidSchema = z.object({
+  action: z.enum(["approve", "reject"]),
+  note: z.string().trim().optional().default(""),
+});
+export type ReviewPaymentVoidInput = z.infer<typeof reviewPaymentVoidSchema>;
+
+// Query strings arrive as text; blanks mean "no filter".
+const queryText = z.preprocess((v) => (typeof v === "string" && v.trim() === "" ? undefined : v), z.string().trim().optional());
+const queryAmount = z.preprocess((v) => (v === "" || v === undefined ? undefined : v), z.coerce.number().min(0).optional());
+
+export const BILLING_SORT_FIELDS = ["createdAt", "paymentDate", "amountPaid"] as const;
+
+export const billingQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(200).default(20),
+  // ISO timestamps; the client turns its local day boundaries into these.
+  from: queryText.refine((v) => !v || !isNaN(Date.parse(v)), "Invalid start date"),
+  to: queryText.refine((v) => !v || !isNaN(Date.parse(v)), "Invalid end date"),
+  minAmount: queryAmount,
+  maxAmount: queryAmount,
+  paymentMethod: z.preprocess((v) => (v === "" ? undefined : v), z.enum(PAYMENT_METHODS).optional()),
+  loggedBy: queryText,
+  // Tracking number prefix.
+  trackingNumber: queryText,
+  // GCash / Maya number, matched anywhere in the number.
+  accountNumber: queryText,
+  // Prefix of the wallet/bank reference, cheque number or card approval code.
+  reference: queryText,
+  sortBy: z.enum(BILLING_SORT_FIELDS).default("createdAt"),
+  sortDir: z.enum(["asc", "desc"]).default("desc"),
+}).refine((q) => q.minAmount === undefined || q.maxAmount === undefined || q.minAmount <= q.maxAmount, {
+  path: ["maxAmount"],
+  message: "Maximum amount must not be below the minimum",
+});
+export type BillingQuery = z.infer<typeof billingQuerySchema>;
+
+// Serialises a billing query for GET /api/billing, leaving out unset filters.
+export function billingQueryString(query: Partial<BillingQuery>) {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(query)) {
+    if (value !== undefined && value !== null && value !== "") params.set(key, String(value));
+  }
+  return params.toString();
+}
+
+export const PAYMENT_VERIFICATION_STATUSES = ["none", "pending", "verified", "flagged"] as const;
+export type PaymentVerificationStatus = (typeof PAYMENT_VERIFICATION_STATUSES)[number];
+
+export const reviewPaymentVerificationSchema = z.object({
+  action: z.enum(["verify", "flag"]),
+  note: z.string().trim().optional().default(""),
+}).refine((data) => data.action !== "flag" || data.note.length > 0, { path: ["note"], message: "Say why the payment is flagged" });
+export type ReviewPaymentVerificationInput = z.infer<typeof reviewPaymentVerificationSchema>;
+
+export const openShiftSchema = z.object({
+  openingFloat: z.number().min(0, "Opening float must be non-negative"),
+  note: z.string().trim().optional().default(""),
+});
+export type OpenShiftInput = z.infer<typeof openShiftSchema>;
+
+export const closeShiftSchema = z.object({
+  counts: z.array(z.object({
+    paymentMethod: z.enum(PAYMENT_METHODS),
+    counted: z.number().min(0, "Counted amount must be non-negative"),
+  })),
+  note: z.string().trim().optional().default(""),
+});
+export type CloseShiftInput = z.infer<typeof closeShiftSchema>;
+
+export const releaseOrderSchema = z.object({
+  lines: z.array(z.object({
+    itemId: z.string().min(1),
+    quantity: z.number().int().min(0),
+  })).optional(),
+});
+export type ReleaseOrderInput = z.infer<typeof releaseOrderSchema>;
+
+export const cancelOrderSchema = z.object({
+  reason: z.string().trim().min(1, "Cancellation reason is required"),
+});
+export type CancelOrderInput = z.infer<typeof cancelOrderSchema>;
+
+export const dispatchOrderSchema = z.object({
+  driverName: z.string().trim().min(1, "Driver name is required"),
+  vehicle: z.string().trim().min(1, "Vehicle is required"),
+  dispatchedAt: z.string().optional(),
+});
+export type DispatchOrderInput = z.infer<typeof dispatchOrderSchema>;
+
+export const confirmDeliverySchema = z.object({
+  receiverName: z.string().trim().min(1, "Receiver name is required"),
+});
+export type ConfirmDeliveryInput = z.infer<typeof confirmDeliverySchema>;
+
+export const createReturnSchema = z.object({
+  lines: z.array(z.object({
+    itemId: z.string().min(1),
+    quantity: z.number().int().min(1),
+    condition: z.enum(["resaleable", "damaged", "defective"]),
+  })).min(1, "At least one item must be returned"),
+  reason: z.string().trim().min(1, "Return reason is required"),
+  resolution: z.enum(["refund", "credit_note"]),
+  refundMethod: z.enum(REFUND_METHODS).optional().default("Cash"),
+  refundReference: z.string().optional().default(""),
+});
+export type CreateReturnInput = z.infer<typeof createReturnSchema>;
+
 export const inventoryLogSchema = z.object({
   itemId: z.string().min(1),
   type: z.enum(["restock", "deduction", "adjustment"]),
   quantity: z.number().int(),
   reason: z.string().optional().default(""),
+  // Restocks only; the item's cost price is used when left out.
+  unitCost: z.number().min(0, "Cost must be non-negative").optional(),
 });
 export type InventoryLogInput = z.infer<typeof inventoryLogSchema>;
 
+export const inventoryCostReviewSchema = z.object({
+  items: z.array(z.object({
+    itemId: z.string().min(1),
+    unitCost: z.number().min(0, "Cost must be non-negative"),
+  })).min(1, "Enter a cost for at least one item"),
+});
+export type InventoryCostReviewInput = z.infer<typeof inventoryCostReviewSchema>;
+
 export const settingsSchema = z.object({
   companyName: z.string().optional(),
+  companyAddress: z.string().optional(),
+  companyTin: z.string().optional(),
+  companyContact: z.string().optional(),
   theme: z.enum(["light", "dark"]).optional(),
   reorderThreshold: z.number().int().min(0).optional(),
   lowStockThreshold: z.number().int().min(0).optional(),
+  reservationExpiryHours: z.number().int().min(1).optional(),
+  autoFulfillBackorders: z.boolean().optional(),
+  vatRegistered: z.boolean().optional(),
   font: z.string().optional().default("Inter"),
   colorTheme: z.string().optional().default("blue"),
   gradient: z.string().optional().default("none"),
 });
 export type SettingsInput = z.infer<typeof settingsSchema>;
 
+// Statements that carry references a payment can be matched on.
+export const RECONCILIATION_SOURCES = ["GCash", "Maya", "Bank Transfer"] as const;
+
+export const importReconciliationSchema = z.object({
+  source: z.enum(RECONCILIATION_SOURCES),
+});
+export type ImportReconciliationInput = z.infer<typeof importReconciliationSchema>;
+
+export const resolveReconciliationLineSchema = z.object({
+  resolution: z.enum(["linked", "explained"]),
+  paymentId: z.string().optional(),
+  note: z.string().trim().min(1, "A note explaining the difference is required"),
+}).refine((data) => data.resolution !== "linked" || !!data.paymentId, { message: "Choose the payment to link", path: ["paymentId"] });
+export type ResolveReconciliationLineInput = z.infer<typeof resolveReconciliationLineSchema>;
+
 export const ledgerEntrySchema = z.object({
   date: z.string(),
   accountName: z.string().min(1),
@@ -126,35 +447,149 @@ export interface IUser {
   lastLogin?: string | null;
 }
 
+export interface IItemSupplier {
+  supplierId: string;
+  supplierSku: string;
+  lastCost: number;
+}
+
 export interface IItem {
   _id: string;
   itemName: string;
   category: string;
-  supplierName: string;
+  suppliers?: IItemSupplier[];
   unitPrice: number;
+  costPrice?: number;
   currentQuantity: number;
+  reservedQuantity?: number;
   reorderLevel: number;
   barcode?: string;
   createdAt: string;
   updatedAt: string;
 }
 
+export interface ISupplier {
+  _id: string;
+  name: string;
+  contactPerson: string;
+  phone: string;
+  email: string;
+  address: string;
+  tin: string;
+  paymentTermsDays: number;
+  leadTimeDays: number;
+  notes: string;
+  isActive: boolean;
+  itemCount?: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface IInventoryCostReviewItem {
+  _id: string;
+  itemName: string;
+  category: string;
+  unitPrice: number;
+  costPrice: number;
+  estimatedBatches: number;
+  estimatedQuantity: number;
+}
+
+export const PurchaseOrderStatus = {
+  DRAFT: "draft",
+  SENT: "sent",
+  PARTIALLY_RECEIVED: "partially_received",
+  RECEIVED: "received",
+} as const;
+export type PurchaseOrderStatusType = (typeof PurchaseOrderStatus)[keyof typeof PurchaseOrderStatus];
+
+export interface IPurchaseOrderLine {
+  itemId: string;
+  itemName: string;
+  supplierSku: string;
+  quantity: number;
+  receivedQuantity: number;
+  unitCost: number;
+}
+
+export interface IPurchaseReceipt {
+  _id: string;
+  reference: string;
+  lines: Array<{ itemId: string; itemName: string; quantity: number; unitCost: number }>;
+  amount: number;
+  receivedBy: string;
+  receivedAt: string;
+}
+
+export interface IPurchaseOrder {
+  _id: string;
+  poNumber: string;
+  supplierId: string;
+  supplierName: string;
+  items: IPurchaseOrderLine[];
+  totalAmount: number;
+  receivedAmount: number;
+  status: PurchaseOrderStatusType;
+  expectedDate?: string;
+  notes: string;
+  receipts: IPurchaseReceipt[];
+  createdBy: string;
+  sentAt?: string;
+  receivedAt?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
 export interface ICustomer {
   _id: string;
   name: string;
   email: string;
   phone: string;
   address: string;
+  vatTreatment?: "exclusive" | "inclusive" | "exempt";
+  creditBalance?: number;
+  paymentTermsDays?: number;
+  creditLimit?: number;
   createdAt: string;
   updatedAt: string;
 }
 
+export type CustomerCreditType = "overpayment" | "applied" | "void" | "cancellation";
+
+export interface ICustomerCreditEntry {
+  _id: string;
+  customerId: string;
+  type: CustomerCreditType;
+  // Positive when credit is added, negative when it is used.
+  amount: number;
+  balanceAfter: number;
+  orderId?: string;
+  trackingNumber?: string;
+  paymentId?: string;
+  note: string;
+  actor: string;
+  createdAt: string;
+}
+
 export interface IOrderItem {
   itemId: string;
   itemName: string;
   quantity: number;
   unitPrice: number;
+  discountType?: "percent" | "fixed";
+  discountValue?: number;
+  discountAmount?: number;
   lineTotal: number;
+  reservedQuantity?: number;
+  releasedQuantity?: number;
+  returnedQuantity?: number;
+}
+
+export interface IReleasedBatch {
+  itemId: string;
+  batchId: string;
+  quantity: number;
+  unitCost: number;
 }
 
 export interface IStatusEntry {
@@ -164,6 +599,13 @@ export interface IStatusEntry {
   note: string;
 }
 
+export interface IPublicTracking {
+  trackingNumber: string;
+  currentStatus: OrderStatusType;
+  createdAt: string;
+  statusHistory: Array<{ status: OrderStatusType; timestamp: string }>;
+}
+
 export interface IOrderAddress {
   street: string;
   unitNumber: string;
@@ -172,32 +614,272 @@ export interface IOrderAddress {
   zipCode: string;
 }
 
+export interface IAmendmentChange {
+  field: string;
+  before: any;
+  after: any;
+}
+
+export interface IOrderAmendment {
+  timestamp: string;
+  actor: string;
+  reason: string;
+  changes: IAmendmentChange[];
+}
+
+export interface IOrderDelivery {
+  driverName: string;
+  vehicle: string;
+  dispatchedAt: string;
+  dispatchedBy: string;
+  receiverName?: string;
+  deliveredAt?: string;
+  proofFilename?: string;
+  confirmedBy?: string;
+}
+
 export interface IOrder {
   _id: string;
   trackingNumber: string;
   customerId: string;
   customerName: string;
   items: IOrderItem[];
+  subtotal?: number;
+  discountType?: "percent" | "fixed";
+  discountValue?: number;
+  discountAmount?: number;
+  vatTreatment?: "exclusive" | "inclusive" | "exempt";
+  vatableSales?: number;
+  vatAmount?: number;
   totalAmount: number;
   sourceChannel: string;
   notes: string;
   currentStatus: OrderStatusType;
   statusHistory: IStatusEntry[];
   address?: IOrderAddress;
+  releasedBatches?: IReleasedBatch[];
+  amountPaid?: number;
+  balanceDue?: number;
+  returnCredit?: number;
+  delivery?: IOrderDelivery;
+  amendments?: IOrderAmendment[];
+  quotationId?: string;
+  quoteNumber?: string;
+  invoiceNumber?: string;
+  onAccount?: boolean;
+  paymentTermsDays?: number;
+  chargedAt?: string;
+  dueDate?: string;
+  creditOverride?: { by: string; reason: string; at: string };
   createdAt: string;
   updatedAt: string;
 }
 
+export const QuotationStatus = {
+  DRAFT: "draft",
+  SENT: "sent",
+  ACCEPTED: "accepted",
+  EXPIRED: "expired",
+} as const;
+export type QuotationStatusType = (typeof QuotationStatus)[keyof typeof QuotationStatus];
+
+export interface IQuotation {
+  _id: string;
+  quoteNumber: string;
+  customerId?: string;
+  customerName: string;
+  items: IOrderItem[];
+  subtotal: number;
+  discountType?: "percent" | "fixed";
+  discountValue?: number;
+  discountAmount: number;
+  vatTreatment: "exclusive" | "inclusive" | "exempt";
+  vatableSales: number;
+  vatAmount: number;
+  totalAmount: number;
+  sourceChannel: string;
+  notes: string;
+  address?: IOrderAddress;
+  validUntil: string;
+  status: QuotationStatusType;
+  orderId?: string;
+  trackingNumber?: string;
+  createdBy: string;
+  sentAt?: string;
+  acceptedAt?: string;
+  acceptedBy?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface IBackorder {
+  orderId: string;
+  trackingNumber: string;
+  customerName: string;
+  itemId: string;
+  itemName: string;
+  ordered: number;
+  released: number;
+  outstanding: number;
+  available: number;
+  orderedAt: string;
+}
+
 export interface IBillingPayment {
   _id: string;
   orderId: string;
-  paymentMethod: string;
-  gcashNumber: string;
-  gcashReferenceNumber: string;
+  paymentMethod: PaymentMethodType;
+  accountNumber?: string;
+  referenceNumber?: string;
+  bankName?: string;
+  chequeNumber?: string;
+  chequeDate?: string;
+  cardLast4?: string;
+  approvalCode?: string;
   amountPaid: number;
   paymentDate: string;
   proofNote: string;
   loggedBy: string;
+  balanceAfter?: number;
+  receiptNumber?: string;
+  creditedAmount?: number;
+  voided?: boolean;
+  voidReason?: string;
+  voidedBy?: string;
+  voidedAt?: string;
+  shiftId?: string;
+  proofFilename?: string;
+  verificationStatus?: PaymentVerificationStatus;
+  verificationNote?: string;
+  verifiedBy?: string;
+  verifiedAt?: string;
+  trackingNumber?: string;
+  createdAt: string;
+}
+
+export interface IBillingSearchTotals {
+  // Voided payments are counted but left out of the amounts.
+  count: number;
+  voidedCount: number;
+  amountPaid: number;
+  creditedAmount: number;
+}
+
+export interface IBillingSearchResult {
+  payments: IBillingPayment[];
+  total: number;
+  totals: IBillingSearchTotals;
+}
+
+export interface IShiftCount {
+  paymentMethod: PaymentMethodType;
+  paymentCount: number;
+  expected: number;
+  counted: number;
+  variance: number;
+}
+
+export interface ICashierShift {
+  _id: string;
+  shiftNumber: string;
+  cashier: string;
+  openingFloat: number;
+  openingNote: string;
+  openedAt: string;
+  lastPaymentAt?: string;
+  status: "open" | "closed";
+  counts: IShiftCount[];
+  expectedTotal: number;
+  countedTotal: number;
+  variance: number;
+  closingNote: string;
+  closedBy?: string;
+  closedAt?: string;
+}
+
+export interface IPaymentVoidRequest {
+  _id: string;
+  paymentId: string;
+  orderId: string;
+  reason: string;
+  requestedBy: string;
+  status: "pending" | "approved" | "rejected";
+  reviewedBy?: string;
+  reviewNote?: string;
+  reviewedAt?: string;
+  createdAt: string;
+  payment?: IBillingPayment;
+  trackingNumber?: string;
+}
+
+export interface IReturnLine {
+  itemId: string;
+  itemName: string;
+  quantity: number;
+  unitPrice: number;
+  unitCost: number;
+  condition: "resaleable" | "damaged" | "defective";
+  restocked: boolean;
+}
+
+export interface IOrderReturn {
+  _id: string;
+  rmaNumber: string;
+  orderId: string;
+  trackingNumber: string;
+  customerName: string;
+  lines: IReturnLine[];
+  reason: string;
+  resolution: "refund" | "credit_note";
+  amount: number;
+  vatAmount?: number;
+  receivableCredited?: number;
+  costRestocked: number;
+  refundMethod: string;
+  refundReference: string;
+  creditNoteNumber: string;
+  processedBy: string;
+  createdAt: string;
+}
+
+export type ReconciliationKind = "matched" | "statement_only" | "system_only" | "mismatch";
+
+export interface IReconciliationLine {
+  _id: string;
+  kind: ReconciliationKind;
+  issues: Array<"amount" | "date" | "reference">;
+  statementRow?: number;
+  statementDate?: string;
+  statementReference?: string;
+  statementAmount?: number;
+  statementDescription?: string;
+  paymentId?: string;
+  orderId?: string;
+  paymentReference?: string;
+  paymentAmount?: number;
+  paymentDate?: string;
+  trackingNumber?: string;
+  resolution: "" | "linked" | "explained";
+  resolutionNote: string;
+  resolvedBy?: string;
+  resolvedAt?: string;
+}
+
+export interface IReconciliation {
+  _id: string;
+  source: string;
+  fileName: string;
+  periodStart: string;
+  periodEnd: string;
+  statementTotal: number;
+  systemTotal: number;
+  skippedRows: number;
+  lines: IReconciliationLine[];
+  status: "open" | "completed";
+  summary?: { matched: number; statementOnly: number; systemOnly: number; mismatch: number; unresolved: number };
+  importedBy: string;
+  completedBy?: string;
+  completedAt?: string;
   createdAt: string;
 }
 
@@ -230,6 +912,7 @@ export interface IGeneralLedgerEntry {
   referenceType: string;
   referenceId: string;
   isReversing: boolean;
+  reversed?: boolean;
   createdAt: string;
 }
 
@@ -245,9 +928,15 @@ export interface ISystemLog {
 export interface ISettings {
   _id: string;
   companyName: string;
+  companyAddress?: string;
+  companyTin?: string;
+  companyContact?: string;
   theme: string;
   reorderThreshold: number;
   lowStockThreshold: number;
+  reservationExpiryHours?: number;
+  autoFulfillBackorders?: boolean;
+  vatRegistered?: boolean;
   font: string;
   colorTheme: string;
   gradient: string;
@@ -265,4 +954,36 @@ export interface DashboardStats {
   criticalStock: number;
   lowStock: number;
   totalInventoryValue: number;
+  outstandingReceivables: number;
+}
+
+export const AR_AGING_BUCKETS = ["current", "1-30", "31-60", "61-90", "90+"] as const;
+export type ArAgingBucket = (typeof AR_AGING_BUCKETS)[number];
+
+export interface IArAgingInvoice {
+  orderId: string;
+  trackingNumber: string;
+  invoiceNumber?: string;
+  invoiceDate: string;
+  dueDate: string;
+  totalAmount: number;
+  balanceDue: number;
+  daysOverdue: number;
+  bucket: ArAgingBucket;
+}
+
+export interface IArAgingCustomer {
+  customerId?: string;
+  customerName: string;
+  paymentTermsDays: number;
+  creditLimit: number;
+  buckets: Record<ArAgingBucket, number>;
+  total: number;
+  invoices: IArAgingInvoice[];
+}
+
+export interface IArAgingReport {
+  asOf: string;
+  totals: Record<ArAgingBucket, number> & { total: number };
+  customers: IArAgingCustomer[];
 }